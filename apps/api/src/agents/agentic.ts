@@ -1,18 +1,65 @@
-import OpenAI from "openai";
 import { execFile } from "child_process";
 import { promises as fs } from "fs";
-import os from "os";
 import path from "path";
+import type { AgentRun, AgentRunPhase, Contract, DependencyType, Prisma, Room, Task, TaskDependency } from "@prisma/client";
+import type { AcceptanceCriterionResult } from "@devroom/shared";
 import { prisma } from "../db";
 import { emitEvent } from "../websocket";
-import { commitAndMaybePushRoomRepo, ensureRoomRepoWorkspace } from "../services/roomRepo";
+import { emitSecurityAlert } from "../security";
+import {
+  acquireWorkerWorktree,
+  assertWorktreeGitLink,
+  checkoutTaskBranch,
+  commitAndMaybePushRoomRepo,
+  dropTaskBranchCommit,
+  ensureRoomRepoWorkspace,
+  publishTaskBranch,
+  releaseTaskBranch,
+  releaseWorkerWorktree,
+  taskBranchName,
+} from "../services/roomRepo";
+import { openTaskMergeRequest } from "../services/mergeRequests";
+import { completeChat, isLlmConfigured, type LlmMessage } from "../services/llm";
+import { resumeAgentRun, startAgentRun, type AgentRunRecorder, type ApprovalDecision } from "../services/agentRuns";
+import { CONTRACTS_DIR, isContractArtifactPath } from "../services/contractArtifacts";
+import { checkContractConformance, type ContractConformanceResult } from "../services/contractConformance";
+import { codeIndexFor, fileOutline, searchCode, type CodeIndex, type CodeSearchHit, type FileOutline } from "../services/codeIndex";
+import { runSandboxed, SANDBOX_HOME_DIR, type SandboxPurpose, type SandboxViolation } from "../services/sandbox";
+import { DEVROOM_CONFIG_FILE, isPlannedCommand, resolveVerificationPlan, type VerificationPlan } from "../services/verificationProfiles";
+import {
+  parseAcceptanceCriteria,
+  mentionsCriterion,
+  outputShowsNoTestsRan,
+  parseCriterionMappings,
+  summarizeCriteria,
+  type AcceptanceCriterion,
+  type CriterionTestMapping,
+} from "../services/acceptanceTests";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const AGENTIC_MODEL = process.env.OPENAI_MODEL?.trim() || "gpt-4o";
 const executionLocks = new Set<string>();
-const TARGET_FILE_LIMIT = 6;
-const TARGET_FILE_CREATION_LIMIT = 2;
+const AGENT_MAX_STEPS = Number(process.env.AGENT_MAX_STEPS) || 40;
+const AGENT_TOKEN_BUDGET = Number(process.env.AGENT_TOKEN_BUDGET) || 250000;
+const EDITED_FILE_LIMIT = 12;
+const CREATED_FILE_LIMIT = 4;
 const FILE_CONTENT_PREVIEW_LIMIT = 20000;
+const APPROVAL_DIFF_PREVIEW_LIMIT = 6000;
+const MAX_REPORTED_VIOLATIONS = 10;
+const READ_FILE_LINE_LIMIT = 400;
+const LIST_FILES_LIMIT = 400;
+const GREP_MATCH_LIMIT = 80;
+const BRIEF_FILE_LIMIT = 300;
+const BRIEF_HIT_LIMIT = 6;
+const BRIEF_OUTLINE_LIMIT = 6;
+const LAYOUT_ENTRY_LIMIT = 80;
+const OUTPUT_TAIL_LIMIT = 2000;
+const VERIFICATION_TIMEOUT_MS = 180000;
+const FALLBACK_VERIFICATION_LIMIT = 2;
+const CRITERION_COMMAND_LIMIT = 10;
+const INSTALL_TIMEOUT_MS = 600000;
+const FAILURE_OUTPUT_CHUNK = 6000;
+// Turns of the conversation (a call plus its result) kept in full; older ones are trimmed.
+const FULL_OBSERVATION_TURNS = 8;
+const STALE_OBSERVATION_LIMIT = 400;
 
 const EDITABLE_FILE_EXTENSIONS = new Set([
   ".ts",
@@ -68,21 +115,6 @@ const ALLOWED_EXTENSIONLESS_FILES = new Set([
   ".env.example",
 ]);
 
-type ExecutionPlan = {
-  plan: string[];
-  targetFiles: string[];
-};
-
-type PatchPlan = {
-  patch: string;
-  fileEdits: Array<{
-    path: string;
-    content: string;
-  }>;
-  verificationCommands: string[];
-  progressSummary: string;
-};
-
 function runShell(cwd: string, cmd: string, timeoutMs = 120000): Promise<{ stdout: string; stderr: string }> {
   return new Promise((resolve, reject) => {
     execFile(
@@ -91,7 +123,7 @@ function runShell(cwd: string, cmd: string, timeoutMs = 120000): Promise<{ stdou
       { cwd, timeout: timeoutMs, maxBuffer: 1024 * 1024 * 10 },
       (error, stdout, stderr) => {
         if (error) {
-          reject(new Error(`${cmd}\n${stderr || stdout || error.message}`));
+          reject(new Error(`${cmd}\n${[stdout, stderr].filter(Boolean).join("\n") || error.message}`));
           return;
         }
         resolve({ stdout: stdout ?? "", stderr: stderr ?? "" });
@@ -119,7 +151,8 @@ function sanitizeFileList(filesRaw: string): string[] {
     .map((f) => f.trim())
     .filter(Boolean)
     .filter((f) => !blockedDirs.some((dir) => f.startsWith(dir)))
-    .filter((f) => isEditableTargetPath(f))
+    // Contract artifacts stay visible so the plan can reference them, but are never editable.
+    .filter((f) => isEditableTargetPath(f) || isContractArtifactPath(f))
     .slice(0, 1000);
 }
 
@@ -136,6 +169,9 @@ function normalizeRelPath(p: string) {
 function isEditableTargetPath(relPath: string): boolean {
   if (!isSafeRelativePath(relPath)) return false;
   const normalized = normalizeRelPath(relPath);
+  if (isContractArtifactPath(normalized)) return false;
+  // devroom.yml is the room's verification allow-list; passes don't get to widen it.
+  if (normalized === DEVROOM_CONFIG_FILE) return false;
   const ext = path.extname(normalized).toLowerCase();
   if (ext && BLOCKED_BINARY_EXTENSIONS.has(ext)) return false;
   if (ext) return EDITABLE_FILE_EXTENSIONS.has(ext);
@@ -149,101 +185,6 @@ function canCreatePathInWorkspace(relPath: string, existingFiles: string[]) {
   return existingFiles.some((file) => file.startsWith(`${dir}/`));
 }
 
-function tokenizeForFileMatch(value: string) {
-  const stopWords = new Set([
-    "the",
-    "and",
-    "for",
-    "with",
-    "from",
-    "into",
-    "that",
-    "this",
-    "user",
-    "task",
-    "feature",
-    "implement",
-    "setup",
-    "build",
-  ]);
-  return value
-    .toLowerCase()
-    .split(/[^a-z0-9]+/)
-    .filter((token) => token.length >= 3 && !stopWords.has(token))
-    .slice(0, 30);
-}
-
-function selectTargetFiles(params: {
-  requestedTargets: string[];
-  workspaceFiles: string[];
-  taskTitle: string;
-  taskDescription: string;
-  acceptanceCriteria: string;
-}) {
-  const { requestedTargets, workspaceFiles, taskTitle, taskDescription, acceptanceCriteria } = params;
-  const workspaceSet = new Set(workspaceFiles);
-  const selected: string[] = [];
-  const seen = new Set<string>();
-
-  const push = (file: string) => {
-    const normalized = normalizeRelPath(file);
-    if (seen.has(normalized)) return;
-    if (!isEditableTargetPath(normalized)) return;
-    seen.add(normalized);
-    selected.push(normalized);
-  };
-
-  for (const file of requestedTargets.map((f) => normalizeRelPath(String(f).trim()))) {
-    if (!file) continue;
-    if (workspaceSet.has(file)) {
-      push(file);
-    }
-  }
-
-  let created = 0;
-  for (const file of requestedTargets.map((f) => normalizeRelPath(String(f).trim()))) {
-    if (!file || workspaceSet.has(file)) continue;
-    if (!canCreatePathInWorkspace(file, workspaceFiles)) continue;
-    if (created >= TARGET_FILE_CREATION_LIMIT) break;
-    push(file);
-    created += 1;
-  }
-
-  if (selected.length >= TARGET_FILE_LIMIT) {
-    return selected.slice(0, TARGET_FILE_LIMIT);
-  }
-
-  const tokens = tokenizeForFileMatch(`${taskTitle} ${taskDescription} ${acceptanceCriteria}`);
-  const ranked = workspaceFiles
-    .filter((file) => isEditableTargetPath(file))
-    .map((file) => {
-      const lower = file.toLowerCase();
-      const base = path.basename(lower);
-      const score = tokens.reduce((sum, token) => {
-        if (base.includes(token)) return sum + 5;
-        if (lower.includes(token)) return sum + 2;
-        return sum;
-      }, lower.includes("src/") || lower.includes("app/") ? 1 : 0);
-      return { file, score };
-    })
-    .sort((a, b) => b.score - a.score)
-    .map((entry) => entry.file);
-
-  for (const file of ranked) {
-    if (selected.length >= TARGET_FILE_LIMIT) break;
-    push(file);
-  }
-
-  if (selected.length === 0) {
-    for (const file of workspaceFiles) {
-      if (selected.length >= TARGET_FILE_LIMIT) break;
-      push(file);
-    }
-  }
-
-  return selected.slice(0, TARGET_FILE_LIMIT);
-}
-
 function isSafeVerificationCommand(cmd: string): boolean {
   const normalized = cmd.trim().toLowerCase();
   const blockedTokens = ["rm -rf", "sudo", "shutdown", "reboot", "mkfs", "dd if=", "curl |", "wget |"];
@@ -260,6 +201,8 @@ function isSafeVerificationCommand(cmd: string): boolean {
     "go test",
     "cargo test",
     "cargo check",
+    "mvn -q test",
+    "mvn test",
     "tsc",
   ].some((prefix) => normalized.startsWith(prefix));
 }
@@ -278,43 +221,47 @@ function extractRunScriptName(cmd: string): string | null {
   return null;
 }
 
-async function canRunVerificationCommand(cwd: string, cmd: string): Promise<boolean> {
+// With a devroom.yml only its commands may run. Otherwise the detected profile commands,
+// allow-listed tool invocations and package.json scripts that exist.
+function canRunVerificationCommand(plan: VerificationPlan, cmd: string): boolean {
+  if (isPlannedCommand(plan, cmd)) return true;
+  if (plan.declared) return false;
   if (!isSafeVerificationCommand(cmd)) return false;
   if (/\bNODE_ENV\s*=/i.test(cmd)) return false;
   const scriptName = extractRunScriptName(cmd);
-  if (!scriptName) return true;
-
-  try {
-    const pkgRaw = await fs.readFile(path.join(cwd, "package.json"), "utf8");
-    const pkg = JSON.parse(pkgRaw) as { scripts?: Record<string, unknown> };
-    return !!pkg.scripts && Object.prototype.hasOwnProperty.call(pkg.scripts, scriptName);
-  } catch {
-    return false;
-  }
+  return !scriptName || plan.scripts.includes(scriptName);
 }
 
-async function getPackageScripts(cwd: string): Promise<Record<string, string>> {
-  try {
-    const pkgRaw = await fs.readFile(path.join(cwd, "package.json"), "utf8");
-    const pkg = JSON.parse(pkgRaw) as { scripts?: Record<string, string> };
-    return pkg.scripts ?? {};
-  } catch {
-    return {};
-  }
+// Installed packages and toolchain caches must never reach the pass's commit, whatever
+// the repo's .gitignore says.
+async function excludeInstallArtifacts(cwd: string) {
+  const { stdout } = await runShell(cwd, "git rev-parse --git-path info/exclude", 30000);
+  const excludePath = path.resolve(cwd, stdout.trim());
+  const current = await fs.readFile(excludePath, "utf8").catch(() => "");
+  const lines = current.split("\n").map((line) => line.trim());
+  const missing = ["node_modules/", `${SANDBOX_HOME_DIR}/`].filter((entry) => !lines.includes(entry));
+  if (missing.length === 0) return;
+  await fs.mkdir(path.dirname(excludePath), { recursive: true });
+  await fs.appendFile(excludePath, `${current && !current.endsWith("\n") ? "\n" : ""}${missing.join("\n")}\n`, "utf8");
 }
 
-async function getFallbackVerificationCommands(cwd: string): Promise<string[]> {
-  const scripts = await getPackageScripts(cwd);
-  const priorities = ["typecheck", "lint", "test", "build", "check"];
-  const selected: string[] = [];
-
-  for (const name of priorities) {
-    if (!Object.prototype.hasOwnProperty.call(scripts, name)) continue;
-    selected.push(`npm run ${name}`);
-    if (selected.length >= 2) break;
-  }
+// Contract artifacts are read-only for the whole pass, not only to edit_file: whatever else
+// changed under CONTRACTS_DIR (a repo command with SANDBOX_MODE=off, or one that created the
+// directory) is put back before anything is committed. Returns the paths that were changed.
+async function restoreContractArtifacts(cwd: string) {
+  const { stdout } = await runShell(cwd, `git status --porcelain --untracked-files=all -- ${CONTRACTS_DIR}`, 60000);
+  const changed = stdout.split("\n").filter(Boolean).map((line) => line.slice(3));
+  if (changed.length === 0) return changed;
+  await runShell(cwd, `git checkout HEAD -- ${CONTRACTS_DIR}`, 60000).catch(() => undefined);
+  await runShell(cwd, `git clean -fdq -- ${CONTRACTS_DIR}`, 60000);
+  return changed;
+}
 
-  return selected;
+// What runs when the model names nothing runnable: everything devroom.yml declares, or
+// the first detected commands (type checks before lint and tests).
+function fallbackVerificationCommands(plan: VerificationPlan): string[] {
+  const commands = plan.commands.map((c) => c.command);
+  return plan.declared ? commands : commands.slice(0, FALLBACK_VERIFICATION_LIMIT);
 }
 
 async function snapshotTargetFiles(cwd: string, targetFiles: string[]) {
@@ -347,227 +294,966 @@ function changedFilesFromSnapshots(before: Map<string, string | null>, after: Ma
   return changed;
 }
 
-async function ensurePatchApplies(cwd: string, patch: string) {
-  const tmpPath = path.join(os.tmpdir(), `devroom-patch-${Date.now()}-${Math.random().toString(36).slice(2)}.diff`);
-  await fs.writeFile(tmpPath, patch, "utf8");
+async function collectWorkspaceDiff(cwd: string) {
+  // Stage everything so new files show up, then unstage again before the commit step.
+  await runShell(cwd, "git add -A", 60000);
+  const diff = await runShell(cwd, "git diff --cached", 60000)
+    .then((r) => r.stdout)
+    .catch(() => "");
+  await runShell(cwd, "git reset -q", 60000).catch(() => undefined);
+  return diff;
+}
+
+async function collectWorkspaceContext(cwd: string) {
+  const [fileListResult, gitStatusResult] = await Promise.all([
+    // rg skips hidden directories; the contract artifacts under .devroom/ are listed explicitly.
+    runShell(cwd, `(rg --files && (rg --files --hidden ${CONTRACTS_DIR} 2>/dev/null || true)) || find . -type f`),
+    runShell(cwd, "git status --short || true"),
+  ]);
+
+  const files = sanitizeFileList(fileListResult.stdout);
+  return {
+    files,
+    gitStatus: gitStatusResult.stdout.trim() || "clean",
+  };
+}
+
+// Generated artifacts of the contracts a task depends on, located via the manifests that
+// contract publishing writes into each `.devroom/contracts/<name>/` directory. The loop is pointed
+// at them and reads them like any other file.
+async function contractInputPaths(cwd: string, contractIds: string[]) {
+  const paths: string[] = [];
+  if (contractIds.length === 0) return paths;
+  const entries = await fs.readdir(path.join(cwd, CONTRACTS_DIR), { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const dir = `${CONTRACTS_DIR}/${entry.name}`;
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(cwd, dir, "contract.json"), "utf8")) as {
+        contractId?: string;
+        source?: string;
+        generated?: string[];
+      };
+      if (!manifest.contractId || !contractIds.includes(manifest.contractId)) continue;
+      const files = manifest.generated?.length ? manifest.generated : manifest.source ? [manifest.source] : [];
+      for (const file of files) {
+        const relPath = `${dir}/${file}`;
+        if (!isSafeRelativePath(relPath)) continue;
+        await fs.access(path.join(cwd, relPath));
+        paths.push(relPath);
+      }
+    } catch {
+      // Missing or unreadable manifest: not a DevRoom contract directory
+    }
+  }
+  return paths;
+}
+
+type MockedContract = { contractId: string; name: string; mockPath: string };
+
+// Prerequisites still being worked on. One that only stands between this task and an
+// OpenAPI contract it consumes doesn't hold the task back: the contract's mock stands in
+// for the real service until the producer is done.
+function unfinishedDependencies(
+  roomId: string,
+  task: Parameters<typeof runTasksInWorktree>[0]["tasks"][number],
+) {
+  const mockable = new Map(task.contractDeps
+    .filter((dep) => dep.dependencyType === "consumes" && dep.contract.type === "openapi" && dep.contract.currentVersionId)
+    .map((dep) => [dep.contractId, dep.contract.name]));
+  const waitingOn: Task[] = [];
+  const mocked = new Map<string, MockedContract>();
+  for (const { fromTask } of task.toDependencies) {
+    if (fromTask.status === "done") continue;
+    const produced = fromTask.contractDeps.filter((dep) => dep.dependencyType !== "consumes" && mockable.has(dep.contractId));
+    if (produced.length === 0) {
+      waitingOn.push(fromTask);
+      continue;
+    }
+    for (const dep of produced) {
+      mocked.set(dep.contractId, {
+        contractId: dep.contractId,
+        name: mockable.get(dep.contractId) as string,
+        mockPath: `/rooms/${roomId}/contracts/${dep.contractId}/mock`,
+      });
+    }
+  }
+  return { waitingOn, mockedContracts: [...mocked.values()] };
+}
+
+type AgentWorkspace = {
+  roomId: string;
+  userId: string;
+  cwd: string;
+  files: string[];
+  // Index of the commit the pass started from; null when it couldn't be built.
+  index: CodeIndex | null;
+  // Every file the loop has touched, as it was before its first edit (null: created by the loop).
+  originals: Map<string, string | null>;
+  // Full output of failed commands, for read_failure.
+  failures: Map<string, string>;
+  lastFailedCommand: string | null;
+  verification: VerificationPlan;
+  dependenciesChecked: boolean;
+};
+
+type AgentAction = {
+  thought: string;
+  plan: string[];
+  tool: string;
+  args: Record<string, unknown>;
+};
+
+type ToolResult = { ok: boolean; observation: string };
+
+// A committed pass that is waiting for approval, stored on its run until the decision.
+type ParkedPass = {
+  taskBranch: string;
+  baseBranch: string;
+  commitSha: string | null;
+  changedFiles: string[];
+  summary: string;
+  steps: number;
+  criteria: AcceptanceCriterionResult[];
+  verificationLogs: string[];
+};
+
+type AcceptanceResult = {
+  passed: boolean;
+  verificationCommands: string[];
+  failedCommands: string[];
+  verificationLogs: string[];
+  verificationRanCount: number;
+  conformance: ContractConformanceResult[];
+  criteria: AcceptanceCriterionResult[];
+  // Short blocked reason for the first failure, and everything that failed, written for the model.
+  reason: string | null;
+  feedback: string;
+};
+
+type LoopFailure = { reason: string; feedback: string };
+
+type AgentLoopOutcome =
+  | { kind: "accepted"; summary: string; changedFiles: string[]; acceptance: AcceptanceResult }
+  | { kind: "no_changes"; summary: string }
+  | { kind: "gave_up"; reason: string }
+  | { kind: "exhausted"; reason: string; lastFailure: LoopFailure | null; criteria: AcceptanceCriterionResult[] | null };
+
+// Rough size (~4 characters per token) of what a call sends and receives; completeChat
+// doesn't report provider usage.
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function outputTail(output: string, limit = OUTPUT_TAIL_LIMIT) {
+  const trimmed = output.trim();
+  if (!trimmed) return "(no output)";
+  return trimmed.length > limit ? `…${trimmed.slice(-limit)}` : trimmed;
+}
+
+function shortenArgs(args: Record<string, unknown>, limit: number) {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) =>
+    [key, typeof value === "string" && value.length > limit ? `${value.slice(0, limit)}… (${value.length} chars)` : value]));
+}
+
+function relativeArg(value: unknown) {
+  const relPath = normalizeRelPath(typeof value === "string" ? value.trim() : "").replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+  return relPath === "." ? "" : relPath;
+}
+
+async function reportSandboxViolation(workspace: AgentWorkspace, command: string, violation: SandboxViolation) {
+  const user = await prisma.user.findUnique({ where: { id: workspace.userId }, select: { name: true } });
+  await emitSecurityAlert({
+    roomId: workspace.roomId,
+    userId: workspace.userId,
+    userName: user ? `${user.name}'s worker agent` : undefined,
+    action: `sandbox.${violation.kind}`,
+    detail: `${command}: ${violation.detail}`,
+    severity: violation.kind === "network" || violation.kind === "filesystem" || violation.kind === "sandbox_unavailable" ? "high" : "medium",
+  });
+}
+
+// Repo commands run in the sandbox; the first one of a pass runs the plan's installs.
+async function runWorkspaceCommand(workspace: AgentWorkspace, command: string, purpose: SandboxPurpose = "verification"): Promise<{ ok: boolean; output: string }> {
+  if (purpose === "verification" && !workspace.dependenciesChecked) {
+    workspace.dependenciesChecked = true;
+    await excludeInstallArtifacts(workspace.cwd);
+    for (const install of workspace.verification.install) {
+      const installed = await runWorkspaceCommand(workspace, install, "install");
+      if (!installed.ok) {
+        const output = `Installing dependencies with "${install}" failed:\n${installed.output}`;
+        workspace.failures.set(command, output);
+        return { ok: false, output };
+      }
+    }
+  }
+
+  const result = await runSandboxed({
+    cwd: workspace.cwd,
+    command,
+    purpose,
+    timeoutMs: purpose === "install" ? INSTALL_TIMEOUT_MS : VERIFICATION_TIMEOUT_MS,
+    readOnlyPaths: [CONTRACTS_DIR],
+  });
+  if (result.violation) {
+    reportSandboxViolation(workspace, command, result.violation).catch(console.error);
+  }
   try {
-    await runShell(cwd, `git apply --reject --whitespace=nowarn ${JSON.stringify(tmpPath)}`, 90000);
-  } finally {
-    await fs.unlink(tmpPath).catch(() => undefined);
+    await assertWorktreeGitLink(workspace.cwd);
+  } catch (err) {
+    await reportSandboxViolation(workspace, command, { kind: "filesystem", detail: "redirected the worktree's .git link" }).catch(console.error);
+    throw err;
+  }
+  if (!result.ok) {
+    workspace.failures.set(command, result.output);
+    workspace.lastFailedCommand = command;
   }
+  return { ok: result.ok, output: result.output };
 }
 
-function normalizePatch(rawPatch: string): string {
-  let patch = rawPatch.replace(/\r\n/g, "\n").trim();
-  patch = patch.replace(/^```(?:diff|patch)?\n/i, "").replace(/\n```$/, "");
-  if (!patch) return "";
-  return patch.endsWith("\n") ? patch : `${patch}\n`;
+function grepWorkspace(cwd: string, pattern: string, dir: string): Promise<ToolResult> {
+  const args = ["grep", "-n", "-I", "-E", "--untracked", "-e", pattern, ...(dir ? ["--", dir] : [])];
+  return new Promise((resolve) => {
+    execFile("git", args, { cwd, timeout: 30000, maxBuffer: 1024 * 1024 * 10 }, (error, stdout, stderr) => {
+      // git grep exits with 1 when nothing matches
+      if (error && error.code !== 1) {
+        resolve({ ok: false, observation: `Error: ${(stderr || error.message).trim()}` });
+        return;
+      }
+      const lines = stdout.split("\n").filter(Boolean);
+      if (lines.length === 0) {
+        resolve({ ok: true, observation: `No matches for /${pattern}/${dir ? ` in ${dir}` : ""}.` });
+        return;
+      }
+      const shown = lines.slice(0, GREP_MATCH_LIMIT).map((line) => (line.length > 300 ? `${line.slice(0, 300)}…` : line));
+      if (lines.length > shown.length) shown.push(`… ${lines.length - shown.length} more matches; narrow the pattern or "dir"`);
+      resolve({ ok: true, observation: shown.join("\n") });
+    });
+  });
 }
 
-async function applyFileEdits(cwd: string, fileEdits: Array<{ path: string; content: string }>, allowedPaths: Set<string>) {
-  const workspace = path.resolve(cwd);
-  const appliedPaths: string[] = [];
-  const seen = new Set<string>();
+function listFilesTool(workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult {
+  const dir = relativeArg(args.dir);
+  if (dir && !isSafeRelativePath(dir)) return { ok: false, observation: "Error: dir must be a relative path inside the workspace." };
+  const files = workspace.files.filter((file) => !dir || file.startsWith(`${dir}/`));
+  if (files.length === 0) return { ok: true, observation: `No files under ${dir || "the workspace root"}.` };
+  const shown = files.slice(0, LIST_FILES_LIMIT);
+  if (files.length > shown.length) shown.push(`… ${files.length - shown.length} more; narrow with "dir"`);
+  return { ok: true, observation: shown.join("\n") };
+}
 
-  for (const edit of fileEdits) {
-    const relPath = normalizeRelPath(String(edit.path ?? "").trim());
-    const content = typeof edit.content === "string" ? edit.content : "";
-    if (!isSafeRelativePath(relPath)) continue;
-    if (!isEditableTargetPath(relPath)) continue;
-    if (!allowedPaths.has(relPath)) continue;
-    if (seen.has(relPath)) continue;
-    seen.add(relPath);
+async function readFileTool(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<ToolResult> {
+  const relPath = relativeArg(args.path);
+  if (!isSafeRelativePath(relPath)) return { ok: false, observation: "Error: path must be a relative path inside the workspace." };
+  let content: string;
+  try {
+    const root = await fs.realpath(workspace.cwd);
+    const abs = await fs.realpath(path.join(workspace.cwd, relPath));
+    if (!abs.startsWith(`${root}${path.sep}`)) throw new Error("outside the workspace");
+    content = await fs.readFile(abs, "utf8");
+  } catch {
+    return { ok: false, observation: `Error: ${relPath} doesn't exist or isn't a readable file.` };
+  }
 
-    const absPath = path.resolve(cwd, relPath);
-    if (!absPath.startsWith(`${workspace}${path.sep}`)) continue;
+  const lines = content.split("\n");
+  const start = Math.max(1, Math.floor(Number(args.startLine) || 1));
+  if (start > lines.length) return { ok: false, observation: `Error: ${relPath} has only ${lines.length} line(s).` };
+  const end = Math.min(lines.length, start + READ_FILE_LINE_LIMIT - 1, Math.floor(Number(args.endLine) || lines.length));
+  let body = lines.slice(start - 1, Math.max(start, end)).map((line, i) => `${start + i}| ${line}`).join("\n");
+  if (body.length > FILE_CONTENT_PREVIEW_LIMIT) body = `${body.slice(0, FILE_CONTENT_PREVIEW_LIMIT)}\n… (truncated; read a smaller range)`;
+  const readOnly = isContractArtifactPath(relPath) ? " (read-only contract artifact)" : "";
+  return { ok: true, observation: `${relPath} lines ${start}-${Math.max(start, end)} of ${lines.length}${readOnly}:\n${body}` };
+}
 
-    await fs.mkdir(path.dirname(absPath), { recursive: true });
-    await fs.writeFile(absPath, content, "utf8");
-    appliedPaths.push(relPath);
+// Writes run on the host, outside the sandbox, so a symlink in the repo must not carry them
+// out of the worktree: the target may not be a symlink, and the target (or its nearest
+// existing parent, for new files) must resolve inside the worktree.
+async function resolveWritablePath(cwd: string, relPath: string) {
+  const root = await fs.realpath(cwd).catch(() => null);
+  if (!root) return null;
+  const absPath = path.resolve(root, relPath);
+  if (!absPath.startsWith(`${root}${path.sep}`)) return null;
+
+  const stat = await fs.lstat(absPath).catch(() => null);
+  if (stat?.isSymbolicLink()) return null;
+  let existing = absPath;
+  while (!stat && existing !== root) {
+    existing = path.dirname(existing);
+    if (await fs.lstat(existing).then(() => true, () => false)) break;
   }
+  const real = await fs.realpath(existing).catch(() => null);
+  if (!real || (real !== root && !real.startsWith(`${root}${path.sep}`))) return null;
+  return absPath;
+}
 
-  if (appliedPaths.length === 0) {
-    throw new Error("No safe file edits were applicable.");
+async function editFileTool(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<ToolResult> {
+  const relPath = relativeArg(args.path);
+  if (isContractArtifactPath(relPath)) {
+    return { ok: false, observation: `Error: files under ${CONTRACTS_DIR}/ are pinned to the published contract version. Import from them instead.` };
+  }
+  if (!isEditableTargetPath(relPath)) {
+    return { ok: false, observation: `Error: ${relPath || "(no path)"} can't be edited. Only source, config and docs text files inside the workspace can.` };
   }
+  const absPath = await resolveWritablePath(workspace.cwd, relPath);
+  if (!absPath) return { ok: false, observation: "Error: path must be inside the workspace and not go through a symlink." };
 
-  return appliedPaths;
+  const current = await fs.readFile(absPath, "utf8").catch(() => null);
+  if (!workspace.originals.has(relPath)) {
+    if (workspace.originals.size >= EDITED_FILE_LIMIT) {
+      return { ok: false, observation: `Error: a pass may edit at most ${EDITED_FILE_LIMIT} files; keep to the ones already edited.` };
+    }
+    if (current === null) {
+      const created = [...workspace.originals.values()].filter((content) => content === null).length;
+      if (created >= CREATED_FILE_LIMIT) return { ok: false, observation: `Error: a pass may create at most ${CREATED_FILE_LIMIT} files.` };
+      if (!canCreatePathInWorkspace(relPath, workspace.files)) {
+        return { ok: false, observation: `Error: ${path.posix.dirname(relPath)}/ has no files yet; create files next to existing ones.` };
+      }
+    }
+  }
+
+  let next: string;
+  if (typeof args.content === "string") {
+    next = args.content;
+  } else if (typeof args.search === "string" && typeof args.replace === "string") {
+    if (current === null) return { ok: false, observation: `Error: ${relPath} doesn't exist; pass "content" to create it.` };
+    const occurrences = args.search ? current.split(args.search).length - 1 : 0;
+    if (occurrences === 0) {
+      return { ok: false, observation: `Error: "search" text not found in ${relPath}. Read the file and copy the exact text, whitespace included, without line numbers.` };
+    }
+    if (occurrences > 1) {
+      return { ok: false, observation: `Error: "search" text occurs ${occurrences} times in ${relPath}; include more surrounding lines so it is unique.` };
+    }
+    const replacement = args.replace;
+    next = current.replace(args.search, () => replacement);
+  } else {
+    return { ok: false, observation: 'Error: pass either "content" (the whole file) or "search" and "replace".' };
+  }
+
+  if (!workspace.originals.has(relPath)) workspace.originals.set(relPath, current);
+  await fs.mkdir(path.dirname(absPath), { recursive: true });
+  await fs.writeFile(absPath, next, "utf8");
+  if (current === null) workspace.files.push(relPath);
+  return { ok: true, observation: `${current === null ? "Created" : "Updated"} ${relPath} (${next.split("\n").length} lines).` };
 }
 
-async function collectWorkspaceContext(cwd: string) {
-  const [fileListResult, gitStatusResult] = await Promise.all([
-    runShell(cwd, "rg --files || find . -type f"),
-    runShell(cwd, "git status --short || true"),
-  ]);
+async function runScriptTool(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<ToolResult> {
+  const command = typeof args.command === "string" ? args.command.trim() : "";
+  if (!canRunVerificationCommand(workspace.verification, command)) {
+    return {
+      ok: false,
+      observation: workspace.verification.declared
+        ? `Error: "${command}" isn't allowed. Only the commands in ${DEVROOM_CONFIG_FILE} can run: ${workspace.verification.commands.map((c) => c.command).join(", ") || "(none)"}.`
+        : `Error: "${command}" isn't allowed. Run one of the verification commands in the brief or a package.json script (npm/pnpm/yarn run <script>).`,
+    };
+  }
+  const result = await runWorkspaceCommand(workspace, command);
+  return result.ok
+    ? { ok: true, observation: `$ ${command}\nPASSED\n${outputTail(result.output)}` }
+    : { ok: false, observation: `$ ${command}\nFAILED; read_failure shows the full output. Tail:\n${outputTail(result.output)}` };
+}
 
-  const files = sanitizeFileList(fileListResult.stdout);
+async function searchCodeTool(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<ToolResult> {
+  const query = typeof args.query === "string" ? args.query.trim() : "";
+  if (!query) return { ok: false, observation: "Error: query is required." };
+  if (!workspace.index) return { ok: false, observation: "Error: the code index isn't available for this pass; use grep." };
+  const limit = Math.min(20, Math.max(1, Math.floor(Number(args.limit) || 8)));
+  const hits = await searchCode(workspace.index, query, { cwd: workspace.cwd, changedPaths: [...workspace.originals.keys()], limit });
+  if (hits.length === 0) return { ok: true, observation: `Nothing in the index matches "${query}".` };
+  return { ok: true, observation: hits.map(formatSearchHit).join("\n\n") };
+}
+
+async function outlineTool(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<ToolResult> {
+  const relPath = relativeArg(args.path);
+  if (!isSafeRelativePath(relPath)) return { ok: false, observation: "Error: path must be a relative path inside the workspace." };
+  if (!workspace.index) return { ok: false, observation: "Error: the code index isn't available for this pass; use read_file." };
+  // Files edited in this pass are outlined as they are now, not as indexed.
+  const content = workspace.originals.has(relPath)
+    ? await fs.readFile(path.join(workspace.cwd, relPath), "utf8").catch(() => null)
+    : undefined;
+  const outline = content === null ? null : fileOutline(workspace.index, relPath, content);
+  if (!outline) return { ok: false, observation: `Error: ${relPath} isn't in the code index (missing, binary, generated or too large); use read_file.` };
+  return { ok: true, observation: formatOutline(relPath, outline, Infinity) };
+}
+
+function readFailureTool(workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult {
+  const command = typeof args.command === "string" && args.command.trim() ? args.command.trim() : workspace.lastFailedCommand;
+  const output = command ? workspace.failures.get(command) : undefined;
+  if (!command || output === undefined) return { ok: false, observation: "Error: no failed command output to read." };
+  const offset = Math.max(0, Math.floor(Number(args.offset) || 0));
+  const chunk = output.slice(offset, offset + FAILURE_OUTPUT_CHUNK);
+  const more = offset + chunk.length < output.length ? `\n… (continue with "offset": ${offset + chunk.length})` : "";
+  return { ok: true, observation: `$ ${command} (characters ${offset}-${offset + chunk.length} of ${output.length})\n${chunk}${more}` };
+}
+
+function runAgentTool(workspace: AgentWorkspace, action: AgentAction): Promise<ToolResult> | ToolResult {
+  switch (action.tool) {
+    case "list_files":
+      return listFilesTool(workspace, action.args);
+    case "read_file":
+      return readFileTool(workspace, action.args);
+    case "grep": {
+      const pattern = typeof action.args.pattern === "string" ? action.args.pattern : "";
+      const dir = relativeArg(action.args.dir);
+      if (!pattern) return { ok: false, observation: "Error: pattern is required." };
+      if (dir && !isSafeRelativePath(dir)) return { ok: false, observation: "Error: dir must be a relative path inside the workspace." };
+      return grepWorkspace(workspace.cwd, pattern, dir);
+    }
+    case "edit_file":
+      return editFileTool(workspace, action.args);
+    case "run_script":
+      return runScriptTool(workspace, action.args);
+    case "read_failure":
+      return readFailureTool(workspace, action.args);
+    case "search_code":
+      return searchCodeTool(workspace, action.args);
+    case "outline":
+      return outlineTool(workspace, action.args);
+    default:
+      return { ok: false, observation: `Error: unknown tool "${action.tool}".` };
+  }
+}
+
+function toolPhase(tool: string): AgentRunPhase {
+  if (tool === "edit_file") return "patch_apply";
+  if (tool === "run_script") return "verification";
+  return "tool_call";
+}
+
+function describeToolCall(action: AgentAction) {
+  const target = [action.args.command, action.args.path, action.args.pattern, action.args.query, action.args.dir]
+    .filter((value): value is string => typeof value === "string" && value.length > 0)
+    .map((value) => (value.length > 120 ? `${value.slice(0, 120)}…` : value));
+  return [action.tool, ...target].join(" ");
+}
+
+function parseAgentAction(response: string): AgentAction | null {
+  const raw = response.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    if (typeof parsed.tool !== "string") return null;
+    return {
+      thought: typeof parsed.thought === "string" ? parsed.thought : "",
+      plan: Array.isArray(parsed.plan) ? parsed.plan.slice(0, 8).map((s) => String(s)) : [],
+      tool: parsed.tool,
+      args: parsed.args && typeof parsed.args === "object" && !Array.isArray(parsed.args)
+        ? parsed.args as Record<string, unknown>
+        : {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+// The whole conversation is resent every turn, so only the latest observations stay in
+// full; older ones and the file contents of older edits are cut down.
+function compactHistory(messages: LlmMessage[]) {
+  const turns = messages.slice(2);
+  const stale = turns.slice(0, Math.max(0, turns.length - FULL_OBSERVATION_TURNS * 2));
+  for (const message of stale) {
+    if (message.content.length <= STALE_OBSERVATION_LIMIT * 2) continue;
+    if (message.role === "user") {
+      message.content = `${message.content.slice(0, STALE_OBSERVATION_LIMIT)}\n… (older output trimmed; call the tool again if you need it)`;
+      continue;
+    }
+    const action = parseAgentAction(message.content);
+    if (action) {
+      message.content = JSON.stringify({ thought: action.thought, tool: action.tool, args: shortenArgs(action.args, STALE_OBSERVATION_LIMIT) });
+    }
+  }
+}
+
+function violationLines(result: ContractConformanceResult) {
+  return [
+    ...result.violations.slice(0, MAX_REPORTED_VIOLATIONS).map((v) => `- ${v.message}${v.location ? ` (${v.location})` : ""}`),
+    ...(result.violations.length > MAX_REPORTED_VIOLATIONS ? [`- … ${result.violations.length - MAX_REPORTED_VIOLATIONS} more`] : []),
+  ];
+}
+
+function conformanceDetail(conformance: ContractConformanceResult[]) {
   return {
-    files,
-    gitStatus: gitStatusResult.stdout.trim() || "clean",
+    results: conformance.map((r) => ({
+      contractId: r.contractId,
+      contractName: r.contractName,
+      version: r.version,
+      checks: r.checks,
+      violations: r.violations.slice(0, MAX_REPORTED_VIOLATIONS),
+      violationCount: r.violations.length,
+      error: r.error,
+    })),
   };
 }
 
-async function makeExecutionPlan(params: {
-  roomTitle: string;
-  roomGoal: string;
-  taskTitle: string;
-  taskDescription: string;
-  acceptanceCriteria: string;
-  files: string[];
-}) {
-  const response = await openai.chat.completions.create({
-    model: AGENTIC_MODEL,
-    max_tokens: 1000,
-    response_format: { type: "json_object" },
-    messages: [
-      {
-        role: "system",
-        content: `You are an autonomous coding agent.
+// A criterion command is a filtered run of an allowed test command that names the criterion
+// or its test file ("pytest -k ac2", "npm run test -- -t AC2"); the bare suite would pass
+// whether or not the criterion's test exists. Shell operators are refused so the extra
+// arguments can't chain another command.
+function canRunCriterionCommand(plan: VerificationPlan, mapping: CriterionTestMapping): boolean {
+  const cmd = mapping.command;
+  if (/[;&|`$<>\\\n]/.test(cmd)) return false;
+  return plan.commands.some((c) => {
+    if (c.kind !== "test" || !cmd.startsWith(`${c.command} `)) return false;
+    const filter = cmd.slice(c.command.length);
+    return mentionsCriterion(filter, mapping.id) || (!!mapping.test && filter.includes(criterionTestFile(mapping.test)));
+  });
+}
+
+// pytest-style node ids ("tests/test_x.py::test_ac2") name the file before the "::".
+function criterionTestFile(test: string) {
+  return test.split("::")[0];
+}
+
+// Why the mapped test can't stand for the criterion, or null when the file exists and
+// mentions the criterion id.
+async function criterionTestProblem(cwd: string, mapping: CriterionTestMapping): Promise<string | null> {
+  if (!mapping.test) return "No test file was named for this criterion.";
+  const relPath = normalizeRelPath(criterionTestFile(mapping.test));
+  if (!isSafeRelativePath(relPath)) return `${relPath} is not a path inside the repository.`;
+  const content = await fs.readFile(path.join(cwd, relPath), "utf8").catch(() => null);
+  if (content === null) return `The test file ${relPath} doesn't exist.`;
+  if (!mentionsCriterion(content, mapping.id)) return `${relPath} doesn't mention ${mapping.id}; put the criterion id in the test's name.`;
+  return null;
+}
+
+async function runCriterionTests(workspace: AgentWorkspace, criteria: AcceptanceCriterion[], mappings: CriterionTestMapping[]) {
+  // Criteria sharing a command (one test file covering several) run it once.
+  const outcomes = new Map<string, { ok: boolean; output: string }>();
+  const results: AcceptanceCriterionResult[] = [];
+  for (const criterion of criteria) {
+    const mapping = mappings.find((m) => m.id === criterion.id);
+    const base = { id: criterion.id, criterion: criterion.text, test: mapping?.test ?? null, command: mapping?.command ?? null };
+    if (!mapping) {
+      results.push({ ...base, status: "untested", detail: "No test was mapped to this criterion." });
+      continue;
+    }
+    const testProblem = await criterionTestProblem(workspace.cwd, mapping);
+    if (testProblem) {
+      results.push({ ...base, status: "untested", detail: testProblem });
+      continue;
+    }
+    if (!canRunCriterionCommand(workspace.verification, mapping)) {
+      results.push({ ...base, status: "untested", detail: `The command isn't an allowed test command filtered to ${criterion.id} or its test file.` });
+      continue;
+    }
+    let outcome = outcomes.get(mapping.command);
+    if (!outcome) {
+      if (outcomes.size >= CRITERION_COMMAND_LIMIT) {
+        results.push({ ...base, status: "untested", detail: `More than ${CRITERION_COMMAND_LIMIT} distinct criterion commands.` });
+        continue;
+      }
+      outcome = await runWorkspaceCommand(workspace, mapping.command);
+      outcomes.set(mapping.command, outcome);
+    }
+    if (outputShowsNoTestsRan(outcome.output)) {
+      results.push({ ...base, status: "untested", detail: `The command ran no tests; its filter matched nothing.\n${outputTail(outcome.output, 600)}` });
+      continue;
+    }
+    results.push({ ...base, status: outcome.ok ? "passed" : "failed", detail: outcome.ok ? null : outputTail(outcome.output, 1200) });
+  }
+  return results;
+}
+
+// What the pass must satisfy before it's committed: the verification commands the model
+// names (or the repo's fallback scripts), the tests mapped to the task's acceptance criteria,
+// and conformance to the contracts the task produces or modifies.
+async function checkAcceptance(workspace: AgentWorkspace, params: {
+  requestedCommands: string[];
+  producedContractIds: string[];
+  criteria: AcceptanceCriterion[];
+  criterionTests: CriterionTestMapping[];
+}): Promise<AcceptanceResult> {
+  const { requestedCommands, producedContractIds } = params;
+  const verificationLogs: string[] = [];
+  const failedCommands: string[] = [];
+  const failures: string[] = [];
+  let verificationRanCount = 0;
+
+  const plan = workspace.verification;
+  if (plan.configError) {
+    verificationLogs.push(`${DEVROOM_CONFIG_FILE} is invalid (${plan.configError}), so no verification command can run.`);
+  }
+  const runnable: string[] = [];
+  for (const cmd of requestedCommands.slice(0, 3)) {
+    if (canRunVerificationCommand(plan, cmd)) runnable.push(cmd);
+    else verificationLogs.push(`$ ${cmd}\nSKIPPED: ${plan.declared ? `not declared in ${DEVROOM_CONFIG_FILE}` : "command is unsafe or script is not defined in package.json"}.`);
+  }
+  const verificationCommands = runnable.length > 0 ? runnable : fallbackVerificationCommands(plan);
+  if (verificationCommands.length === 0) {
+    verificationLogs.push(`No verification command found (${DEVROOM_CONFIG_FILE}, package.json scripts or a known toolchain). Verification skipped.`);
+  }
+
+  for (const cmd of verificationCommands) {
+    const result = await runWorkspaceCommand(workspace, cmd);
+    if (result.ok) {
+      verificationLogs.push(`$ ${cmd}\n${result.output.slice(0, 2000) || "(no output)"}`);
+      verificationRanCount += 1;
+    } else {
+      verificationLogs.push(`$ ${cmd}\nFAILED: ${outputTail(result.output, 1200)}`);
+      failedCommands.push(cmd);
+      failures.push(`$ ${cmd} failed; read_failure shows the full output. Tail:\n${outputTail(result.output)}`);
+    }
+  }
+
+  const criteria = await runCriterionTests(workspace, params.criteria, params.criterionTests);
+  const failedCriteria = criteria.filter((c) => c.status === "failed");
+  for (const c of criteria) {
+    verificationLogs.push(`[${c.id}] ${c.status}: ${c.criterion}${c.command ? `\n$ ${c.command}` : ""}${c.status === "untested" && c.detail ? `\n${c.detail}` : ""}`);
+  }
+  for (const c of failedCriteria) {
+    failures.push(`Acceptance criterion ${c.id} ("${c.criterion}") failed: $ ${c.command}; read_failure shows the full output. Tail:\n${c.detail}`);
+  }
+
+  const conformance = await checkContractConformance(workspace.cwd, producedContractIds);
+  const nonConforming = conformance.filter((r) => r.violations.length > 0);
+  for (const result of nonConforming) {
+    failures.push([`Contract "${result.contractName}" v${result.version} is violated:`, ...violationLines(result)].join("\n"));
+  }
+
+  let reason: string | null = null;
+  if (failedCommands.length > 0) {
+    reason = `Verification failed for command: ${failedCommands[0]}`;
+  } else if (failedCriteria.length > 0) {
+    reason = `Acceptance criterion ${failedCriteria[0].id} failed: ${failedCriteria[0].criterion}`;
+  } else if (nonConforming.length > 0) {
+    const [first] = nonConforming;
+    const violationCount = nonConforming.reduce((sum, r) => sum + r.violations.length, 0);
+    reason = `Contract "${first.contractName}" v${first.version} violated: ${first.violations[0].message}${violationCount > 1 ? ` (+${violationCount - 1} more)` : ""}`;
+  }
+
+  return {
+    passed: failures.length === 0,
+    verificationCommands,
+    failedCommands,
+    verificationLogs,
+    verificationRanCount,
+    conformance,
+    criteria,
+    reason,
+    feedback: failures.join("\n\n"),
+  };
+}
+
+async function recordAcceptance(run: AgentRunRecorder, acceptance: AcceptanceResult, startedAt: number) {
+  const { failedCommands } = acceptance;
+  await run.step({
+    phase: "verification",
+    status: failedCommands.length > 0 ? "failed" : acceptance.verificationCommands.length > 0 ? "succeeded" : "skipped",
+    summary: failedCommands.length > 0
+      ? `Verification failed for command: ${failedCommands.join(", ")}`
+      : acceptance.verificationCommands.length > 0
+        ? `Ran ${acceptance.verificationCommands.length} verification command(s).`
+        : "No runnable verification script found.",
+    startedAt,
+    detail: { commands: acceptance.verificationCommands, logs: acceptance.verificationLogs },
+  });
+
+  if (acceptance.criteria.length > 0) {
+    const { criteria } = acceptance;
+    await run.step({
+      phase: "verification",
+      status: criteria.some((c) => c.status === "failed") ? "failed" : criteria.some((c) => c.status === "passed") ? "succeeded" : "skipped",
+      summary: `${summarizeCriteria(criteria)}.`,
+      startedAt,
+      detail: { criteria },
+    });
+  }
+
+  const nonConforming = acceptance.conformance.filter((r) => r.violations.length > 0);
+  const checks = acceptance.conformance.reduce((sum, r) => sum + r.checks, 0);
+  await run.step({
+    phase: "conformance",
+    status: nonConforming.length > 0 ? "failed" : checks > 0 ? "succeeded" : "skipped",
+    summary: nonConforming.length > 0
+      ? `${nonConforming.reduce((sum, r) => sum + r.violations.length, 0)} contract violation(s) in ${nonConforming.map((r) => `"${r.contractName}"`).join(", ")}.`
+      : checks > 0
+        ? `${checks} conformance check(s) passed for ${acceptance.conformance.map((r) => `"${r.contractName}"`).join(", ")}.`
+        : "No OpenAPI or TypeScript contract to check this task's code against.",
+    startedAt,
+    detail: conformanceDetail(acceptance.conformance),
+  });
+}
+
+function agentLoopSystemPrompt() {
+  return `You are an autonomous coding agent working in a git worktree of the room's repository.
+You work in steps. Each reply is one JSON object that calls one tool; the next message holds its result.
 Return JSON only:
 {
+  "thought": "short reasoning",
   "plan": ["string"],
-  "targetFiles": ["relative/path"]
+  "tool": "tool name",
+  "args": {}
 }
+Send "plan" in your first reply, and again only when it changes.
+Tools:
+- list_files { "dir"?: "relative/dir" }: workspace files, optionally under one directory.
+- read_file { "path": "relative/path", "startLine"?: 1, "endLine"?: 200 }: numbered lines, at most ${READ_FILE_LINE_LIMIT} per call.
+- grep { "pattern": "extended regex", "dir"?: "relative/dir" }: matching lines as path:line:text.
+- search_code { "query": "words or identifiers", "limit"?: 8 }: code chunks ranked by relevance (BM25), with their matching lines.
+- outline { "path": "relative/path" }: a file's functions, classes and types with line numbers, what it imports and what imports it.
+- edit_file { "path", "search", "replace" }: replaces one exact, unique occurrence of "search" (no line numbers). { "path", "content" } writes the whole file instead; use it to create files.
+- run_script { "command": "npm run <script>" }: runs one of the brief's verification commands (or, without a ${DEVROOM_CONFIG_FILE}, a package.json script) and shows the tail of its output.
+- read_failure { "command"?: "npm run <script>", "offset"?: 0 }: full output of the last (or the given) failed command, in chunks.
+- finish { "summary": "what changed", "verificationCommands": ["npm run <script>"], "criteria": [{ "id": "AC1", "test": "relative/path/to/test", "command": "runs only that criterion's test" }] }: ends the pass. The verification commands (max 3, as for run_script), each criterion's test command and contract conformance are then checked; anything failing comes back to you to fix.
+- give_up { "reason": "string" }: stop when the task can't be done in this repository.
 Rules:
-- Pick up to 8 files.
-- targetFiles may include existing files and up to 4 new files when needed.
-- All targetFiles must be safe relative paths (no ../, no absolute paths).
-- Target files must be source/config/docs text files only (no images, mockups, design assets, or other binary files).
-- Plan should be concrete and execution-focused.`,
-      },
-      {
-        role: "user",
-        content: `Room: ${params.roomTitle}
-Goal: ${params.roomGoal}
-Task: ${params.taskTitle}
-Description: ${params.taskDescription}
-Acceptance Criteria:
-${params.acceptanceCriteria}
+- Find your way with search_code, outline and grep rather than reading whole files; then read the code you change, and keep edits focused on the task and in the repository's style.
+- Edit source/config/docs text files only (no images, mockups, design assets, or other binary files), at most ${EDITED_FILE_LIMIT} files per pass, of which at most ${CREATED_FILE_LIMIT} new.
+- Cover each acceptance criterion (AC1, AC2, … in the brief) with a test in the repository's test framework, creating or extending test files, and put the criterion id in the test's name (e.g. it("[AC2] rejects empty titles"), def test_ac2_rejects_empty_titles, func TestAC2RejectsEmptyTitles). Its command filters the repo's test command down to that test: "npm run test -- -t AC2", "pytest -k ac2", "go test ./... -run AC2". Leave out criteria that no automated test can check.
+- Never edit files under ${CONTRACTS_DIR}/; they are pinned to the published contract version. Import the generated types from them rather than redefining the shapes.
+- Code for a contract the task produces must conform to it: every operation routed, only documented status codes, response bodies and request fields as in its schemas, and types assignable both ways.
+- You have at most ${AGENT_MAX_STEPS} steps. Call finish as soon as the acceptance criteria are met.`;
+}
 
-Repository files:
-${params.files.join("\n")}`,
-      },
-    ],
+function formatSearchHit(hit: CodeSearchHit) {
+  return `${hit.path}:${hit.startLine}-${hit.endLine} (score ${hit.score})\n${hit.snippet}`;
+}
+
+function formatOutline(relPath: string, outline: FileOutline, symbolLimit = 15) {
+  const lines = [relPath];
+  if (outline.imports.length > 0) lines.push(`  imports: ${outline.imports.join(", ")}`);
+  if (outline.importedBy.length > 0) {
+    const shown = outline.importedBy.slice(0, 8);
+    lines.push(`  imported by: ${shown.join(", ")}${outline.importedBy.length > shown.length ? `, … ${outline.importedBy.length - shown.length} more` : ""}`);
+  }
+  for (const symbol of outline.symbols.slice(0, symbolLimit)) lines.push(`  L${symbol.line} ${symbol.signature}`);
+  if (outline.symbols.length > symbolLimit) lines.push(`  … ${outline.symbols.length - symbolLimit} more symbols`);
+  return lines.join("\n");
+}
+
+// Directories (two levels deep) with their file counts, and the files at the root.
+function repositoryLayout(files: string[]) {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const parts = file.replace(/^\.\//, "").split("/");
+    const entry = parts.length === 1 ? parts[0] : `${parts.slice(0, Math.min(2, parts.length - 1)).join("/")}/`;
+    counts.set(entry, (counts.get(entry) ?? 0) + 1);
+  }
+  const entries = [...counts].sort(([a], [b]) => a.localeCompare(b));
+  const shown = entries.slice(0, LAYOUT_ENTRY_LIMIT).map(([entry, count]) => (entry.endsWith("/") ? `${entry} (${count})` : entry));
+  if (entries.length > shown.length) shown.push(`… ${entries.length - shown.length} more; use list_files`);
+  return shown.join("\n");
+}
+
+// What the model sees of the repository up front: with the code index, the chunks that
+// rank highest against the task and outlines of their files; without it, a plain file list.
+async function repositoryContext(workspace: AgentWorkspace, task: Task) {
+  const { files, index } = workspace;
+  if (!index) {
+    return `Repository files${files.length > BRIEF_FILE_LIMIT ? ` (first ${BRIEF_FILE_LIMIT} of ${files.length}; list_files shows the rest)` : ""}:
+${files.slice(0, BRIEF_FILE_LIMIT).join("\n")}`;
+  }
+
+  const hits = await searchCode(index, `${task.title}\n${task.description}\n${task.acceptanceCriteria}`, {
+    cwd: workspace.cwd,
+    limit: BRIEF_HIT_LIMIT * 2,
   });
+  const outlines = [...new Set(hits.map((hit) => hit.path))]
+    .slice(0, BRIEF_OUTLINE_LIMIT)
+    .map((relPath) => {
+      const outline = fileOutline(index, relPath);
+      return outline ? formatOutline(relPath, outline) : null;
+    })
+    .filter((outline): outline is string => outline !== null);
 
-  const parsed = JSON.parse(response.choices[0].message.content ?? "{}") as ExecutionPlan;
-  return {
-    plan: Array.isArray(parsed.plan) ? parsed.plan.slice(0, 8).map((s) => String(s)) : [],
-    targetFiles: Array.isArray(parsed.targetFiles)
-      ? parsed.targetFiles
-        .map((s) => normalizeRelPath(String(s).trim()))
-        .filter((s) => isEditableTargetPath(s))
-        .slice(0, TARGET_FILE_LIMIT)
-      : [],
-  };
+  // The indexed paths come from git, so ignored and generated directories stay out of the layout.
+  const indexedFiles = [...index.files.keys()];
+  return `Repository layout (${indexedFiles.length} indexed files; directory file counts):
+${repositoryLayout(indexedFiles)}
+
+Code most relevant to the task (search_code finds more):
+${hits.slice(0, BRIEF_HIT_LIMIT).map(formatSearchHit).join("\n\n") || "(nothing in the index matches the task)"}
+
+Outlines of those files:
+${outlines.join("\n\n") || "(none)"}`;
+}
+
+function verificationSummary(plan: VerificationPlan) {
+  if (plan.configError) return `${DEVROOM_CONFIG_FILE} is invalid (${plan.configError}); no verification command can run.`;
+  const commands = plan.commands.map((c) => `- ${c.kind}: ${c.command}`).join("\n") || "(none)";
+  if (plan.declared) return `Verification commands (from ${DEVROOM_CONFIG_FILE}; nothing else can run):\n${commands}`;
+  return `Verification commands (detected):\n${commands}\nPackage scripts: ${plan.scripts.join(", ") || "(none)"}`;
 }
 
-async function makePatchPlan(params: {
-  roomTitle: string;
-  roomGoal: string;
-  taskTitle: string;
-  taskDescription: string;
-  acceptanceCriteria: string;
+function agentLoopBrief(params: {
+  room: Room;
+  task: Task;
   gitStatus: string;
-  plan: string[];
-  allowedTargets: string[];
-  filePayload: Array<{ path: string; content: string }>;
-  preferFileEdits?: boolean;
+  verification: VerificationPlan;
+  repositoryContext: string;
+  contractInputs: string[];
+  mockedContracts: MockedContract[];
 }) {
-  const filesJoined = params.filePayload
-    .map((f) => `FILE: ${f.path}\n${f.content}`)
-    .join("\n\n---\n\n");
-
-  const response = await openai.chat.completions.create({
-    model: AGENTIC_MODEL,
-    max_tokens: 4200,
-    response_format: { type: "json_object" },
-    messages: [
-      {
-        role: "system",
-        content: `You are an autonomous coding agent.
-Return JSON only:
-{
-  "patch": "git unified diff text",
-  "fileEdits": [{ "path": "relative/path", "content": "full updated file content" }],
-  "verificationCommands": ["string"],
-  "progressSummary": "string"
-}
-Rules:
-- Use one of two output modes:
-  1) preferred: valid git unified diff in "patch"
-  2) fallback: set "patch" to empty and provide "fileEdits" with full updated file content
-- patch must be plain unified diff, no markdown fences.
-- edit only allowed target files.
-- fileEdits paths must be exact paths from allowed target files.
-- include a patch only when a concrete code change is possible.
-- Do not edit design/image/binary files.
-- verificationCommands should be package-script checks only (npm/pnpm/yarn run <script>) and max 3.`,
-      },
-      {
-        role: "user",
-        content: `Room: ${params.roomTitle}
-Goal: ${params.roomGoal}
-Task: ${params.taskTitle}
-Description: ${params.taskDescription}
+  const { room, task } = params;
+  const mocks = params.mockedContracts.map((c) => `- ${c.name}: ${c.mockPath}/<operation path>`).join("\n");
+  return `Room: ${room.title}
+Goal: ${room.goal}
+Task: ${task.title}
+Description: ${task.description}
 Acceptance Criteria:
-${params.acceptanceCriteria}
+${parseAcceptanceCriteria(task.acceptanceCriteria).map((c) => `${c.id}. ${c.text}`).join("\n") || "(none)"}
 
 Current git status:
 ${params.gitStatus}
 
-Execution plan:
-${params.plan.join("\n")}
+${verificationSummary(params.verification)}
 
-Execution mode:
-${params.preferFileEdits ? "Use fileEdits mode only. Set patch to an empty string." : "Prefer patch mode if reliable."}
-
-Allowed target files:
-${params.allowedTargets.join("\n") || "(none provided)"}
+Contracts this task depends on (read-only):
+${params.contractInputs.join("\n") || "(none)"}
+${mocks ? `
+Not implemented yet: code against these contracts as written and stub their calls in tests, since commands here run without network access. Outside this pass, the DevRoom API serves a mock of each for people running the code (send X-DevRoom-Task: ${task.id}):
+${mocks}
+` : ""}
+${params.repositoryContext}`;
+}
 
-Files:
-${filesJoined}`,
-      },
-    ],
+// Drives one pass as a multi-turn tool-calling conversation. The model explores and edits
+// the worktree until it calls finish and the acceptance checks pass; failed checks are
+// fed back as the next observation until the step or token budget runs out.
+async function runAgentLoop(params: {
+  run: AgentRunRecorder;
+  room: Room;
+  userId: string;
+  task: Task;
+  cwd: string;
+  producedContractIds: string[];
+  contractInputs: string[];
+  mockedContracts: MockedContract[];
+}) {
+  const { run, room, userId, task, cwd, producedContractIds } = params;
+  const context = await collectWorkspaceContext(cwd);
+  const index = await codeIndexFor(room.id, cwd).catch((err) => {
+    console.error(`Code index unavailable for room ${room.id}:`, err);
+    return null;
   });
-
-  const parsed = JSON.parse(response.choices[0].message.content ?? "{}") as PatchPlan;
-  return {
-    patch: params.preferFileEdits ? "" : (typeof parsed.patch === "string" ? normalizePatch(parsed.patch) : ""),
-    fileEdits: Array.isArray(parsed.fileEdits)
-      ? parsed.fileEdits
-        .map((entry) => ({
-          path: typeof entry?.path === "string" ? normalizeRelPath(entry.path.trim()) : "",
-          content: typeof entry?.content === "string" ? entry.content : "",
-        }))
-        .filter((entry) => isEditableTargetPath(entry.path))
-        .slice(0, TARGET_FILE_LIMIT)
-      : [],
-    verificationCommands: Array.isArray(parsed.verificationCommands)
-      ? parsed.verificationCommands.map((c) => String(c)).slice(0, 3)
-      : [],
-    progressSummary: typeof parsed.progressSummary === "string" ? parsed.progressSummary : "Automated code update attempted.",
+  const workspace: AgentWorkspace = {
+    roomId: room.id,
+    userId,
+    cwd,
+    files: context.files,
+    index,
+    originals: new Map(),
+    failures: new Map(),
+    lastFailedCommand: null,
+    verification: await resolveVerificationPlan(cwd),
+    dependenciesChecked: false,
   };
-}
+  const messages: LlmMessage[] = [
+    { role: "system", content: agentLoopSystemPrompt() },
+    {
+      role: "user",
+      content: agentLoopBrief({
+        room,
+        task,
+        gitStatus: context.gitStatus,
+        verification: workspace.verification,
+        repositoryContext: await repositoryContext(workspace, task),
+        contractInputs: params.contractInputs,
+        mockedContracts: params.mockedContracts,
+      }),
+    },
+  ];
 
-async function readTargetFiles(cwd: string, targetFiles: string[]) {
-  const payload: Array<{ path: string; content: string }> = [];
-  for (const relPath of targetFiles) {
-    if (!isSafeRelativePath(relPath)) continue;
-    if (!isEditableTargetPath(relPath)) continue;
-    const abs = path.join(cwd, relPath);
-    try {
-      const stat = await fs.stat(abs);
-      if (!stat.isFile()) continue;
-      const content = await fs.readFile(abs, "utf8");
-      payload.push({
-        path: relPath,
-        content: content.length > FILE_CONTENT_PREVIEW_LIMIT ? content.slice(0, FILE_CONTENT_PREVIEW_LIMIT) : content,
-      });
-    } catch {
-      // Ignore unreadable target files
+  let steps = 0;
+  let tokensUsed = 0;
+  let planned = false;
+  let emptyFinishes = 0;
+  let untestedFinishNudged = false;
+  let lastFailure: LoopFailure | null = null;
+  let lastCriteria: AcceptanceCriterionResult[] | null = null;
+  const criteria = parseAcceptanceCriteria(task.acceptanceCriteria);
+  const result = (outcome: AgentLoopOutcome) => ({ outcome, workspace, steps, tokensUsed });
+
+  while (steps < AGENT_MAX_STEPS && tokensUsed < AGENT_TOKEN_BUDGET) {
+    steps += 1;
+    const stepStartedAt = Date.now();
+    compactHistory(messages);
+    const response = await completeChat({
+      purpose: "agentic.tool_loop",
+      maxTokens: 4200,
+      json: true,
+      messages,
+    });
+    tokensUsed += estimateTokens(messages.map((m) => m.content).join("") + response);
+    messages.push({ role: "assistant", content: response || "{}" });
+
+    const action = parseAgentAction(response);
+    let toolResult: ToolResult;
+    if (!action) {
+      toolResult = { ok: false, observation: 'Error: reply with exactly one JSON object: { "thought", "tool", "args" }.' };
+      await run.step({ phase: "tool_call", status: "failed", summary: "Reply wasn't a tool call.", startedAt: stepStartedAt, detail: { step: steps, response: response.slice(0, 1000) } });
+    } else {
+      if (action.plan.length > 0 && !planned) {
+        planned = true;
+        await run.update({ plan: action.plan });
+        await run.step({ phase: "plan", status: "succeeded", summary: `${action.plan.length} plan step(s).`, startedAt: stepStartedAt, detail: { plan: action.plan, workspaceFileCount: context.files.length } });
+      }
+
+      if (action.tool === "give_up") {
+        const reason = typeof action.args.reason === "string" && action.args.reason.trim() ? action.args.reason.trim() : "No reason given.";
+        await run.step({ phase: "tool_call", status: "failed", summary: `Gave up: ${reason}`, startedAt: stepStartedAt, detail: { step: steps, tokensUsed } });
+        return result({ kind: "gave_up", reason });
+      }
+
+      if (action.tool === "finish") {
+        const summary = typeof action.args.summary === "string" && action.args.summary.trim() ? action.args.summary.trim() : "Automated code update.";
+        const changedFiles = changedFilesFromSnapshots(workspace.originals, await snapshotTargetFiles(cwd, [...workspace.originals.keys()]));
+        if (changedFiles.length === 0) {
+          emptyFinishes += 1;
+          if (emptyFinishes > 1) return result({ kind: "no_changes", summary });
+          toolResult = { ok: false, observation: "No file differs from before the pass. Make the changes the acceptance criteria need, or call finish again if none are needed." };
+        } else {
+          const requested = Array.isArray(action.args.verificationCommands) ? action.args.verificationCommands.map((c) => String(c)) : [];
+          const criterionTests = parseCriterionMappings(action.args.criteria, criteria);
+          if (criteria.length > 0 && criterionTests.length === 0 && !untestedFinishNudged) {
+            untestedFinishNudged = true;
+            toolResult = {
+              ok: false,
+              observation: `No acceptance criterion is mapped to a test. Add tests for ${criteria.map((c) => c.id).join(", ")} and list them in finish's "criteria", or call finish again to leave them untested.`,
+            };
+          } else {
+            const acceptance = await checkAcceptance(workspace, { requestedCommands: requested, producedContractIds, criteria, criterionTests });
+            await recordAcceptance(run, acceptance, stepStartedAt);
+            if (acceptance.passed) return result({ kind: "accepted", summary, changedFiles, acceptance });
+            lastFailure = { reason: acceptance.reason ?? "Acceptance checks failed.", feedback: acceptance.feedback };
+            lastCriteria = acceptance.criteria.length > 0 ? acceptance.criteria : null;
+            toolResult = { ok: false, observation: `The acceptance checks failed. Fix the following and call finish again.\n\n${acceptance.feedback}` };
+          }
+        }
+      } else {
+        toolResult = await runAgentTool(workspace, action);
+        if (action.tool === "run_script" && workspace.lastFailedCommand && !toolResult.ok && !toolResult.observation.startsWith("Error:")) {
+          lastFailure = { reason: `Verification failed for command: ${workspace.lastFailedCommand}`, feedback: toolResult.observation };
+        }
+        await run.step({
+          phase: toolPhase(action.tool),
+          status: toolResult.ok ? "succeeded" : "failed",
+          summary: describeToolCall(action),
+          startedAt: stepStartedAt,
+          detail: {
+            step: steps,
+            thought: action.thought,
+            args: shortenArgs(action.args, 200),
+            observation: toolResult.observation.slice(0, 1000),
+            tokensUsed,
+          },
+        });
+      }
     }
+
+    messages.push({
+      role: "user",
+      content: `${toolResult.observation}\n\n[step ${steps}/${AGENT_MAX_STEPS}, about ${Math.max(0, AGENT_TOKEN_BUDGET - tokensUsed)} tokens left]`,
+    });
   }
-  return payload;
+
+  const budget = steps >= AGENT_MAX_STEPS ? `${AGENT_MAX_STEPS}-step` : `${AGENT_TOKEN_BUDGET}-token`;
+  return result({
+    kind: "exhausted",
+    reason: lastFailure
+      ? `${lastFailure.reason} (agent loop used its ${budget} budget)`
+      : `Agent loop used its ${budget} budget without finishing.`,
+    lastFailure,
+    criteria: lastCriteria,
+  });
 }
 
 async function emitTaskStatus(roomId: string, taskId: string, taskTitle: string, status: "in_progress" | "review" | "blocked", blockedReason?: string) {
@@ -586,7 +1272,7 @@ export async function runWorkerAgenticExecution(params: {
   workerMessage: (content: string) => Promise<void>;
 }) {
   const { roomId, userId, taskIds, workerMessage } = params;
-  if (!process.env.OPENAI_API_KEY) return;
+  if (!isLlmConfigured()) return;
 
   const room = await prisma.room.findUnique({ where: { id: roomId } });
   if (!room) return;
@@ -598,7 +1284,16 @@ export async function runWorkerAgenticExecution(params: {
       id: { in: taskIds },
     },
     include: {
-      toDependencies: { include: { fromTask: true } },
+      toDependencies: {
+        include: { fromTask: { include: { contractDeps: { select: { contractId: true, dependencyType: true } } } } },
+      },
+      contractDeps: {
+        select: {
+          contractId: true,
+          dependencyType: true,
+          contract: { select: { name: true, type: true, currentVersionId: true } },
+        },
+      },
     },
     orderBy: { createdAt: "asc" },
   });
@@ -616,188 +1311,147 @@ export async function runWorkerAgenticExecution(params: {
     await workerMessage(`Repository workspace is not ready for this room. ${workspaceSetup.repoLastError ?? "Please fix repo setup and retry."}`);
     return;
   }
-  const cwd = workspaceSetup.workspacePath;
+
+  let cwd: string;
+  try {
+    cwd = await acquireWorkerWorktree({
+      roomId,
+      userId,
+      workspacePath: workspaceSetup.workspacePath,
+      baseBranch: workspaceSetup.repoDefaultBranch,
+    });
+  } catch (err) {
+    await workerMessage(`Could not prepare an isolated worktree for this pass: ${String(err).slice(0, 500)}`);
+    return;
+  }
+
+  try {
+    await runTasksInWorktree({ roomId, userId, room, tasks, cwd, baseBranch: workspaceSetup.repoDefaultBranch, workerMessage });
+  } finally {
+    await releaseWorkerWorktree(cwd);
+  }
+}
+
+async function runTasksInWorktree(params: {
+  roomId: string;
+  userId: string;
+  room: Room;
+  tasks: Array<Task & {
+    toDependencies: Array<TaskDependency & { fromTask: Task & { contractDeps: Array<{ contractId: string; dependencyType: DependencyType }> } }>;
+    contractDeps: Array<{ contractId: string; dependencyType: DependencyType; contract: Pick<Contract, "name" | "type" | "currentVersionId"> }>;
+  }>;
+  cwd: string;
+  baseBranch: string;
+  workerMessage: (content: string) => Promise<void>;
+}) {
+  const { roomId, userId, room, tasks, cwd, baseBranch, workerMessage } = params;
 
   for (const task of tasks) {
     const lockKey = `${roomId}:${task.id}`;
     if (executionLocks.has(lockKey)) continue;
     executionLocks.add(lockKey);
+    let run: AgentRunRecorder | null = null;
 
     try {
-      const blockedByDependency = task.toDependencies.some((dep) => dep.fromTask.status !== "done");
-      if (blockedByDependency) {
-        await workerMessage(`Skipping "${task.title}" for now: waiting on dependency completion.`);
-        continue;
-      }
-
-      if (task.status === "todo" || task.status === "blocked") {
-        await prisma.task.update({
-          where: { id: task.id },
-          data: { status: "in_progress", blockedReason: null },
-        });
-        await emitTaskStatus(roomId, task.id, task.title, "in_progress");
-      }
-
-      const context = await collectWorkspaceContext(cwd);
-      const executionPlan = await makeExecutionPlan({
-        roomTitle: room.title,
-        roomGoal: room.goal,
-        taskTitle: task.title,
-        taskDescription: task.description,
-        acceptanceCriteria: task.acceptanceCriteria,
-        files: context.files,
-      });
-
-      const targetFiles = selectTargetFiles({
-        requestedTargets: executionPlan.targetFiles,
-        workspaceFiles: context.files,
-        taskTitle: task.title,
-        taskDescription: task.description,
-        acceptanceCriteria: task.acceptanceCriteria,
+      const parkedRun = await prisma.agentRun.findFirst({
+        where: { taskId: task.id, status: "awaiting_approval" },
+        select: { id: true },
       });
-      if (targetFiles.length === 0) {
-        await prisma.task.update({
-          where: { id: task.id },
-          data: { status: "blocked", blockedReason: "Agentic execution could not find safe target files for this task." },
-        });
-        await emitTaskStatus(roomId, task.id, task.title, "blocked", "No safe target files identified.");
-        await workerMessage(`I could not map "${task.title}" to safe code files in this repo yet. Please add more concrete file-level guidance and retry.`);
+      if (parkedRun) {
+        await workerMessage(`Skipping "${task.title}" for now: its last pass is still waiting for approval.`);
         continue;
       }
-      const filePayload = await readTargetFiles(cwd, targetFiles);
-      const beforeSnapshot = await snapshotTargetFiles(cwd, targetFiles);
 
-      const patchPlan = await makePatchPlan({
-        roomTitle: room.title,
-        roomGoal: room.goal,
-        taskTitle: task.title,
-        taskDescription: task.description,
-        acceptanceCriteria: task.acceptanceCriteria,
-        gitStatus: context.gitStatus,
-        plan: executionPlan.plan,
-        allowedTargets: targetFiles,
-        filePayload,
-        preferFileEdits: true,
-      });
-
-      if (!patchPlan.patch.trim() && patchPlan.fileEdits.length === 0) {
-        await workerMessage(`I reviewed "${task.title}" but couldn't produce a safe code patch yet. Suggested plan:\n${executionPlan.plan.map((s, i) => `${i + 1}. ${s}`).join("\n") || "No plan produced."}`);
+      const { waitingOn, mockedContracts } = unfinishedDependencies(roomId, task);
+      if (waitingOn.length > 0) {
+        await workerMessage(`Skipping "${task.title}" for now: waiting on dependency completion.`);
         continue;
       }
-
-      const allowedPaths = new Set(targetFiles);
-      let applyMode: "patch" | "file_edits" | null = null;
-      let appliedFiles: string[] = [];
-      let firstApplyError: unknown = null;
-
-      try {
-        if (patchPlan.patch.trim()) {
-          await ensurePatchApplies(cwd, patchPlan.patch);
-          applyMode = "patch";
-        }
-      } catch (error) {
-        firstApplyError = error;
+      if (mockedContracts.length > 0) {
+        await workerMessage(`Starting "${task.title}" before its prerequisites are done, against the mock of ${mockedContracts.map((c) => `"${c.name}"`).join(", ")}.`);
       }
 
-      if (!applyMode && patchPlan.fileEdits.length > 0) {
-        try {
-          appliedFiles = await applyFileEdits(cwd, patchPlan.fileEdits, allowedPaths);
-          applyMode = "file_edits";
-        } catch (error) {
-          if (!firstApplyError) firstApplyError = error;
-        }
-      }
-
-      if (!applyMode && patchPlan.fileEdits.length === 0 && firstApplyError) {
-        try {
-          const retryEditPlan = await makePatchPlan({
-            roomTitle: room.title,
-            roomGoal: room.goal,
-            taskTitle: task.title,
-            taskDescription: task.description,
-            acceptanceCriteria: task.acceptanceCriteria,
-            gitStatus: context.gitStatus,
-            plan: executionPlan.plan,
-            allowedTargets: targetFiles,
-            filePayload,
-            preferFileEdits: true,
-          });
-
-          if (retryEditPlan.fileEdits.length > 0) {
-            appliedFiles = await applyFileEdits(cwd, retryEditPlan.fileEdits, allowedPaths);
-            applyMode = "file_edits";
-          }
-        } catch (error) {
-          if (!firstApplyError) firstApplyError = error;
-        }
-      }
+      run = await startAgentRun({ roomId, taskId: task.id, taskTitle: task.title, userId });
 
-      if (!applyMode) {
+      if (task.status === "todo" || task.status === "blocked") {
         await prisma.task.update({
           where: { id: task.id },
-          data: { status: "blocked", blockedReason: `Agentic patch failed: ${String(firstApplyError).slice(0, 500)}` },
+          data: { status: "in_progress", blockedReason: null },
         });
-        await emitTaskStatus(roomId, task.id, task.title, "blocked", `Agentic patch failed. See worker chat for details.`);
-        await workerMessage(`Patch application failed for "${task.title}". Error:\n${String(firstApplyError)}`);
+        await emitTaskStatus(roomId, task.id, task.title, "in_progress");
+      }
+
+      // Each task's pass lands on its own branch; an admin merges it via the merge request.
+      const taskBranch = taskBranchName(task.id, task.title);
+      await checkoutTaskBranch({ workspacePath: cwd, branch: taskBranch, baseBranch });
+
+      const contractInputs = await contractInputPaths(cwd, task.contractDeps.map((dep) => dep.contractId));
+      const producedContractIds = task.contractDeps
+        .filter((dep) => dep.dependencyType !== "consumes")
+        .map((dep) => dep.contractId);
+      const loop = await runAgentLoop({ run, room, userId, task, cwd, producedContractIds, contractInputs, mockedContracts });
+      const { outcome, workspace } = loop;
+      await run.update({ targetFiles: [...workspace.originals.keys()], applyMode: "agent_loop" });
+
+      if (outcome.kind === "no_changes") {
+        await run.finish("skipped", "No code changes were produced.");
+        await workerMessage(`I worked on "${task.title}" for ${loop.steps} step(s) but made no code changes. ${outcome.summary}`);
         continue;
       }
 
-      const afterSnapshot = await snapshotTargetFiles(cwd, targetFiles);
-      const changedTargetFiles = changedFilesFromSnapshots(beforeSnapshot, afterSnapshot);
-      if (changedTargetFiles.length === 0) {
+      if (outcome.kind !== "accepted") {
+        const reason = outcome.kind === "gave_up" ? `Agent gave up: ${outcome.reason}` : outcome.reason;
+        await run.finish("blocked", reason);
+        const criteria = outcome.kind === "exhausted" ? outcome.criteria : null;
         await prisma.task.update({
           where: { id: task.id },
-          data: { status: "blocked", blockedReason: "Agentic execution produced no effective code changes." },
+          data: {
+            status: "blocked",
+            blockedReason: reason.slice(0, 500),
+            ...(criteria ? { acceptanceResults: criteria as unknown as Prisma.InputJsonValue, acceptanceCheckedAt: new Date() } : {}),
+          },
         });
-        await emitTaskStatus(roomId, task.id, task.title, "blocked", "No effective code changes were produced.");
-        await workerMessage(
-          `I attempted "${task.title}" but no effective file delta was produced in safe target files (${targetFiles.join(", ")}). Re-run with more specific implementation instructions.`,
-        );
+        await emitTaskStatus(roomId, task.id, task.title, "blocked", reason.slice(0, 500));
+        await workerMessage(outcome.kind === "gave_up"
+          ? `I stopped working on "${task.title}": ${outcome.reason}`
+          : [
+            `I couldn't get "${task.title}" through its checks within the budget (${loop.steps} step(s), ~${loop.tokensUsed} tokens).`,
+            outcome.lastFailure ? `Last failure:\n${outcome.lastFailure.feedback.slice(0, 2000)}` : "It never called finish.",
+          ].join("\n\n"));
         continue;
       }
 
-      const verificationLogs: string[] = [];
-      let verificationFailed = false;
-      const verificationCommands = patchPlan.verificationCommands.length > 0
-        ? patchPlan.verificationCommands
-        : await getFallbackVerificationCommands(cwd);
-
-      if (verificationCommands.length === 0) {
-        verificationLogs.push("No runnable verification script found in package.json. Verification skipped.");
-      }
-
-      for (const cmd of verificationCommands) {
-        if (!(await canRunVerificationCommand(cwd, cmd))) {
-          verificationLogs.push(`$ ${cmd}\nSKIPPED: command is unsafe or script is not defined in package.json.`);
-          continue;
-        }
-        try {
-          const result = await runShell(cwd, cmd, 180000);
-          verificationLogs.push(`$ ${cmd}\n${(result.stdout || result.stderr).slice(0, 2000) || "(no output)"}`);
-        } catch (error) {
-          verificationLogs.push(`$ ${cmd}\nFAILED: ${String(error).slice(0, 1200)}`);
-          await prisma.task.update({
-            where: { id: task.id },
-            data: { status: "blocked", blockedReason: `Verification failed for command: ${cmd}` },
-          });
-          await emitTaskStatus(roomId, task.id, task.title, "blocked", `Verification failed (${cmd}).`);
-          await workerMessage(`Code was edited for "${task.title}", but verification failed.\n${verificationLogs.join("\n\n")}`);
-          verificationFailed = true;
-          break;
-        }
+      const { acceptance, changedFiles, summary } = outcome;
+      const restoredArtifacts = await restoreContractArtifacts(cwd);
+      if (restoredArtifacts.length > 0) {
+        emitSecurityAlert({
+          roomId,
+          userId,
+          action: "agent.contract_artifacts_modified",
+          detail: `Restored ${restoredArtifacts.join(", ")} before committing "${task.title}".`,
+          severity: "medium",
+        }).catch(console.error);
       }
+      const approvalRequired = room.agentApprovalMode === "always"
+        || (room.agentApprovalMode === "verify_only" && acceptance.verificationRanCount === 0);
 
-      if (verificationFailed) {
-        continue;
-      }
+      // Keep the diff on every committed run; the master's contract-linking pass reads it.
+      const diff = await collectWorkspaceDiff(cwd);
+      await run.update({ diff });
 
+      // A run that needs approval commits without pushing and parks on its task branch, so
+      // the wait holds neither this worktree nor the task lock; see decideParkedRun.
+      const stepStartedAt = Date.now();
       const gitResult = await commitAndMaybePushRoomRepo({
         roomId,
         workspacePath: cwd,
         taskTitle: task.title,
+        push: !approvalRequired,
       });
 
       if (!gitResult.committed) {
+        await run.step({ phase: "commit", status: "failed", summary: "Nothing to commit.", startedAt: stepStartedAt });
+        await run.finish("blocked", "Agentic execution did not produce a commitable code delta.");
         await prisma.task.update({
           where: { id: task.id },
           data: { status: "blocked", blockedReason: "Agentic execution did not produce a commitable code delta." },
@@ -805,75 +1459,252 @@ export async function runWorkerAgenticExecution(params: {
         await emitTaskStatus(roomId, task.id, task.title, "blocked", "No commitable code changes were produced.");
         await workerMessage([
           `I attempted "${task.title}" but there was still no commitable code delta.`,
-          `Changed safe target files: ${changedTargetFiles.join(", ") || "none"}.`,
+          `Changed safe target files: ${changedFiles.join(", ") || "none"}.`,
           "Task stays blocked until a concrete code change is produced.",
         ].join("\n"));
         continue;
       }
-
-      await prisma.task.update({
-        where: { id: task.id },
-        data: { status: "review", blockedReason: null },
+      await run.update({ commitSha: gitResult.commitSha });
+      await run.step({
+        phase: "commit",
+        status: "succeeded",
+        summary: `Created commit${gitResult.commitSha ? ` ${gitResult.commitSha}` : ""}.`,
+        startedAt: stepStartedAt,
+        detail: { commitSha: gitResult.commitSha },
       });
-      await emitTaskStatus(roomId, task.id, task.title, "review");
 
-      if (gitResult.pushError) {
-        await emitEvent({
-          roomId,
-          visibility: "global",
-          type: "master.integration.alert",
-          payload: {
-            severity: "medium",
-            message: `Repo push failed after task "${task.title}". Manual push may be required.`,
-            relatedTaskIds: [task.id],
-            relatedContractIds: [],
-          },
-        });
+      const pass: ParkedPass = {
+        taskBranch,
+        baseBranch,
+        commitSha: gitResult.commitSha,
+        changedFiles,
+        summary,
+        steps: loop.steps,
+        criteria: acceptance.criteria,
+        verificationLogs: acceptance.verificationLogs,
+      };
+
+      if (approvalRequired) {
+        await run.update({ parked: pass as unknown as Prisma.InputJsonValue });
+        await run.setStatus("awaiting_approval");
+        await workerMessage([
+          `Changes for "${task.title}" are committed on \`${taskBranch}\` and waiting for your approval before I push them and open a merge request.`,
+          `Changed files: ${changedFiles.join(", ")}.`,
+          `\`\`\`diff\n${diff.slice(0, APPROVAL_DIFF_PREVIEW_LIMIT)}${diff.length > APPROVAL_DIFF_PREVIEW_LIMIT ? "\n... (truncated)" : ""}\n\`\`\``,
+          "Approve or reject this run from the worker panel.",
+        ].join("\n\n"));
+        continue;
       }
 
-      await prisma.notebookEntry.create({
-        data: {
-          roomId,
-          category: "task_update",
-          title: `Agentic code update: ${task.title}`,
-          content: `Worker agent edited code for **${task.title}**.\n\nSummary: ${patchPlan.progressSummary}\n\nChanged files: ${changedTargetFiles.join(", ")}\n\nVerification:\n${verificationLogs.length > 0 ? verificationLogs.map((l) => `\`\`\`\n${l}\n\`\`\``).join("\n") : "_No verification commands run_"}`,
-          references: { taskIds: [task.id] },
-        },
-      });
-
-      await workerMessage([
-        `I completed an autonomous coding pass for "${task.title}".`,
-        `Status moved to **review**.`,
-        applyMode === "file_edits" && appliedFiles.length > 0
-          ? `Applied direct file edits to: ${appliedFiles.join(", ")}.`
-          : "Applied patch successfully.",
-        `Changed files: ${changedTargetFiles.join(", ")}.`,
-        patchPlan.progressSummary,
-        `Created commit${gitResult.commitSha ? ` ${gitResult.commitSha}` : ""}.${gitResult.pushed ? " Pushed to remote." : " Not pushed to remote."}`,
-        verificationLogs.length > 0 ? `Verification:\n${verificationLogs.join("\n\n")}` : "No verification command was executed.",
-      ].join("\n\n"));
-
-      await emitEvent({
+      await completeTaskPass({
         roomId,
-        visibility: "global",
-        type: "worker.progress.updated",
-        payload: {
-          taskId: task.id,
-          taskTitle: task.title,
-          userId,
-          status: "review",
-          summary: patchPlan.progressSummary,
-        },
+        userId,
+        task,
+        run,
+        pass,
+        pushed: gitResult.pushed,
+        pushError: gitResult.pushError,
+        workerMessage,
       });
     } catch (err) {
-      await prisma.task.update({
-        where: { id: task.id },
-        data: { status: "blocked", blockedReason: `Agentic execution error: ${String(err).slice(0, 500)}` },
-      }).catch(() => undefined);
-      await emitTaskStatus(roomId, task.id, task.title, "blocked", "Agentic execution error.");
-      await workerMessage(`Agentic execution failed for "${task.title}": ${String(err)}`);
+      await failTaskPass({ roomId, task, run, err, workerMessage });
     } finally {
+      await releaseTaskBranch(cwd, baseBranch);
       executionLocks.delete(lockKey);
     }
   }
 }
+
+async function failTaskPass(params: {
+  roomId: string;
+  task: Pick<Task, "id" | "title">;
+  run: AgentRunRecorder | null;
+  err: unknown;
+  workerMessage: (content: string) => Promise<void>;
+}) {
+  const { roomId, task, run, err, workerMessage } = params;
+  await run?.finish("failed", `Agentic execution error: ${String(err).slice(0, 500)}`).catch(() => undefined);
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { status: "blocked", blockedReason: `Agentic execution error: ${String(err).slice(0, 500)}` },
+  }).catch(() => undefined);
+  await emitTaskStatus(roomId, task.id, task.title, "blocked", "Agentic execution error.");
+  await workerMessage(`Agentic execution failed for "${task.title}": ${String(err)}`);
+}
+
+// Pushes the committed pass, opens its merge request and moves the task to review.
+async function completeTaskPass(params: {
+  roomId: string;
+  userId: string;
+  task: Pick<Task, "id" | "title">;
+  run: AgentRunRecorder;
+  pass: ParkedPass;
+  pushed: boolean;
+  pushError: string | null;
+  workerMessage: (content: string) => Promise<void>;
+}) {
+  const { roomId, userId, task, run, pass, pushed, pushError, workerMessage } = params;
+  const { taskBranch, baseBranch, commitSha, changedFiles, summary, criteria, verificationLogs } = pass;
+
+  await run.step({
+    phase: "push",
+    status: pushed ? "succeeded" : pushError ? "failed" : "skipped",
+    summary: pushed ? `Pushed ${taskBranch} to remote.` : pushError ?? "No remote configured.",
+    startedAt: Date.now(),
+  });
+
+  const mergeRequest = await openTaskMergeRequest({
+    roomId,
+    taskId: task.id,
+    taskTitle: task.title,
+    sourceBranch: taskBranch,
+    targetBranch: baseBranch,
+    headSha: commitSha,
+  });
+
+  await prisma.task.update({
+    where: { id: task.id },
+    data: {
+      status: "review",
+      blockedReason: null,
+      ...(criteria.length > 0
+        ? { acceptanceResults: criteria as unknown as Prisma.InputJsonValue, acceptanceCheckedAt: new Date() }
+        : {}),
+    },
+  });
+  await emitTaskStatus(roomId, task.id, task.title, "review");
+
+  if (pushError) {
+    await emitEvent({
+      roomId,
+      visibility: "global",
+      type: "master.integration.alert",
+      payload: {
+        severity: "medium",
+        message: `Repo push failed after task "${task.title}". Manual push may be required.`,
+        relatedTaskIds: [task.id],
+        relatedContractIds: [],
+      },
+    });
+  }
+
+  await prisma.notebookEntry.create({
+    data: {
+      roomId,
+      category: "task_update",
+      title: `Agentic code update: ${task.title}`,
+      content: `Worker agent edited code for **${task.title}**.\n\nSummary: ${summary}\n\nChanged files: ${changedFiles.join(", ")}\n\nVerification:\n${verificationLogs.length > 0 ? verificationLogs.map((l) => `\`\`\`\n${l}\n\`\`\``).join("\n") : "_No verification commands run_"}`,
+      references: { taskIds: [task.id] },
+    },
+  });
+
+  await workerMessage([
+    `I completed an autonomous coding pass for "${task.title}".`,
+    `Status moved to **review**.`,
+    `Worked through it in ${pass.steps} agent step(s).`,
+    `Changed files: ${changedFiles.join(", ")}.`,
+    summary,
+    `Created commit${commitSha ? ` ${commitSha}` : ""} on \`${taskBranch}\`.${pushed ? " Pushed to remote." : " Not pushed to remote."}`,
+    `Merge request opened into \`${mergeRequest.targetBranch}\`; an admin must approve and merge it to complete the task.`,
+    ...(criteria.length > 0 ? [`${summarizeCriteria(criteria)}.`] : []),
+    verificationLogs.length > 0 ? `Verification:\n${verificationLogs.join("\n\n")}` : "No verification command was executed.",
+  ].join("\n\n"));
+
+  await run.finish("succeeded", summary);
+
+  await emitEvent({
+    roomId,
+    visibility: "global",
+    type: "worker.progress.updated",
+    payload: {
+      taskId: task.id,
+      taskTitle: task.title,
+      userId,
+      status: "review",
+      summary: summary,
+    },
+  });
+}
+
+// Applies an approval decision to a run parked on its task branch. Any API node can take
+// it: the parked state lives on the run and in git. False when the run isn't waiting.
+export async function decideParkedRun(params: {
+  runId: string;
+  decision: ApprovalDecision;
+  workerMessage: (content: string) => Promise<void>;
+}) {
+  const { runId, decision, workerMessage } = params;
+  const resumed = await resumeAgentRun(runId);
+  if (!resumed) return false;
+
+  const { recorder, run, task } = resumed;
+  if (!task) {
+    // resumeAgentRun already failed the run; drop its commit so the branch doesn't keep it.
+    dropParkedCommit(run).catch(console.error);
+    return true;
+  }
+
+  // Pushing can take minutes; the decision is acknowledged once the run is claimed.
+  finishParkedRun({ recorder, run, task, decision, workerMessage }).catch(console.error);
+  return true;
+}
+
+async function dropParkedCommit(run: AgentRun) {
+  const pass = run.parked as unknown as ParkedPass | null;
+  if (!pass?.commitSha) return;
+  await dropTaskBranchCommit({ roomId: run.roomId, branch: pass.taskBranch, commitSha: pass.commitSha });
+}
+
+async function finishParkedRun(params: {
+  recorder: AgentRunRecorder;
+  run: AgentRun;
+  task: Task;
+  decision: ApprovalDecision;
+  workerMessage: (content: string) => Promise<void>;
+}) {
+  const { recorder, run, task, decision, workerMessage } = params;
+  const pass = run.parked as unknown as ParkedPass;
+  const lockKey = `${run.roomId}:${task.id}`;
+  executionLocks.add(lockKey);
+  const stepStartedAt = Date.now();
+
+  try {
+    await recorder.step({
+      phase: "approval",
+      status: decision.approved ? "succeeded" : "failed",
+      summary: `${decision.approved ? "Approved" : "Rejected"}${decision.note ? `: ${decision.note}` : "."}`,
+      startedAt: stepStartedAt,
+      detail: { decidedByUserId: decision.decidedByUserId, note: decision.note },
+    });
+
+    if (!decision.approved) {
+      await dropParkedCommit(run);
+      await recorder.finish("rejected", `Changes rejected${decision.note ? `: ${decision.note}` : "."}`);
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { status: "in_progress", blockedReason: null },
+      });
+      await emitTaskStatus(run.roomId, task.id, task.title, "in_progress");
+      await workerMessage(
+        `Changes for "${task.title}" were rejected${decision.note ? ` (${decision.note})` : ""}. I dropped the commit from \`${pass.taskBranch}\`; the task stays in progress.`,
+      );
+      return;
+    }
+
+    const { pushed, pushError } = await publishTaskBranch({ roomId: run.roomId, branch: pass.taskBranch });
+    await completeTaskPass({
+      roomId: run.roomId,
+      userId: run.userId,
+      task,
+      run: recorder,
+      pass,
+      pushed,
+      pushError,
+      workerMessage,
+    });
+  } catch (err) {
+    await failTaskPass({ roomId: run.roomId, task, run: recorder, err, workerMessage });
+  } finally {
+    executionLocks.delete(lockKey);
+  }
+}
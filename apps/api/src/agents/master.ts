@@ -1,12 +1,12 @@
-import OpenAI from "openai";
 import { prisma } from "../db";
 import { emitEvent, emitMessage } from "../websocket";
-import type { MasterPlanOutput } from "@devroom/shared";
+import type { ContractLinkSuggestion, MasterPlanOutput } from "@devroom/shared";
 import { workerKickoffAssignedTasks } from "./worker";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const MASTER_MODEL = process.env.OPENAI_MODEL?.trim() || "gpt-4o";
-const FAST_MODEL = process.env.OPENAI_FAST_MODEL?.trim() || "gpt-4o-mini";
+import { completeChat, isLlmConfigured, type LlmMessage } from "../services/llm";
+import { findContractLinkCandidates, type ContractLinkCandidate } from "../services/contractLinks";
+import type { ContractChange } from "../services/contractDiff";
+import { contractMockUsage } from "../services/contractMock";
+import { rangeCovers, versionSemver } from "../services/contractSemver";
 
 type RoomMember = {
   userId: string;
@@ -215,10 +215,10 @@ export async function masterPlanRoom(
   const memberCount = members.length;
   const memberList = members.map((m) => `${m.user.name} (${m.role})`).join(", ");
 
-  const response = await openai.chat.completions.create({
-    model: MASTER_MODEL,
-    max_tokens: 4096,
-    response_format: { type: "json_object" },
+  const text = await completeChat({
+    purpose: "master.plan",
+    maxTokens: 4096,
+    json: true,
     messages: [
       {
         role: "system",
@@ -228,9 +228,11 @@ Return ONLY valid JSON matching this exact schema:
   "tasks": [{ "title": "string", "description": "string", "acceptanceCriteria": ["string"], "assigneeHint": "string?" }],
   "dependencies": [{ "fromTitle": "string", "toTitle": "string" }],
   "contracts": [{ "name": "string", "type": "openapi|typescript|jsonschema|protobuf|other", "initialContent": "string", "summary": "string" }],
+  "contractLinks": [{ "taskTitle": "string", "contractName": "string", "dependencyType": "consumes|produces|modifies" }],
   "notesForNotebook": "string"
 }
-Rules: 3-8 tasks, 1-4 contracts, dependencies only if truly sequential, assigneeHint MUST be an exact full name from Team list or omitted, initialContent should be a realistic stub.`,
+Rules: 3-8 tasks, 1-4 contracts, dependencies only if truly sequential, assigneeHint MUST be an exact full name from Team list or omitted, initialContent should be a realistic stub.
+Every contract needs at least one task that produces it; link each task to every contract it implements (produces), calls (consumes) or changes (modifies), using exact titles and names from this plan.`,
       },
       {
         role: "user",
@@ -239,8 +241,7 @@ Rules: 3-8 tasks, 1-4 contracts, dependencies only if truly sequential, assignee
     ],
   });
 
-  const text = response.choices[0].message.content ?? "{}";
-  return JSON.parse(text) as MasterPlanOutput;
+  return JSON.parse(text || "{}") as MasterPlanOutput;
 }
 
 // ─── Contract Impact Analysis ─────────────────────────────────────────────────
@@ -251,34 +252,58 @@ export async function masterHandleContractPublished(
   versionId: string,
   breaking: boolean,
   summary: string,
+  changes: ContractChange[] = [],
+  previousVersionId: string | null = null,
 ) {
-  const [contract, version, taskDeps] = await Promise.all([
+  const [contract, version, previousVersion, taskDeps, mockUsage] = await Promise.all([
     prisma.contract.findUnique({ where: { id: contractId } }),
     prisma.contractVersion.findUnique({ where: { id: versionId } }),
+    previousVersionId ? prisma.contractVersion.findUnique({ where: { id: previousVersionId } }) : null,
     prisma.taskContractDependency.findMany({
       where: { contractId },
       include: {
         task: { include: { assignedUser: { select: { id: true, name: true } } } },
       },
     }),
+    contractMockUsage(contractId).catch(() => []),
   ]);
 
   if (!contract || !version) return;
 
+  // Who has been coding against the mock, per operation: the consumers a change actually reaches.
+  const mockUsageLines = mockUsage.slice(0, 20).map((usage) => {
+    const consumers = usage.consumers
+      .map((c) => `${c.userName ?? "unknown"}${c.taskTitle ? ` via "${c.taskTitle}"` : ""} (${c.calls})`)
+      .join(", ");
+    return `${usage.operation ?? "unmatched requests"}: ${usage.calls} call(s)${usage.invalidCalls > 0 ? `, ${usage.invalidCalls} invalid` : ""} — ${consumers}`;
+  });
+
   const impactedTasks = taskDeps.map((d) => d.task);
   const impactedTaskIds = impactedTasks.map((t) => t.id);
   const impactedUsers = [...new Set(
     impactedTasks.filter((t) => t.assignedUserId).map((t) => t.assignedUserId as string),
   )];
 
-  let impactSummary = `Contract "${contract.name}" v${version.version} published. ${breaking ? "⚠️ Breaking change." : ""} ${impactedTasks.length} tasks affected.`;
+  // Only tasks whose range no longer covers the new version are blocked; the rest are informed
+  const semver = versionSemver(version);
+  const previousSemver = previousVersion ? versionSemver(previousVersion) : null;
+  const uncovered = taskDeps.filter((d) => !rangeCovers(d.versionRange, semver, previousSemver));
+  const blockedTaskIds = uncovered.map((d) => d.task.id);
+  const describeLink = (d: (typeof taskDeps)[number]) =>
+    `"${d.task.title}" (${d.task.status}, ${d.dependencyType}, ${d.versionRange ? `pinned ${d.versionRange}` : "unpinned"}${blockedTaskIds.includes(d.task.id) ? ", no longer covered" : ""})`;
+
+  const breakingChanges = changes.filter((c) => c.breaking);
+  const formatChange = (c: ContractChange) => `${c.breaking ? "[BREAKING] " : ""}${c.location ? `${c.location}: ` : ""}${c.message}`;
+
+  let impactSummary = `Contract "${contract.name}" ${semver} published. ${breaking ? "⚠️ Breaking change." : ""} ${impactedTasks.length} tasks affected, ${blockedTaskIds.length} no longer covered by their version range.`;
   let recommendedActions = ["Review updated contract", "Test integration points"];
 
   try {
-    const aiResponse = await openai.chat.completions.create({
-      model: FAST_MODEL,
-      max_tokens: 512,
-      response_format: { type: "json_object" },
+    const aiResponse = await completeChat({
+      purpose: "master.impact",
+      tier: "fast",
+      maxTokens: 512,
+      json: true,
       messages: [
         {
           role: "system",
@@ -286,11 +311,11 @@ export async function masterHandleContractPublished(
         },
         {
           role: "user",
-          content: `Contract: "${contract.name}" (${contract.type})\nVersion: ${version.version}\nBreaking: ${breaking}\nChange: ${summary}\nImpacted tasks: ${impactedTasks.map((t) => `"${t.title}" (${t.status})`).join(", ")}`,
+          content: `Contract: "${contract.name}" (${contract.type})\nVersion: ${semver}${previousSemver ? ` (was ${previousSemver})` : ""}\nBreaking: ${breaking}\nChange: ${summary}\nDetected changes:\n${changes.slice(0, 40).map((c) => `- ${formatChange(c)}`).join("\n") || "- none detected"}\nImpacted tasks: ${taskDeps.map(describeLink).join(", ")}\nMock usage (last 7 days):\n${mockUsageLines.map((l) => `- ${l}`).join("\n") || "- none"}`,
         },
       ],
     });
-    const parsed = JSON.parse(aiResponse.choices[0].message.content ?? "{}");
+    const parsed = JSON.parse(aiResponse || "{}");
     impactSummary = parsed.impactSummary ?? impactSummary;
     recommendedActions = parsed.recommendedActions ?? recommendedActions;
   } catch (e) {
@@ -304,33 +329,35 @@ export async function masterHandleContractPublished(
       visibility: "user",
       visibleToUserId: userId,
       type: "master.impact.alert",
-      payload: { contractId, contractName: contract.name, impactedTaskIds, summary: impactSummary, recommendedActions },
+      payload: { contractId, contractName: contract.name, semver, impactedTaskIds, blockedTaskIds, summary: impactSummary, recommendedActions },
     });
   }
 
-  // High severity global alert for breaking changes
-  if (breaking && impactedTasks.length > 0) {
+  // Room-wide alert when the publish leaves tasks outside their version range
+  if (uncovered.length > 0) {
     await emitEvent({
       roomId,
       visibility: "global",
       type: "master.integration.alert",
       payload: {
-        severity: "high",
-        message: `⚠️ Breaking contract change: "${contract.name}" v${version.version}. ${impactedTasks.length} tasks affected. ${impactSummary}`,
-        relatedTaskIds: impactedTaskIds,
+        severity: breaking ? "high" : "medium",
+        message: `${breaking ? "⚠️ Breaking contract change" : "Contract change outside pinned ranges"}: "${contract.name}" ${semver}. ${uncovered.length} of ${impactedTasks.length} linked task(s) blocked. ${impactSummary}${breakingChanges.length > 0 ? ` Breaking: ${breakingChanges.slice(0, 3).map(formatChange).join("; ")}${breakingChanges.length > 3 ? ` (+${breakingChanges.length - 3} more)` : ""}` : ""}`,
+        relatedTaskIds: blockedTaskIds,
         relatedContractIds: [contractId],
       },
     });
   }
 
-  // Block impacted tasks
-  for (const task of impactedTasks) {
+  // Block tasks the new version isn't covered for
+  for (const { task, versionRange } of uncovered) {
     if (task.status !== "done" && task.status !== "blocked") {
       await prisma.task.update({
         where: { id: task.id },
         data: {
           status: "blocked",
-          blockedReason: `Contract "${contract.name}" updated (v${version.version}): ${summary}`,
+          blockedReason: versionRange
+            ? `Contract "${contract.name}" ${semver} is outside the pinned range ${versionRange}: ${summary}`
+            : `Contract "${contract.name}" moved to a new major version (${semver}): ${summary}`,
         },
       });
     }
@@ -341,8 +368,8 @@ export async function masterHandleContractPublished(
     data: {
       roomId,
       category: "contract_change",
-      title: `Contract Published: ${contract.name} v${version.version}`,
-      content: `**What changed:** ${summary}\n\n**Breaking:** ${breaking ? "Yes ⚠️" : "No"}\n\n**Impact:** ${impactSummary}\n\n**Impacted tasks:** ${impactedTasks.map((t) => `- ${t.title} (${t.assignedUser?.name ?? "unassigned"})`).join("\n")}\n\n**Recommended actions:**\n${recommendedActions.map((a) => `- ${a}`).join("\n")}`,
+      title: `Contract Published: ${contract.name} ${semver}`,
+      content: `**What changed:** ${summary}\n\n**Breaking:** ${breaking ? "Yes ⚠️" : "No"}\n\n**Impact:** ${impactSummary}\n\n**Detected changes:**\n${changes.length > 0 ? changes.slice(0, 30).map((c) => `- ${formatChange(c)}`).join("\n") : "_No structural changes detected_"}\n\n**Impacted tasks:**\n${taskDeps.map((d) => `- ${d.task.title} (${d.task.assignedUser?.name ?? "unassigned"}; ${d.versionRange ? `pinned ${d.versionRange}` : "unpinned"})${blockedTaskIds.includes(d.task.id) ? " — blocked" : ""}`).join("\n")}${mockUsageLines.length > 0 ? `\n\n**Mock usage (last 7 days):**\n${mockUsageLines.map((l) => `- ${l}`).join("\n")}` : ""}\n\n**Recommended actions:**\n${recommendedActions.map((a) => `- ${a}`).join("\n")}`,
       references: { contractIds: [contractId], taskIds: impactedTaskIds },
     },
   });
@@ -355,6 +382,124 @@ export async function masterHandleContractPublished(
   });
 }
 
+// ─── Contract Auto-Linking ────────────────────────────────────────────────────
+
+const CONTRACT_LINK_CONTENT_LIMIT = 1500;
+const CONTRACT_LINK_DIFF_LIMIT = 3000;
+
+// Proposes task↔contract links the room is missing, from task text and the latest agent
+// diff of each task. Suggestions are posted for an admin to accept, never applied directly.
+export async function masterSuggestContractLinks(
+  roomId: string,
+  options: { taskIds?: string[]; contractIds?: string[] } = {},
+): Promise<ContractLinkSuggestion[]> {
+  const [tasks, contracts, existingLinks] = await Promise.all([
+    prisma.task.findMany({
+      where: { roomId, ...(options.taskIds ? { id: { in: options.taskIds } } : {}) },
+      select: { id: true, title: true, description: true, acceptanceCriteria: true },
+    }),
+    prisma.contract.findMany({
+      where: { roomId, ...(options.contractIds ? { id: { in: options.contractIds } } : {}) },
+      include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+    }),
+    prisma.taskContractDependency.findMany({
+      where: { task: { roomId } },
+      select: { taskId: true, contractId: true },
+    }),
+  ]);
+  if (tasks.length === 0 || contracts.length === 0) return [];
+
+  const runs = await prisma.agentRun.findMany({
+    where: { roomId, taskId: { in: tasks.map((t) => t.id) }, diff: { not: null } },
+    orderBy: { startedAt: "desc" },
+    select: { taskId: true, diff: true },
+  });
+  const latestDiff = new Map<string, string>();
+  for (const run of runs) {
+    if (run.taskId && run.diff && !latestDiff.has(run.taskId)) latestDiff.set(run.taskId, run.diff);
+  }
+
+  const contractInputs = contracts.map((c) => ({
+    id: c.id,
+    name: c.name,
+    type: c.type,
+    content: c.versions[0]?.content ?? "",
+  }));
+  const candidates = findContractLinkCandidates({
+    tasks: tasks.map((t) => ({ ...t, diff: latestDiff.get(t.id) })),
+    contracts: contractInputs,
+    existingLinks,
+  });
+
+  let accepted: Omit<ContractLinkCandidate, "score">[] = candidates;
+  if (isLlmConfigured()) {
+    try {
+      const aiResponse = await completeChat({
+        purpose: "master.contract_links",
+        tier: "fast",
+        maxTokens: 1024,
+        json: true,
+        messages: [
+          {
+            role: "system",
+            content: `You are a Master Orchestration Agent keeping the task↔contract graph complete. Review the heuristic candidates and add any missing links. Only use ids given below. dependencyType: produces = the task implements the contract, consumes = it calls or depends on it, modifies = it changes the contract itself.
+Return JSON only: { "links": [{ "taskId": "...", "contractId": "...", "dependencyType": "consumes|produces|modifies", "reason": "..." }] }`,
+          },
+          {
+            role: "user",
+            content: [
+              `Contracts:\n${contractInputs.map((c) => `- ${c.id} "${c.name}" (${c.type})\n${c.content.slice(0, CONTRACT_LINK_CONTENT_LIMIT)}`).join("\n\n")}`,
+              `Tasks:\n${tasks.map((t) => {
+                const diff = latestDiff.get(t.id);
+                return `- ${t.id} "${t.title}": ${t.description}${diff ? `\nLatest diff:\n${diff.slice(0, CONTRACT_LINK_DIFF_LIMIT)}` : ""}`;
+              }).join("\n\n")}`,
+              `Already linked (taskId:contractId): ${existingLinks.map((l) => `${l.taskId}:${l.contractId}`).join(", ") || "none"}`,
+              `Candidates: ${JSON.stringify(candidates.map(({ score: _score, ...c }) => c))}`,
+            ].join("\n\n"),
+          },
+        ],
+      });
+      const parsed = JSON.parse(aiResponse || "{}") as { links?: Omit<ContractLinkCandidate, "score">[] };
+      if (Array.isArray(parsed.links)) accepted = parsed.links;
+    } catch (e) {
+      console.warn("AI contract linking failed, using heuristic candidates:", e);
+    }
+  }
+
+  const taskById = new Map(tasks.map((t) => [t.id, t]));
+  const contractById = new Map(contracts.map((c) => [c.id, c]));
+  const linked = new Set(existingLinks.map((l) => `${l.taskId}:${l.contractId}`));
+  const seen = new Set<string>();
+  const suggestions: ContractLinkSuggestion[] = [];
+  for (const link of accepted) {
+    const task = taskById.get(link.taskId);
+    const contract = contractById.get(link.contractId);
+    const key = `${link.taskId}:${link.contractId}`;
+    if (!task || !contract || linked.has(key) || seen.has(key)) continue;
+    if (!["consumes", "produces", "modifies"].includes(link.dependencyType)) continue;
+    seen.add(key);
+    suggestions.push({
+      taskId: task.id,
+      taskTitle: task.title,
+      contractId: contract.id,
+      contractName: contract.name,
+      dependencyType: link.dependencyType,
+      reason: link.reason ?? "",
+    });
+  }
+
+  if (suggestions.length > 0) {
+    await emitEvent({
+      roomId,
+      visibility: "global",
+      type: "master.contract_links.suggested",
+      payload: { suggestions },
+    });
+  }
+
+  return suggestions;
+}
+
 // ─── Master Chat Handler ──────────────────────────────────────────────────────
 
 export async function masterHandleMessage(roomId: string, fromUserId: string, content: string) {
@@ -425,7 +570,7 @@ export async function masterHandleMessage(roomId: string, fromUserId: string, co
     }).join("\n")
     : "- no members";
 
-  const history: OpenAI.Chat.ChatCompletionMessageParam[] = recentMessages
+  const history: LlmMessage[] = recentMessages
     .reverse()
     .slice(-10)
     .map((m) => ({
@@ -437,9 +582,9 @@ export async function masterHandleMessage(roomId: string, fromUserId: string, co
   if (actionResult) {
     replyContent = actionResult.message;
   } else {
-    const response = await openai.chat.completions.create({
-      model: MASTER_MODEL,
-      max_tokens: 1024,
+    replyContent = await completeChat({
+      purpose: "master.chat",
+      maxTokens: 1024,
       messages: [
         {
           role: "system",
@@ -467,7 +612,6 @@ Rules:
         { role: "user", content: `${user.name}: ${content}` },
       ],
     });
-    replyContent = response.choices[0].message.content ?? "";
   }
 
   if (!replyContent) return;
@@ -503,31 +647,41 @@ export async function checkDependencyResolution(roomId: string, completedTaskId:
   });
 
   for (const dep of dependents) {
-    const task = dep.toTask;
-    if (task.status !== "blocked") continue;
+    await unblockIfDependenciesComplete(roomId, dep.toTask);
+  }
+}
 
-    const allDeps = await prisma.taskDependency.findMany({
-      where: { toTaskId: task.id },
-      include: { fromTask: true },
-    });
+// Moves a dependency-blocked task back to todo once every prerequisite is done.
+export async function unblockIfDependenciesComplete(roomId: string, task: {
+  id: string;
+  title: string;
+  status: string;
+  blockedReason: string | null;
+  assignedUserId: string | null;
+}) {
+  if (task.status !== "blocked") return;
 
-    const allComplete = allDeps.every((d) => d.fromTask.status === "done");
+  const allDeps = await prisma.taskDependency.findMany({
+    where: { toTaskId: task.id },
+    include: { fromTask: true },
+  });
 
-    if (allComplete && task.blockedReason?.includes("dependency")) {
-      await prisma.task.update({
-        where: { id: task.id },
-        data: { status: "todo", blockedReason: null },
-      });
+  const allComplete = allDeps.every((d) => d.fromTask.status === "done");
 
-      if (task.assignedUserId) {
-        await emitEvent({
-          roomId,
-          visibility: "user",
-          visibleToUserId: task.assignedUserId,
-          type: "task.unblocked",
-          payload: { taskId: task.id, taskTitle: task.title, message: "Your blocking dependency is now complete!" },
-        });
-      }
+  if (allComplete && task.blockedReason?.includes("dependency")) {
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { status: "todo", blockedReason: null },
+    });
+
+    if (task.assignedUserId) {
+      await emitEvent({
+        roomId,
+        visibility: "user",
+        visibleToUserId: task.assignedUserId,
+        type: "task.unblocked",
+        payload: { taskId: task.id, taskTitle: task.title, message: "Your blocking dependency is now complete!" },
+      });
     }
   }
 }
@@ -1,16 +1,36 @@
 import { Server as SocketServer } from "socket.io";
 import { prisma } from "../db";
 import { emitEvent } from "../websocket";
-import { masterHandleContractPublished, checkDependencyResolution } from "./master";
+import { masterHandleContractPublished, masterSuggestContractLinks, checkDependencyResolution } from "./master";
 import { workerKickoffAssignedTasks } from "./worker";
-import { getRoomRepoStatus } from "../services/roomRepo";
+import { gcIdleWorkerWorktrees, getRoomRepoStatus } from "../services/roomRepo";
+import { startEventConsumer, type EventEffects } from "../services/eventBus";
+import { detectContractDrift } from "../services/contractDrift";
+import { startLeaderElection, type LeaderElection } from "../services/leader";
 
 const SWEEP_INTERVAL_MS = 30 * 1000; // 30 seconds
 const STALE_TASK_THRESHOLD_MS = 30 * 60 * 1000; // 30 minutes
 const SIGNAL_COOLDOWN_MS = 90 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DRIFT_REMINDER_MS = 6 * 60 * 60 * 1000;
+const DRIFT_FINDINGS_PER_ALERT = 5;
+// Deprecated contracts are announced once per threshold as their sunset date approaches.
+const SUNSET_WARNING_DAYS = [0, 1, 7, 30];
+const MONITOR_CONSUMER = "master-monitor";
+const MONITOR_EVENT_TYPES = [
+  "task.status.updated",
+  "task.assigned",
+  "worker.progress.updated",
+  "worker.blocked",
+  "contract.proposed_change",
+  "contract.published",
+  "master.security.alert",
+  "member.joined",
+];
 
 let monitorRunning = false;
-const processedEvents = new Set<string>();
+let monitorElection: LeaderElection | null = null;
+let leaderDuties: { stop: () => void } | null = null;
 const lastSignalAt = new Map<string, number>();
 
 function shouldEmitSignal(key: string, cooldownMs = SIGNAL_COOLDOWN_MS) {
@@ -21,36 +41,86 @@ function shouldEmitSignal(key: string, cooldownMs = SIGNAL_COOLDOWN_MS) {
   return true;
 }
 
+// Like shouldEmitSignal, but the cooldown starts only once `emit` succeeded, so a failed
+// effect that is retried isn't suppressed by its own cooldown.
+async function withSignalCooldown(key: string, cooldownMs: number, emit: () => Promise<unknown>) {
+  if (Date.now() - (lastSignalAt.get(key) ?? 0) < cooldownMs) return;
+  await emit();
+  lastSignalAt.set(key, Date.now());
+}
+
 export function startMasterMonitor(_io: SocketServer) {
   if (monitorRunning) return;
   monitorRunning = true;
 
   console.log("🤖 Master Monitor started");
 
+  // Only the elected leader sweeps, kicks off workers and consumes events, so
+  // multiple API replicas don't double every alert.
+  monitorElection = startLeaderElection({
+    name: "master-monitor",
+    onElected: () => {
+      leaderDuties = startLeaderDuties();
+    },
+    onDemoted: () => {
+      leaderDuties?.stop();
+      leaderDuties = null;
+    },
+  });
+}
+
+export async function stopMasterMonitor() {
+  await monitorElection?.stop();
+  monitorElection = null;
+  monitorRunning = false;
+}
+
+function startLeaderDuties() {
   runStartupWorkerKickoff().catch((err) => {
     console.error("Startup worker kickoff error:", err);
   });
 
   // Periodic sweep
-  setInterval(async () => {
+  const sweepInterval = setInterval(async () => {
     try {
       const rooms = await prisma.room.findMany({ select: { id: true } });
       for (const room of rooms) {
         await periodicSweep(room.id);
+        await gcIdleWorkerWorktrees(room.id).catch((err) => {
+          console.error("Worktree GC error:", err);
+        });
       }
     } catch (err) {
       console.error("Master Monitor sweep error:", err);
     }
   }, SWEEP_INTERVAL_MS);
 
-  // Event-driven handler - poll for unprocessed events
-  setInterval(async () => {
-    try {
-      await processNewEvents();
-    } catch (err) {
-      console.error("Master Monitor event poll error:", err);
-    }
-  }, 5000); // Poll every 5s
+  // Event-driven handler - durable, at-least-once consumer over the event outbox
+  const consumer = startEventConsumer({
+    name: MONITOR_CONSUMER,
+    types: MONITOR_EVENT_TYPES,
+    handler: (event, effects) => masterHandleEvent(event.roomId, event.type, event.payload as Record<string, unknown>, effects),
+    onDeadLetter: async (event, error) => {
+      await emitEvent({
+        roomId: event.roomId,
+        visibility: "global",
+        type: "master.integration.alert",
+        payload: {
+          severity: "medium",
+          message: `Master Monitor gave up handling "${event.type}" after repeated failures: ${error.slice(0, 200)}`,
+          relatedTaskIds: [],
+          relatedContractIds: [],
+        },
+      });
+    },
+  });
+
+  return {
+    stop: () => {
+      clearInterval(sweepInterval);
+      consumer.stop();
+    },
+  };
 }
 
 async function runStartupWorkerKickoff() {
@@ -93,45 +163,14 @@ async function runStartupWorkerKickoff() {
   }
 }
 
-async function processNewEvents() {
-  const recentEvents = await prisma.event.findMany({
-    where: {
-      createdAt: { gte: new Date(Date.now() - 60000) }, // Last 60 seconds
-      type: {
-        in: [
-          "task.status.updated",
-          "task.assigned",
-          "worker.progress.updated",
-          "worker.blocked",
-          "contract.proposed_change",
-          "contract.published",
-          "master.security.alert",
-          "member.joined",
-        ],
-      },
-    },
-    orderBy: { createdAt: "asc" },
-  });
-
-  for (const event of recentEvents) {
-    if (processedEvents.has(event.id)) continue;
-    processedEvents.add(event.id);
-
-    // Keep processed set bounded
-    if (processedEvents.size > 10000) {
-      const oldest = [...processedEvents].slice(0, 5000);
-      oldest.forEach((id) => processedEvents.delete(id));
-    }
-
-    await masterHandleEvent(event.roomId, event.id, event.type, event.payload as Record<string, unknown>);
-  }
-}
-
+// Every side effect goes through `effects`, keyed on the event, so a retry after a partial
+// failure or a replay doesn't repeat the ones already applied. The cooldowns and time
+// windows below only collapse bursts of distinct events about the same thing.
 async function masterHandleEvent(
   roomId: string,
-  _eventId: string,
   type: string,
   payload: Record<string, unknown>,
+  effects: EventEffects,
 ) {
   switch (type) {
     case "task.status.updated": {
@@ -139,7 +178,7 @@ async function masterHandleEvent(
 
       if (status === "done") {
         // Check if any downstream tasks can be unblocked
-        await checkDependencyResolution(roomId, taskId);
+        await effects.once("dependency_resolution", () => checkDependencyResolution(roomId, taskId));
       }
 
       if (status === "blocked") {
@@ -147,30 +186,29 @@ async function masterHandleEvent(
         const task = await prisma.task.findUnique({ where: { id: taskId as string } });
         if (task) {
           const blockedKey = `task-blocked:${roomId}:${task.id}:${task.blockedReason ?? ""}`;
-          if (shouldEmitSignal(blockedKey, 45000)) {
-            await emitEvent({
-              roomId,
-              visibility: "global",
-              type: "master.integration.alert",
-              payload: {
-                severity: "medium",
-                message: `Task blocked: "${task.title}"${task.blockedReason ? ` — ${task.blockedReason}` : ""}`,
-                relatedTaskIds: [task.id],
-                relatedContractIds: [],
+          await effects.once("blocked_alert", () => withSignalCooldown(blockedKey, 45000, () => emitEvent({
+            roomId,
+            visibility: "global",
+            type: "master.integration.alert",
+            payload: {
+              severity: "medium",
+              message: `Task blocked: "${task.title}"${task.blockedReason ? ` — ${task.blockedReason}` : ""}`,
+              relatedTaskIds: [task.id],
+              relatedContractIds: [],
+            },
+          })));
+
+          await effects.write("blocked_entry", async (tx) => {
+            const recentEntry = await tx.notebookEntry.findFirst({
+              where: {
+                roomId,
+                category: "blocker",
+                createdAt: { gte: new Date(Date.now() - 60000) },
+                references: { path: ["taskIds"], array_contains: taskId },
               },
             });
-          }
-
-          const recentEntry = await prisma.notebookEntry.findFirst({
-            where: {
-              roomId,
-              category: "blocker",
-              createdAt: { gte: new Date(Date.now() - 60000) },
-              references: { path: ["taskIds"], array_contains: taskId },
-            },
-          });
-          if (!recentEntry) {
-            await prisma.notebookEntry.create({
+            if (recentEntry) return;
+            await tx.notebookEntry.create({
               data: {
                 roomId,
                 category: "blocker",
@@ -179,7 +217,7 @@ async function masterHandleEvent(
                 references: { taskIds: [taskId as string] },
               },
             });
-          }
+          });
         }
       }
 
@@ -189,18 +227,18 @@ async function masterHandleEvent(
           include: { assignedUser: { select: { id: true, name: true } } },
         });
         if (task) {
-          const recentUpdate = await prisma.notebookEntry.findFirst({
-            where: {
-              roomId,
-              category: "task_update",
-              createdAt: { gte: new Date(Date.now() - 30000) },
-              references: { path: ["taskIds"], array_contains: taskId },
-            },
-          });
-
-          if (!recentUpdate) {
+          await effects.write("status_entry", async (tx) => {
+            const recentUpdate = await tx.notebookEntry.findFirst({
+              where: {
+                roomId,
+                category: "task_update",
+                createdAt: { gte: new Date(Date.now() - 30000) },
+                references: { path: ["taskIds"], array_contains: taskId },
+              },
+            });
+            if (recentUpdate) return;
             const assigneeName = task.assignedUser?.name ?? "Unassigned";
-            await prisma.notebookEntry.create({
+            await tx.notebookEntry.create({
               data: {
                 roomId,
                 category: "task_update",
@@ -209,19 +247,21 @@ async function masterHandleEvent(
                 references: { taskIds: [task.id] },
               },
             });
-          }
+          });
         }
       }
 
-      await monitorRoomRepoSignals(roomId);
+      await effects.once("repo_signals", () => monitorRoomRepoSignals(roomId));
       break;
     }
 
     case "task.assigned": {
       const { taskId, assignedUserId } = payload as { taskId?: string; assignedUserId?: string };
       if (taskId && assignedUserId) {
-        workerKickoffAssignedTasks(roomId, assignedUserId, [taskId]).catch((err) => {
-          console.error("Worker kickoff from monitor failed:", err);
+        await effects.once("worker_kickoff", async () => {
+          workerKickoffAssignedTasks(roomId, assignedUserId, [taskId]).catch((err) => {
+            console.error("Worker kickoff from monitor failed:", err);
+          });
         });
       }
       break;
@@ -229,17 +269,38 @@ async function masterHandleEvent(
 
     case "worker.blocked": {
       const { taskId, reason } = payload as { taskId: string; reason: string };
-      await prisma.task.update({
+      await effects.write("task_blocked", (tx) => tx.task.update({
         where: { id: taskId as string },
         data: { status: "blocked", blockedReason: reason },
-      });
+      }));
+      break;
+    }
+
+    case "worker.progress.updated": {
+      // A fresh agent diff may reveal contracts the task implements or calls.
+      const { taskId } = payload as { taskId?: string };
+      if (taskId) {
+        await effects.once("contract_links", () => withSignalCooldown(
+          `contract-links:${roomId}:${taskId}`,
+          10 * 60 * 1000,
+          () => masterSuggestContractLinks(roomId, { taskIds: [taskId] }),
+        ));
+      }
+      await effects.once("repo_signals", () => monitorRoomRepoSignals(roomId));
+      break;
+    }
+
+    case "contract.published": {
+      const { contractId } = payload as { contractId?: string };
+      if (contractId) {
+        await effects.once("contract_links", () => masterSuggestContractLinks(roomId, { contractIds: [contractId] }));
+      }
+      await effects.once("repo_signals", () => monitorRoomRepoSignals(roomId));
       break;
     }
 
-    case "worker.progress.updated":
-    case "contract.published":
     case "member.joined": {
-      await monitorRoomRepoSignals(roomId);
+      await effects.once("repo_signals", () => monitorRoomRepoSignals(roomId));
       break;
     }
 
@@ -247,17 +308,15 @@ async function masterHandleEvent(
       const severity = String(payload.severity ?? "medium");
       const message = String(payload.message ?? "Security alert raised.");
       const dedupeKey = `sec:${roomId}:${message.slice(0, 120)}`;
-      if (shouldEmitSignal(dedupeKey, 120000)) {
-        await prisma.notebookEntry.create({
-          data: {
-            roomId,
-            category: "integration",
-            title: `Security Alert (${severity})`,
-            content: message,
-            references: {},
-          },
-        }).catch(() => undefined);
-      }
+      await effects.once("security_entry", () => withSignalCooldown(dedupeKey, 120000, () => prisma.notebookEntry.create({
+        data: {
+          roomId,
+          category: "integration",
+          title: `Security Alert (${severity})`,
+          content: message,
+          references: {},
+        },
+      })));
       break;
     }
   }
@@ -310,6 +369,7 @@ async function periodicSweep(roomId: string) {
 
   // Validate contract/task graph consistency
   await validateContractGraph(roomId);
+  await warnApproachingSunsets(roomId);
   await monitorRoomRepoSignals(roomId);
 }
 
@@ -332,6 +392,43 @@ async function validateContractGraph(roomId: string) {
   }
 }
 
+async function warnApproachingSunsets(roomId: string) {
+  const deprecated = await prisma.contract.findMany({
+    where: { roomId, deprecatedAt: { not: null }, sunsetAt: { not: null } },
+    include: { taskDeps: { include: { task: { select: { id: true, status: true } } } } },
+  });
+
+  for (const contract of deprecated) {
+    const sunsetAt = contract.sunsetAt as Date;
+    const daysLeft = Math.ceil((sunsetAt.getTime() - Date.now()) / DAY_MS);
+    const threshold = SUNSET_WARNING_DAYS.find((days) => daysLeft <= days);
+    if (threshold === undefined) continue;
+    if (contract.sunsetWarnedDays !== null && contract.sunsetWarnedDays <= threshold) continue;
+
+    // Persisted so a restart or leader change doesn't repeat the warning
+    const claimed = await prisma.contract.updateMany({
+      where: { id: contract.id, OR: [{ sunsetWarnedDays: null }, { sunsetWarnedDays: { gt: threshold } }] },
+      data: { sunsetWarnedDays: threshold },
+    });
+    if (claimed.count === 0) continue;
+
+    const activeTaskIds = contract.taskDeps.filter((d) => d.task.status !== "done").map((d) => d.task.id);
+    const date = sunsetAt.toISOString().slice(0, 10);
+    const when = daysLeft <= 0 ? `reached its sunset date (${date})` : `sunsets in ${daysLeft} day(s) (${date})`;
+    await emitEvent({
+      roomId,
+      visibility: "global",
+      type: "master.integration.alert",
+      payload: {
+        severity: threshold === 0 ? "high" : threshold <= 7 ? "medium" : "low",
+        message: `⏳ Deprecated contract "${contract.name}" ${when}. ${activeTaskIds.length} active task(s) still depend on it.${contract.deprecationNote ? ` ${contract.deprecationNote}` : ""}`,
+        relatedTaskIds: activeTaskIds,
+        relatedContractIds: [contract.id],
+      },
+    });
+  }
+}
+
 async function monitorRoomRepoSignals(roomId: string) {
   let status;
   try {
@@ -456,4 +553,45 @@ async function monitorRoomRepoSignals(roomId: string) {
       });
     }
   }
+
+  await monitorContractDrift(roomId, status.workspacePath);
+}
+
+// Routes and types on the default branch that don't match the published contracts. Each
+// distinct set of findings is announced once, then repeated every DRIFT_REMINDER_MS.
+async function monitorContractDrift(roomId: string, workspacePath: string) {
+  let reports;
+  try {
+    reports = await detectContractDrift(roomId, workspacePath);
+  } catch (err) {
+    console.error(`[Monitor] Contract drift check failed for room ${roomId}:`, err);
+    return;
+  }
+  if (!reports) return;
+
+  for (const report of reports) {
+    if (report.findings.length === 0) continue;
+    const key = `contract-drift:${report.contractId}:${report.findings.map((f) => `${f.kind}:${f.subject}`).sort().join("|")}`;
+    if (!shouldEmitSignal(key, DRIFT_REMINDER_MS)) continue;
+
+    const missing = report.findings.filter((f) => f.kind.endsWith("missing")).length;
+    const extra = report.findings.length - missing;
+    const counts = [missing > 0 ? `${missing} missing` : null, extra > 0 ? `${extra} extra` : null].filter(Boolean).join(", ");
+    const details = report.findings
+      .slice(0, DRIFT_FINDINGS_PER_ALERT)
+      .map((f) => `${f.message}${f.location ? ` (${f.location})` : ""}`)
+      .join("; ");
+    const more = report.findings.length > DRIFT_FINDINGS_PER_ALERT ? `; and ${report.findings.length - DRIFT_FINDINGS_PER_ALERT} more` : "";
+    await emitEvent({
+      roomId,
+      visibility: "global",
+      type: "master.integration.alert",
+      payload: {
+        severity: missing > 0 ? "high" : "medium",
+        message: `🧭 Code has drifted from contract "${report.contractName}" v${report.version} (${counts}): ${details}${more}.`,
+        relatedTaskIds: report.producingTaskIds,
+        relatedContractIds: [report.contractId],
+      },
+    });
+  }
 }
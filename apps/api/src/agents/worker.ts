@@ -1,10 +1,10 @@
-import OpenAI from "openai";
 import { prisma } from "../db";
 import { emitEvent, emitMessage } from "../websocket";
-import { runWorkerAgenticExecution } from "./agentic";
+import { decideParkedRun, runWorkerAgenticExecution } from "./agentic";
+import { completeChat, type LlmMessage } from "../services/llm";
+import { versionSemver } from "../services/contractSemver";
+import type { ApprovalDecision } from "../services/agentRuns";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const WORKER_MODEL = process.env.OPENAI_MODEL?.trim() || "gpt-4o";
 const REFUSAL_PATTERN = /(i\s+(?:can(?:not|'t)|do(?:\s+not|'nt)\s+have)\s+(?:the\s+)?capability|i(?:'m| am)\s+unable|as an ai[, ]+i\s+don'?t)/i;
 const activeExecutionRuns = new Set<string>();
 
@@ -17,9 +17,10 @@ function buildTaskContext(assignedTasks: Array<{
   blockedReason: string | null;
   contractDeps: Array<{
     dependencyType: string;
+    versionRange: string | null;
     contract: {
       name: string;
-      versions: Array<{ version: number }>;
+      versions: Array<{ version: number; semver: string | null }>;
     };
   }>;
   toDependencies: Array<{
@@ -31,7 +32,7 @@ Task: "${t.title}" [${t.status}]
 Description: ${t.description}
 Acceptance Criteria: ${t.acceptanceCriteria}
 ${t.blockedReason ? `Blocked Reason: ${t.blockedReason}` : ""}
-Contracts: ${t.contractDeps.map((cd) => `${cd.dependencyType} ${cd.contract.name} (v${cd.contract.versions[0]?.version ?? 0})`).join(", ") || "none"}
+Contracts: ${t.contractDeps.map((cd) => `${cd.dependencyType} ${cd.contract.name} (${cd.contract.versions[0] ? versionSemver(cd.contract.versions[0]) : "unpublished"}${cd.versionRange ? `, pinned ${cd.versionRange}` : ""})`).join(", ") || "none"}
 Depends on: ${t.toDependencies.map((d) => `"${d.fromTask.title}" [${d.fromTask.status}]`).join(", ") || "none"}
   `.trim()).join("\n\n");
 }
@@ -127,7 +128,7 @@ export async function workerHandleMessage(roomId: string, userId: string, userMe
 
   const taskContext = buildTaskContext(assignedTasks);
 
-  const conversationHistory: OpenAI.Chat.ChatCompletionMessageParam[] = recentMessages
+  const conversationHistory: LlmMessage[] = recentMessages
     .reverse()
     .slice(-10)
     .map((m) => ({
@@ -135,9 +136,9 @@ export async function workerHandleMessage(roomId: string, userId: string, userMe
       content: m.content,
     }));
 
-  const response = await openai.chat.completions.create({
-    model: WORKER_MODEL,
-    max_tokens: 2048,
+  const replyContentRaw = await completeChat({
+    purpose: "worker.chat",
+    maxTokens: 2048,
     messages: [
       {
         role: "system",
@@ -164,7 +165,6 @@ Guidelines:
     ],
   });
 
-  const replyContentRaw = response.choices[0].message.content ?? "";
   const activeTaskTitles = assignedTasks
     .filter((task) => task.status === "todo" || task.status === "in_progress")
     .map((task) => task.title);
@@ -259,7 +259,7 @@ export async function workerKickoffAssignedTasks(roomId: string, userId: string,
     ? focusedTasks.map((task) => `- ${task.title} [${task.status}]`).join("\n")
     : "- no specific task id was provided";
 
-  const history: OpenAI.Chat.ChatCompletionMessageParam[] = recentMessages
+  const history: LlmMessage[] = recentMessages
     .reverse()
     .slice(-8)
     .map((m) => ({
@@ -270,9 +270,9 @@ export async function workerKickoffAssignedTasks(roomId: string, userId: string,
   let replyContent = "";
 
   try {
-    const response = await openai.chat.completions.create({
-      model: WORKER_MODEL,
-      max_tokens: 900,
+    replyContent = await completeChat({
+      purpose: "worker.kickoff",
+      maxTokens: 900,
       messages: [
         {
           role: "system",
@@ -297,8 +297,6 @@ Keep it practical and short. This is private to ${user.name}.`,
         },
       ],
     });
-
-    replyContent = response.choices[0].message.content ?? "";
   } catch (err) {
     console.warn("Worker kickoff generation failed, using fallback:", err);
   }
@@ -340,6 +338,17 @@ Keep it practical and short. This is private to ${user.name}.`,
   }
 }
 
+export async function workerHandleRunApproval(
+  run: { id: string; roomId: string; userId: string },
+  decision: ApprovalDecision,
+) {
+  return decideParkedRun({
+    runId: run.id,
+    decision,
+    workerMessage: (content) => createWorkerAgentMessage(run.roomId, run.userId, content),
+  });
+}
+
 export async function workerHandleBlocked(
   roomId: string,
   userId: string,
@@ -8,16 +8,19 @@ import { createServer } from "http";
 import { Server as SocketServer } from "socket.io";
 import { prisma } from "./db";
 import { initWebSocket } from "./websocket";
-import { startMasterMonitor } from "./agents/monitor";
+import { startMasterMonitor, stopMasterMonitor } from "./agents/monitor";
 
 // Routes
 import roomRoutes from "./routes/rooms";
-import taskRoutes from "./routes/tasks";
+import taskRoutes, { roomTaskRoutes } from "./routes/tasks";
 import contractRoutes from "./routes/contracts";
+import contractMockRoutes from "./routes/contractMocks";
 import messageRoutes from "./routes/messages";
 import notebookRoutes from "./routes/notebook";
 import inviteRoutes from "./routes/invites";
 import authRoutes from "./routes/auth";
+import runRoutes from "./routes/runs";
+import mergeRequestRoutes from "./routes/mergeRequests";
 
 const app = express();
 const httpServer = createServer(app);
@@ -55,7 +58,7 @@ app.use(cors({
   credentials: true,
 }));
 app.use(express.json());
-app.use(session({
+const sessionMiddleware = session({
   secret: process.env.SESSION_SECRET || "devroom-secret-change-in-prod",
   resave: false,
   saveUninitialized: false,
@@ -64,17 +67,27 @@ app.use(session({
     httpOnly: true,
     maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
   },
-}) as unknown as RequestHandler);
+}) as unknown as RequestHandler;
+app.use(sessionMiddleware);
+
+// Socket handshakes read the same session cookie, so the socket user comes from the login
+io.engine.use(sessionMiddleware);
 
 // ─── Routes ───────────────────────────────────────────────────────────────────
 app.use("/auth", authRoutes);
 app.use("/rooms", roomRoutes);
+app.use("/rooms", roomTaskRoutes);
 app.use("/tasks", taskRoutes);
 app.use("/contracts", contractRoutes);
+app.use("/rooms", contractMockRoutes);
 app.use("/rooms", messageRoutes);
 app.use("/rooms", notebookRoutes);
 app.use("/rooms", inviteRoutes);
 app.use("/invites", inviteRoutes);
+app.use("/rooms", runRoutes);
+app.use("/runs", runRoutes);
+app.use("/rooms", mergeRequestRoutes);
+app.use("/merge-requests", mergeRequestRoutes);
 
 app.get("/health", (_req, res) => {
   res.json({ status: "ok", ts: new Date().toISOString() });
@@ -94,6 +107,7 @@ httpServer.listen(PORT, () => {
 
 // Graceful shutdown
 process.on("SIGTERM", async () => {
+  await stopMasterMonitor().catch(() => undefined);
   await prisma.$disconnect();
   process.exit(0);
 });
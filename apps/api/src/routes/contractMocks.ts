@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { prisma } from "../db";
+import { requireAuth, requireRoomMember } from "../middleware/auth";
+import { contractMockUsage, mockContractRequest } from "../services/contractMock";
+
+const router = Router();
+
+// Only OpenAPI contracts of the room with a published version can be mocked.
+async function getMockableContract(roomId: string, contractId: string) {
+  const contract = await prisma.contract.findFirst({ where: { id: contractId, roomId } });
+  if (!contract || contract.type !== "openapi" || !contract.currentVersionId) return null;
+  const version = await prisma.contractVersion.findUnique({ where: { id: contract.currentVersionId } });
+  return version ? { contract, version } : null;
+}
+
+// GET /rooms/:id/contracts/:contractId/mock-usage
+router.get("/:id/contracts/:contractId/mock-usage", requireAuth, requireRoomMember, async (req, res) => {
+  const contract = await prisma.contract.findFirst({ where: { id: req.params.contractId, roomId: req.params.id } });
+  if (!contract) { res.status(404).json({ error: "Contract not found" }); return; }
+  res.json(await contractMockUsage(contract.id));
+});
+
+// ANY /rooms/:id/contracts/:contractId/mock/<path>
+// Answers as the contract's current version says the real service would. Calls made on
+// behalf of a task carry its id in `X-DevRoom-Task`, so usage can be traced back to it.
+router.all("/:id/contracts/:contractId/mock/*", requireAuth, requireRoomMember, async (req, res) => {
+  const user = res.locals.user;
+  const roomId = req.params.id;
+  const found = await getMockableContract(roomId, req.params.contractId);
+  if (!found) { res.status(404).json({ error: "No published OpenAPI contract to mock" }); return; }
+
+  const taskHeader = req.get("x-devroom-task");
+  const task = taskHeader
+    ? await prisma.task.findFirst({ where: { id: taskHeader, roomId }, select: { id: true } })
+    : null;
+
+  // express.json() leaves `{}` behind when there was no body at all
+  const hasBody = Number(req.get("content-length") ?? 0) > 0 || req.get("transfer-encoding") !== undefined;
+  const requestPath = `/${(req.params as Record<string, string>)[0] ?? ""}`;
+
+  let result;
+  try {
+    result = mockContractRequest(found.version, {
+      method: req.method,
+      path: requestPath,
+      query: req.query as Record<string, unknown>,
+      headers: req.headers,
+      body: req.body,
+      hasBody,
+    });
+  } catch (err) {
+    res.status(422).json({ error: `Contract can't be mocked: ${err instanceof Error ? err.message : String(err)}` });
+    return;
+  }
+
+  await prisma.contractMockCall.create({
+    data: {
+      roomId,
+      contractId: found.contract.id,
+      contractVersionId: found.version.id,
+      userId: user.id,
+      taskId: task?.id ?? null,
+      method: req.method.toUpperCase(),
+      path: requestPath,
+      operation: result.operation,
+      status: result.status,
+      valid: result.violations.length === 0,
+      violations: result.violations,
+    },
+  }).catch(console.error);
+
+  res.setHeader("X-DevRoom-Mock-Version", String(found.version.version));
+  if (result.operation) res.setHeader("X-DevRoom-Mock-Operation", result.operation);
+  res.status(result.status);
+  if (result.body === null || result.body === undefined || req.method === "HEAD") { res.end(); return; }
+  if (result.contentType && !/[/+]json$/.test(result.contentType) && typeof result.body === "string") {
+    res.type(result.contentType).send(result.body);
+    return;
+  }
+  res.type(result.contentType ?? "application/json").send(JSON.stringify(result.body));
+});
+
+export default router;
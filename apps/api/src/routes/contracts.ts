@@ -1,10 +1,22 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
+import type { Contract } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "../db";
 import { requireAuth } from "../middleware/auth";
 import { emitEvent } from "../websocket";
 import { masterHandleContractPublished } from "../agents/master";
 import { emitSecurityAlert } from "../security";
+import { diffContract, type ContractDiffResult } from "../services/contractDiff";
+import { unifiedLineDiff } from "../services/contractDiff/lines";
+import { syncContractArtifacts } from "../services/contractArtifacts";
+import { nextSemver, versionSemver } from "../services/contractSemver";
+import {
+  emitProposalUpdated,
+  proposalDiff,
+  requiredReviewerIds,
+  reviewState,
+  supersedeOpenProposals,
+} from "../services/contractProposals";
 
 const router = Router();
 
@@ -18,18 +30,365 @@ async function getContractWithAccess(contractId: string, userId: string) {
   return { contract, membership };
 }
 
+function rejectCollaborator(
+  res: Response,
+  params: { roomId: string; user: { id: string; name: string }; action: string; detail: string; error: string },
+) {
+  emitSecurityAlert({
+    roomId: params.roomId,
+    userId: params.user.id,
+    userName: params.user.name,
+    action: params.action,
+    detail: params.detail,
+    severity: "high",
+  }).catch(console.error);
+  res.status(403).json({ error: params.error });
+}
+
+// Helper: verify proposal exists + user is member of its room
+async function getProposalWithAccess(proposalId: string, userId: string) {
+  const proposal = await prisma.contractProposal.findUnique({
+    where: { id: proposalId },
+    include: { contract: true },
+  });
+  if (!proposal) return null;
+  const membership = await prisma.membership.findUnique({
+    where: { roomId_userId: { roomId: proposal.roomId, userId } },
+  });
+  if (!membership) return null;
+  return { proposal, membership };
+}
+
+// Creates the next version, diffed against the current one; a manual `breaking` flag is
+// never downgraded. Open proposals other than `fromProposalId` are superseded.
+async function publishContractVersion(
+  contract: Contract,
+  data: { summary: string; breaking: boolean; content: string; proposedBy: string; fromProposalId?: string },
+) {
+  const currentVersion = contract.currentVersionId
+    ? await prisma.contractVersion.findUnique({ where: { id: contract.currentVersionId } })
+    : null;
+  const diff: ContractDiffResult = currentVersion
+    ? diffContract(contract.type, currentVersion.content, data.content, contract.compatibilityMode)
+    : { changes: [], breaking: false };
+  const breaking = data.breaking || diff.breaking;
+
+  // Next version number, and the semver the change classification calls for
+  const existing = await prisma.contractVersion.findMany({
+    where: { contractId: contract.id },
+    select: { version: true, semver: true },
+  });
+  const nextVersion = Math.max(0, ...existing.map((v) => v.version)) + 1;
+  const semver = nextSemver(
+    currentVersion ? versionSemver(currentVersion) : null,
+    { breaking, changes: diff.changes },
+    existing.map(versionSemver),
+  );
+
+  // The version, the contract's pointer to it and the proposal it publishes change together
+  const version = await prisma.$transaction(async (tx) => {
+    const created = await tx.contractVersion.create({
+      data: {
+        contractId: contract.id,
+        version: nextVersion,
+        semver,
+        content: data.content,
+        summary: data.summary,
+        breaking,
+        changes: diff.changes,
+        proposedBy: data.proposedBy,
+      },
+    });
+
+    await tx.contract.update({
+      where: { id: contract.id },
+      data: { currentVersionId: created.id },
+    });
+
+    if (data.fromProposalId) {
+      await tx.contractProposal.update({
+        where: { id: data.fromProposalId },
+        data: { publishedVersionId: created.id },
+      });
+    }
+    return created;
+  });
+
+  await emitEvent({
+    roomId: contract.roomId,
+    visibility: "global",
+    type: "contract.published",
+    payload: {
+      contractId: contract.id,
+      contractName: contract.name,
+      contractVersionId: version.id,
+      semver,
+      breaking,
+      summary: data.summary,
+    },
+  });
+
+  await supersedeOpenProposals(contract, { exceptProposalId: data.fromProposalId });
+
+  // Mirror the new version into the room repo; git work shouldn't hold up the response
+  syncContractArtifacts(contract.roomId, `contracts: publish ${contract.name} v${version.version}`).catch(console.error);
+
+  // Trigger master impact analysis
+  await masterHandleContractPublished(contract.roomId, contract.id, version.id, breaking, data.summary, diff.changes, currentVersion?.id ?? null);
+
+  return { version, parseError: diff.parseError ?? null };
+}
+
 // GET /contracts/:id
 router.get("/:id", requireAuth, async (req, res) => {
   const user = res.locals.user;
   const result = await getContractWithAccess(req.params.id, user.id);
   if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
 
-  const versions = await prisma.contractVersion.findMany({
-    where: { contractId: result.contract.id },
-    orderBy: { version: "desc" },
+  const [versions, taskLinks] = await Promise.all([
+    prisma.contractVersion.findMany({
+      where: { contractId: result.contract.id },
+      orderBy: { version: "desc" },
+    }),
+    prisma.taskContractDependency.findMany({
+      where: { contractId: result.contract.id },
+      include: { task: { select: { id: true, title: true, status: true, assignedUserId: true } } },
+    }),
+  ]);
+
+  res.json({ ...result.contract, versions, taskLinks });
+});
+
+// GET /contracts/:id/diff?from=&to= (version numbers; default: the version before → current)
+router.get("/:id/diff", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getContractWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { contract } = result;
+  const query = z.object({
+    from: z.coerce.number().int().positive().optional(),
+    to: z.coerce.number().int().positive().optional(),
+  }).parse(req.query);
+
+  const current = contract.currentVersionId
+    ? await prisma.contractVersion.findUnique({ where: { id: contract.currentVersionId } })
+    : null;
+  const toNumber = query.to ?? current?.version;
+  if (toNumber === undefined) { res.status(404).json({ error: "Contract has no versions" }); return; }
+
+  // Without `from`, the newest version below `to`: v1 (or a rollback to it) has nothing before it
+  const [from, to] = await Promise.all([
+    query.from !== undefined
+      ? prisma.contractVersion.findUnique({ where: { contractId_version: { contractId: contract.id, version: query.from } } })
+      : prisma.contractVersion.findFirst({ where: { contractId: contract.id, version: { lt: toNumber } }, orderBy: { version: "desc" } }),
+    prisma.contractVersion.findUnique({ where: { contractId_version: { contractId: contract.id, version: toNumber } } }),
+  ]);
+  if (!to || (!from && query.from !== undefined)) {
+    res.status(404).json({ error: `Version ${!to ? toNumber : query.from} not found` });
+    return;
+  }
+  if (!from) {
+    res.json({
+      from: null,
+      to: { id: to.id, version: to.version },
+      changes: [],
+      breaking: false,
+      parseError: null,
+      textDiff: "",
+    });
+    return;
+  }
+
+  const diff = diffContract(contract.type, from.content, to.content, contract.compatibilityMode);
+  res.json({
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    changes: diff.changes,
+    breaking: diff.breaking,
+    parseError: diff.parseError ?? null,
+    textDiff: unifiedLineDiff(from.content, to.content, `v${from.version}`, `v${to.version}`),
+  });
+});
+
+// POST /contracts/:id/rollback (admin/owner only)
+router.post("/:id/rollback", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getContractWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { contract, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: contract.roomId, user, action: "contract.rollback", detail: `contractId=${contract.id}`, error: "Admin role required to roll back contracts" });
+    return;
+  }
+
+  const data = z.object({
+    version: z.number().int().positive(),
+    reason: z.string().optional(),
+  }).parse(req.body);
+
+  const [current, target] = await Promise.all([
+    contract.currentVersionId ? prisma.contractVersion.findUnique({ where: { id: contract.currentVersionId } }) : null,
+    prisma.contractVersion.findUnique({ where: { contractId_version: { contractId: contract.id, version: data.version } } }),
+  ]);
+  if (!target) { res.status(404).json({ error: `Version ${data.version} not found` }); return; }
+  if (!current || target.version >= current.version) {
+    res.status(400).json({ error: `Can only roll back to a version earlier than the current one (v${current?.version ?? "none"})` });
+    return;
+  }
+
+  // Consumers move from the current content back to the target's, so that is the diff they see
+  const diff = diffContract(contract.type, current.content, target.content, contract.compatibilityMode);
+  const summary = `Rolled back from v${current.version} (${versionSemver(current)}) to v${target.version} (${versionSemver(target)})${data.reason ? `: ${data.reason}` : ""}`;
+
+  const updated = await prisma.contract.update({
+    where: { id: contract.id },
+    data: { currentVersionId: target.id },
+  });
+
+  await emitEvent({
+    roomId: contract.roomId,
+    visibility: "global",
+    type: "contract.rolled_back",
+    payload: {
+      contractId: contract.id,
+      contractName: contract.name,
+      fromVersionId: current.id,
+      fromVersion: current.version,
+      fromSemver: versionSemver(current),
+      toVersionId: target.id,
+      toVersion: target.version,
+      toSemver: versionSemver(target),
+      breaking: diff.breaking,
+      reason: data.reason ?? null,
+    },
+  });
+
+  await supersedeOpenProposals(updated);
+  syncContractArtifacts(contract.roomId, `contracts: roll back ${contract.name} to v${target.version}`).catch(console.error);
+  await masterHandleContractPublished(contract.roomId, contract.id, target.id, diff.breaking, summary, diff.changes, current.id);
+
+  res.json({ contract: updated, version: target, changes: diff.changes, breaking: diff.breaking });
+});
+
+// PUT /contracts/:id/deprecation (admin/owner only)
+router.put("/:id/deprecation", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getContractWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { contract, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: contract.roomId, user, action: "contract.deprecate", detail: `contractId=${contract.id}`, error: "Admin role required to deprecate contracts" });
+    return;
+  }
+
+  const data = z.object({
+    sunsetAt: z.string().datetime().nullable().optional(),
+    note: z.string().optional(),
+  }).parse(req.body);
+
+  const updated = await prisma.contract.update({
+    where: { id: contract.id },
+    data: {
+      deprecatedAt: contract.deprecatedAt ?? new Date(),
+      sunsetAt: data.sunsetAt ? new Date(data.sunsetAt) : null,
+      deprecationNote: data.note ?? null,
+      sunsetWarnedDays: null,
+    },
+  });
+
+  await emitEvent({
+    roomId: contract.roomId,
+    visibility: "global",
+    type: "contract.deprecation.updated",
+    payload: {
+      contractId: updated.id,
+      contractName: updated.name,
+      deprecated: true,
+      sunsetAt: updated.sunsetAt?.toISOString() ?? null,
+      note: updated.deprecationNote,
+    },
+  });
+
+  if (!contract.deprecatedAt) {
+    await prisma.notebookEntry.create({
+      data: {
+        roomId: contract.roomId,
+        category: "contract_change",
+        title: `Contract deprecated: ${contract.name}`,
+        content: `**${user.name}** deprecated **${contract.name}**.${updated.sunsetAt ? `\n\n**Sunset:** ${updated.sunsetAt.toISOString().slice(0, 10)}` : ""}${data.note ? `\n\n${data.note}` : ""}`,
+        references: { contractIds: [contract.id] },
+      },
+    });
+  }
+
+  res.json(updated);
+});
+
+// DELETE /contracts/:id/deprecation (admin/owner only)
+router.delete("/:id/deprecation", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getContractWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { contract, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: contract.roomId, user, action: "contract.undeprecate", detail: `contractId=${contract.id}`, error: "Admin role required to change contract deprecation" });
+    return;
+  }
+
+  const updated = await prisma.contract.update({
+    where: { id: contract.id },
+    data: { deprecatedAt: null, sunsetAt: null, deprecationNote: null, sunsetWarnedDays: null },
+  });
+
+  await emitEvent({
+    roomId: contract.roomId,
+    visibility: "global",
+    type: "contract.deprecation.updated",
+    payload: { contractId: updated.id, contractName: updated.name, deprecated: false, sunsetAt: null, note: null },
   });
 
-  res.json({ ...result.contract, versions });
+  res.json(updated);
+});
+
+// PATCH /contracts/:id/settings (admin/owner only)
+router.patch("/:id/settings", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getContractWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { contract, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: contract.roomId, user, action: "contract.settings", detail: `contractId=${contract.id}`, error: "Admin role required to change contract settings" });
+    return;
+  }
+
+  const data = z.object({
+    compatibilityMode: z.enum(["none", "backward", "forward", "full"]).optional(),
+  }).parse(req.body);
+
+  const updated = await prisma.contract.update({
+    where: { id: contract.id },
+    data: {
+      ...(data.compatibilityMode ? { compatibilityMode: data.compatibilityMode } : {}),
+    },
+  });
+
+  await emitEvent({
+    roomId: contract.roomId,
+    visibility: "global",
+    type: "contract.settings.updated",
+    payload: {
+      contractId: updated.id,
+      contractName: updated.name,
+      compatibilityMode: updated.compatibilityMode,
+    },
+  });
+
+  res.json(updated);
 });
 
 // POST /contracts/:id/propose
@@ -46,6 +405,25 @@ router.post("/:id/propose", requireAuth, async (req, res) => {
 
   const { contract } = result;
 
+  // A new proposal from the same author replaces their previous open one
+  await supersedeOpenProposals(contract, { proposedByUserId: user.id });
+
+  const reviewerIds = await requiredReviewerIds(contract.id, user.id);
+  const proposal = await prisma.contractProposal.create({
+    data: {
+      roomId: contract.roomId,
+      contractId: contract.id,
+      proposedByUserId: user.id,
+      baseVersionId: contract.currentVersionId,
+      summary: data.summary,
+      content: data.proposedContent,
+      breaking: data.breaking,
+      requiredReviewerIds: reviewerIds,
+    },
+  });
+  const diff = await proposalDiff(contract, proposal);
+  const breaking = data.breaking || diff.breaking;
+
   await emitEvent({
     roomId: contract.roomId,
     visibility: "global",
@@ -53,128 +431,290 @@ router.post("/:id/propose", requireAuth, async (req, res) => {
     payload: {
       contractId: contract.id,
       contractName: contract.name,
+      proposalId: proposal.id,
       proposedByUserId: user.id,
       proposedByName: user.name,
-      breaking: data.breaking,
+      breaking,
       summary: data.summary,
       proposedContent: data.proposedContent,
+      requiredReviewerIds: reviewerIds,
     },
   });
 
+  for (const reviewerId of reviewerIds) {
+    await emitEvent({
+      roomId: contract.roomId,
+      visibility: "user",
+      visibleToUserId: reviewerId,
+      type: "contract.proposal.review_requested",
+      payload: {
+        proposalId: proposal.id,
+        contractId: contract.id,
+        contractName: contract.name,
+        proposedByName: user.name,
+        summary: data.summary,
+        breaking,
+      },
+    });
+  }
+
   // Notebook entry for the proposal
   await prisma.notebookEntry.create({
     data: {
       roomId: contract.roomId,
       category: "contract_change",
       title: `Contract change proposed: ${contract.name}`,
-      content: `**${user.name}** proposed a change to **${contract.name}**.\n\n**Summary:** ${data.summary}\n\n**Breaking:** ${data.breaking ? "Yes ⚠️" : "No"}`,
+      content: `**${user.name}** proposed a change to **${contract.name}**.\n\n**Summary:** ${data.summary}\n\n**Breaking:** ${breaking ? "Yes ⚠️" : "No"}\n\n**Required reviewers:** ${reviewerIds.length}`,
       references: { contractIds: [contract.id] },
     },
   });
 
-  res.json({ ok: true });
+  res.status(201).json({ ...proposal, diff });
 });
 
-// POST /contracts/:id/publish (admin/owner only)
-router.post("/:id/publish", requireAuth, async (req, res) => {
+// GET /contracts/:id/proposals?status=
+router.get("/:id/proposals", requireAuth, async (req, res) => {
   const user = res.locals.user;
   const result = await getContractWithAccess(req.params.id, user.id);
   if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
 
-  const { contract, membership } = result;
-  if (membership.role === "collaborator") {
-    emitSecurityAlert({
-      roomId: contract.roomId,
-      userId: user.id,
-      userName: user.name,
-      action: "contract.publish",
-      detail: `contractId=${contract.id}`,
-      severity: "high",
-    }).catch(console.error);
-    res.status(403).json({ error: "Admin role required to publish contracts" });
-    return;
-  }
+  const status = z.enum(["open", "approved", "rejected", "superseded"]).optional().parse(req.query.status);
+  const proposals = await prisma.contractProposal.findMany({
+    where: { contractId: result.contract.id, ...(status ? { status } : {}) },
+    include: {
+      proposedBy: { select: { id: true, name: true } },
+      reviews: { select: { reviewerUserId: true, decision: true } },
+      _count: { select: { comments: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+
+  res.json(proposals.map(({ content: _content, ...p }) => ({ ...p, ...reviewState(p, p.reviews) })));
+});
+
+// GET /contracts/proposals/:proposalId
+router.get("/proposals/:proposalId", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getProposalWithAccess(req.params.proposalId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { proposal } = result;
+  const [comments, reviews, proposedBy, diff] = await Promise.all([
+    prisma.contractProposalComment.findMany({
+      where: { proposalId: proposal.id },
+      include: { author: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.contractProposalReview.findMany({
+      where: { proposalId: proposal.id },
+      include: { reviewer: { select: { id: true, name: true } } },
+      orderBy: { updatedAt: "asc" },
+    }),
+    prisma.user.findUnique({ where: { id: proposal.proposedByUserId }, select: { id: true, name: true } }),
+    proposalDiff(proposal.contract, proposal),
+  ]);
+
+  const { contract, ...rest } = proposal;
+  res.json({
+    ...rest,
+    contract: { id: contract.id, name: contract.name, type: contract.type },
+    proposedBy,
+    comments,
+    reviews,
+    ...reviewState(proposal, reviews),
+    diff,
+  });
+});
+
+// POST /contracts/proposals/:proposalId/comments
+router.post("/proposals/:proposalId/comments", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getProposalWithAccess(req.params.proposalId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
 
   const data = z.object({
-    summary: z.string().min(1),
-    breaking: z.boolean(),
     content: z.string().min(1),
+    parentId: z.string().optional(),
   }).parse(req.body);
 
-  // Detect breaking change heuristically if not marked
-  let breaking = data.breaking;
-  if (!breaking) {
-    const currentVersion = contract.currentVersionId
-      ? await prisma.contractVersion.findUnique({ where: { id: contract.currentVersionId } })
-      : null;
-    if (currentVersion) {
-      breaking = detectBreakingChange(contract.type, currentVersion.content, data.content);
+  const { proposal } = result;
+  if (data.parentId) {
+    const parent = await prisma.contractProposalComment.findUnique({ where: { id: data.parentId } });
+    if (!parent || parent.proposalId !== proposal.id) {
+      res.status(400).json({ error: "Parent comment does not belong to this proposal" });
+      return;
     }
   }
 
-  // Get next version number
-  const lastVersion = await prisma.contractVersion.findFirst({
-    where: { contractId: contract.id },
-    orderBy: { version: "desc" },
-  });
-  const nextVersion = (lastVersion?.version ?? 0) + 1;
-
-  const version = await prisma.contractVersion.create({
+  const comment = await prisma.contractProposalComment.create({
     data: {
-      contractId: contract.id,
-      version: nextVersion,
+      proposalId: proposal.id,
+      authorUserId: user.id,
+      parentId: data.parentId ?? null,
       content: data.content,
-      summary: data.summary,
-      breaking,
-      proposedBy: user.id,
     },
+    include: { author: { select: { id: true, name: true } } },
   });
 
-  await prisma.contract.update({
-    where: { id: contract.id },
-    data: { currentVersionId: version.id },
+  await emitProposalUpdated(proposal, proposal.contract.name, "commented", user);
+  res.status(201).json(comment);
+});
+
+// POST /contracts/proposals/:proposalId/reviews
+router.post("/proposals/:proposalId/reviews", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getProposalWithAccess(req.params.proposalId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const data = z.object({
+    decision: z.enum(["approved", "changes_requested"]),
+    comment: z.string().min(1).optional(),
+  }).parse(req.body);
+
+  const { proposal } = result;
+  if (proposal.status !== "open") {
+    res.status(409).json({ error: `Proposal is already ${proposal.status}` });
+    return;
+  }
+  if (proposal.proposedByUserId === user.id) {
+    res.status(400).json({ error: "Authors cannot review their own proposal" });
+    return;
+  }
+
+  const review = await prisma.contractProposalReview.upsert({
+    where: { proposalId_reviewerUserId: { proposalId: proposal.id, reviewerUserId: user.id } },
+    create: { proposalId: proposal.id, reviewerUserId: user.id, decision: data.decision },
+    update: { decision: data.decision },
   });
+  if (data.comment) {
+    await prisma.contractProposalComment.create({
+      data: { proposalId: proposal.id, authorUserId: user.id, content: data.comment },
+    });
+  }
 
-  await emitEvent({
-    roomId: contract.roomId,
-    visibility: "global",
-    type: "contract.published",
-    payload: {
-      contractId: contract.id,
-      contractName: contract.name,
-      contractVersionId: version.id,
-      breaking,
-      summary: data.summary,
-    },
+  await emitProposalUpdated(proposal, proposal.contract.name, "reviewed", user);
+  res.json(review);
+});
+
+// POST /contracts/proposals/:proposalId/approve (admin/owner only)
+router.post("/proposals/:proposalId/approve", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getProposalWithAccess(req.params.proposalId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { proposal, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: proposal.roomId, user, action: "contract.proposal.approve", detail: `proposalId=${proposal.id}`, error: "Admin role required to approve contract proposals" });
+    return;
+  }
+
+  if (proposal.status !== "open") {
+    res.status(409).json({ error: `Proposal is already ${proposal.status}` });
+    return;
+  }
+
+  const reviews = await prisma.contractProposalReview.findMany({ where: { proposalId: proposal.id } });
+  const { pendingReviewerIds } = reviewState(proposal, reviews);
+  if (pendingReviewerIds.length > 0) {
+    res.status(409).json({ error: "Required reviewers have not approved yet", pendingReviewerIds });
+    return;
+  }
+
+  const data = z.object({ note: z.string().optional() }).parse(req.body ?? {});
+
+  // Claim the proposal first so a concurrent approve can't publish it twice
+  const claimed = await prisma.contractProposal.updateMany({
+    where: { id: proposal.id, status: "open" },
+    data: { status: "approved", decidedByUserId: user.id, decisionNote: data.note ?? null, decidedAt: new Date() },
   });
+  if (claimed.count === 0) {
+    res.status(409).json({ error: "Proposal is no longer open" });
+    return;
+  }
 
-  // Trigger master impact analysis
-  await masterHandleContractPublished(contract.roomId, contract.id, version.id, breaking, data.summary);
+  try {
+    const { version, parseError } = await publishContractVersion(proposal.contract, {
+      summary: proposal.summary,
+      breaking: proposal.breaking,
+      content: proposal.content,
+      proposedBy: proposal.proposedByUserId,
+      fromProposalId: proposal.id,
+    });
+
+    const updated = await prisma.contractProposal.findUniqueOrThrow({ where: { id: proposal.id } });
+    await emitProposalUpdated(updated, proposal.contract.name, "approved", user);
 
-  res.json({ ...version, contract });
+    res.json({ proposal: updated, version, parseError });
+  } catch (err) {
+    // Reopen the proposal unless its version was published before the failure
+    await prisma.contractProposal.updateMany({
+      where: { id: proposal.id, status: "approved", publishedVersionId: null },
+      data: { status: "open", decidedByUserId: null, decisionNote: null, decidedAt: null },
+    }).catch(console.error);
+    console.error("Proposal publish error:", err);
+    res.status(500).json({ error: "Failed to publish the proposal", detail: String(err) });
+  }
 });
 
-function detectBreakingChange(type: string, oldContent: string, newContent: string): boolean {
-  if (type === "openapi") {
-    // Simple heuristic: look for removed endpoint paths
-    const oldPaths = (oldContent.match(/\/[a-zA-Z0-9/_{}]+/g) ?? []);
-    const newPaths = new Set(newContent.match(/\/[a-zA-Z0-9/_{}]+/g) ?? []);
-    return oldPaths.some((p) => !newPaths.has(p));
-  }
-  if (type === "typescript") {
-    // Look for removed exports
-    const oldExports = (oldContent.match(/export\s+(?:type\s+)?(?:interface\s+|class\s+|function\s+|const\s+)?(\w+)/g) ?? []);
-    const newContent_ = newContent;
-    return oldExports.some((e) => !newContent_.includes(e));
-  }
-  // For other types, basic string removal check
-  const oldLines = new Set(oldContent.split("\n").map((l) => l.trim()).filter(Boolean));
-  const newLines = new Set(newContent.split("\n").map((l) => l.trim()).filter(Boolean));
-  let removedCount = 0;
-  for (const line of oldLines) {
-    if (!newLines.has(line)) removedCount++;
-  }
-  return removedCount > oldLines.size * 0.2; // >20% removal is likely breaking
-}
+// POST /contracts/proposals/:proposalId/reject (admin/owner only)
+router.post("/proposals/:proposalId/reject", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getProposalWithAccess(req.params.proposalId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { proposal, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: proposal.roomId, user, action: "contract.proposal.reject", detail: `proposalId=${proposal.id}`, error: "Admin role required to reject contract proposals" });
+    return;
+  }
+
+  if (proposal.status !== "open") {
+    res.status(409).json({ error: `Proposal is already ${proposal.status}` });
+    return;
+  }
+
+  const data = z.object({ reason: z.string().optional() }).parse(req.body ?? {});
+  const updated = await prisma.contractProposal.update({
+    where: { id: proposal.id },
+    data: { status: "rejected", decidedByUserId: user.id, decisionNote: data.reason ?? null, decidedAt: new Date() },
+  });
+
+  await prisma.notebookEntry.create({
+    data: {
+      roomId: proposal.roomId,
+      category: "contract_change",
+      title: `Contract change rejected: ${proposal.contract.name}`,
+      content: `**${user.name}** rejected the proposed change to **${proposal.contract.name}**.\n\n**Summary:** ${proposal.summary}${data.reason ? `\n\n**Reason:** ${data.reason}` : ""}`,
+      references: { contractIds: [proposal.contractId] },
+    },
+  });
+  await emitProposalUpdated(updated, proposal.contract.name, "rejected", user);
+
+  res.json(updated);
+});
+
+// POST /contracts/:id/publish (admin/owner only)
+router.post("/:id/publish", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getContractWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { contract, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: contract.roomId, user, action: "contract.publish", detail: `contractId=${contract.id}`, error: "Admin role required to publish contracts" });
+    return;
+  }
+
+  const data = z.object({
+    summary: z.string().min(1),
+    breaking: z.boolean(),
+    content: z.string().min(1),
+  }).parse(req.body);
+
+  const { version, parseError } = await publishContractVersion(contract, { ...data, proposedBy: user.id });
+
+  res.json({ ...version, contract, parseError });
+});
 
 export default router;
@@ -0,0 +1,137 @@
+import { Router } from "express";
+import { prisma } from "../db";
+import { requireAuth, requireRoomMember } from "../middleware/auth";
+import { emitEvent } from "../websocket";
+import { emitSecurityAlert } from "../security";
+import { approveAndMergeRequest } from "../services/mergeRequests";
+
+const router = Router();
+
+// Helper: verify merge request exists + user is member of room
+async function getMergeRequestWithAccess(mergeRequestId: string, userId: string) {
+  const mergeRequest = await prisma.mergeRequest.findUnique({ where: { id: mergeRequestId } });
+  if (!mergeRequest) return null;
+  const membership = await prisma.membership.findUnique({
+    where: { roomId_userId: { roomId: mergeRequest.roomId, userId } },
+  });
+  if (!membership) return null;
+  return { mergeRequest, membership };
+}
+
+// GET /rooms/:id/merge-requests?taskId=
+router.get("/:id/merge-requests", requireAuth, requireRoomMember, async (req, res) => {
+  const { id: roomId } = req.params;
+  const taskId = req.query.taskId as string | undefined;
+
+  const mergeRequests = await prisma.mergeRequest.findMany({
+    where: {
+      roomId,
+      ...(taskId ? { taskId } : {}),
+    },
+    include: {
+      task: { select: { id: true, title: true, status: true } },
+      mergedBy: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+
+  res.json(mergeRequests);
+});
+
+// POST /merge-requests/:mrId/merge (admin/owner)
+router.post("/:mrId/merge", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getMergeRequestWithAccess(req.params.mrId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { mergeRequest, membership } = result;
+  if (membership.role === "collaborator") {
+    emitSecurityAlert({
+      roomId: mergeRequest.roomId,
+      userId: user.id,
+      userName: user.name,
+      action: "merge_request.merge",
+      detail: `mergeRequestId=${mergeRequest.id}`,
+      severity: "high",
+    }).catch(console.error);
+    res.status(403).json({ error: "Admin role required to merge" });
+    return;
+  }
+
+  if (mergeRequest.status !== "open" && mergeRequest.status !== "conflicted") {
+    res.status(409).json({ error: `Merge request is already ${mergeRequest.status}` });
+    return;
+  }
+
+  let outcome: Awaited<ReturnType<typeof approveAndMergeRequest>>;
+  try {
+    outcome = await approveAndMergeRequest(mergeRequest, user);
+  } catch (err) {
+    // e.g. the target branch can't be checked out over local changes; the request stays open
+    console.error("Merge error:", err);
+    res.status(409).json({ error: "Merge failed", detail: String(err).slice(0, 500), mergeRequest });
+    return;
+  }
+  if (!outcome.result.merged) {
+    res.status(409).json({
+      error: outcome.result.conflictFiles.length > 0 ? "Merge conflicts" : "Merge failed",
+      conflictFiles: outcome.result.conflictFiles,
+      mergeRequest: outcome.mergeRequest,
+    });
+    return;
+  }
+
+  res.json(outcome.mergeRequest);
+});
+
+// POST /merge-requests/:mrId/close (admin/owner)
+router.post("/:mrId/close", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getMergeRequestWithAccess(req.params.mrId, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { mergeRequest, membership } = result;
+  if (membership.role === "collaborator") {
+    emitSecurityAlert({
+      roomId: mergeRequest.roomId,
+      userId: user.id,
+      userName: user.name,
+      action: "merge_request.close",
+      detail: `mergeRequestId=${mergeRequest.id}`,
+      severity: "high",
+    }).catch(console.error);
+    res.status(403).json({ error: "Admin role required to close merge requests" });
+    return;
+  }
+
+  if (mergeRequest.status === "merged") {
+    res.status(409).json({ error: "Merge request is already merged" });
+    return;
+  }
+
+  const updated = await prisma.mergeRequest.update({
+    where: { id: mergeRequest.id },
+    data: { status: "closed", conflictFiles: [] },
+    include: { task: { select: { id: true, title: true } } },
+  });
+
+  await emitEvent({
+    roomId: updated.roomId,
+    visibility: "global",
+    type: "merge_request.updated",
+    payload: {
+      mergeRequestId: updated.id,
+      taskId: updated.taskId,
+      taskTitle: updated.task.title,
+      sourceBranch: updated.sourceBranch,
+      targetBranch: updated.targetBranch,
+      status: updated.status,
+      conflictFiles: [],
+    },
+  });
+
+  res.json(updated);
+});
+
+export default router;
@@ -3,10 +3,13 @@ import { z } from "zod";
 import { prisma } from "../db";
 import { requireAuth, requireRoomMember, requireRoomAdmin } from "../middleware/auth";
 import { emitEvent } from "../websocket";
-import { masterPlanRoom } from "../agents/master";
+import { masterPlanRoom, masterSuggestContractLinks } from "../agents/master";
 import { workerKickoffAssignedTasks } from "../agents/worker";
 import axios from 'axios';
 import { ensureRoomRepoWorkspace, getRoomRepoStatus, maybeCreateGitHubRepo, syncRoomRepo } from "../services/roomRepo";
+import { syncContractArtifacts } from "../services/contractArtifacts";
+import { refreshRoomCodeIndex } from "../services/codeIndex";
+import { INITIAL_SEMVER } from "../services/contractSemver";
 
 const router = Router();
 
@@ -200,6 +203,7 @@ router.post("/:id/repo/sync", requireAuth, requireRoomAdmin, async (req, res) =>
   const { id } = req.params;
   try {
     const result = await syncRoomRepo(id);
+    refreshRoomCodeIndex(id).catch((err) => console.error("Code index refresh failed:", err));
     if (!result.synced) {
       await emitEvent({
         roomId: id,
@@ -220,6 +224,30 @@ router.post("/:id/repo/sync", requireAuth, requireRoomAdmin, async (req, res) =>
   }
 });
 
+// PATCH /rooms/:id/settings
+router.patch("/:id/settings", requireAuth, requireRoomAdmin, async (req, res) => {
+  const { id } = req.params;
+  const data = z.object({
+    agentApprovalMode: z.enum(["off", "verify_only", "always"]).optional(),
+  }).parse(req.body);
+
+  const room = await prisma.room.update({
+    where: { id },
+    data: {
+      ...(data.agentApprovalMode ? { agentApprovalMode: data.agentApprovalMode } : {}),
+    },
+  });
+
+  await emitEvent({
+    roomId: id,
+    visibility: "global",
+    type: "room.settings.updated",
+    payload: { agentApprovalMode: room.agentApprovalMode },
+  });
+
+  res.json(room);
+});
+
 // Fetch YouTube titles
 router.get("/:id/youtube-titles", requireAuth, requireRoomMember, async (req, res) => {
   try {
@@ -267,7 +295,7 @@ router.get("/:id", requireAuth, requireRoomMember, async (req, res) => {
         assignedUser: { select: { id: true, name: true, email: true } },
         fromDependencies: true,
         toDependencies: true,
-        contractDeps: true,
+        contractDeps: { include: { contract: { select: { id: true, name: true, type: true, deprecatedAt: true, sunsetAt: true } } } },
       },
       orderBy: { createdAt: "asc" },
     }),
@@ -364,14 +392,17 @@ router.post("/:id/plan", requireAuth, requireRoomAdmin, async (req, res) => {
     }
 
     // Contracts
+    const createdContracts = new Map<string, string>();
     for (const c of result.contracts) {
       const contract = await prisma.contract.create({
         data: { roomId: id, name: c.name, type: c.type },
       });
+      createdContracts.set(c.name, contract.id);
       const version = await prisma.contractVersion.create({
         data: {
           contractId: contract.id,
           version: 1,
+          semver: INITIAL_SEMVER,
           content: c.initialContent,
           summary: c.summary,
           breaking: false,
@@ -383,6 +414,19 @@ router.post("/:id/plan", requireAuth, requireRoomAdmin, async (req, res) => {
       });
     }
 
+    // Task ↔ contract links declared by the planner
+    for (const link of result.contractLinks ?? []) {
+      const taskId = createdTasks.get(link.taskTitle);
+      const contractId = createdContracts.get(link.contractName);
+      if (taskId && contractId && ["consumes", "produces", "modifies"].includes(link.dependencyType)) {
+        await prisma.taskContractDependency.upsert({
+          where: { taskId_contractId: { taskId, contractId } },
+          create: { taskId, contractId, dependencyType: link.dependencyType },
+          update: {},
+        });
+      }
+    }
+
     for (const assignedUserId of assignedUserIds) {
       const existing = await prisma.agentInstance.findFirst({
         where: { roomId: id, type: "worker", userId: assignedUserId },
@@ -408,6 +452,13 @@ router.post("/:id/plan", requireAuth, requireRoomAdmin, async (req, res) => {
       });
     }
 
+    // Workers branch off the default branch, so the contract artifacts have to land before kickoff
+    if (createdContracts.size > 0) {
+      await syncContractArtifacts(id, "contracts: add contracts from master plan").catch((err) => {
+        console.error("Contract artifact sync failed:", err);
+      });
+    }
+
     const assignedTaskIdsByUser = new Map<string, string[]>();
     for (const assignment of taskAssignments) {
       const existing = assignedTaskIdsByUser.get(assignment.assignedUserId) ?? [];
@@ -439,6 +490,11 @@ router.post("/:id/plan", requireAuth, requireRoomAdmin, async (req, res) => {
       payload: { entryId: entry.id, category: "decision", title: entry.title },
     });
 
+    // Fill gaps the planner left in the task ↔ contract graph
+    masterSuggestContractLinks(id).catch((err) => {
+      console.error("Contract link suggestion failed:", err);
+    });
+
     res.json({ ok: true, taskCount: result.tasks.length, contractCount: result.contracts.length });
   } catch (err) {
     console.error("Plan error:", err);
@@ -446,4 +502,15 @@ router.post("/:id/plan", requireAuth, requireRoomAdmin, async (req, res) => {
   }
 });
 
+// POST /rooms/:id/contract-links/suggest (admin/owner)
+router.post("/:id/contract-links/suggest", requireAuth, requireRoomAdmin, async (req, res) => {
+  try {
+    const suggestions = await masterSuggestContractLinks(req.params.id);
+    res.json({ suggestions });
+  } catch (err) {
+    console.error("Contract link suggestion error:", err);
+    res.status(500).json({ error: "Contract link suggestion failed", detail: String(err) });
+  }
+});
+
 export default router;
@@ -0,0 +1,101 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db";
+import { requireAuth, requireRoomMember } from "../middleware/auth";
+import { emitSecurityAlert } from "../security";
+import { workerHandleRunApproval } from "../agents/worker";
+
+const router = Router();
+
+// GET /rooms/:id/runs?taskId=&limit=
+router.get("/:id/runs", requireAuth, requireRoomMember, async (req, res) => {
+  const { id: roomId } = req.params;
+  const taskId = req.query.taskId as string | undefined;
+  const limit = Math.min(Number(req.query.limit) || 20, 100);
+
+  const runs = await prisma.agentRun.findMany({
+    where: {
+      roomId,
+      ...(taskId ? { taskId } : {}),
+    },
+    include: {
+      task: { select: { id: true, title: true, status: true } },
+      user: { select: { id: true, name: true } },
+      steps: { orderBy: { startedAt: "asc" } },
+    },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+
+  res.json(runs);
+});
+
+// GET /runs/:runId
+router.get("/:runId", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const run = await prisma.agentRun.findUnique({
+    where: { id: req.params.runId },
+    include: {
+      task: { select: { id: true, title: true, status: true, blockedReason: true } },
+      user: { select: { id: true, name: true } },
+      steps: { orderBy: { startedAt: "asc" } },
+    },
+  });
+  if (!run) { res.status(404).json({ error: "Run not found" }); return; }
+
+  const membership = await prisma.membership.findUnique({
+    where: { roomId_userId: { roomId: run.roomId, userId: user.id } },
+  });
+  if (!membership) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  res.json(run);
+});
+
+// POST /runs/:runId/approval (run owner or admin)
+router.post("/:runId/approval", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const run = await prisma.agentRun.findUnique({ where: { id: req.params.runId } });
+  if (!run) { res.status(404).json({ error: "Run not found" }); return; }
+
+  const membership = await prisma.membership.findUnique({
+    where: { roomId_userId: { roomId: run.roomId, userId: user.id } },
+  });
+  if (!membership) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  if (run.userId !== user.id && membership.role === "collaborator") {
+    emitSecurityAlert({
+      roomId: run.roomId,
+      userId: user.id,
+      userName: user.name,
+      action: "agent.run.approval_for_other_user",
+      detail: `runId=${run.id}`,
+      severity: "high",
+    }).catch(console.error);
+    res.status(403).json({ error: "Only the run owner or an admin can approve this run" });
+    return;
+  }
+
+  const data = z.object({
+    decision: z.enum(["approve", "reject"]),
+    note: z.string().max(1000).optional(),
+  }).parse(req.body);
+
+  if (run.status !== "awaiting_approval") {
+    res.status(409).json({ error: `Run is ${run.status}, not awaiting approval` });
+    return;
+  }
+
+  const claimed = await workerHandleRunApproval(run, {
+    approved: data.decision === "approve",
+    note: data.note?.trim() || null,
+    decidedByUserId: user.id,
+  });
+  if (!claimed) {
+    res.status(409).json({ error: "Run was already decided" });
+    return;
+  }
+
+  res.json({ runId: run.id, decision: data.decision });
+});
+
+export default router;
@@ -1,12 +1,19 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "../db";
-import { requireAuth } from "../middleware/auth";
-import { emitEvent } from "../websocket";
+import { requireAuth, requireRoomAdmin } from "../middleware/auth";
+import { emitEvent, emitStatePatch } from "../websocket";
 import { workerKickoffAssignedTasks } from "../agents/worker";
+import { unblockIfDependenciesComplete } from "../agents/master";
 import { emitSecurityAlert } from "../security";
+import { getPendingMergeRequest } from "../services/mergeRequests";
+import { findDependencyCycle } from "../services/taskGraph";
+import { isValidVersionRange, rangeCovers, versionSemver } from "../services/contractSemver";
 
 const router = Router();
+// Mounted under /rooms; only task creation is addressed by room id.
+export const roomTaskRoutes = Router();
 
 // Helper: verify task exists + user is member of room
 async function getTaskWithAccess(taskId: string, userId: string) {
@@ -19,6 +26,278 @@ async function getTaskWithAccess(taskId: string, userId: string) {
   return { task, membership };
 }
 
+// Helper: ensure the assignee has a worker agent, then kick off their new task
+async function startWorkerOnTask(roomId: string, assignedUserId: string, taskId: string) {
+  const existing = await prisma.agentInstance.findFirst({
+    where: { roomId, type: "worker", userId: assignedUserId },
+  });
+  if (!existing) {
+    await prisma.agentInstance.create({
+      data: { roomId, type: "worker", userId: assignedUserId },
+    });
+  }
+
+  workerKickoffAssignedTasks(roomId, assignedUserId, [taskId]).catch((err) => {
+    console.error("Worker kickoff failed:", err);
+  });
+}
+
+function rejectCollaborator(
+  res: Response,
+  params: { roomId: string; user: { id: string; name: string }; action: string; taskId: string; error: string },
+) {
+  emitSecurityAlert({
+    roomId: params.roomId,
+    userId: params.user.id,
+    userName: params.user.name,
+    action: params.action,
+    detail: `taskId=${params.taskId}`,
+    severity: "high",
+  }).catch(console.error);
+  res.status(403).json({ error: params.error });
+}
+
+const acceptanceCriteriaSchema = z.union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value.join("\n") : value));
+
+// POST /rooms/:id/tasks (admin/owner)
+roomTaskRoutes.post("/:id/tasks", requireAuth, requireRoomAdmin, async (req, res) => {
+  const { id: roomId } = req.params;
+  const data = z.object({
+    title: z.string().min(1).max(200),
+    description: z.string().default(""),
+    acceptanceCriteria: acceptanceCriteriaSchema.default(""),
+    assignedUserId: z.string().uuid().optional(),
+    dependsOnTaskIds: z.array(z.string().uuid()).default([]),
+  }).parse(req.body);
+
+  if (data.assignedUserId) {
+    const targetMembership = await prisma.membership.findUnique({
+      where: { roomId_userId: { roomId, userId: data.assignedUserId } },
+    });
+    if (!targetMembership) {
+      res.status(400).json({ error: "Target user is not a member" });
+      return;
+    }
+  }
+
+  const prerequisites = await prisma.task.findMany({
+    where: { roomId, id: { in: data.dependsOnTaskIds } },
+    select: { id: true },
+  });
+  if (prerequisites.length !== new Set(data.dependsOnTaskIds).size) {
+    res.status(400).json({ error: "All dependencies must be tasks in this room" });
+    return;
+  }
+
+  // A brand-new task has no dependents, so its incoming edges can't form a cycle.
+  const task = await prisma.task.create({
+    data: {
+      roomId,
+      title: data.title,
+      description: data.description,
+      acceptanceCriteria: data.acceptanceCriteria,
+      assignedUserId: data.assignedUserId,
+      toDependencies: {
+        create: prerequisites.map((p) => ({ roomId, fromTaskId: p.id })),
+      },
+    },
+    include: { toDependencies: true },
+  });
+
+  await emitEvent({
+    roomId,
+    visibility: "global",
+    type: "task.status.updated",
+    payload: { taskId: task.id, taskTitle: task.title, status: task.status },
+  });
+  emitStatePatch(roomId, { tasks: { created: [task.id] } });
+
+  if (task.assignedUserId) {
+    await emitEvent({
+      roomId,
+      visibility: "user",
+      visibleToUserId: task.assignedUserId,
+      type: "task.assigned",
+      payload: { taskId: task.id, taskTitle: task.title, assignedUserId: task.assignedUserId },
+    });
+    await startWorkerOnTask(roomId, task.assignedUserId, task.id);
+  }
+
+  res.status(201).json(task);
+});
+
+// PATCH /tasks/:id (admin/owner or assignee)
+router.patch("/:id", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator" && task.assignedUserId !== user.id) {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.edit_for_other_user", taskId: task.id, error: "Can only edit your own tasks" });
+    return;
+  }
+
+  const data = z.object({
+    title: z.string().min(1).max(200).optional(),
+    description: z.string().optional(),
+    acceptanceCriteria: acceptanceCriteriaSchema.optional(),
+  }).parse(req.body);
+
+  // Per-criterion results are numbered against the old criteria, so editing them drops the results.
+  const criteriaChanged = data.acceptanceCriteria !== undefined && data.acceptanceCriteria !== task.acceptanceCriteria;
+  const updated = await prisma.task.update({
+    where: { id: task.id },
+    data: {
+      ...data,
+      ...(criteriaChanged ? { acceptanceResults: Prisma.JsonNull, acceptanceCheckedAt: null } : {}),
+    },
+  });
+
+  await emitEvent({
+    roomId: task.roomId,
+    visibility: "global",
+    type: "task.status.updated",
+    payload: { taskId: task.id, taskTitle: updated.title, status: updated.status },
+  });
+  emitStatePatch(task.roomId, { tasks: { updated: [task.id] } });
+
+  res.json(updated);
+});
+
+// DELETE /tasks/:id (admin/owner)
+router.delete("/:id", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.delete", taskId: task.id, error: "Admin role required to delete tasks" });
+    return;
+  }
+
+  const dependents = await prisma.taskDependency.findMany({
+    where: { fromTaskId: task.id },
+    select: { toTaskId: true },
+  });
+
+  await prisma.task.delete({ where: { id: task.id } });
+
+  // Downstream tasks lose this prerequisite; unblock any that were only waiting on it.
+  const dependentTasks = await prisma.task.findMany({
+    where: { id: { in: dependents.map((d) => d.toTaskId) } },
+  });
+  for (const dependent of dependentTasks) {
+    await unblockIfDependenciesComplete(task.roomId, dependent);
+  }
+
+  await prisma.notebookEntry.create({
+    data: {
+      roomId: task.roomId,
+      category: "task_update",
+      title: `Task deleted: "${task.title}"`,
+      content: `**${user.name}** deleted task **${task.title}**.`,
+      references: {},
+    },
+  });
+
+  await emitEvent({
+    roomId: task.roomId,
+    visibility: "global",
+    type: "task.deleted",
+    payload: { taskId: task.id, taskTitle: task.title },
+  });
+  emitStatePatch(task.roomId, { tasks: { deleted: [task.id] } });
+
+  res.json({ ok: true });
+});
+
+// POST /tasks/:id/dependencies (admin/owner) — this task depends on dependsOnTaskId
+router.post("/:id/dependencies", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.dependency.add", taskId: task.id, error: "Admin role required to edit dependencies" });
+    return;
+  }
+
+  const { dependsOnTaskId } = z.object({ dependsOnTaskId: z.string().uuid() }).parse(req.body);
+
+  const prerequisite = await prisma.task.findUnique({ where: { id: dependsOnTaskId } });
+  if (!prerequisite || prerequisite.roomId !== task.roomId) {
+    res.status(400).json({ error: "Dependency must be a task in the same room" });
+    return;
+  }
+
+  const existing = await prisma.taskDependency.findUnique({
+    where: { fromTaskId_toTaskId: { fromTaskId: prerequisite.id, toTaskId: task.id } },
+  });
+  if (existing) {
+    res.status(409).json({ error: "Dependency already exists" });
+    return;
+  }
+
+  const cycle = await findDependencyCycle(task.roomId, prerequisite.id, task.id);
+  if (cycle) {
+    res.status(409).json({ error: "Dependency would create a cycle", cycle });
+    return;
+  }
+
+  const dependency = await prisma.taskDependency.create({
+    data: { roomId: task.roomId, fromTaskId: prerequisite.id, toTaskId: task.id },
+  });
+
+  await emitEvent({
+    roomId: task.roomId,
+    visibility: "global",
+    type: "task.status.updated",
+    payload: { taskId: task.id, taskTitle: task.title, status: task.status },
+  });
+  emitStatePatch(task.roomId, { taskDependencies: { created: [dependency.id] } });
+
+  res.status(201).json(dependency);
+});
+
+// DELETE /tasks/:id/dependencies/:dependsOnTaskId (admin/owner)
+router.delete("/:id/dependencies/:dependsOnTaskId", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator") {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.dependency.remove", taskId: task.id, error: "Admin role required to edit dependencies" });
+    return;
+  }
+
+  const dependency = await prisma.taskDependency.findUnique({
+    where: { fromTaskId_toTaskId: { fromTaskId: req.params.dependsOnTaskId, toTaskId: task.id } },
+  });
+  if (!dependency) {
+    res.status(404).json({ error: "Dependency not found" });
+    return;
+  }
+
+  await prisma.taskDependency.delete({ where: { id: dependency.id } });
+  await unblockIfDependenciesComplete(task.roomId, task);
+
+  const refreshed = await prisma.task.findUnique({ where: { id: task.id } });
+  await emitEvent({
+    roomId: task.roomId,
+    visibility: "global",
+    type: "task.status.updated",
+    payload: { taskId: task.id, taskTitle: task.title, status: refreshed?.status ?? task.status },
+  });
+  emitStatePatch(task.roomId, { taskDependencies: { deleted: [dependency.id] } });
+
+  res.json({ ok: true });
+});
+
 // POST /tasks/:id/assign (admin/owner)
 router.post("/:id/assign", requireAuth, async (req, res) => {
   const user = res.locals.user;
@@ -72,18 +351,7 @@ router.post("/:id/assign", requireAuth, async (req, res) => {
   });
 
   // Ensure worker agent instance for assignee
-  const existing = await prisma.agentInstance.findFirst({
-    where: { roomId: task.roomId, type: "worker", userId: assignedUserId },
-  });
-  if (!existing) {
-    await prisma.agentInstance.create({
-      data: { roomId: task.roomId, type: "worker", userId: assignedUserId },
-    });
-  }
-
-  workerKickoffAssignedTasks(task.roomId, assignedUserId, [task.id]).catch((err) => {
-    console.error("Worker kickoff failed:", err);
-  });
+  await startWorkerOnTask(task.roomId, assignedUserId, task.id);
 
   res.json(updated);
 });
@@ -115,6 +383,19 @@ router.post("/:id/status", requireAuth, async (req, res) => {
     blockedReason: z.string().optional(),
   }).parse(req.body);
 
+  // A task with an open merge request is only done once it's merged, so the task branch lands on
+  // the default branch; that holds whichever status the task is moved from
+  if (data.status === "done") {
+    const pending = await getPendingMergeRequest(task.id);
+    if (pending) {
+      res.status(409).json({
+        error: "Task has an unmerged branch. An admin must approve and merge it.",
+        mergeRequestId: pending.id,
+      });
+      return;
+    }
+  }
+
   const updated = await prisma.task.update({
     where: { id: task.id },
     data: {
@@ -133,6 +414,154 @@ router.post("/:id/status", requireAuth, async (req, res) => {
   res.json(updated);
 });
 
+// ─── Task ↔ Contract Links ────────────────────────────────────────────────────
+
+const dependencyTypeSchema = z.enum(["consumes", "produces", "modifies"]);
+// null unpins the link; the task then follows the latest version within a major
+const versionRangeSchema = z.string().trim().min(1).refine(isValidVersionRange, "Not a valid semver range").nullable();
+
+async function emitContractLinkChange(
+  task: { id: string; roomId: string; title: string },
+  contract: { id: string; name: string },
+  link: { dependencyType: string; versionRange: string | null } | null,
+) {
+  await emitEvent({
+    roomId: task.roomId,
+    visibility: "global",
+    type: "task.contracts.updated",
+    payload: {
+      taskId: task.id,
+      taskTitle: task.title,
+      contractId: contract.id,
+      contractName: contract.name,
+      dependencyType: link?.dependencyType ?? null,
+      versionRange: link?.versionRange ?? null,
+    },
+  });
+}
+
+// POST /tasks/:id/contracts (admin/owner or assignee)
+router.post("/:id/contracts", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator" && task.assignedUserId !== user.id) {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.contract_link.add", taskId: task.id, error: "Can only link contracts to your own tasks" });
+    return;
+  }
+
+  const data = z.object({
+    contractId: z.string().uuid(),
+    dependencyType: dependencyTypeSchema,
+    versionRange: versionRangeSchema.optional(),
+  }).parse(req.body);
+
+  const contract = await prisma.contract.findUnique({ where: { id: data.contractId } });
+  if (!contract || contract.roomId !== task.roomId) {
+    res.status(400).json({ error: "Contract must belong to the same room" });
+    return;
+  }
+
+  const existing = await prisma.taskContractDependency.findUnique({
+    where: { taskId_contractId: { taskId: task.id, contractId: contract.id } },
+  });
+  if (existing) {
+    res.status(409).json({ error: "Task is already linked to this contract", link: existing });
+    return;
+  }
+
+  const link = await prisma.taskContractDependency.create({
+    data: { taskId: task.id, contractId: contract.id, dependencyType: data.dependencyType, versionRange: data.versionRange ?? null },
+  });
+  await emitContractLinkChange(task, contract, link);
+
+  res.status(201).json(link);
+});
+
+// PATCH /tasks/:id/contracts/:contractId (admin/owner or assignee)
+router.patch("/:id/contracts/:contractId", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator" && task.assignedUserId !== user.id) {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.contract_link.update", taskId: task.id, error: "Can only edit contract links on your own tasks" });
+    return;
+  }
+
+  const data = z.object({
+    dependencyType: dependencyTypeSchema.optional(),
+    versionRange: versionRangeSchema.optional(),
+  }).refine((d) => d.dependencyType !== undefined || d.versionRange !== undefined, "Nothing to update").parse(req.body);
+
+  const existing = await prisma.taskContractDependency.findUnique({
+    where: { taskId_contractId: { taskId: task.id, contractId: req.params.contractId } },
+    include: { contract: true },
+  });
+  if (!existing) {
+    res.status(404).json({ error: "Contract link not found" });
+    return;
+  }
+
+  const link = await prisma.taskContractDependency.update({
+    where: { id: existing.id },
+    data,
+  });
+  await emitContractLinkChange(task, existing.contract, link);
+
+  // Re-pinning to a range that covers the current version lifts the block a publish put on the task
+  const currentVersion = existing.contract.currentVersionId
+    ? await prisma.contractVersion.findUnique({ where: { id: existing.contract.currentVersionId } })
+    : null;
+  if (
+    data.versionRange !== undefined
+    && currentVersion
+    && task.status === "blocked"
+    && task.blockedReason?.startsWith(`Contract "${existing.contract.name}"`)
+    && rangeCovers(link.versionRange, versionSemver(currentVersion), null)
+  ) {
+    await prisma.task.update({ where: { id: task.id }, data: { status: "todo", blockedReason: null } });
+    await emitEvent({
+      roomId: task.roomId,
+      visibility: "global",
+      type: "task.status.updated",
+      payload: { taskId: task.id, taskTitle: task.title, status: "todo", blockedReason: null },
+    });
+  }
+
+  res.json(link);
+});
+
+// DELETE /tasks/:id/contracts/:contractId (admin/owner or assignee)
+router.delete("/:id/contracts/:contractId", requireAuth, async (req, res) => {
+  const user = res.locals.user;
+  const result = await getTaskWithAccess(req.params.id, user.id);
+  if (!result) { res.status(403).json({ error: "Not found or no access" }); return; }
+
+  const { task, membership } = result;
+  if (membership.role === "collaborator" && task.assignedUserId !== user.id) {
+    rejectCollaborator(res, { roomId: task.roomId, user, action: "task.contract_link.remove", taskId: task.id, error: "Can only edit contract links on your own tasks" });
+    return;
+  }
+
+  const existing = await prisma.taskContractDependency.findUnique({
+    where: { taskId_contractId: { taskId: task.id, contractId: req.params.contractId } },
+    include: { contract: true },
+  });
+  if (!existing) {
+    res.status(404).json({ error: "Contract link not found" });
+    return;
+  }
+
+  await prisma.taskContractDependency.delete({ where: { id: existing.id } });
+  await emitContractLinkChange(task, existing.contract, null);
+
+  res.json({ ok: true });
+});
+
 // GET /tasks/:id/messages (worker agent context for a task)
 router.get("/:id", requireAuth, async (req, res) => {
   const user = res.locals.user;
@@ -0,0 +1,69 @@
+import type { AcceptanceCriterionResult } from "@devroom/shared";
+
+// Acceptance criteria are stored as newline-separated text; each line is one criterion,
+// addressed by the agent and its tests as AC1, AC2, … in order.
+export type AcceptanceCriterion = { id: string; text: string };
+
+// What the agent reports on finish: the test it wrote for a criterion and a command that
+// runs only that test.
+export type CriterionTestMapping = { id: string; test: string | null; command: string };
+
+export function parseAcceptanceCriteria(text: string): AcceptanceCriterion[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:(?:[-*•]|\d+[.)])\s+)?(?:\[[ xX]?\]\s+)?/, "").trim())
+    .filter(Boolean)
+    .map((line, i) => ({ id: `AC${i + 1}`, text: line }));
+}
+
+export function parseCriterionMappings(value: unknown, criteria: AcceptanceCriterion[]): CriterionTestMapping[] {
+  if (!Array.isArray(value)) return [];
+  const ids = new Set(criteria.map((c) => c.id));
+  const mappings = new Map<string, CriterionTestMapping>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const { id, test, command } = entry as Record<string, unknown>;
+    const normalizedId = typeof id === "string" ? id.trim().toUpperCase() : "";
+    if (!ids.has(normalizedId) || typeof command !== "string" || !command.trim()) continue;
+    mappings.set(normalizedId, {
+      id: normalizedId,
+      test: typeof test === "string" && test.trim() ? test.trim() : null,
+      command: command.trim(),
+    });
+  }
+  return [...mappings.values()];
+}
+
+// Ids are matched case-insensitively inside test names ("[AC2] …", test_ac2_…, TestAC2…),
+// but AC1 doesn't match AC12.
+export function mentionsCriterion(text: string, id: string) {
+  return new RegExp(`${id}(?!\\d)`, "i").test(text);
+}
+
+// Test runners exit 0 when a filter matches nothing (jest -t, go test -run, vitest -t) or
+// when every matched test was skipped; their summaries say so.
+const NO_TESTS_RAN_PATTERNS = [
+  /no tests? (?:found|ran|to run)/i,
+  /No test files found/,
+  /collected 0 items/,
+  /running 0 tests/,
+  /\b0 passing\b/,
+  /Tests:\s+\d+ skipped, \d+ total/,
+];
+// go test only reports per package: "ok  pkg  0.2s", or "… [no tests to run]" when nothing matched.
+const TESTS_PASSED_PATTERN = /\b[1-9]\d* (?:passed|passing)\b|^--- PASS|^ok\s+\S+\s+(?:[\d.]+s|\(cached\))\s*$/m;
+
+export function outputShowsNoTestsRan(output: string) {
+  return NO_TESTS_RAN_PATTERNS.some((pattern) => pattern.test(output)) && !TESTS_PASSED_PATTERN.test(output);
+}
+
+export function summarizeCriteria(results: AcceptanceCriterionResult[]) {
+  const passed = results.filter((r) => r.status === "passed").length;
+  const failed = results.filter((r) => r.status === "failed").length;
+  const untested = results.length - passed - failed;
+  return [
+    `${passed}/${results.length} acceptance criteria passed`,
+    ...(failed > 0 ? [`${failed} failed`] : []),
+    ...(untested > 0 ? [`${untested} untested`] : []),
+  ].join(", ");
+}
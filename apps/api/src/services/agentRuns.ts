@@ -0,0 +1,164 @@
+import { Prisma, type AgentRunPhase, type AgentRunStatus, type AgentRunStepStatus } from "@prisma/client";
+import { prisma } from "../db";
+import { emitEvent } from "../websocket";
+
+export type ApprovalDecision = {
+  approved: boolean;
+  note: string | null;
+  decidedByUserId: string | null;
+};
+
+export type AgentRunRecorder = {
+  id: string;
+  step: (params: {
+    phase: AgentRunPhase;
+    status: AgentRunStepStatus;
+    summary: string;
+    startedAt: number;
+    detail?: Record<string, unknown>;
+  }) => Promise<void>;
+  update: (data: {
+    plan?: string[];
+    targetFiles?: string[];
+    applyMode?: string | null;
+    commitSha?: string | null;
+    diff?: string | null;
+    parked?: Prisma.InputJsonValue;
+  }) => Promise<void>;
+  setStatus: (status: "running" | "awaiting_approval") => Promise<void>;
+  finish: (status: Exclude<AgentRunStatus, "running" | "awaiting_approval">, outcome: string) => Promise<void>;
+};
+
+export async function startAgentRun(params: {
+  roomId: string;
+  taskId: string;
+  taskTitle: string;
+  userId: string;
+}): Promise<AgentRunRecorder> {
+  const { roomId, taskId, taskTitle, userId } = params;
+  const run = await prisma.agentRun.create({
+    data: { roomId, taskId, userId, targetFiles: [] },
+  });
+
+  await emitEvent({
+    roomId,
+    visibility: "global",
+    type: "agent.run.updated",
+    payload: { runId: run.id, taskId, taskTitle, userId, status: run.status },
+  });
+
+  return agentRunRecorder({ id: run.id, roomId, taskId, taskTitle, userId });
+}
+
+// Claims a run parked at `awaiting_approval` for whoever is applying the decision, so two
+// decisions (or two API nodes) can't both act on it. Null when it's no longer waiting.
+export async function resumeAgentRun(runId: string) {
+  const { count } = await prisma.agentRun.updateMany({
+    where: { id: runId, status: "awaiting_approval" },
+    data: { status: "running" },
+  });
+  if (count === 0) return null;
+
+  const run = await prisma.agentRun.findUniqueOrThrow({ where: { id: runId }, include: { task: true } });
+  if (!run.task) {
+    await prisma.agentRun.update({
+      where: { id: runId },
+      data: { status: "failed", outcome: "The task was deleted while the run waited for approval.", parked: Prisma.DbNull, finishedAt: new Date() },
+    });
+    // The caller still holds the parked state from `run` to release what the run left behind.
+    return { recorder: null, run, task: null };
+  }
+
+  const recorder = agentRunRecorder({ id: run.id, roomId: run.roomId, taskId: run.task.id, taskTitle: run.task.title, userId: run.userId });
+  await emitEvent({
+    roomId: run.roomId,
+    visibility: "global",
+    type: "agent.run.updated",
+    payload: { runId: run.id, taskId: run.task.id, taskTitle: run.task.title, userId: run.userId, status: "running" },
+  });
+  return { recorder, run, task: run.task };
+}
+
+function agentRunRecorder(params: {
+  id: string;
+  roomId: string;
+  taskId: string;
+  taskTitle: string;
+  userId: string;
+}): AgentRunRecorder {
+  const { id, roomId, taskId, taskTitle, userId } = params;
+
+  return {
+    id,
+
+    async step({ phase, status, summary, startedAt, detail }) {
+      const finishedAt = new Date();
+      const step = await prisma.agentRunStep.create({
+        data: {
+          runId: id,
+          phase,
+          status,
+          summary: summary.slice(0, 2000),
+          detail: (detail ?? {}) as Prisma.InputJsonValue,
+          startedAt: new Date(startedAt),
+          finishedAt,
+          durationMs: Math.max(0, finishedAt.getTime() - startedAt),
+        },
+      });
+
+      await emitEvent({
+        roomId,
+        visibility: "global",
+        type: "agent.run.step",
+        payload: {
+          runId: id,
+          stepId: step.id,
+          taskId,
+          phase,
+          status,
+          summary: step.summary,
+          durationMs: step.durationMs,
+        },
+      });
+    },
+
+    async update(data) {
+      await prisma.agentRun.update({
+        where: { id: id },
+        data: {
+          ...(data.plan ? { plan: data.plan } : {}),
+          ...(data.targetFiles ? { targetFiles: data.targetFiles } : {}),
+          ...(data.applyMode !== undefined ? { applyMode: data.applyMode } : {}),
+          ...(data.commitSha !== undefined ? { commitSha: data.commitSha } : {}),
+          ...(data.diff !== undefined ? { diff: data.diff } : {}),
+          ...(data.parked !== undefined ? { parked: data.parked } : {}),
+        },
+      });
+    },
+
+    async setStatus(status) {
+      await prisma.agentRun.update({ where: { id: id }, data: { status } });
+
+      await emitEvent({
+        roomId,
+        visibility: "global",
+        type: "agent.run.updated",
+        payload: { runId: id, taskId, taskTitle, userId, status },
+      });
+    },
+
+    async finish(status, outcome) {
+      await prisma.agentRun.update({
+        where: { id: id },
+        data: { status, outcome: outcome.slice(0, 2000), parked: Prisma.DbNull, finishedAt: new Date() },
+      });
+
+      await emitEvent({
+        roomId,
+        visibility: "global",
+        type: "agent.run.updated",
+        payload: { runId: id, taskId, taskTitle, userId, status, outcome: outcome.slice(0, 500) },
+      });
+    },
+  };
+}
@@ -0,0 +1,372 @@
+import { execFile, spawn } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { prisma } from "../../db";
+import { ensureRoomRepoWorkspace, resolveBaseWorkspaceDir } from "../roomRepo";
+import { bm25Score, chunkFile, tokenize, type IndexedChunk } from "./search";
+import { extractFileFacts, resolveImport, type CodeSymbol } from "./symbols";
+
+export type { CodeSymbol } from "./symbols";
+
+// Bump when the persisted shape or the tokenizer changes; older files are rebuilt.
+const INDEX_FORMAT = 1;
+const INDEXED_EXTENSIONS = new Set([
+  ".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".json", ".md", ".css", ".scss", ".html",
+  ".yml", ".yaml", ".sql", ".prisma", ".graphql", ".proto", ".py", ".go", ".rs", ".java", ".kt", ".rb",
+  ".php", ".sh", ".toml",
+]);
+const SKIPPED_DIRS = ["node_modules/", "dist/", "build/", ".next/", "coverage/", "vendor/"];
+const SKIPPED_FILES = new Set(["package-lock.json", "yarn.lock", "pnpm-lock.yaml"]);
+const MAX_INDEXED_FILES = 20000;
+const MAX_FILE_BYTES = 512 * 1024;
+const BLOB_BATCH_SIZE = 500;
+const MAX_HITS_PER_FILE = 2;
+const SNIPPET_LINES = 12;
+const SNIPPET_LINE_CHARS = 200;
+
+type IndexedFile = {
+  hash: string;
+  symbols: CodeSymbol[];
+  imports: string[];
+  chunks: IndexedChunk[];
+};
+
+// The indexed files of one commit of a room repo, with the corpus statistics BM25 needs.
+// Updates produce a new object, so a search never sees a half-applied update.
+export type CodeIndex = {
+  roomId: string;
+  commitSha: string | null;
+  files: Map<string, IndexedFile>;
+  documentFrequency: Map<string, number>;
+  chunkCount: number;
+  totalLength: number;
+};
+
+export type CodeSearchHit = {
+  path: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  // Matching lines of the chunk with a line of context, prefixed with line numbers.
+  snippet: string;
+};
+
+export type FileOutline = {
+  symbols: CodeSymbol[];
+  // Resolved workspace paths for relative imports, the specifier as written otherwise.
+  imports: string[];
+  importedBy: string[];
+};
+
+type PersistedIndex = {
+  format: number;
+  commitSha: string | null;
+  files: Array<[string, Omit<IndexedFile, "chunks"> & {
+    chunks: Array<Omit<IndexedChunk, "terms"> & { terms: Array<[string, number]> }>;
+  }]>;
+};
+
+type TreeEntry = { path: string; hash: string; size: number };
+
+const indexes = new Map<string, CodeIndex>();
+const updateQueues = new Map<string, Promise<unknown>>();
+const importGraphs = new WeakMap<CodeIndex, { imports: Map<string, string[]>; importedBy: Map<string, string[]> }>();
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd, timeout: 120000, maxBuffer: 1024 * 1024 * 64 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args.join(" ")}\n${stderr || error.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+function indexPath(roomId: string) {
+  return path.join(resolveBaseWorkspaceDir(), ".code-index", `${roomId}.json`);
+}
+
+function isIndexable(entry: TreeEntry) {
+  if (entry.size > MAX_FILE_BYTES) return false;
+  if (SKIPPED_DIRS.some((dir) => entry.path.startsWith(dir) || entry.path.includes(`/${dir}`))) return false;
+  if (SKIPPED_FILES.has(path.posix.basename(entry.path))) return false;
+  return INDEXED_EXTENSIONS.has(path.posix.extname(entry.path).toLowerCase());
+}
+
+async function listTree(cwd: string, commitSha: string): Promise<TreeEntry[]> {
+  const output = await git(cwd, ["ls-tree", "-r", "-l", "-z", "--full-tree", commitSha]);
+  const entries: TreeEntry[] = [];
+  for (const record of output.split("\0")) {
+    const tab = record.indexOf("\t");
+    if (tab < 0) continue;
+    const [, type, hash, size] = record.slice(0, tab).trim().split(/\s+/);
+    if (type !== "blob") continue;
+    entries.push({ path: record.slice(tab + 1), hash, size: Number(size) || 0 });
+  }
+  return entries;
+}
+
+// Contents of many blobs from one `git cat-file --batch` process.
+function readBlobs(cwd: string, hashes: string[]): Promise<Map<string, Buffer>> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", ["cat-file", "--batch"], { cwd });
+    const output: Buffer[] = [];
+    child.stdout.on("data", (data: Buffer) => output.push(data));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`git cat-file --batch exited with ${code}`));
+        return;
+      }
+      const buffer = Buffer.concat(output);
+      const blobs = new Map<string, Buffer>();
+      let offset = 0;
+      while (offset < buffer.length) {
+        const newline = buffer.indexOf(10, offset);
+        if (newline < 0) break;
+        const [hash, type, size] = buffer.subarray(offset, newline).toString("utf8").split(" ");
+        offset = newline + 1;
+        if (type === "missing" || size === undefined) continue;
+        blobs.set(hash, buffer.subarray(offset, offset + Number(size)));
+        offset += Number(size) + 1;
+      }
+      resolve(blobs);
+    });
+    child.stdin.end(`${hashes.join("\n")}\n`);
+  });
+}
+
+function indexFile(relPath: string, hash: string, content: string): IndexedFile {
+  let facts: ReturnType<typeof extractFileFacts> = { symbols: [], imports: [] };
+  try {
+    facts = extractFileFacts(relPath, content);
+  } catch {
+    // Unparseable source still takes part in text search
+  }
+  return { hash, ...facts, chunks: chunkFile(relPath, content) };
+}
+
+function applyStats(index: Pick<CodeIndex, "documentFrequency" | "chunkCount" | "totalLength">, file: IndexedFile, sign: 1 | -1) {
+  for (const chunk of file.chunks) {
+    index.chunkCount += sign;
+    index.totalLength += sign * chunk.length;
+    for (const term of chunk.terms.keys()) {
+      const df = (index.documentFrequency.get(term) ?? 0) + sign;
+      if (df > 0) index.documentFrequency.set(term, df);
+      else index.documentFrequency.delete(term);
+    }
+  }
+}
+
+// Re-indexes only the files whose blob differs from what `previous` holds, so moving the
+// index from one commit to the next costs as much as the diff between them.
+async function updateCodeIndex(roomId: string, cwd: string, ref: string, previous: CodeIndex | null): Promise<CodeIndex> {
+  const commitSha = await git(cwd, ["rev-parse", "--verify", `${ref}^{commit}`]).then((out) => out.trim()).catch(() => null);
+  if (previous && previous.commitSha === commitSha) return previous;
+
+  const next: CodeIndex = {
+    roomId,
+    commitSha,
+    files: new Map(previous?.files ?? []),
+    documentFrequency: new Map(previous?.documentFrequency ?? []),
+    chunkCount: previous?.chunkCount ?? 0,
+    totalLength: previous?.totalLength ?? 0,
+  };
+  const entries = commitSha ? (await listTree(cwd, commitSha)).filter(isIndexable).slice(0, MAX_INDEXED_FILES) : [];
+  const wanted = new Set(entries.map((entry) => entry.path));
+  for (const [relPath, file] of next.files) {
+    if (wanted.has(relPath)) continue;
+    applyStats(next, file, -1);
+    next.files.delete(relPath);
+  }
+
+  const changed = entries.filter((entry) => next.files.get(entry.path)?.hash !== entry.hash);
+  for (let i = 0; i < changed.length; i += BLOB_BATCH_SIZE) {
+    const batch = changed.slice(i, i + BLOB_BATCH_SIZE);
+    const blobs = await readBlobs(cwd, [...new Set(batch.map((entry) => entry.hash))]);
+    for (const entry of batch) {
+      const old = next.files.get(entry.path);
+      if (old) {
+        applyStats(next, old, -1);
+        next.files.delete(entry.path);
+      }
+      const blob = blobs.get(entry.hash);
+      if (!blob || blob.includes(0)) continue;
+      const file = indexFile(entry.path, entry.hash, blob.toString("utf8"));
+      applyStats(next, file, 1);
+      next.files.set(entry.path, file);
+    }
+  }
+  return next;
+}
+
+async function loadPersistedIndex(roomId: string): Promise<CodeIndex | null> {
+  try {
+    const persisted = JSON.parse(await fs.readFile(indexPath(roomId), "utf8")) as PersistedIndex;
+    if (persisted.format !== INDEX_FORMAT) return null;
+    const index: CodeIndex = { roomId, commitSha: persisted.commitSha, files: new Map(), documentFrequency: new Map(), chunkCount: 0, totalLength: 0 };
+    for (const [relPath, file] of persisted.files) {
+      const restored: IndexedFile = { ...file, chunks: file.chunks.map((chunk) => ({ ...chunk, terms: new Map(chunk.terms) })) };
+      index.files.set(relPath, restored);
+      applyStats(index, restored, 1);
+    }
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+async function persistIndex(index: CodeIndex) {
+  const persisted: PersistedIndex = {
+    format: INDEX_FORMAT,
+    commitSha: index.commitSha,
+    files: [...index.files].map(([relPath, file]) => [relPath, {
+      ...file,
+      chunks: file.chunks.map((chunk) => ({ ...chunk, terms: [...chunk.terms] })),
+    }]),
+  };
+  const target = indexPath(index.roomId);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(`${target}.tmp`, JSON.stringify(persisted), "utf8");
+  await fs.rename(`${target}.tmp`, target);
+}
+
+// The room's code index brought up to `ref` in `cwd` (any worktree of the room repo; they
+// share one object store). Updates for a room run one at a time.
+export function codeIndexFor(roomId: string, cwd: string, ref = "HEAD"): Promise<CodeIndex> {
+  const update = (updateQueues.get(roomId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const previous = indexes.get(roomId) ?? await loadPersistedIndex(roomId);
+      const next = await updateCodeIndex(roomId, cwd, ref, previous);
+      indexes.set(roomId, next);
+      if (next !== previous) await persistIndex(next).catch((err) => console.error(`Persisting the code index of room ${roomId} failed:`, err));
+      return next;
+    });
+  updateQueues.set(roomId, update);
+  return update;
+}
+
+// Brings the room's index up to its default branch, e.g. right after a commit or merge
+// lands there, so the next agentic pass only has its own branch's changes to index.
+export async function refreshRoomCodeIndex(roomId: string) {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { id: true, title: true, workspacePath: true, repoRemoteUrl: true, repoDefaultBranch: true },
+  });
+  if (!room) return;
+  const setup = await ensureRoomRepoWorkspace(room);
+  if (!setup.repoReady) return;
+  await codeIndexFor(roomId, setup.workspacePath, setup.repoDefaultBranch);
+}
+
+function snippetOf(lines: string[], chunk: IndexedChunk, terms: Set<string>) {
+  const matching: number[] = [];
+  for (let line = chunk.startLine; line <= chunk.endLine; line += 1) {
+    if (tokenize(lines[line - 1] ?? "").some((term) => terms.has(term))) matching.push(line);
+  }
+  const shown = new Set<number>();
+  for (const line of matching) {
+    for (const near of [line - 1, line, line + 1]) {
+      if (near >= chunk.startLine && near <= chunk.endLine && shown.size < SNIPPET_LINES) shown.add(near);
+    }
+  }
+  const out: string[] = [];
+  let last = 0;
+  for (const line of [...shown].sort((a, b) => a - b)) {
+    if (last && line > last + 1) out.push("…");
+    const text = lines[line - 1] ?? "";
+    out.push(`${line}| ${text.length > SNIPPET_LINE_CHARS ? `${text.slice(0, SNIPPET_LINE_CHARS)}…` : text}`);
+    last = line;
+  }
+  return out.join("\n");
+}
+
+// BM25-ranked chunks for `query`. Files in `changedPaths` are read from `cwd` instead of
+// the index, so a pass finds its own uncommitted edits.
+export async function searchCode(index: CodeIndex, query: string, options: { cwd: string; changedPaths?: string[]; limit?: number }) {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+  const changed = new Set(options.changedPaths ?? []);
+  const candidates: Array<[string, IndexedFile]> = [...index.files].filter(([relPath]) => !changed.has(relPath));
+  for (const relPath of changed) {
+    const content = await fs.readFile(path.join(options.cwd, relPath), "utf8").catch(() => null);
+    if (content !== null && !content.includes("\0")) candidates.push([relPath, indexFile(relPath, "", content)]);
+  }
+
+  const stats = {
+    documentFrequency: index.documentFrequency,
+    chunkCount: Math.max(1, index.chunkCount),
+    averageLength: index.chunkCount > 0 ? index.totalLength / index.chunkCount : 1,
+  };
+  const scored: Array<{ path: string; chunk: IndexedChunk; score: number }> = [];
+  for (const [relPath, file] of candidates) {
+    const fileHits = file.chunks
+      .map((chunk) => ({ path: relPath, chunk, score: bm25Score(chunk, terms, stats) }))
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_HITS_PER_FILE);
+    scored.push(...fileHits);
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  const termSet = new Set(terms);
+  const hits: CodeSearchHit[] = [];
+  const contents = new Map<string, string[]>();
+  for (const hit of scored.slice(0, options.limit ?? 10)) {
+    if (!contents.has(hit.path)) {
+      const content = await fs.readFile(path.join(options.cwd, hit.path), "utf8").catch(() => "");
+      contents.set(hit.path, content.split("\n"));
+    }
+    hits.push({
+      path: hit.path,
+      startLine: hit.chunk.startLine,
+      endLine: hit.chunk.endLine,
+      score: Math.round(hit.score * 100) / 100,
+      snippet: snippetOf(contents.get(hit.path) ?? [], hit.chunk, termSet),
+    });
+  }
+  return hits;
+}
+
+function importGraph(index: CodeIndex) {
+  const cached = importGraphs.get(index);
+  if (cached) return cached;
+  const paths = new Set(index.files.keys());
+  const imports = new Map<string, string[]>();
+  const importedBy = new Map<string, string[]>();
+  for (const [relPath, file] of index.files) {
+    const resolved = file.imports.map((specifier) => resolveImport(relPath, specifier, paths) ?? specifier);
+    imports.set(relPath, resolved);
+    for (const target of resolved) {
+      if (!paths.has(target)) continue;
+      const importers = importedBy.get(target);
+      if (importers) importers.push(relPath);
+      else importedBy.set(target, [relPath]);
+    }
+  }
+  const graph = { imports, importedBy };
+  importGraphs.set(index, graph);
+  return graph;
+}
+
+// Symbols and import-graph neighbours of one file. Pass `content` for a file that changed
+// since the indexed commit.
+export function fileOutline(index: CodeIndex, relPath: string, content?: string): FileOutline | null {
+  const graph = importGraph(index);
+  const importedBy = graph.importedBy.get(relPath) ?? [];
+  if (content !== undefined) {
+    const facts = indexFile(relPath, "", content);
+    const paths = new Set(index.files.keys());
+    return {
+      symbols: facts.symbols,
+      imports: facts.imports.map((specifier) => resolveImport(relPath, specifier, paths) ?? specifier),
+      importedBy,
+    };
+  }
+  const file = index.files.get(relPath);
+  if (!file) return null;
+  return { symbols: file.symbols, imports: graph.imports.get(relPath) ?? [], importedBy };
+}
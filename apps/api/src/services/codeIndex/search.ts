@@ -0,0 +1,69 @@
+// Okapi BM25 over fixed windows of lines. Identifiers are split on camelCase and
+// snake_case so `getUserById` matches a task that talks about "user" and "id".
+const K1 = 1.2;
+const B = 0.75;
+export const CHUNK_LINES = 40;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "that", "this", "are", "was", "not", "but", "you", "all", "can",
+  "const", "let", "var", "function", "return", "import", "export", "default", "async", "await", "new", "if",
+  "else", "true", "false", "null", "undefined", "void", "of", "in", "to", "is", "it", "as", "an", "or", "be",
+  "string", "number", "boolean", "any", "unknown", "self", "def", "func", "fn", "pub", "public", "private",
+]);
+
+export type IndexedChunk = {
+  startLine: number;
+  endLine: number;
+  // Number of terms, path terms included.
+  length: number;
+  terms: Map<string, number>;
+};
+
+export type Bm25Stats = {
+  documentFrequency: Map<string, number>;
+  chunkCount: number;
+  averageLength: number;
+};
+
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][A-Za-z0-9_$]*|\d{2,}/g) ?? []) {
+    const parts = word
+      .split(/[_$]+/)
+      .flatMap((part) => part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+      .map((part) => part.toLowerCase())
+      .filter((part) => part.length >= 2 && !STOP_WORDS.has(part));
+    terms.push(...parts);
+    const whole = word.toLowerCase();
+    if (parts.length > 1 && !STOP_WORDS.has(whole)) terms.push(whole);
+  }
+  return terms;
+}
+
+// Every chunk also carries the terms of its file path, so `routes/users.ts` ranks for "users".
+export function chunkFile(relPath: string, content: string): IndexedChunk[] {
+  const lines = content.split("\n");
+  const pathTerms = tokenize(relPath);
+  const chunks: IndexedChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const end = Math.min(lines.length, start + CHUNK_LINES);
+    const contentTerms = tokenize(lines.slice(start, end).join("\n"));
+    if (contentTerms.length === 0) continue;
+    const terms = new Map<string, number>();
+    for (const term of [...pathTerms, ...contentTerms]) terms.set(term, (terms.get(term) ?? 0) + 1);
+    chunks.push({ startLine: start + 1, endLine: end, length: pathTerms.length + contentTerms.length, terms });
+  }
+  return chunks;
+}
+
+export function bm25Score(chunk: IndexedChunk, queryTerms: string[], stats: Bm25Stats) {
+  let score = 0;
+  for (const term of queryTerms) {
+    const tf = chunk.terms.get(term);
+    if (!tf) continue;
+    const df = stats.documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (stats.chunkCount - df + 0.5) / (df + 0.5));
+    score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * chunk.length) / stats.averageLength));
+  }
+  return score;
+}
@@ -0,0 +1,150 @@
+import path from "path";
+import ts from "typescript";
+import { lineOf, parseSource } from "../contractDrift/scan";
+
+const TS_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+const SIGNATURE_LIMIT = 160;
+
+export type CodeSymbol = {
+  name: string;
+  kind: "function" | "class" | "method" | "interface" | "type" | "enum" | "variable";
+  line: number;
+  exported: boolean;
+  // Declaration head with the body left out, e.g. `export async function load(id: string): Promise<User>`.
+  signature: string;
+};
+
+export type FileFacts = {
+  symbols: CodeSymbol[];
+  // Module specifiers as written; resolved against the indexed files when the graph is built.
+  imports: string[];
+};
+
+function signatureOf(file: ts.SourceFile, node: ts.Node, end = node.getEnd()) {
+  const text = file.text.slice(node.getStart(file), end).replace(/\s+/g, " ").trim().replace(/[{=]$/, "").trim();
+  return text.length > SIGNATURE_LIMIT ? `${text.slice(0, SIGNATURE_LIMIT)}…` : text;
+}
+
+function isExported(node: ts.Node) {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+function isFunctionValue(node: ts.Expression | undefined) {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function typeScriptFacts(relPath: string, content: string): FileFacts {
+  const file = parseSource(relPath, content);
+  const symbols: CodeSymbol[] = [];
+  // `end` cuts the signature short of the body; members.pos sits right after the opening brace.
+  const push = (name: string, kind: CodeSymbol["kind"], node: ts.Node, exported: boolean, end?: number) => {
+    symbols.push({ name, kind, line: lineOf(file, node), exported, signature: signatureOf(file, node, end) });
+  };
+
+  for (const statement of file.statements) {
+    const exported = isExported(statement);
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      push(statement.name.text, "function", statement, exported, statement.body?.getStart(file));
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      const className = statement.name.text;
+      push(className, "class", statement, exported, statement.members.pos);
+      for (const member of statement.members) {
+        if (!ts.isMethodDeclaration(member) || !member.name || !ts.isIdentifier(member.name)) continue;
+        push(`${className}.${member.name.text}`, "method", member, exported, member.body?.getStart(file));
+      }
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      push(statement.name.text, "interface", statement, exported, statement.members.pos);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      push(statement.name.text, "type", statement, exported);
+    } else if (ts.isEnumDeclaration(statement)) {
+      push(statement.name.text, "enum", statement, exported, statement.members.pos);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+        const fn = isFunctionValue(declaration.initializer);
+        // Unexported plain values are module internals; functions are worth finding either way.
+        if (!exported && !fn) continue;
+        const { initializer } = declaration;
+        const body = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) ? initializer.body : initializer;
+        push(declaration.name.text, fn ? "function" : "variable", statement, exported, body?.getStart(file));
+      }
+    }
+  }
+
+  const imports = ts.preProcessFile(content, true, true).importedFiles.map((f) => f.fileName);
+  return { symbols, imports: [...new Set(imports)] };
+}
+
+function pythonFacts(content: string): FileFacts {
+  const symbols: CodeSymbol[] = [];
+  const imports = new Set<string>();
+  let currentClass: { name: string; indent: number } | null = null;
+
+  content.split("\n").forEach((line, i) => {
+    const indent = line.length - line.trimStart().length;
+    if (currentClass && line.trim() && indent <= currentClass.indent) currentClass = null;
+
+    const cls = line.match(/^(\s*)class\s+(\w+)/);
+    if (cls) {
+      if (indent === 0) {
+        currentClass = { name: cls[2], indent };
+        symbols.push({ name: cls[2], kind: "class", line: i + 1, exported: !cls[2].startsWith("_"), signature: line.trim().replace(/:$/, "") });
+      }
+      return;
+    }
+    const def = line.match(/^(\s*)(?:async\s+)?def\s+(\w+)\s*\(/);
+    if (def) {
+      if (indent === 0) {
+        symbols.push({ name: def[2], kind: "function", line: i + 1, exported: !def[2].startsWith("_"), signature: line.trim().replace(/:$/, "") });
+      } else if (currentClass) {
+        symbols.push({ name: `${currentClass.name}.${def[2]}`, kind: "method", line: i + 1, exported: !def[2].startsWith("_"), signature: line.trim().replace(/:$/, "") });
+      }
+      return;
+    }
+    const from = line.match(/^\s*from\s+([\w.]+)\s+import\b/);
+    const plain = line.match(/^\s*import\s+([\w.]+)/);
+    if (from) imports.add(from[1]);
+    else if (plain) imports.add(plain[1]);
+  });
+  return { symbols, imports: [...imports] };
+}
+
+function goFacts(content: string): FileFacts {
+  const symbols: CodeSymbol[] = [];
+  content.split("\n").forEach((line, i) => {
+    const fn = line.match(/^func\s+(?:\(\s*\w*\s*\*?(\w+)[^)]*\)\s*)?(\w+)/);
+    if (fn) {
+      const name = fn[1] ? `${fn[1]}.${fn[2]}` : fn[2];
+      symbols.push({ name, kind: fn[1] ? "method" : "function", line: i + 1, exported: /^[A-Z]/.test(fn[2]), signature: line.replace(/\s*\{\s*$/, "").trim() });
+      return;
+    }
+    const type = line.match(/^type\s+(\w+)\s+(struct|interface)?/);
+    if (type) {
+      symbols.push({ name: type[1], kind: type[2] === "interface" ? "interface" : type[2] === "struct" ? "class" : "type", line: i + 1, exported: /^[A-Z]/.test(type[1]), signature: line.replace(/\s*\{\s*$/, "").trim() });
+    }
+  });
+  return { symbols, imports: [] };
+}
+
+// Syntactic facts about one file. JS/TS is parsed; Python and Go are matched line by line;
+// other files only take part in text search.
+export function extractFileFacts(relPath: string, content: string): FileFacts {
+  const ext = path.extname(relPath).toLowerCase();
+  if (TS_EXTENSIONS.has(ext)) return typeScriptFacts(relPath, content);
+  if (ext === ".py") return pythonFacts(content);
+  if (ext === ".go") return goFacts(content);
+  return { symbols: [], imports: [] };
+}
+
+// Relative specifiers resolved to indexed files the way Node/TypeScript would look them up;
+// package imports stay unresolved.
+export function resolveImport(fromFile: string, specifier: string, files: Set<string>) {
+  if (!specifier.startsWith(".")) return null;
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+  const withoutJs = base.replace(/\.(js|jsx|mjs|cjs)$/, "");
+  const candidates = [
+    base,
+    ...[".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".d.ts"].flatMap((ext) => [`${withoutJs}${ext}`, `${base}/index${ext}`]),
+  ];
+  return candidates.find((candidate) => files.has(candidate)) ?? null;
+}
@@ -0,0 +1,380 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import ts from "typescript";
+import type { Contract, ContractVersion } from "@prisma/client";
+import { prisma } from "../../db";
+import { emitEvent } from "../../websocket";
+import { commitRoomRepoFiles, readRoomRepoTree } from "../roomRepo";
+import { refreshRoomCodeIndex } from "../codeIndex";
+import { versionSemver } from "../contractSemver";
+import { parseJsonSchemaDocument } from "../contractDiff/jsonschema";
+import { parseOpenApiDocument } from "../contractDiff/openapi";
+import { isObject, makeLocalRefResolver, type SchemaNode } from "../contractDiff/schema";
+import { asModule, COMPILER_OPTIONS, createContractProgram } from "../contractDiff/typescript";
+import { schemaToType, typeDeclaration, typeName } from "./schemaTypes";
+
+// Published contracts are mirrored into the room repository under CONTRACTS_DIR so the
+// code and the contracts it implements live side by side. Everything in there is owned by
+// DevRoom: it is rewritten on every publish/rollback and workers treat it as read-only.
+// It sits under .devroom/ so a repo's own `contracts/` (Solidity, Pact…) is left alone.
+export const CONTRACTS_DIR = ".devroom/contracts";
+// Where artifacts were written before; DevRoom's directories there are removed on the next sync.
+const LEGACY_CONTRACTS_DIR = "contracts";
+const README_HEADING = "# Contracts\n\nGenerated by DevRoom";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+type ArtifactFile = { path: string; content: string };
+
+export type ContractArtifactSummary = {
+  contractId: string;
+  contractName: string;
+  version: number;
+  semver: string;
+  directory: string;
+  generationError: string | null;
+};
+
+export function isContractArtifactPath(relPath: string) {
+  const normalized = relPath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return normalized === CONTRACTS_DIR || normalized.startsWith(`${CONTRACTS_DIR}/`);
+}
+
+// The contract directory (`.devroom/contracts/<name>`) a path falls in, if any.
+export function contractArtifactDirectory(relPath: string) {
+  const normalized = path.posix.normalize(relPath.replace(/\\/g, "/"));
+  if (!normalized.startsWith(`${CONTRACTS_DIR}/`)) return null;
+  const [dir] = normalized.slice(CONTRACTS_DIR.length + 1).split("/");
+  return dir ? `${CONTRACTS_DIR}/${dir}` : null;
+}
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "contract";
+}
+
+function looksLikeJson(content: string) {
+  return content.trimStart().startsWith("{");
+}
+
+function sourceFileName(contract: Contract, content: string) {
+  switch (contract.type) {
+    case "openapi":
+      return looksLikeJson(content) ? "openapi.json" : "openapi.yaml";
+    case "jsonschema":
+      return looksLikeJson(content) ? "schema.json" : "schema.yaml";
+    case "typescript":
+      return "contract.ts";
+    case "protobuf":
+      return "contract.proto";
+    default:
+      return "contract.txt";
+  }
+}
+
+function generatedHeader(contract: Contract, version: ContractVersion, sourceFile: string) {
+  return [
+    `// Generated by DevRoom from ${sourceFile} — contract "${contract.name}" ${versionSemver(version)} (${version.id}).`,
+    "// Do not edit: this file is rewritten whenever a version of the contract is published or rolled back.",
+    "",
+  ].join("\n");
+}
+
+// Hands out unique type names; later declarations get a numeric suffix on collision.
+function nameRegistry() {
+  const used = new Set<string>();
+  return (raw: string) => {
+    const base = typeName(raw);
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+    used.add(name);
+    return name;
+  };
+}
+
+function jsonMediaSchema(content: unknown) {
+  if (!isObject(content)) return undefined;
+  const mediaType = Object.keys(content).find((type) => type === "application/json")
+    ?? Object.keys(content).find((type) => /[/+]json\b/.test(type));
+  const media = mediaType ? content[mediaType] : undefined;
+  return isObject(media) ? media.schema : undefined;
+}
+
+function openApiTypes(content: string) {
+  const doc = parseOpenApiDocument(content);
+  const resolve = makeLocalRefResolver(doc);
+  const claimName = nameRegistry();
+
+  const components = isObject(doc.components) && isObject(doc.components.schemas) ? doc.components.schemas : {};
+  const schemaNames = new Map(Object.keys(components).map((key) => [`#/components/schemas/${key}`, claimName(key)]));
+  const refName = (ref: string) => schemaNames.get(ref) ?? null;
+
+  const sections: string[] = [];
+  if (schemaNames.size > 0) {
+    sections.push("// ─── Schemas ───");
+    for (const [key, schema] of Object.entries(components)) {
+      sections.push(typeDeclaration(schemaNames.get(`#/components/schemas/${key}`) as string, schema, refName));
+    }
+  }
+
+  const operations: string[] = [];
+  for (const [routePath, rawItem] of Object.entries(isObject(doc.paths) ? doc.paths : {})) {
+    const item = resolve(rawItem);
+    if (!item) continue;
+    for (const method of HTTP_METHODS) {
+      const op = resolve(item[method]);
+      if (!op) continue;
+      const base = typeof op.operationId === "string" && op.operationId ? op.operationId : `${method} ${routePath}`;
+      const declarations: string[] = [`// ${method.toUpperCase()} ${routePath}`];
+
+      const params = { path: { properties: {} as SchemaNode, required: [] as string[] }, query: { properties: {} as SchemaNode, required: [] as string[] } };
+      for (const raw of [...(Array.isArray(item.parameters) ? item.parameters : []), ...(Array.isArray(op.parameters) ? op.parameters : [])]) {
+        const param = resolve(raw);
+        if (!param || typeof param.name !== "string" || (param.in !== "path" && param.in !== "query")) continue;
+        const group = params[param.in];
+        group.properties[param.name] = param.schema ?? {};
+        if (param.required === true || param.in === "path") group.required.push(param.name);
+      }
+      for (const [location, suffix] of [["path", "PathParams"], ["query", "Query"]] as const) {
+        const group = params[location];
+        if (Object.keys(group.properties).length === 0) continue;
+        declarations.push(typeDeclaration(claimName(`${base} ${suffix}`), { type: "object", properties: group.properties, required: group.required, additionalProperties: false }, refName));
+      }
+
+      const requestBody = resolve(op.requestBody);
+      const requestSchema = requestBody ? jsonMediaSchema(requestBody.content) : undefined;
+      if (requestSchema !== undefined) {
+        declarations.push(`export type ${claimName(`${base} Request`)} = ${schemaToType(requestSchema, refName)};`);
+      }
+
+      const responses = isObject(op.responses) ? op.responses : {};
+      const successTypes = Object.keys(responses)
+        .filter((status) => /^2(\d\d|XX)$/i.test(status))
+        .map((status) => {
+          const schema = jsonMediaSchema(resolve(responses[status])?.content);
+          return schema === undefined ? "void" : schemaToType(schema, refName);
+        });
+      if (successTypes.length > 0) {
+        declarations.push(`export type ${claimName(`${base} Response`)} = ${[...new Set(successTypes)].join(" | ")};`);
+      }
+
+      if (declarations.length > 1) operations.push(declarations.join("\n"));
+    }
+  }
+  if (operations.length > 0) sections.push("// ─── Operations ───", ...operations);
+
+  return sections.join("\n\n");
+}
+
+function jsonSchemaTypes(contract: Contract, content: string) {
+  const doc = parseJsonSchemaDocument(content);
+  const claimName = nameRegistry();
+  const rootName = claimName(typeof doc === "object" && typeof doc.title === "string" && doc.title ? doc.title : contract.name);
+  const refNames = new Map<string, string>([["#", rootName]]);
+  const definitions: Array<[string, unknown]> = [];
+  if (typeof doc === "object") {
+    for (const key of ["$defs", "definitions"]) {
+      const defs = doc[key];
+      if (!isObject(defs)) continue;
+      for (const [name, schema] of Object.entries(defs)) {
+        refNames.set(`#/${key}/${name}`, claimName(name));
+        definitions.push([`#/${key}/${name}`, schema]);
+      }
+    }
+  }
+  const refName = (ref: string) => refNames.get(ref) ?? null;
+
+  return [
+    typeDeclaration(rootName, doc, refName),
+    ...definitions.map(([ref, schema]) => typeDeclaration(refNames.get(ref) as string, schema, refName)),
+  ].join("\n\n");
+}
+
+function describeDiagnostic(diagnostic: ts.Diagnostic) {
+  const where = diagnostic.file && diagnostic.start !== undefined
+    ? `line ${diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1}: `
+    : "";
+  return `${where}${ts.flattenDiagnosticMessageText(diagnostic.messageText, " ")}`;
+}
+
+// Declarations come from the isolated transpiler when the contract is annotated well
+// enough for it, and from a full (type-checked) emit otherwise, e.g. functions without
+// explicit return types.
+function typeScriptDeclarations(content: string) {
+  const source = asModule(content);
+  const isolated = ts.transpileDeclaration(source, {
+    fileName: "contract.ts",
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ESNext },
+  });
+  if (!(isolated.diagnostics ?? []).some((d) => d.category === ts.DiagnosticCategory.Error)) {
+    return isolated.outputText;
+  }
+
+  const fileName = "/__contract__/contract.ts";
+  const program = createContractProgram(new Map([[fileName, source]]), {
+    ...COMPILER_OPTIONS,
+    noEmit: false,
+    declaration: true,
+    emitDeclarationOnly: true,
+  });
+  const [syntaxError] = program.getSyntacticDiagnostics(program.getSourceFile(fileName));
+  if (syntaxError) throw new Error(`Could not emit declarations (${describeDiagnostic(syntaxError)})`);
+
+  let output = "";
+  const result = program.emit(undefined, (name, text) => {
+    if (name.endsWith(".d.ts")) output = text;
+  }, undefined, true);
+  const [emitError] = result.diagnostics.filter((d) => d.category === ts.DiagnosticCategory.Error);
+  if (emitError || !output) {
+    throw new Error(`Could not emit declarations (${emitError ? describeDiagnostic(emitError) : "no output"})`);
+  }
+  return output;
+}
+
+// Files for one contract version: the source as published, generated types where the
+// contract type supports it, and a manifest that pins the directory to the version.
+export function contractArtifactFiles(contract: Contract, version: ContractVersion, directory: string) {
+  const sourceFile = sourceFileName(contract, version.content);
+  const files: ArtifactFile[] = [{ path: `${directory}/${sourceFile}`, content: version.content }];
+  let generationError: string | null = null;
+
+  try {
+    const header = generatedHeader(contract, version, sourceFile);
+    if (contract.type === "openapi") {
+      files.push({ path: `${directory}/generated/types.ts`, content: `${header}\n${openApiTypes(version.content)}\n` });
+    } else if (contract.type === "jsonschema") {
+      files.push({ path: `${directory}/generated/types.ts`, content: `${header}\n${jsonSchemaTypes(contract, version.content)}\n` });
+    } else if (contract.type === "typescript") {
+      files.push({ path: `${directory}/generated/index.d.ts`, content: `${header}\n${typeScriptDeclarations(version.content)}` });
+    }
+  } catch (err) {
+    generationError = err instanceof Error ? err.message : String(err);
+  }
+
+  const manifest = {
+    generatedBy: "DevRoom",
+    readOnly: true,
+    contractId: contract.id,
+    name: contract.name,
+    type: contract.type,
+    version: version.version,
+    semver: versionSemver(version),
+    versionId: version.id,
+    sha256: createHash("sha256").update(version.content).digest("hex"),
+    source: sourceFile,
+    generated: files.slice(1).map((f) => f.path.slice(directory.length + 1)),
+    generationError,
+  };
+  files.push({ path: `${directory}/contract.json`, content: `${JSON.stringify(manifest, null, 2)}\n` });
+
+  return { files, generationError };
+}
+
+function readme(summaries: ContractArtifactSummary[]) {
+  return `${README_HEADING} from the room's published contracts. Do not edit these files:
+they are rewritten whenever a contract version is published or rolled back. Propose
+contract changes in DevRoom instead.
+
+| Contract | Version | Directory |
+| --- | --- | --- |
+${summaries.map((s) => `| ${s.contractName} | ${s.semver} | \`${s.directory.slice(CONTRACTS_DIR.length + 1)}/\` |`).join("\n")}
+`;
+}
+
+// `contracts/<name>/` directories holding a DevRoom manifest, and the README DevRoom wrote
+// there, from rooms synced before the artifacts moved to CONTRACTS_DIR.
+async function legacyArtifactPaths(roomId: string) {
+  const room = await prisma.room.findUnique({ where: { id: roomId }, select: { workspacePath: true } });
+  if (!room?.workspacePath) return [];
+  const workspacePath = room.workspacePath;
+  const { files } = await readRoomRepoTree(workspacePath);
+  const paths: string[] = [];
+  for (const file of files) {
+    const [root, dir, name, ...rest] = file.split("/");
+    if (root !== LEGACY_CONTRACTS_DIR || rest.length > 0) continue;
+    const content = await fs.readFile(path.join(workspacePath, file), "utf8").catch(() => "");
+    if (dir === "README.md" && !name && content.startsWith(README_HEADING)) {
+      paths.push(file);
+    } else if (name === "contract.json") {
+      try {
+        if ((JSON.parse(content) as { generatedBy?: string }).generatedBy === "DevRoom") paths.push(`${root}/${dir}`);
+      } catch {
+        // Not a DevRoom manifest
+      }
+    }
+  }
+  return paths;
+}
+
+// Rewrites CONTRACTS_DIR in the room repository from the current version of every contract
+// and commits the result on the default branch. Errors are reported through the event
+// rather than thrown, since publishing itself has already succeeded by the time this runs.
+export async function syncContractArtifacts(roomId: string, message: string) {
+  const contracts = await prisma.contract.findMany({
+    where: { roomId, currentVersionId: { not: null } },
+    orderBy: { createdAt: "asc" },
+  });
+  const versions = await prisma.contractVersion.findMany({
+    where: { id: { in: contracts.map((c) => c.currentVersionId as string) } },
+  });
+  const versionById = new Map(versions.map((v) => [v.id, v]));
+
+  const files: ArtifactFile[] = [];
+  const summaries: ContractArtifactSummary[] = [];
+  const usedDirs = new Set<string>();
+  for (const contract of contracts) {
+    const version = versionById.get(contract.currentVersionId as string);
+    if (!version) continue;
+    let directory = `${CONTRACTS_DIR}/${slugify(contract.name)}`;
+    if (usedDirs.has(directory)) directory = `${directory}-${contract.id.slice(0, 8)}`;
+    usedDirs.add(directory);
+
+    const artifacts = contractArtifactFiles(contract, version, directory);
+    files.push(...artifacts.files);
+    summaries.push({
+      contractId: contract.id,
+      contractName: contract.name,
+      version: version.version,
+      semver: versionSemver(version),
+      directory,
+      generationError: artifacts.generationError,
+    });
+  }
+  if (summaries.length === 0) return null;
+  files.push({ path: `${CONTRACTS_DIR}/README.md`, content: readme(summaries) });
+
+  let result: Awaited<ReturnType<typeof commitRoomRepoFiles>> | null = null;
+  let error: string | null = null;
+  try {
+    const legacyPaths = await legacyArtifactPaths(roomId);
+    result = await commitRoomRepoFiles({ roomId, paths: [CONTRACTS_DIR, ...legacyPaths], files, message });
+  } catch (err) {
+    error = String(err).slice(0, 500);
+  }
+  if (result?.committed) {
+    refreshRoomCodeIndex(roomId).catch((err) => console.error("Code index refresh failed:", err));
+  }
+
+  if (result?.committed || error || summaries.some((s) => s.generationError)) {
+    await emitEvent({
+      roomId,
+      visibility: "global",
+      type: "contract.artifacts.synced",
+      payload: {
+        committed: result?.committed ?? false,
+        commitSha: result?.commitSha ?? null,
+        pushed: result?.pushed ?? false,
+        pushError: result?.pushError ?? null,
+        error,
+        contracts: summaries,
+      },
+    });
+  }
+
+  return { ...result, error, contracts: summaries };
+}
@@ -0,0 +1,140 @@
+import { isObject, type SchemaNode } from "../contractDiff/schema";
+
+// Maps a local `$ref` (e.g. `#/components/schemas/User`) to the name of the type emitted
+// for it, or null when the target isn't emitted as a named type.
+export type RefNamer = (ref: string) => string | null;
+
+const MAX_TYPE_DEPTH = 16;
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export function typeName(raw: string): string {
+  const name = raw
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  if (!name) return "Unnamed";
+  return /^[0-9]/.test(name) ? `T${name}` : name;
+}
+
+function propertyKey(key: string) {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function docComment(schema: SchemaNode, indent: string) {
+  const lines = [schema.description, schema.deprecated === true ? "@deprecated" : null]
+    .filter((line): line is string => typeof line === "string" && line.trim().length > 0)
+    .flatMap((line) => line.replace(/\*\//g, "*\\/").split("\n"));
+  if (lines.length === 0) return "";
+  if (lines.length === 1) return `${indent}/** ${lines[0].trim()} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line.trimEnd()}`).join("\n")}\n${indent} */\n`;
+}
+
+function literal(value: unknown) {
+  return value === null || ["string", "number", "boolean"].includes(typeof value) ? JSON.stringify(value) : "unknown";
+}
+
+function union(members: string[]) {
+  const unique = [...new Set(members)];
+  if (unique.length === 0) return "never";
+  if (unique.includes("unknown")) return "unknown";
+  return unique.join(" | ");
+}
+
+function wrap(type: string) {
+  return /[|&]/.test(type) ? `(${type})` : type;
+}
+
+function objectType(schema: SchemaNode, refName: RefNamer, indent: string, depth: number) {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? schema.required.map(String) : []);
+  const inner = `${indent}  `;
+  const members = Object.entries(properties).map(([key, value]) => {
+    const comment = isObject(value) ? docComment(value, inner) : "";
+    const readOnly = isObject(value) && value.readOnly === true ? "readonly " : "";
+    const optional = required.has(key) ? "" : "?";
+    return `${comment}${inner}${readOnly}${propertyKey(key)}${optional}: ${schemaToType(value, refName, inner, depth + 1)};`;
+  });
+
+  const additional = schema.additionalProperties;
+  if (additional === true || isObject(additional)) {
+    const valueType = additional === true ? "unknown" : schemaToType(additional, refName, inner, depth + 1);
+    // Declared properties have to fit the index signature, so it widens to `unknown` when they're present.
+    members.push(`${inner}[key: string]: ${members.length > 0 ? "unknown" : valueType};`);
+  } else if (additional === undefined && members.length === 0) {
+    return "Record<string, unknown>";
+  }
+
+  return members.length > 0 ? `{\n${members.join("\n")}\n${indent}}` : "{}";
+}
+
+// Renders a JSON Schema (or OpenAPI schema object) as a TypeScript type expression.
+// Validation-only keywords (formats, bounds, patterns) have no type-level equivalent and are dropped.
+export function schemaToType(schema: unknown, refName: RefNamer, indent = "", depth = 0): string {
+  if (schema === true) return "unknown";
+  if (schema === false) return "never";
+  if (!isObject(schema) || depth > MAX_TYPE_DEPTH) return "unknown";
+
+  const nullable = schema.nullable === true ? " | null" : "";
+
+  if (typeof schema.$ref === "string") {
+    return `${(schema.$ref.startsWith("#") && refName(schema.$ref)) || "unknown"}${nullable}`;
+  }
+  if ("const" in schema) return `${literal(schema.const)}${nullable}`;
+  if (Array.isArray(schema.enum)) return `${union(schema.enum.map(literal))}${nullable}`;
+
+  for (const key of ["oneOf", "anyOf"]) {
+    const variants = schema[key];
+    if (Array.isArray(variants) && variants.length > 0) {
+      return `${union(variants.map((v) => schemaToType(v, refName, indent, depth + 1)))}${nullable}`;
+    }
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    const parts = schema.allOf.map((v) => wrap(schemaToType(v, refName, indent, depth + 1)));
+    return `${parts.length === 1 ? parts[0] : parts.join(" & ")}${nullable}`;
+  }
+
+  const rawTypes = typeof schema.type === "string" ? [schema.type] : Array.isArray(schema.type) ? schema.type.map(String) : [];
+  const types = rawTypes.length > 0
+    ? rawTypes
+    : isObject(schema.properties) || schema.additionalProperties !== undefined
+      ? ["object"]
+      : schema.items !== undefined || schema.prefixItems !== undefined
+        ? ["array"]
+        : [];
+  if (types.length === 0) return `unknown${nullable}`;
+
+  const rendered = types.map((type) => {
+    switch (type) {
+      case "string":
+        return "string";
+      case "number":
+      case "integer":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array": {
+        if (Array.isArray(schema.prefixItems)) {
+          return `[${schema.prefixItems.map((v) => schemaToType(v, refName, indent, depth + 1)).join(", ")}]`;
+        }
+        if (Array.isArray(schema.items)) {
+          return `[${schema.items.map((v) => schemaToType(v, refName, indent, depth + 1)).join(", ")}]`;
+        }
+        const item = schema.items === undefined ? "unknown" : schemaToType(schema.items, refName, indent, depth + 1);
+        return `Array<${item}>`;
+      }
+      case "object":
+        return objectType(schema, refName, indent, depth);
+      default:
+        return "unknown";
+    }
+  });
+  return `${union(rendered)}${nullable}`;
+}
+
+export function typeDeclaration(name: string, schema: unknown, refName: RefNamer) {
+  const comment = isObject(schema) ? docComment(schema, "") : "";
+  return `${comment}export type ${name} = ${schemaToType(schema, refName)};`;
+}
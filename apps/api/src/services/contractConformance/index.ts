@@ -0,0 +1,56 @@
+import { prisma } from "../../db";
+import { readRoomRepoTree } from "../roomRepo";
+import { artifactDirectories, typeScriptDrift } from "../contractDrift";
+import { scanWorkspace } from "../contractDrift/scan";
+import { openApiConformance } from "./openapi";
+import { typeConformance } from "./typescript";
+import type { ContractConformanceResult } from "./types";
+
+export type { ConformanceViolation, ContractConformanceResult } from "./types";
+
+// Checks the code in `cwd`, uncommitted changes included, against the current version of
+// each given OpenAPI or TypeScript contract. Other contract types have nothing to check.
+export async function checkContractConformance(cwd: string, contractIds: string[]): Promise<ContractConformanceResult[]> {
+  if (contractIds.length === 0) return [];
+  const contracts = await prisma.contract.findMany({
+    where: { id: { in: contractIds }, type: { in: ["openapi", "typescript"] }, currentVersionId: { not: null } },
+  });
+  if (contracts.length === 0) return [];
+  const versions = await prisma.contractVersion.findMany({
+    where: { id: { in: contracts.map((c) => c.currentVersionId as string) } },
+  });
+
+  const { files } = await readRoomRepoTree(cwd, { includeUntracked: true });
+  const scan = await scanWorkspace(cwd, files);
+  const artifactDirs = await artifactDirectories(cwd, files);
+
+  const results: ContractConformanceResult[] = [];
+  for (const contract of contracts) {
+    const version = versions.find((v) => v.id === contract.currentVersionId);
+    if (!version) continue;
+    const result: ContractConformanceResult = {
+      contractId: contract.id,
+      contractName: contract.name,
+      version: version.version,
+      checks: 0,
+      violations: [],
+      error: null,
+    };
+    try {
+      if (contract.type === "openapi") {
+        Object.assign(result, openApiConformance(version.content, scan));
+      } else {
+        const missing = typeScriptDrift({ contract, version }, scan, artifactDirs.get(contract.id) ?? null)
+          .filter((f) => f.kind === "type.missing")
+          .map((f) => ({ subject: f.subject, message: f.message, location: f.location }));
+        const typed = typeConformance(cwd, version.content, scan);
+        result.checks = typed.checks + missing.length;
+        result.violations = [...missing, ...typed.violations];
+      }
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,257 @@
+import ts from "typescript";
+import { parseOpenApiDocument } from "../contractDiff/openapi";
+import { isObject, makeLocalRefResolver, type SchemaNode } from "../contractDiff/schema";
+import { routeCoverage } from "../contractDrift";
+import { lineOf, type CodeRoute, type WorkspaceScan } from "../contractDrift/scan";
+import type { ConformanceViolation } from "./types";
+
+const MAX_LITERAL_DEPTH = 6;
+
+type Resolver = (node: unknown) => SchemaNode | null;
+
+type HandlerFacts = {
+  statuses: Array<{ code: number; line: number }>;
+  bodies: Array<{ code: number | null; literal: ts.ObjectLiteralExpression; line: number }>;
+  reads: Array<{ source: "body" | "query"; name: string; line: number }>;
+};
+
+function parameterName(handler: ts.FunctionLikeDeclaration, index: number) {
+  const param = handler.parameters[index];
+  return param && ts.isIdentifier(param.name) ? param.name.text : null;
+}
+
+function rootName(expr: ts.Expression): string | null {
+  let current = expr;
+  while (ts.isPropertyAccessExpression(current) || ts.isCallExpression(current)) current = current.expression;
+  return ts.isIdentifier(current) ? current.text : null;
+}
+
+function numericArgument(call: ts.CallExpression) {
+  const arg = call.arguments[0];
+  return arg && ts.isNumericLiteral(arg) ? Number(arg.text) : null;
+}
+
+// `res.status(201).json(...)`: the status set earlier in the same chain.
+function chainedStatus(expr: ts.Expression) {
+  let current = expr;
+  while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+    if (["status", "code"].includes(current.expression.name.text)) return numericArgument(current);
+    current = current.expression.expression;
+  }
+  return null;
+}
+
+// `req.body.x`, `req.body["x"]`, `const { x } = req.body` (same for `query`).
+function requestSource(expr: ts.Expression, reqName: string): "body" | "query" | null {
+  if (!ts.isPropertyAccessExpression(expr) || !ts.isIdentifier(expr.expression) || expr.expression.text !== reqName) return null;
+  const name = expr.name.text;
+  return name === "body" || name === "query" ? name : null;
+}
+
+// What a handler visibly does with the request and response: status codes it sets,
+// object literals it responds with, and request fields it reads. Works for Express
+// (`req`, `res`) and Fastify (`request`, `reply`) alike, going by parameter position.
+function handlerFacts(handler: ts.FunctionLikeDeclaration): HandlerFacts {
+  const facts: HandlerFacts = { statuses: [], bodies: [], reads: [] };
+  const reqName = parameterName(handler, 0);
+  const resName = parameterName(handler, 1);
+  const file = handler.getSourceFile();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && resName && rootName(node.expression) === resName) {
+      const method = node.expression.name.text;
+      if (["status", "code", "sendStatus"].includes(method)) {
+        const code = numericArgument(node);
+        if (code !== null) facts.statuses.push({ code, line: lineOf(file, node) });
+      } else if (["json", "send"].includes(method) && node.arguments[0] && ts.isObjectLiteralExpression(node.arguments[0])) {
+        facts.bodies.push({ code: chainedStatus(node.expression.expression), literal: node.arguments[0], line: lineOf(file, node) });
+      }
+    }
+    if (reqName) {
+      if (ts.isPropertyAccessExpression(node)) {
+        const source = requestSource(node.expression, reqName);
+        if (source) facts.reads.push({ source, name: node.name.text, line: lineOf(file, node) });
+      } else if (ts.isElementAccessExpression(node) && ts.isStringLiteral(node.argumentExpression)) {
+        const source = requestSource(node.expression, reqName);
+        if (source) facts.reads.push({ source, name: node.argumentExpression.text, line: lineOf(file, node) });
+      } else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.initializer) {
+        const source = requestSource(node.initializer, reqName);
+        for (const element of source ? node.name.elements : []) {
+          if (element.dotDotDotToken) continue;
+          const key = element.propertyName ?? element.name;
+          if (ts.isIdentifier(key) || ts.isStringLiteral(key)) facts.reads.push({ source: source as "body" | "query", name: key.text, line: lineOf(file, node) });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  if (handler.body) visit(handler.body);
+  return facts;
+}
+
+// Properties and required names of an object schema, with `allOf` parts merged in.
+// Null when the shape can't be pinned down (`oneOf`/`anyOf`, free-form objects).
+function objectShape(schema: SchemaNode | null, resolve: Resolver, depth = 0): { properties: SchemaNode; required: string[]; closed: boolean } | null {
+  if (!schema || depth > MAX_LITERAL_DEPTH || schema.oneOf || schema.anyOf) return null;
+  const shape = {
+    properties: { ...(isObject(schema.properties) ? schema.properties : {}) },
+    required: Array.isArray(schema.required) ? schema.required.map(String) : [],
+    closed: schema.additionalProperties === false,
+  };
+  for (const part of Array.isArray(schema.allOf) ? schema.allOf : []) {
+    const merged = objectShape(resolve(part), resolve, depth + 1);
+    if (!merged) return null;
+    Object.assign(shape.properties, merged.properties);
+    shape.required.push(...merged.required);
+    shape.closed = shape.closed || merged.closed;
+  }
+  if (Object.keys(shape.properties).length === 0 && shape.required.length === 0) return null;
+  return shape;
+}
+
+function literalType(node: ts.Expression) {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) return "string";
+  if (ts.isNumericLiteral(node)) return Number.isInteger(Number(node.text)) ? "integer" : "number";
+  if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) return "boolean";
+  if (node.kind === ts.SyntaxKind.NullKeyword) return "null";
+  if (ts.isArrayLiteralExpression(node)) return "array";
+  if (ts.isObjectLiteralExpression(node)) return "object";
+  return null;
+}
+
+function typeAllowed(schema: SchemaNode, type: string) {
+  const raw = schema.type;
+  const types = typeof raw === "string" ? [raw] : Array.isArray(raw) ? raw.map(String) : null;
+  if (!types) return true;
+  if (schema.nullable === true) types.push("null");
+  return types.includes(type) || (type === "integer" && types.includes("number"));
+}
+
+// Checks an object literal response against its schema: required properties present,
+// no properties a closed schema lacks, and literal values of the declared type.
+function checkLiteral(literal: ts.ObjectLiteralExpression, schema: SchemaNode | null, resolve: Resolver, where: string, depth = 0): string[] {
+  const shape = objectShape(schema, resolve);
+  if (!shape || depth > MAX_LITERAL_DEPTH) return [];
+  const problems: string[] = [];
+  const hasSpread = literal.properties.some((p) => ts.isSpreadAssignment(p));
+  const present = new Set<string>();
+
+  for (const prop of literal.properties) {
+    if (!ts.isPropertyAssignment(prop) && !ts.isShorthandPropertyAssignment(prop)) continue;
+    const name = ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name) || ts.isNumericLiteral(prop.name) ? prop.name.text : null;
+    if (name === null) continue;
+    present.add(name);
+    const propertySchema = resolve(shape.properties[name]);
+    if (!propertySchema) {
+      if (shape.closed) problems.push(`${where} has "${name}", which the schema doesn't allow`);
+      continue;
+    }
+    if (!ts.isPropertyAssignment(prop)) continue;
+    const type = literalType(prop.initializer);
+    if (type && !typeAllowed(propertySchema, type)) {
+      problems.push(`${where}.${name} is ${type === "integer" ? "a number" : `a ${type}`}, but the schema expects ${JSON.stringify(propertySchema.type)}`);
+    } else if (ts.isObjectLiteralExpression(prop.initializer)) {
+      problems.push(...checkLiteral(prop.initializer, propertySchema, resolve, `${where}.${name}`, depth + 1));
+    }
+  }
+  if (!hasSpread) {
+    const missing = shape.required.filter((name) => !present.has(name));
+    if (missing.length > 0) problems.push(`${where} lacks required ${missing.map((m) => `"${m}"`).join(", ")}`);
+  }
+  return problems;
+}
+
+function responseFor(op: SchemaNode, code: number, resolve: Resolver) {
+  const responses = isObject(op.responses) ? op.responses : {};
+  const key = [String(code), `${Math.floor(code / 100)}XX`, `${Math.floor(code / 100)}xx`, "default"].find((k) => k in responses);
+  return key ? { key, response: resolve(responses[key]) } : null;
+}
+
+function jsonSchemaOf(container: SchemaNode | null, resolve: Resolver) {
+  const content = container && isObject(container.content) ? container.content : {};
+  const type = Object.keys(content).find((t) => /[/+]json$/.test(t));
+  const media = type ? resolve(content[type]) : null;
+  return media ? resolve(media.schema) : null;
+}
+
+function checkHandler(
+  label: string,
+  route: CodeRoute,
+  op: SchemaNode,
+  pathItem: SchemaNode,
+  resolve: Resolver,
+): ConformanceViolation[] {
+  if (!route.handler) return [];
+  const facts = handlerFacts(route.handler);
+  const violations: ConformanceViolation[] = [];
+  const at = (line: number) => `${route.file}:${line}`;
+  const responses = isObject(op.responses) ? op.responses : {};
+  const lowestSuccess = Object.keys(responses).filter((c) => /^2\d\d$/.test(c)).sort()[0];
+
+  // Server errors are rarely part of a contract; everything else a client can see must be.
+  for (const { code, line } of facts.statuses) {
+    if (code >= 500 || responseFor(op, code, resolve)) continue;
+    violations.push({
+      subject: `${label} → ${code}`,
+      message: `${label} responds ${code}, which the contract doesn't document (documented: ${Object.keys(responses).join(", ") || "none"})`,
+      location: at(line),
+    });
+  }
+
+  for (const { code, literal, line } of facts.bodies) {
+    const status = code ?? (lowestSuccess ? Number(lowestSuccess) : 200);
+    const matched = responseFor(op, status, resolve);
+    if (!matched) continue;
+    for (const problem of checkLiteral(literal, jsonSchemaOf(matched.response, resolve), resolve, `${status} response body`)) {
+      violations.push({ subject: `${label} → ${status}`, message: `${label}: ${problem}`, location: at(line) });
+    }
+  }
+
+  const bodyShape = objectShape(jsonSchemaOf(resolve(op.requestBody), resolve), resolve);
+  const queryParams = new Set([
+    ...(Array.isArray(pathItem.parameters) ? pathItem.parameters : []),
+    ...(Array.isArray(op.parameters) ? op.parameters : []),
+  ]
+    .map((p) => resolve(p))
+    .filter((p): p is SchemaNode => !!p && p.in === "query" && typeof p.name === "string")
+    .map((p) => p.name as string));
+  const reported = new Set<string>();
+  for (const { source, name, line } of facts.reads) {
+    const known = source === "body" ? !bodyShape || name in bodyShape.properties : queryParams.has(name);
+    if (known || reported.has(`${source}:${name}`)) continue;
+    reported.add(`${source}:${name}`);
+    violations.push({
+      subject: `${label} ${source}.${name}`,
+      message: `${label} reads ${source === "body" ? "request body field" : "query parameter"} "${name}", which the contract doesn't define`,
+      location: at(line),
+    });
+  }
+  return violations;
+}
+
+// Every operation must be served by a registered route, and the handlers found for it
+// must stay within what the operation documents.
+export function openApiConformance(content: string, scan: WorkspaceScan): { checks: number; violations: ConformanceViolation[] } {
+  const doc = parseOpenApiDocument(content);
+  const resolve = makeLocalRefResolver(doc);
+  const paths = isObject(doc.paths) ? doc.paths : {};
+  const violations: ConformanceViolation[] = [];
+  let checks = 0;
+
+  for (const coverage of routeCoverage(content, scan)) {
+    const label = `${coverage.method} ${coverage.path}`;
+    checks += 1;
+    if (coverage.routes.length === 0) {
+      violations.push({ subject: label, message: `${label} is in the contract but no route registers it`, location: null });
+      continue;
+    }
+    const pathItem = resolve(paths[coverage.path]);
+    const op = pathItem ? resolve(pathItem[coverage.method.toLowerCase()]) : null;
+    if (!pathItem || !op) continue;
+    for (const route of coverage.routes) {
+      if (route.handler) checks += 1;
+      violations.push(...checkHandler(label, route, op, pathItem, resolve));
+    }
+  }
+  return { checks, violations };
+}
@@ -0,0 +1,17 @@
+export type ConformanceViolation = {
+  subject: string;
+  message: string;
+  // `file:line` in the workspace, when the violation points at code.
+  location: string | null;
+};
+
+export type ContractConformanceResult = {
+  contractId: string;
+  contractName: string;
+  version: number;
+  // Number of generated checks (operations, handlers, type assertions) that were run.
+  checks: number;
+  violations: ConformanceViolation[];
+  // Set when the checks themselves couldn't run, e.g. the contract doesn't parse.
+  error: string | null;
+};
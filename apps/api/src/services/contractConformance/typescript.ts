@@ -0,0 +1,113 @@
+import path from "path";
+import ts from "typescript";
+import { asModule, COMPILER_OPTIONS, createContractProgram } from "../contractDiff/typescript";
+import type { ExportedDeclaration, WorkspaceScan } from "../contractDrift/scan";
+import type { ConformanceViolation } from "./types";
+
+// Written next to the workspace (never to disk) so relative imports of workspace files resolve.
+const CHECK_DIR = "__devroom_conformance__";
+const TS_SOURCE = /\.(ts|tsx|mts|cts)$/;
+
+const CHECK_OPTIONS: ts.CompilerOptions = {
+  ...COMPILER_OPTIONS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.Preserve,
+  esModuleInterop: true,
+};
+
+type Assertion = {
+  name: string;
+  declaration: ExportedDeclaration;
+  // Lines of the generated check file holding each direction of the assertion.
+  toContractLine: number;
+  fromContractLine: number;
+};
+
+// Exported, non-generic interfaces and type aliases of the contract: the shapes whose
+// conformance can be asserted without knowing how they're meant to be instantiated.
+function assertableTypes(content: string) {
+  const file = ts.createSourceFile("contract.ts", asModule(content), ts.ScriptTarget.Latest, true);
+  const names: string[] = [];
+  for (const statement of file.statements) {
+    if (!ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement)) continue;
+    const exported = (ts.getModifiers(statement) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    if (exported && !statement.typeParameters?.length) names.push(statement.name.text);
+  }
+  return names;
+}
+
+function importSpecifier(fromDir: string, file: string) {
+  const relative = path.posix.relative(fromDir, file).replace(/(\.d)?\.(ts|tsx|mts|cts)$/, "");
+  return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+// The most specific line of a diagnostic chain, with `import("/abs/path").User` shortened
+// to `contract.User` or `src/user.User`.
+function lastMessageLine(diagnostic: ts.Diagnostic, root: string) {
+  const lines = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n").split("\n").map((l) => l.trim()).filter(Boolean);
+  return (lines[lines.length - 1] ?? "").replace(/import\("([^"]+)"\)\./g, (_match, file: string) =>
+    file === `${root}/${CHECK_DIR}/contract` ? "contract." : `${path.posix.relative(root, file)}.`);
+}
+
+// Generates a check module asserting, for every contract type the workspace redeclares,
+// that the workspace's type and the contract's are assignable to each other, then
+// type-checks it against the workspace sources. Only diagnostics in the generated module
+// count; the workspace's own type errors are its verification scripts' business.
+export function typeConformance(cwd: string, content: string, scan: WorkspaceScan): { checks: number; violations: ConformanceViolation[] } {
+  const root = cwd.split(path.sep).join("/");
+  const checkDir = `${root}/${CHECK_DIR}`;
+  const assertions: Assertion[] = [];
+  const lines = [`import type * as Contract from "./contract";`];
+
+  for (const name of assertableTypes(content)) {
+    const declarations = (scan.exports.get(name) ?? [])
+      .filter((d) => (d.kind === "interface" || d.kind === "type") && TS_SOURCE.test(d.file));
+    for (const declaration of declarations) {
+      const alias = `Impl${assertions.length}`;
+      lines.push(`import type { ${name} as ${alias} } from ${JSON.stringify(importSpecifier(checkDir, `${root}/${declaration.file}`))};`);
+      lines.push(`declare const ${alias.toLowerCase()}: ${alias};`);
+      lines.push(`export const toContract${assertions.length}: Contract.${name} = ${alias.toLowerCase()};`);
+      const toContractLine = lines.length - 1;
+      lines.push(`declare const contract${assertions.length}: Contract.${name};`);
+      lines.push(`export const fromContract${assertions.length}: ${alias} = contract${assertions.length};`);
+      assertions.push({ name, declaration, toContractLine, fromContractLine: lines.length - 1 });
+    }
+  }
+  if (assertions.length === 0) return { checks: 0, violations: [] };
+
+  const checkFile = `${checkDir}/check.ts`;
+  const program = createContractProgram(new Map([
+    [`${checkDir}/contract.ts`, asModule(content)],
+    [checkFile, lines.join("\n")],
+  ]), CHECK_OPTIONS);
+  const source = program.getSourceFile(checkFile);
+  const diagnostics = source ? program.getSemanticDiagnostics(source) : [];
+  const contractError = diagnostics.find((d) => d.start !== undefined && source?.getLineAndCharacterOfPosition(d.start).line === 0);
+  if (contractError) throw new Error(`contract doesn't compile: ${lastMessageLine(contractError, root)}`);
+
+  // With several same-named declarations, one that conforms is enough.
+  const failures = new Map<string, ConformanceViolation[]>();
+  const conforming = new Set<string>();
+  for (const assertion of assertions) {
+    const location = `${assertion.declaration.file}:${assertion.declaration.line}`;
+    const problems: ConformanceViolation[] = [];
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.start === undefined || !source) continue;
+      const line = source.getLineAndCharacterOfPosition(diagnostic.start).line;
+      if (line === assertion.toContractLine) {
+        problems.push({ subject: assertion.name, message: `${assertion.name} doesn't satisfy the contract: ${lastMessageLine(diagnostic, root)}`, location });
+      } else if (line === assertion.fromContractLine) {
+        problems.push({ subject: assertion.name, message: `${assertion.name} rejects values the contract allows: ${lastMessageLine(diagnostic, root)}`, location });
+      } else if (line === assertion.toContractLine - 2) {
+        problems.push({ subject: assertion.name, message: `${assertion.name} couldn't be imported from ${assertion.declaration.file}: ${lastMessageLine(diagnostic, root)}`, location });
+      }
+    }
+    if (problems.length === 0) conforming.add(assertion.name);
+    else if (!failures.has(assertion.name)) failures.set(assertion.name, problems);
+  }
+
+  const violations = [...failures.entries()]
+    .filter(([name]) => !conforming.has(name))
+    .flatMap(([, problems]) => problems);
+  return { checks: assertions.length, violations };
+}
@@ -0,0 +1,45 @@
+import { diffResult, type ContractChange, type ContractDiffResult } from "./types";
+
+// Text-level fallback for contracts that can't be parsed (or types without a structural differ).
+export function diffByLines(type: string, oldContent: string, newContent: string): ContractDiffResult {
+  const changes: ContractChange[] = [];
+
+  if (type === "openapi") {
+    // Look for removed endpoint paths
+    const oldPaths = new Set(oldContent.match(/\/[a-zA-Z0-9/_{}]+/g) ?? []);
+    const newPaths = new Set(newContent.match(/\/[a-zA-Z0-9/_{}]+/g) ?? []);
+    for (const path of oldPaths) {
+      if (!newPaths.has(path)) {
+        changes.push({ kind: "path.removed", location: path, message: "Path no longer mentioned", breaking: true });
+      }
+    }
+    return diffResult(changes);
+  }
+
+  if (type === "typescript") {
+    // Look for removed exports
+    const oldExports = oldContent.match(/export\s+(?:type\s+)?(?:interface\s+|class\s+|function\s+|const\s+)?(\w+)/g) ?? [];
+    for (const declaration of new Set(oldExports)) {
+      if (!newContent.includes(declaration)) {
+        changes.push({ kind: "export.removed", location: declaration, message: "Export no longer present", breaking: true });
+      }
+    }
+    return diffResult(changes);
+  }
+
+  const oldLines = new Set(oldContent.split("\n").map((l) => l.trim()).filter(Boolean));
+  const newLines = new Set(newContent.split("\n").map((l) => l.trim()).filter(Boolean));
+  let removedCount = 0;
+  for (const line of oldLines) {
+    if (!newLines.has(line)) removedCount++;
+  }
+  if (removedCount > 0) {
+    changes.push({
+      kind: "content.lines_removed",
+      location: "",
+      message: `${removedCount} of ${oldLines.size} lines removed or changed`,
+      breaking: removedCount > oldLines.size * 0.2, // >20% removal is likely breaking
+    });
+  }
+  return diffResult(changes);
+}
@@ -0,0 +1,39 @@
+import { diffByLines } from "./heuristic";
+import { diffJsonSchema } from "./jsonschema";
+import { diffOpenApi } from "./openapi";
+import { diffProtobuf } from "./protobuf";
+import { diffTypeScript } from "./typescript";
+import type { CompatibilityMode, ContractDiffResult } from "./types";
+
+export type { CompatibilityMode, ContractChange, ContractDiffResult } from "./types";
+
+// Structural diff between two versions of a contract. Each change is classified as
+// breaking or not from the point of view of the contract's existing consumers.
+// JSON Schema and Protobuf contracts are checked against the contract's compatibility
+// mode; OpenAPI and TypeScript contracts have fixed reader/writer roles.
+export function diffContract(
+  type: string,
+  oldContent: string,
+  newContent: string,
+  mode: CompatibilityMode = "backward",
+): ContractDiffResult {
+  let result: ContractDiffResult;
+  switch (type) {
+    case "openapi":
+      result = diffOpenApi(oldContent, newContent);
+      break;
+    case "typescript":
+      result = diffTypeScript(oldContent, newContent);
+      break;
+    case "jsonschema":
+      result = diffJsonSchema(oldContent, newContent, mode);
+      break;
+    case "protobuf":
+      result = diffProtobuf(oldContent, newContent, mode);
+      break;
+    default:
+      return diffByLines(type, oldContent, newContent);
+  }
+  if (!result.parseError) return result;
+  return { ...diffByLines(type, oldContent, newContent), parseError: result.parseError };
+}
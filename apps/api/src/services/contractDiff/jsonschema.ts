@@ -0,0 +1,66 @@
+import { parse as parseYaml } from "yaml";
+import { compareSchemas, isObject, makeLocalRefResolver, type SchemaNode } from "./schema";
+import { classifyChange, compatibilityChecks, diffResult, type CompatibilityMode, type ContractChange, type ContractDiffResult } from "./types";
+
+export function parseJsonSchemaDocument(content: string): SchemaNode | boolean {
+  const doc = parseYaml(content);
+  // `true` / `false` are valid (if degenerate) schemas.
+  if (typeof doc === "boolean") return doc;
+  if (!isObject(doc)) throw new Error("Contract is not a JSON Schema object");
+  return doc;
+}
+
+export function diffJsonSchema(oldContent: string, newContent: string, mode: CompatibilityMode): ContractDiffResult {
+  let before: SchemaNode | boolean;
+  let after: SchemaNode | boolean;
+  try {
+    before = parseJsonSchemaDocument(oldContent);
+    after = parseJsonSchemaDocument(newContent);
+  } catch (err) {
+    return diffResult([], err instanceof Error ? err.message : String(err));
+  }
+
+  const changes: ContractChange[] = [];
+  const checks = compatibilityChecks(mode);
+
+  if (typeof before === "boolean" || typeof after === "boolean") {
+    if (before !== after) {
+      // Going to `true` only widens, going to `false` only narrows; otherwise the
+      // direction depends on which boolean the object schema replaced (or was replaced by).
+      const narrowed = after === false || (after !== true && before === true);
+      changes.push({
+        kind: "schema.changed",
+        location: "$",
+        message: after === true ? "Schema now accepts every value" : after === false ? "Schema now rejects every value" : "Boolean schema replaced",
+        breaking: classifyChange(checks, narrowed ? { backward: true } : { forward: true }),
+      });
+    }
+    return diffResult(changes);
+  }
+
+  compareSchemas(
+    { checks, resolveBefore: makeLocalRefResolver(before), resolveAfter: makeLocalRefResolver(after), changes },
+    before,
+    after,
+    "$",
+  );
+
+  // Definitions nobody references any more can't break a reader, but removing one that
+  // other schemas `$ref` from outside this document can.
+  for (const key of ["$defs", "definitions"]) {
+    const beforeDefs = isObject(before[key]) ? before[key] : {};
+    const afterDefs = isObject(after[key]) ? after[key] : {};
+    for (const name of Object.keys(beforeDefs)) {
+      if (!(name in afterDefs)) {
+        changes.push({
+          kind: "definition.removed",
+          location: `#/${key}/${name}`,
+          message: `Definition "${name}" removed`,
+          breaking: classifyChange(checks, { backward: true, forward: true }),
+        });
+      }
+    }
+  }
+
+  return diffResult(changes);
+}
@@ -0,0 +1,96 @@
+// Unified line diff between two contract texts, for display next to the structural changes.
+
+const CONTEXT_LINES = 3;
+// LCS is quadratic; beyond this the whole body is shown as replaced.
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+function lineOps(before: string[], after: string[]): Op[] {
+  // Common prefix/suffix are trimmed before the LCS table is built.
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const middle: Op[] = [];
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    middle.push(...a.map((line) => ({ kind: "-" as const, line })), ...b.map((line) => ({ kind: "+" as const, line })));
+  } else {
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] = a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        middle.push({ kind: " ", line: a[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        middle.push({ kind: "-", line: a[i++] });
+      } else {
+        middle.push({ kind: "+", line: b[j++] });
+      }
+    }
+    while (i < a.length) middle.push({ kind: "-", line: a[i++] });
+    while (j < b.length) middle.push({ kind: "+", line: b[j++] });
+  }
+
+  return [
+    ...before.slice(0, start).map((line) => ({ kind: " " as const, line })),
+    ...middle,
+    ...before.slice(endBefore).map((line) => ({ kind: " " as const, line })),
+  ];
+}
+
+export function unifiedLineDiff(oldContent: string, newContent: string, oldLabel = "before", newLabel = "after"): string {
+  if (oldContent === newContent) return "";
+  const ops = lineOps(oldContent.split("\n"), newContent.split("\n"));
+
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+  while (index < ops.length) {
+    // Skip to the next change, keeping CONTEXT_LINES of leading context.
+    let next = index;
+    while (next < ops.length && ops[next].kind === " ") next++;
+    if (next === ops.length) break;
+    const hunkStart = Math.max(index, next - CONTEXT_LINES);
+    oldLine += hunkStart - index;
+    newLine += hunkStart - index;
+
+    // Extend the hunk until a run of unchanged lines is long enough to split on.
+    let hunkEnd = next;
+    let unchangedRun = 0;
+    while (hunkEnd < ops.length && unchangedRun <= CONTEXT_LINES * 2) {
+      unchangedRun = ops[hunkEnd].kind === " " ? unchangedRun + 1 : 0;
+      hunkEnd++;
+    }
+    if (unchangedRun > CONTEXT_LINES) hunkEnd -= unchangedRun - CONTEXT_LINES;
+
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    lines.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    for (const op of hunk) lines.push(`${op.kind}${op.line}`);
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = hunkEnd;
+  }
+  return lines.join("\n");
+}
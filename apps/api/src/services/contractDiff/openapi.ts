@@ -0,0 +1,205 @@
+import { parse as parseYaml } from "yaml";
+import { compareSchemas, isObject, makeLocalRefResolver, type SchemaCompareContext, type SchemaNode } from "./schema";
+import { diffResult, type ContractChange, type ContractDiffResult } from "./types";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+type Resolver = (node: unknown) => SchemaNode | null;
+
+export function parseOpenApiDocument(content: string): SchemaNode {
+  const doc = parseYaml(content);
+  if (!isObject(doc)) throw new Error("Contract is not a YAML/JSON object");
+  if (typeof doc.swagger === "string") throw new Error("Swagger 2.0 documents are not supported; use OpenAPI 3.x");
+  if (!String(doc.openapi ?? "").startsWith("3")) throw new Error("Missing `openapi: 3.x` version field");
+  return doc;
+}
+
+// `/users/{id}` and `/users/{userId}` are the same route.
+function normalizePath(path: string) {
+  return path.replace(/\{[^}]+\}/g, "{}");
+}
+
+function indexPaths(doc: SchemaNode) {
+  const paths = new Map<string, { path: string; item: SchemaNode }>();
+  if (!isObject(doc.paths)) return paths;
+  for (const [path, item] of Object.entries(doc.paths)) {
+    if (isObject(item)) paths.set(normalizePath(path), { path, item });
+  }
+  return paths;
+}
+
+// Path parameters are keyed by position so renaming `{id}` to `{userId}` isn't a change.
+function indexParameters(resolve: Resolver, path: string, item: SchemaNode, op: SchemaNode) {
+  const pathParamNames = [...path.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]);
+  const params = new Map<string, SchemaNode>();
+  for (const raw of [...(Array.isArray(item.parameters) ? item.parameters : []), ...(Array.isArray(op.parameters) ? op.parameters : [])]) {
+    const param = resolve(raw);
+    if (param && typeof param.name === "string" && typeof param.in === "string") {
+      const position = param.in === "path" ? pathParamNames.indexOf(param.name) : -1;
+      params.set(position >= 0 ? `path:#${position}` : `${param.in}:${param.name}`, param);
+    }
+  }
+  return params;
+}
+
+function mediaTypes(resolve: Resolver, node: SchemaNode | null) {
+  const content = node && isObject(node.content) ? node.content : {};
+  const types = new Map<string, SchemaNode>();
+  for (const [mediaType, value] of Object.entries(content)) {
+    const resolved = resolve(value);
+    if (resolved) types.set(mediaType, resolved);
+  }
+  return types;
+}
+
+export function diffOpenApi(oldContent: string, newContent: string): ContractDiffResult {
+  let before: SchemaNode;
+  let after: SchemaNode;
+  try {
+    before = parseOpenApiDocument(oldContent);
+    after = parseOpenApiDocument(newContent);
+  } catch (err) {
+    return diffResult([], err instanceof Error ? err.message : String(err));
+  }
+
+  const changes: ContractChange[] = [];
+  const resolveBefore: Resolver = makeLocalRefResolver(before);
+  const resolveAfter: Resolver = makeLocalRefResolver(after);
+  const push = (kind: string, location: string, message: string, breaking: boolean) => {
+    changes.push({ kind, location, message, breaking });
+  };
+  // Servers read requests (the new schema must accept old payloads) and clients read
+  // responses (old clients must accept new payloads).
+  const schemaContext = (direction: "request" | "response"): SchemaCompareContext => ({
+    checks: { backward: direction === "request", forward: direction === "response" },
+    resolveBefore,
+    resolveAfter,
+    changes,
+  });
+
+  const beforePaths = indexPaths(before);
+  const afterPaths = indexPaths(after);
+
+  for (const [key, { path, item: beforeItem }] of beforePaths) {
+    const afterEntry = afterPaths.get(key);
+    if (!afterEntry) {
+      push("path.removed", path, "Path removed", true);
+      continue;
+    }
+    const afterItem = afterEntry.item;
+
+    for (const method of HTTP_METHODS) {
+      const beforeOp = resolveBefore(beforeItem[method]);
+      const afterOp = resolveAfter(afterItem[method]);
+      const opLocation = `${method.toUpperCase()} ${afterEntry.path}`;
+      if (!beforeOp && !afterOp) continue;
+      if (beforeOp && !afterOp) {
+        push("operation.removed", opLocation, "Operation removed", true);
+        continue;
+      }
+      if (!beforeOp && afterOp) {
+        push("operation.added", opLocation, "Operation added", false);
+        continue;
+      }
+
+      // Parameters
+      const beforeParams = indexParameters(resolveBefore, path, beforeItem, beforeOp!);
+      const afterParams = indexParameters(resolveAfter, afterEntry.path, afterItem, afterOp!);
+      for (const [paramKey, beforeParam] of beforeParams) {
+        const where = String(beforeParam.in);
+        const name = String(beforeParam.name);
+        const location = `${opLocation} › ${where} parameter ${name}`;
+        const afterParam = afterParams.get(paramKey);
+        if (!afterParam) {
+          push("parameter.removed", location, `${where} parameter "${name}" removed`, true);
+          continue;
+        }
+        if (beforeParam.required !== true && afterParam.required === true) {
+          push("parameter.became_required", location, `${where} parameter "${name}" is now required`, true);
+        } else if (beforeParam.required === true && afterParam.required !== true) {
+          push("parameter.became_optional", location, `${where} parameter "${name}" is now optional`, false);
+        }
+        compareSchemas(schemaContext("request"), beforeParam.schema, afterParam.schema, location);
+      }
+      for (const [paramKey, afterParam] of afterParams) {
+        if (beforeParams.has(paramKey)) continue;
+        const where = String(afterParam.in);
+        const name = String(afterParam.name);
+        const required = afterParam.required === true;
+        push(
+          "parameter.added",
+          `${opLocation} › ${where} parameter ${name}`,
+          `${required ? "Required" : "Optional"} ${where} parameter "${name}" added`,
+          required,
+        );
+      }
+
+      // Request body
+      const beforeBody = resolveBefore(beforeOp!.requestBody);
+      const afterBody = resolveAfter(afterOp!.requestBody);
+      const bodyLocation = `${opLocation} › request body`;
+      if (!beforeBody && afterBody) {
+        push("request_body.added", bodyLocation, `${afterBody.required === true ? "Required" : "Optional"} request body added`, afterBody.required === true);
+      } else if (beforeBody && !afterBody) {
+        push("request_body.removed", bodyLocation, "Request body removed", true);
+      } else if (beforeBody && afterBody) {
+        if (beforeBody.required !== true && afterBody.required === true) {
+          push("request_body.became_required", bodyLocation, "Request body is now required", true);
+        }
+        const beforeTypes = mediaTypes(resolveBefore, beforeBody);
+        const afterTypes = mediaTypes(resolveAfter, afterBody);
+        for (const [mediaType, beforeMedia] of beforeTypes) {
+          const afterMedia = afterTypes.get(mediaType);
+          if (!afterMedia) {
+            push("request_body.media_type_removed", `${bodyLocation} ${mediaType}`, `Request media type ${mediaType} no longer accepted`, true);
+            continue;
+          }
+          compareSchemas(schemaContext("request"), beforeMedia.schema, afterMedia.schema, `${bodyLocation} ${mediaType} › body`);
+        }
+        for (const mediaType of afterTypes.keys()) {
+          if (!beforeTypes.has(mediaType)) {
+            push("request_body.media_type_added", `${bodyLocation} ${mediaType}`, `Request media type ${mediaType} accepted`, false);
+          }
+        }
+      }
+
+      // Responses
+      const beforeResponses = isObject(beforeOp!.responses) ? beforeOp!.responses : {};
+      const afterResponses = isObject(afterOp!.responses) ? afterOp!.responses : {};
+      for (const [status, rawBefore] of Object.entries(beforeResponses)) {
+        const location = `${opLocation} › response ${status}`;
+        if (!(status in afterResponses)) {
+          // Clients code against success responses; dropping an error code rarely breaks them.
+          push("response.removed", location, `Response ${status} removed`, /^2/.test(status));
+          continue;
+        }
+        const beforeTypes = mediaTypes(resolveBefore, resolveBefore(rawBefore));
+        const afterTypes = mediaTypes(resolveAfter, resolveAfter(afterResponses[status]));
+        for (const [mediaType, beforeMedia] of beforeTypes) {
+          const afterMedia = afterTypes.get(mediaType);
+          if (!afterMedia) {
+            push("response.media_type_removed", `${location} ${mediaType}`, `Response media type ${mediaType} removed`, true);
+            continue;
+          }
+          compareSchemas(schemaContext("response"), beforeMedia.schema, afterMedia.schema, `${location} ${mediaType} › body`);
+        }
+        for (const mediaType of afterTypes.keys()) {
+          if (!beforeTypes.has(mediaType)) {
+            push("response.media_type_added", `${location} ${mediaType}`, `Response media type ${mediaType} added`, false);
+          }
+        }
+      }
+      for (const status of Object.keys(afterResponses)) {
+        if (!(status in beforeResponses)) {
+          push("response.added", `${opLocation} › response ${status}`, `Response ${status} added`, false);
+        }
+      }
+    }
+  }
+
+  for (const [key, { path }] of afterPaths) {
+    if (!beforePaths.has(key)) push("path.added", path, "Path added", false);
+  }
+
+  return diffResult(changes);
+}
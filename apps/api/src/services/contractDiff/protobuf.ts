@@ -0,0 +1,460 @@
+import { classifyChange, compatibilityChecks, diffResult, type CompatibilityMode, type ContractChange, type ContractDiffResult } from "./types";
+
+type ProtoField = {
+  name: string;
+  number: number;
+  type: string;
+  label: "" | "optional" | "required" | "repeated";
+  oneof?: string;
+};
+
+type Reserved = { ranges: Array<[number, number]>; names: Set<string> };
+
+type ProtoMessage = { name: string; fields: ProtoField[]; reserved: Reserved };
+type ProtoEnum = { name: string; values: Map<string, number>; reserved: Reserved };
+type ProtoRpc = { request: string; response: string; clientStreaming: boolean; serverStreaming: boolean };
+type ProtoService = { name: string; rpcs: Map<string, ProtoRpc> };
+
+export type ProtoFile = {
+  packageName: string;
+  messages: Map<string, ProtoMessage>;
+  enums: Map<string, ProtoEnum>;
+  services: Map<string, ProtoService>;
+};
+
+type Token = { value: string; line: number };
+
+const MAX_FIELD_NUMBER = 536_870_911;
+
+// Scalar types that share a wire encoding, per the protobuf language guide.
+const WIRE_COMPATIBLE = [
+  ["int32", "uint32", "int64", "uint64", "bool"],
+  ["sint32", "sint64"],
+  ["fixed32", "sfixed32"],
+  ["fixed64", "sfixed64"],
+  ["string", "bytes"],
+];
+
+// ─── Parsing ───
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|[A-Za-z_.][\w.]*|-?(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|\s+|[{}()<>[\];=,:-]/gy;
+  let line = 1;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < content.length) {
+    match = pattern.exec(content);
+    if (!match) throw new Error(`Unexpected character "${content[pattern.lastIndex]}" on line ${line}`);
+    const value = match[0];
+    if (!/^\s/.test(value) && !value.startsWith("//") && !value.startsWith("/*")) tokens.push({ value, line });
+    line += value.split("\n").length - 1;
+  }
+  return tokens;
+}
+
+export function parseProtoFile(content: string): ProtoFile {
+  const tokens = tokenize(content);
+  const file: ProtoFile = { packageName: "", messages: new Map(), enums: new Map(), services: new Map() };
+  let pos = 0;
+
+  const peek = () => tokens[pos]?.value;
+  const fail = (message: string): never => {
+    throw new Error(`${message} on line ${tokens[Math.min(pos, tokens.length - 1)]?.line ?? 1}`);
+  };
+  const next = () => {
+    if (pos >= tokens.length) fail("Unexpected end of file");
+    return tokens[pos++].value;
+  };
+  const expect = (value: string) => {
+    const token = next();
+    if (token !== value) fail(`Expected "${value}" but found "${token}"`);
+  };
+  const parseNumber = (token: string) => {
+    const value = token === "max" ? MAX_FIELD_NUMBER : Number(token);
+    if (!Number.isInteger(value)) fail(`Expected a number but found "${token}"`);
+    return value;
+  };
+
+  // Skips to the end of the current statement, including `[...]` and `{...}` option values.
+  const skipStatement = () => {
+    let depth = 0;
+    for (;;) {
+      const token = next();
+      if (token === "{" || token === "[" || token === "(") depth++;
+      else if (token === "}" || token === "]" || token === ")") depth--;
+      if (depth === 0 && (token === ";" || token === "}")) return;
+    }
+  };
+
+  const parseReserved = (reserved: Reserved) => {
+    expect("reserved");
+    for (;;) {
+      const token = next();
+      if (/^["']/.test(token)) {
+        reserved.names.add(token.slice(1, -1));
+      } else {
+        const start = parseNumber(token);
+        let end = start;
+        if (peek() === "to") {
+          next();
+          end = parseNumber(next());
+        }
+        reserved.ranges.push([start, end]);
+      }
+      const separator = next();
+      if (separator === ";") return;
+      if (separator !== ",") fail(`Expected "," or ";" but found "${separator}"`);
+    }
+  };
+
+  const parseEnum = (scope: string) => {
+    expect("enum");
+    const name = `${scope}${next()}`;
+    const definition: ProtoEnum = { name, values: new Map(), reserved: { ranges: [], names: new Set() } };
+    expect("{");
+    while (peek() !== "}") {
+      const token = peek();
+      if (token === ";") next();
+      else if (token === "option") skipStatement();
+      else if (token === "reserved") parseReserved(definition.reserved);
+      else {
+        const valueName = next();
+        expect("=");
+        definition.values.set(valueName, parseNumber(next()));
+        if (peek() === "[") skipStatement();
+        else expect(";");
+      }
+    }
+    expect("}");
+    file.enums.set(name, definition);
+  };
+
+  const parseField = (message: ProtoMessage, oneof?: string) => {
+    let label: ProtoField["label"] = "";
+    if (peek() === "optional" || peek() === "required" || peek() === "repeated") label = next() as ProtoField["label"];
+    let type = next();
+    if (type === "map") {
+      expect("<");
+      const key = next();
+      expect(",");
+      const value = next();
+      expect(">");
+      type = `map<${key}, ${value}>`;
+    }
+    const name = next();
+    expect("=");
+    const number = parseNumber(next());
+    message.fields.push({ name, number, type, label, ...(oneof ? { oneof } : {}) });
+    if (peek() === "[") skipStatement();
+    else if (peek() === "{") skipStatement(); // proto2 group body
+    else expect(";");
+  };
+
+  const parseMessage = (scope: string) => {
+    expect("message");
+    const name = `${scope}${next()}`;
+    const message: ProtoMessage = { name, fields: [], reserved: { ranges: [], names: new Set() } };
+    file.messages.set(name, message);
+    expect("{");
+    while (peek() !== "}") {
+      const token = peek();
+      if (token === ";") next();
+      else if (token === "message") parseMessage(`${name}.`);
+      else if (token === "enum") parseEnum(`${name}.`);
+      else if (token === "reserved") parseReserved(message.reserved);
+      else if (token === "option" || token === "extensions" || token === "extend") skipStatement();
+      else if (token === "oneof") {
+        next();
+        const oneof = next();
+        expect("{");
+        while (peek() !== "}") {
+          if (peek() === "option") skipStatement();
+          else if (peek() === ";") next();
+          else parseField(message, oneof);
+        }
+        expect("}");
+      } else parseField(message);
+    }
+    expect("}");
+  };
+
+  const parseService = () => {
+    expect("service");
+    const name = next();
+    const service: ProtoService = { name, rpcs: new Map() };
+    expect("{");
+    while (peek() !== "}") {
+      const token = peek();
+      if (token === ";") next();
+      else if (token === "option") skipStatement();
+      else if (token === "rpc") {
+        next();
+        const rpcName = next();
+        const streamedType = () => {
+          expect("(");
+          const streaming = peek() === "stream" && tokens[pos + 1]?.value !== ")";
+          if (streaming) next();
+          const type = next();
+          expect(")");
+          return { type, streaming };
+        };
+        const request = streamedType();
+        expect("returns");
+        const response = streamedType();
+        service.rpcs.set(rpcName, {
+          request: request.type,
+          response: response.type,
+          clientStreaming: request.streaming,
+          serverStreaming: response.streaming,
+        });
+        if (peek() === "{") {
+          next();
+          while (peek() !== "}") skipStatement();
+          expect("}");
+        } else expect(";");
+      } else fail(`Unexpected "${token}" in service ${name}`);
+    }
+    expect("}");
+    file.services.set(name, service);
+  };
+
+  while (pos < tokens.length) {
+    const token = peek();
+    if (token === ";") next();
+    else if (token === "package") {
+      next();
+      file.packageName = next();
+      expect(";");
+    } else if (token === "syntax" || token === "edition" || token === "import" || token === "option" || token === "extend") skipStatement();
+    else if (token === "message") parseMessage("");
+    else if (token === "enum") parseEnum("");
+    else if (token === "service") parseService();
+    else fail(`Unexpected "${token}"`);
+  }
+
+  return file;
+}
+
+// ─── Comparison ───
+
+function isReservedNumber(reserved: Reserved, number: number) {
+  return reserved.ranges.some(([start, end]) => number >= start && number <= end);
+}
+
+function wireCompatible(before: string, after: string) {
+  return before === after || WIRE_COMPATIBLE.some((group) => group.includes(before) && group.includes(after));
+}
+
+export function diffProtobuf(oldContent: string, newContent: string, mode: CompatibilityMode): ContractDiffResult {
+  let before: ProtoFile;
+  let after: ProtoFile;
+  try {
+    before = parseProtoFile(oldContent);
+  } catch (err) {
+    return diffResult([], `Previous version: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  try {
+    after = parseProtoFile(newContent);
+  } catch (err) {
+    return diffResult([], `New version: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const checks = compatibilityChecks(mode);
+  const changes: ContractChange[] = [];
+  const push = (kind: string, location: string, message: string, breaks: { backward?: boolean; forward?: boolean }) => {
+    changes.push({ kind, location, message, breaking: classifyChange(checks, breaks) });
+  };
+  const both = { backward: true, forward: true };
+
+  // `pkg.Foo`, `.pkg.Foo` and `Foo` name the same type inside one package.
+  const typeName = (file: ProtoFile, type: string) => {
+    const bare = type.replace(/^\./, "");
+    return file.packageName && bare.startsWith(`${file.packageName}.`) ? bare.slice(file.packageName.length + 1) : bare;
+  };
+  const describe = (file: ProtoFile, field: ProtoField) => `${field.label ? `${field.label} ` : ""}${typeName(file, field.type)}`;
+
+  // Messages
+  for (const [name, beforeMessage] of before.messages) {
+    const afterMessage = after.messages.get(name);
+    if (!afterMessage) {
+      push("message.removed", name, `Message ${name} removed`, both);
+      continue;
+    }
+
+    const afterByNumber = new Map(afterMessage.fields.map((f) => [f.number, f]));
+    const afterByName = new Map(afterMessage.fields.map((f) => [f.name, f]));
+    const beforeByNumber = new Map(beforeMessage.fields.map((f) => [f.number, f]));
+    const beforeByName = new Map(beforeMessage.fields.map((f) => [f.name, f]));
+
+    for (const field of beforeMessage.fields) {
+      const location = `${name}.${field.name}`;
+      const next = afterByNumber.get(field.number);
+
+      if (!next) {
+        const renumbered = afterByName.get(field.name);
+        if (renumbered && !beforeByNumber.has(renumbered.number)) {
+          push("field.number_changed", location, `Field "${field.name}" moved from number ${field.number} to ${renumbered.number}`, both);
+        } else if (!isReservedNumber(afterMessage.reserved, field.number)) {
+          push(
+            "field.removed_without_reserve",
+            location,
+            `Field "${field.name}" (${field.number}) removed without reserving its number; a later field could reuse it`,
+            both,
+          );
+        } else {
+          // Old readers that require the field reject messages written without it.
+          push("field.removed", location, `Field "${field.name}" (${field.number}) removed and reserved`, { forward: field.label === "required" });
+        }
+        continue;
+      }
+
+      const beforeType = typeName(before, field.type);
+      const afterType = typeName(after, next.type);
+      if (next.name !== field.name && beforeType !== afterType) {
+        push(
+          "field.number_reused",
+          location,
+          `Field number ${field.number} reused: was "${field.name}" (${describe(before, field)}), now "${next.name}" (${describe(after, next)})`,
+          both,
+        );
+        continue;
+      }
+      if (next.name !== field.name) {
+        // Same number and type: binary-compatible, but JSON and generated accessors change.
+        push("field.renamed", location, `Field ${field.number} renamed from "${field.name}" to "${next.name}"`, {});
+      }
+      if (beforeType !== afterType) {
+        const compatible = wireCompatible(beforeType, afterType);
+        push(
+          "field.type_changed",
+          location,
+          `Type changed from ${beforeType} to ${afterType}${compatible ? " (wire-compatible; values may be truncated)" : ""}`,
+          compatible ? {} : both,
+        );
+      }
+      if (field.label !== next.label) {
+        const repeatedChanged = field.label === "repeated" || next.label === "repeated";
+        push(
+          "field.label_changed",
+          location,
+          `Label changed from ${field.label || "singular"} to ${next.label || "singular"}`,
+          repeatedChanged ? both : { backward: next.label === "required", forward: field.label === "required" },
+        );
+      }
+      if ((field.oneof ?? "") !== (next.oneof ?? "")) {
+        push(
+          "field.oneof_changed",
+          location,
+          next.oneof ? `Field moved into oneof ${next.oneof}` : `Field moved out of oneof ${field.oneof}`,
+          both,
+        );
+      }
+    }
+
+    for (const field of afterMessage.fields) {
+      if (beforeByNumber.has(field.number)) continue;
+      const location = `${name}.${field.name}`;
+      const previous = beforeByName.get(field.name);
+      if (previous && !afterByNumber.has(previous.number)) continue; // reported as field.number_changed
+      if (isReservedNumber(beforeMessage.reserved, field.number) || beforeMessage.reserved.names.has(field.name)) {
+        push("field.reserved_reused", location, `Field "${field.name}" (${field.number}) uses a reserved number or name`, both);
+        continue;
+      }
+      // New readers that require the field reject messages written by old writers.
+      push(
+        "field.added",
+        location,
+        `${field.label === "required" ? "Required field" : "Field"} "${field.name}" (${field.number}) added`,
+        { backward: field.label === "required" },
+      );
+    }
+
+    for (const [start, end] of beforeMessage.reserved.ranges) {
+      for (const number of [start, end]) {
+        if (!isReservedNumber(afterMessage.reserved, number) && !afterByNumber.has(number)) {
+          push("reserved.removed", name, `Reserved field number ${number} is no longer reserved`, both);
+          break;
+        }
+      }
+    }
+  }
+  for (const name of after.messages.keys()) {
+    if (!before.messages.has(name)) push("message.added", name, `Message ${name} added`, {});
+  }
+
+  // Enums
+  for (const [name, beforeEnum] of before.enums) {
+    const afterEnum = after.enums.get(name);
+    if (!afterEnum) {
+      push("enum.removed", name, `Enum ${name} removed`, both);
+      continue;
+    }
+    const afterNumbers = new Map([...afterEnum.values].map(([valueName, number]) => [number, valueName]));
+    for (const [valueName, number] of beforeEnum.values) {
+      const location = `${name}.${valueName}`;
+      const nextNumber = afterEnum.values.get(valueName);
+      if (nextNumber === undefined) {
+        const reusedBy = afterNumbers.get(number);
+        if (reusedBy && !beforeEnum.values.has(reusedBy)) {
+          push("enum.value_number_reused", location, `Enum value ${number} renamed from ${valueName} to ${reusedBy}`, both);
+        } else {
+          // New readers see the old value as unknown; unreserved numbers can also be reassigned later.
+          const reserved = isReservedNumber(afterEnum.reserved, number) || afterEnum.reserved.names.has(valueName);
+          push(
+            "enum.value_removed",
+            location,
+            `Enum value ${valueName} (${number}) removed${reserved ? "" : " without reserving it"}`,
+            { backward: true, forward: !reserved },
+          );
+        }
+        continue;
+      }
+      if (nextNumber !== number) {
+        push("enum.value_changed", location, `Enum value ${valueName} changed from ${number} to ${nextNumber}`, both);
+      }
+    }
+    for (const [valueName, number] of afterEnum.values) {
+      if (beforeEnum.values.has(valueName)) continue;
+      const previous = [...beforeEnum.values].find(([, n]) => n === number);
+      if (previous && !afterEnum.values.has(previous[0])) continue; // reported as enum.value_number_reused
+      // Old readers see the new value as unknown.
+      push("enum.value_added", `${name}.${valueName}`, `Enum value ${valueName} (${number}) added`, { forward: true });
+    }
+  }
+  for (const name of after.enums.keys()) {
+    if (!before.enums.has(name)) push("enum.added", name, `Enum ${name} added`, {});
+  }
+
+  // Services
+  for (const [name, beforeService] of before.services) {
+    const afterService = after.services.get(name);
+    if (!afterService) {
+      push("service.removed", name, `Service ${name} removed`, both);
+      continue;
+    }
+    for (const [rpcName, rpc] of beforeService.rpcs) {
+      const location = `${name}.${rpcName}`;
+      const next = afterService.rpcs.get(rpcName);
+      if (!next) {
+        push("rpc.removed", location, `RPC ${rpcName} removed`, both);
+        continue;
+      }
+      for (const side of ["request", "response"] as const) {
+        const beforeType = typeName(before, rpc[side]);
+        const afterType = typeName(after, next[side]);
+        if (beforeType !== afterType) push("rpc.type_changed", location, `${side} type changed from ${beforeType} to ${afterType}`, both);
+      }
+      if (rpc.clientStreaming !== next.clientStreaming || rpc.serverStreaming !== next.serverStreaming) {
+        push("rpc.streaming_changed", location, `Streaming changed on RPC ${rpcName}`, both);
+      }
+    }
+    for (const rpcName of afterService.rpcs.keys()) {
+      if (!beforeService.rpcs.has(rpcName)) push("rpc.added", `${name}.${rpcName}`, `RPC ${rpcName} added`, {});
+    }
+  }
+  for (const name of after.services.keys()) {
+    if (!before.services.has(name)) push("service.added", name, `Service ${name} added`, {});
+  }
+
+  return diffResult(changes);
+}
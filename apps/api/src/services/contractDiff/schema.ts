@@ -0,0 +1,206 @@
+import { classifyChange, type CompatibilityChecks, type ContractChange } from "./types";
+
+export type SchemaNode = Record<string, unknown>;
+
+export type SchemaCompareContext = {
+  checks: CompatibilityChecks;
+  resolveBefore: (node: unknown) => SchemaNode | null;
+  resolveAfter: (node: unknown) => SchemaNode | null;
+  changes: ContractChange[];
+  visitedRefs?: Set<string>;
+};
+
+const MAX_SCHEMA_DEPTH = 24;
+const MAX_REF_HOPS = 16;
+
+const UPPER_BOUNDS = ["maxLength", "maximum", "exclusiveMaximum", "maxItems", "maxProperties"];
+const LOWER_BOUNDS = ["minLength", "minimum", "exclusiveMinimum", "minItems", "minProperties"];
+
+export function isObject(value: unknown): value is SchemaNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Follows local `#/...` references; external refs are left unresolved.
+export function makeLocalRefResolver(doc: unknown) {
+  return (node: unknown): SchemaNode | null => {
+    let current: unknown = node;
+    for (let hop = 0; hop < MAX_REF_HOPS && isObject(current) && typeof current.$ref === "string"; hop++) {
+      const ref = current.$ref as string;
+      if (!ref.startsWith("#")) break;
+      current = ref
+        .slice(1)
+        .split("/")
+        .filter(Boolean)
+        .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .reduce<unknown>((acc, key) => (isObject(acc) ? acc[key] : undefined), doc);
+    }
+    return isObject(current) ? current : null;
+  };
+}
+
+function schemaTypes(schema: SchemaNode): string[] | null {
+  const raw = schema.type;
+  const types = typeof raw === "string" ? [raw] : Array.isArray(raw) ? raw.map(String) : null;
+  if (types && schema.nullable === true && !types.includes("null")) types.push("null");
+  return types;
+}
+
+function acceptsType(types: string[], type: string) {
+  return types.includes(type) || (type === "integer" && types.includes("number"));
+}
+
+export function compareSchemas(ctx: SchemaCompareContext, before: unknown, after: unknown, location: string, depth = 0) {
+  if (depth > MAX_SCHEMA_DEPTH) return;
+
+  // Recursive $ref pairs are compared once.
+  if (isObject(before) && isObject(after) && typeof before.$ref === "string" && typeof after.$ref === "string") {
+    const visited = ctx.visitedRefs ?? (ctx.visitedRefs = new Set());
+    const key = `${before.$ref}|${after.$ref}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+  }
+
+  const b = ctx.resolveBefore(before);
+  const a = ctx.resolveAfter(after);
+  // backward: the new schema still accepts everything the old one accepted.
+  // forward: everything the new schema allows still satisfies the old one.
+  const push = (kind: string, message: string, breaks: { backward?: boolean; forward?: boolean }, at = location) => {
+    ctx.changes.push({ kind, location: at, message, breaking: classifyChange(ctx.checks, breaks) });
+  };
+
+  if (!b && !a) return;
+  if (!b) {
+    push("schema.added", "Schema added where none was declared", { backward: true });
+    return;
+  }
+  if (!a) {
+    push("schema.removed", "Schema no longer declared", { forward: true });
+    return;
+  }
+
+  // Types
+  const bt = schemaTypes(b);
+  const at = schemaTypes(a);
+  if (bt && at) {
+    const narrowed = bt.filter((t) => !acceptsType(at, t));
+    const widened = at.filter((t) => !acceptsType(bt, t));
+    if (narrowed.length > 0 || widened.length > 0) {
+      push(
+        "type.changed",
+        `Type changed from ${bt.join("|")} to ${at.join("|")}`,
+        { backward: narrowed.length > 0, forward: widened.length > 0 },
+      );
+    }
+  } else if (!bt && at) {
+    push("type.added", `Type constrained to ${at.join("|")}`, { backward: true });
+  } else if (bt && !at) {
+    push("type.removed", `Type constraint ${bt.join("|")} removed`, { forward: true });
+  }
+
+  // Enums
+  const be = Array.isArray(b.enum) ? b.enum : null;
+  const ae = Array.isArray(a.enum) ? a.enum : null;
+  if (be && ae) {
+    const afterValues = new Set(ae.map(stableStringify));
+    const beforeValues = new Set(be.map(stableStringify));
+    const removed = be.filter((v) => !afterValues.has(stableStringify(v)));
+    const added = ae.filter((v) => !beforeValues.has(stableStringify(v)));
+    if (removed.length > 0) push("enum.value_removed", `Enum values removed: ${removed.map((v) => JSON.stringify(v)).join(", ")}`, { backward: true });
+    if (added.length > 0) push("enum.value_added", `Enum values added: ${added.map((v) => JSON.stringify(v)).join(", ")}`, { forward: true });
+  } else if (!be && ae) {
+    push("enum.added", `Values restricted to ${ae.map((v) => JSON.stringify(v)).join(", ")}`, { backward: true });
+  } else if (be && !ae) {
+    push("enum.removed", "Enum restriction removed", { forward: true });
+  }
+
+  // Bounds and patterns
+  for (const key of [...UPPER_BOUNDS, ...LOWER_BOUNDS]) {
+    const bv = typeof b[key] === "number" ? (b[key] as number) : undefined;
+    const av = typeof a[key] === "number" ? (a[key] as number) : undefined;
+    if (bv === av) continue;
+    const upper = UPPER_BOUNDS.includes(key);
+    const tightened = av !== undefined && (bv === undefined || (upper ? av < bv : av > bv));
+    push(
+      "constraint.changed",
+      `${key} changed from ${bv ?? "unset"} to ${av ?? "unset"}`,
+      { backward: tightened, forward: !tightened },
+    );
+  }
+  if (b.pattern !== a.pattern) {
+    push("constraint.changed", `pattern changed from ${b.pattern ?? "unset"} to ${a.pattern ?? "unset"}`, {
+      backward: b.pattern !== undefined ? a.pattern !== undefined : true,
+      forward: a.pattern !== undefined ? b.pattern !== undefined : true,
+    });
+  }
+
+  // Object properties
+  const bp = isObject(b.properties) ? b.properties : {};
+  const ap = isObject(a.properties) ? a.properties : {};
+  const breq = new Set(Array.isArray(b.required) ? b.required.map(String) : []);
+  const areq = new Set(Array.isArray(a.required) ? a.required.map(String) : []);
+  for (const name of new Set([...Object.keys(bp), ...Object.keys(ap)])) {
+    const propLocation = `${location}.${name}`;
+    const inBefore = name in bp;
+    const inAfter = name in ap;
+
+    if (inBefore && !inAfter) {
+      push(
+        "property.removed",
+        `Property "${name}" removed`,
+        { backward: a.additionalProperties === false, forward: true },
+        propLocation,
+      );
+      continue;
+    }
+    if (!inBefore && inAfter) {
+      const required = areq.has(name);
+      push(
+        required ? "property.required_added" : "property.added",
+        `${required ? "Required" : "Optional"} property "${name}" added`,
+        { backward: required, forward: b.additionalProperties === false },
+        propLocation,
+      );
+      continue;
+    }
+
+    if (!breq.has(name) && areq.has(name)) {
+      push("property.became_required", `Property "${name}" is now required`, { backward: true }, propLocation);
+    } else if (breq.has(name) && !areq.has(name)) {
+      push("property.became_optional", `Property "${name}" is now optional`, { forward: true }, propLocation);
+    }
+    compareSchemas(ctx, bp[name], ap[name], propLocation, depth + 1);
+  }
+
+  // additionalProperties
+  const bAdditional = b.additionalProperties;
+  const aAdditional = a.additionalProperties;
+  if (bAdditional !== false && aAdditional === false) {
+    push("additional_properties.tightened", "Additional properties are no longer allowed", { backward: true });
+  } else if (bAdditional === false && aAdditional !== false) {
+    push("additional_properties.loosened", "Additional properties are now allowed", { forward: true });
+  } else if (isObject(bAdditional) && isObject(aAdditional)) {
+    compareSchemas(ctx, bAdditional, aAdditional, `${location}.*`, depth + 1);
+  }
+
+  // Arrays
+  if (b.items !== undefined || a.items !== undefined) {
+    compareSchemas(ctx, b.items, a.items, `${location}[]`, depth + 1);
+  }
+
+  // Composition keywords are compared as a whole; reordering alternatives is not a change.
+  for (const keyword of ["oneOf", "anyOf", "allOf"]) {
+    const bList = Array.isArray(b[keyword]) ? (b[keyword] as unknown[]).map(stableStringify).sort() : [];
+    const aList = Array.isArray(a[keyword]) ? (a[keyword] as unknown[]).map(stableStringify).sort() : [];
+    if (bList.join("\n") !== aList.join("\n")) {
+      push("composition.changed", `${keyword} alternatives changed`, { backward: true, forward: true });
+    }
+  }
+}
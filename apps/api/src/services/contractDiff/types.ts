@@ -0,0 +1,40 @@
+export type ContractChange = {
+  kind: string;
+  location: string;
+  message: string;
+  breaking: boolean;
+};
+
+export type ContractDiffResult = {
+  changes: ContractChange[];
+  breaking: boolean;
+  // Set when a version could not be parsed; the diff then falls back to line heuristics.
+  parseError?: string;
+};
+
+export function diffResult(changes: ContractChange[], parseError?: string): ContractDiffResult {
+  return {
+    changes,
+    breaking: changes.some((c) => c.breaking),
+    ...(parseError ? { parseError } : {}),
+  };
+}
+
+// Schema-registry style compatibility modes, configured per contract.
+// backward: consumers on the new version can read data written with the old one.
+// forward: consumers still on the old version can read data written with the new one.
+export type CompatibilityMode = "none" | "backward" | "forward" | "full";
+
+export type CompatibilityChecks = { backward: boolean; forward: boolean };
+
+export function compatibilityChecks(mode: CompatibilityMode): CompatibilityChecks {
+  return {
+    backward: mode === "backward" || mode === "full",
+    forward: mode === "forward" || mode === "full",
+  };
+}
+
+// A change is breaking when it violates any of the directions the mode enforces.
+export function classifyChange(checks: CompatibilityChecks, breaks: { backward?: boolean; forward?: boolean }) {
+  return (checks.backward && !!breaks.backward) || (checks.forward && !!breaks.forward);
+}
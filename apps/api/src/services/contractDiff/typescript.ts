@@ -0,0 +1,253 @@
+import ts from "typescript";
+import path from "path";
+import { diffResult, type ContractChange, type ContractDiffResult } from "./types";
+
+const BEFORE_FILE = "/__contract__/before.ts";
+const AFTER_FILE = "/__contract__/after.ts";
+
+export const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  lib: ["lib.es2020.d.ts"],
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+};
+
+// Lib files are parsed once per process; contracts are tiny next to lib.es2020.
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+// Contracts written as plain declarations (no import/export) are treated as if every
+// top-level declaration were exported.
+export function asModule(content: string) {
+  if (/^\s*(export|import)\s/m.test(content)) return content;
+  return content.replace(
+    /^(?=(?:declare\s+)?(?:interface|type|enum|const enum|class|abstract class|function|const|let|var|namespace)\b)/gm,
+    "export ",
+  );
+}
+
+// Program over in-memory contract sources, sharing the parsed lib files.
+export function createContractProgram(sources: Map<string, string>, options: ts.CompilerOptions = COMPILER_OPTIONS) {
+  const host = ts.createCompilerHost(options, true);
+  const defaultGetSourceFile = host.getSourceFile.bind(host);
+
+  const libDirectory = path.dirname(host.getDefaultLibFileName(options));
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const source = sources.get(fileName);
+    if (source !== undefined) return ts.createSourceFile(fileName, source, languageVersion, true);
+    const cached = libSourceFiles.get(fileName);
+    if (cached) return cached;
+    const file = defaultGetSourceFile(fileName, languageVersion, onError, shouldCreate);
+    // Anything else read from disk (e.g. workspace files a conformance check imports) can change
+    if (file && path.dirname(fileName) === libDirectory) libSourceFiles.set(fileName, file);
+    return file;
+  };
+  host.fileExists = (fileName) => sources.has(fileName) || ts.sys.fileExists(fileName);
+  host.directoryExists = (dir) => [...sources.keys()].some((f) => f.startsWith(`${dir}/`)) || ts.sys.directoryExists(dir);
+  host.readFile = (fileName) => sources.get(fileName) ?? ts.sys.readFile(fileName);
+  host.writeFile = () => undefined;
+
+  return ts.createProgram([...sources.keys()], options, host);
+}
+
+function createProgram(before: string, after: string) {
+  return createContractProgram(new Map([
+    [BEFORE_FILE, asModule(before)],
+    [AFTER_FILE, asModule(after)],
+  ]));
+}
+
+function syntaxError(program: ts.Program, fileName: string, label: string) {
+  const file = program.getSourceFile(fileName)!;
+  const [diagnostic] = program.getSyntacticDiagnostics(file);
+  if (!diagnostic) return null;
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+  const line = diagnostic.start !== undefined ? file.getLineAndCharacterOfPosition(diagnostic.start).line + 1 : 0;
+  return `${label} version line ${line}: ${message}`;
+}
+
+function moduleExports(checker: ts.TypeChecker, file: ts.SourceFile) {
+  const moduleSymbol = checker.getSymbolAtLocation(file);
+  const exports = new Map<string, ts.Symbol>();
+  if (!moduleSymbol) return exports;
+  for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+    const resolved = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+    exports.set(symbol.getName(), resolved);
+  }
+  return exports;
+}
+
+function isGeneric(symbol: ts.Symbol) {
+  return (symbol.declarations ?? []).some(
+    (d) => (ts.isInterfaceDeclaration(d) || ts.isTypeAliasDeclaration(d) || ts.isClassDeclaration(d)) && !!d.typeParameters?.length,
+  );
+}
+
+function symbolKind(symbol: ts.Symbol) {
+  if (symbol.flags & ts.SymbolFlags.Enum) return "enum";
+  if (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Class)) return "type";
+  return "value";
+}
+
+export function diffTypeScript(oldContent: string, newContent: string): ContractDiffResult {
+  const program = createProgram(oldContent, newContent);
+  const parseError = syntaxError(program, BEFORE_FILE, "Previous") ?? syntaxError(program, AFTER_FILE, "New");
+  if (parseError) return diffResult([], parseError);
+
+  const checker = program.getTypeChecker();
+  const beforeExports = moduleExports(checker, program.getSourceFile(BEFORE_FILE)!);
+  const afterExports = moduleExports(checker, program.getSourceFile(AFTER_FILE)!);
+  const changes: ContractChange[] = [];
+  const sameText: Array<{ name: string; printed: string; isCallable: boolean }> = [];
+  const push = (kind: string, location: string, message: string, breaking: boolean) => {
+    changes.push({ kind, location, message, breaking });
+  };
+  const text = (type: ts.Type) => checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation);
+  // Expands a top-level alias so `Ids` prints as `string[]`.
+  const structure = (type: ts.Type) => checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.InTypeAlias);
+
+  // Shared contracts are read and written by both sides, so a change is only
+  // compatible when old and new values are assignable to each other.
+  const compatible = (before: ts.Type, after: ts.Type, generic: boolean) => generic
+    ? text(before) === text(after)
+    : checker.isTypeAssignableTo(before, after) && checker.isTypeAssignableTo(after, before);
+
+  const compareMembers = (name: string, before: ts.Type, after: ts.Type, generic: boolean) => {
+    const beforeProps = new Map(checker.getPropertiesOfType(before).map((p) => [p.getName(), p]));
+    const afterProps = new Map(checker.getPropertiesOfType(after).map((p) => [p.getName(), p]));
+    let reported = false;
+
+    for (const [member, beforeProp] of beforeProps) {
+      const location = `${name}.${member}`;
+      const afterProp = afterProps.get(member);
+      if (!afterProp) {
+        push("member.removed", location, `Member "${member}" removed`, true);
+        reported = true;
+        continue;
+      }
+      const wasOptional = !!(beforeProp.flags & ts.SymbolFlags.Optional);
+      const isOptional = !!(afterProp.flags & ts.SymbolFlags.Optional);
+      if (wasOptional && !isOptional) {
+        push("member.became_required", location, `Member "${member}" is now required`, true);
+        reported = true;
+      } else if (!wasOptional && isOptional) {
+        push("member.became_optional", location, `Member "${member}" is now optional`, true);
+        reported = true;
+      }
+      const beforeType = checker.getNonNullableType(checker.getTypeOfSymbol(beforeProp));
+      const afterType = checker.getNonNullableType(checker.getTypeOfSymbol(afterProp));
+      if (!compatible(beforeType, afterType, generic)) {
+        const message = text(beforeType) === text(afterType)
+          ? `Type ${text(afterType)} changed incompatibly`
+          : `Type changed from ${text(beforeType)} to ${text(afterType)}`;
+        push("member.incompatible", location, message, true);
+        reported = true;
+      }
+    }
+    for (const [member, afterProp] of afterProps) {
+      if (beforeProps.has(member)) continue;
+      const optional = !!(afterProp.flags & ts.SymbolFlags.Optional);
+      push("member.added", `${name}.${member}`, `${optional ? "Optional" : "Required"} member "${member}" added`, !optional);
+      reported = true;
+    }
+    return reported;
+  };
+
+  const compareUnion = (name: string, before: ts.Type, after: ts.Type) => {
+    if (!before.isUnion() && !after.isUnion()) return false;
+    const beforeMembers = (before.isUnion() ? before.types : [before]).map(text);
+    const afterMembers = (after.isUnion() ? after.types : [after]).map(text);
+    const removed = beforeMembers.filter((m) => !afterMembers.includes(m));
+    const added = afterMembers.filter((m) => !beforeMembers.includes(m));
+    if (removed.length > 0) push("union.member_removed", name, `Union members removed: ${removed.join(", ")}`, true);
+    if (added.length > 0) push("union.member_added", name, `Union members added: ${added.join(", ")}`, true);
+    return removed.length > 0 || added.length > 0;
+  };
+
+  for (const [name, beforeSymbol] of beforeExports) {
+    const afterSymbol = afterExports.get(name);
+    if (!afterSymbol) {
+      push("symbol.removed", name, `Export "${name}" removed`, true);
+      continue;
+    }
+
+    const beforeKind = symbolKind(beforeSymbol);
+    const afterKind = symbolKind(afterSymbol);
+    if (beforeKind !== afterKind) {
+      push("symbol.incompatible", name, `Export "${name}" changed from a ${beforeKind} to a ${afterKind}`, true);
+      continue;
+    }
+
+    if (beforeKind === "enum") {
+      // Enums are nominal, so compare member names and values instead of assignability.
+      const beforeMembers = new Map([...(beforeSymbol.exports?.values() ?? [])].map((m) => [m.getName(), m]));
+      const afterMembers = new Map([...(afterSymbol.exports?.values() ?? [])].map((m) => [m.getName(), m]));
+      for (const [member, symbol] of beforeMembers) {
+        const next = afterMembers.get(member);
+        if (!next) {
+          push("enum.member_removed", `${name}.${member}`, `Enum member "${member}" removed`, true);
+          continue;
+        }
+        const beforeValue = checker.getConstantValue(symbol.valueDeclaration as ts.EnumMember);
+        const afterValue = checker.getConstantValue(next.valueDeclaration as ts.EnumMember);
+        if (beforeValue !== afterValue) {
+          push("enum.value_changed", `${name}.${member}`, `Enum value changed from ${JSON.stringify(beforeValue)} to ${JSON.stringify(afterValue)}`, true);
+        }
+      }
+      for (const member of afterMembers.keys()) {
+        if (!beforeMembers.has(member)) push("enum.member_added", `${name}.${member}`, `Enum member "${member}" added`, true);
+      }
+      continue;
+    }
+
+    const generic = isGeneric(beforeSymbol) || isGeneric(afterSymbol);
+    const beforeType = beforeKind === "type" ? checker.getDeclaredTypeOfSymbol(beforeSymbol) : checker.getTypeOfSymbol(beforeSymbol);
+    const afterType = beforeKind === "type" ? checker.getDeclaredTypeOfSymbol(afterSymbol) : checker.getTypeOfSymbol(afterSymbol);
+    const isCallable = [beforeType, afterType].some((t) => checker.getSignaturesOfType(t, ts.SignatureKind.Call).length > 0);
+    const hasMembers = (type: ts.Type) => !!(type.flags & ts.TypeFlags.Object) && !checker.isArrayLikeType(type) && !isCallable;
+
+    // Object types are compared member by member so additive changes are reported too.
+    let reported = compareUnion(name, beforeType, afterType);
+    if (!reported && hasMembers(beforeType) && hasMembers(afterType)) {
+      reported = compareMembers(name, beforeType, afterType, generic);
+    }
+    if (!reported && !compatible(beforeType, afterType, generic)) {
+      // Prints the same when only a type it references changed; settled once every export is diffed.
+      if (structure(beforeType) === structure(afterType)) {
+        sameText.push({ name, printed: structure(afterType), isCallable });
+        continue;
+      }
+      push(
+        "symbol.incompatible",
+        name,
+        isCallable
+          ? `Signature changed from ${structure(beforeType)} to ${structure(afterType)}`
+          : `Type changed from ${structure(beforeType)} to ${structure(afterType)}`,
+        true,
+      );
+    }
+  }
+
+  for (const name of afterExports.keys()) {
+    if (!beforeExports.has(name)) push("symbol.added", name, `Export "${name}" added`, false);
+  }
+
+  // Skipped when the referenced type's own change is already listed; otherwise it isn't exported,
+  // so the entry stays and says why the unchanged-looking text is incompatible.
+  const changed = new Set(changes.map((change) => change.location.split(".")[0]));
+  for (const { name, printed, isCallable } of sameText) {
+    const explainedBy = printed.match(/[A-Za-z_$][\w$]*/g)?.some((word) => word !== name && changed.has(word));
+    if (explainedBy) continue;
+    push(
+      "symbol.incompatible",
+      name,
+      `${isCallable ? "Signature" : "Type"} ${printed} is unchanged, but a type it references changed`,
+      true,
+    );
+  }
+
+  return diffResult(changes);
+}
@@ -0,0 +1,289 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Contract, ContractVersion } from "@prisma/client";
+import { prisma } from "../../db";
+import { readRoomRepoTree } from "../roomRepo";
+import { contractArtifactDirectory } from "../contractArtifacts";
+import { parseOpenApiDocument } from "../contractDiff/openapi";
+import { isObject } from "../contractDiff/schema";
+import { asModule } from "../contractDiff/typescript";
+import { collectExports, parseSource, scanWorkspace, type CodeRoute, type ExportedDeclaration, type WorkspaceScan } from "./scan";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+export type DriftFinding = {
+  kind: "route.missing" | "route.extra" | "type.missing" | "type.member_missing" | "type.member_extra";
+  subject: string;
+  message: string;
+  // Where in the workspace the finding points, when there is code to point at.
+  location: string | null;
+};
+
+export type ContractDriftReport = {
+  contractId: string;
+  contractName: string;
+  version: number;
+  producingTaskIds: string[];
+  findings: DriftFinding[];
+};
+
+export type ContractWithVersion = { contract: Contract; version: ContractVersion };
+
+// `/users/{id}`, `/users/:userId` and `/users/:id/` are all the same route.
+function normalizeRoute(routePath: string) {
+  const normalized = `/${routePath}`
+    .replace(/\/+/g, "/")
+    .replace(/\{[^}]+\}/g, "{}")
+    .replace(/:[A-Za-z0-9_]+\??/g, "{}")
+    .replace(/\/$/, "");
+  return normalized || "/";
+}
+
+function joinRoute(prefix: string, routePath: string) {
+  return normalizeRoute(`${prefix}/${routePath}`);
+}
+
+function parentRoute(routePath: string) {
+  const index = routePath.lastIndexOf("/");
+  return index <= 0 ? "/" : routePath.slice(0, index);
+}
+
+// Path part of each `servers[].url`, e.g. `https://api.example.com/v1` → `/v1`.
+function serverBasePaths(doc: Record<string, unknown>) {
+  const bases = new Set<string>([""]);
+  for (const server of Array.isArray(doc.servers) ? doc.servers : []) {
+    if (!isObject(server) || typeof server.url !== "string") continue;
+    const base = server.url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "").replace(/\{[^}]+\}/g, "");
+    if (base && base !== "/") bases.add(normalizeRoute(base));
+  }
+  return [...bases];
+}
+
+function contractOperations(content: string) {
+  const doc = parseOpenApiDocument(content);
+  const bases = serverBasePaths(doc);
+  const operations: Array<{ method: string; path: string; candidates: string[] }> = [];
+  for (const [routePath, item] of Object.entries(isObject(doc.paths) ? doc.paths : {})) {
+    if (!isObject(item)) continue;
+    for (const method of HTTP_METHODS) {
+      if (!isObject(item[method])) continue;
+      operations.push({
+        method: method.toUpperCase(),
+        path: routePath,
+        candidates: bases.map((base) => joinRoute(base, routePath)),
+      });
+    }
+  }
+  return { bases, operations };
+}
+
+// Routes serving each of the contract's operations, matched on method and full path.
+export function routeCoverage(content: string, scan: WorkspaceScan) {
+  const routes = scan.routes.map((route) => ({ route, candidates: routeCandidates(route, scan) }));
+  return contractOperations(content).operations.map((op) => ({
+    method: op.method,
+    path: op.path,
+    routes: routes
+      .filter(({ route, candidates }) => methodMatches(route.method, op.method) && candidates.some((c) => op.candidates.includes(c)))
+      .map(({ route }) => route),
+  }));
+}
+
+// Every full path a registered route could be served under, given the mount prefixes seen.
+function routeCandidates(route: CodeRoute, scan: WorkspaceScan) {
+  return [normalizeRoute(route.path), ...scan.mountPrefixes.map((prefix) => joinRoute(prefix, route.path))];
+}
+
+function methodMatches(routeMethod: string, method: string) {
+  return routeMethod === "ALL" || routeMethod === method;
+}
+
+function describeRoute(route: CodeRoute) {
+  return `${route.file}:${route.line}`;
+}
+
+// Missing: operations no registered route serves. Extra: routes that no OpenAPI contract
+// in the room declares, on a path the contract declares (with another method), below one,
+// or next to one. Routes elsewhere in the app are not the contract's business.
+function openApiDrift(target: ContractWithVersion, all: ContractWithVersion[], scan: WorkspaceScan): DriftFinding[] {
+  const { bases, operations } = contractOperations(target.version.content);
+  const roomOperations = all
+    .filter((c) => c.contract.type === "openapi")
+    .flatMap((c) => {
+      try {
+        return contractOperations(c.version.content).operations;
+      } catch {
+        return [];
+      }
+    });
+  const routes = scan.routes.map((route) => ({ route, candidates: routeCandidates(route, scan) }));
+  const findings: DriftFinding[] = [];
+
+  for (const op of routeCoverage(target.version.content, scan)) {
+    if (op.routes.length === 0) {
+      findings.push({
+        kind: "route.missing",
+        subject: `${op.method} ${op.path}`,
+        message: `${op.method} ${op.path} is in the contract but no route registers it`,
+        location: null,
+      });
+    }
+  }
+
+  const declaredPaths = new Set(operations.flatMap((op) => op.candidates));
+  // Siblings under a base path or mount prefix (e.g. `/api/health` next to `/api/users`) aren't related.
+  const roots = new Set(["/", ...bases.map(normalizeRoute), ...scan.mountPrefixes.map(normalizeRoute)]);
+  const neighbourhood = new Set([...declaredPaths].map(parentRoute).filter((p) => !roots.has(p)));
+  const reported = new Set<string>();
+  for (const { route, candidates } of routes) {
+    const declaredAnywhere = roomOperations.some((op) =>
+      methodMatches(route.method, op.method) && candidates.some((c) => op.candidates.includes(c)));
+    if (declaredAnywhere) continue;
+    const related = candidates.find((c) => declaredPaths.has(c) || declaredPaths.has(parentRoute(c)) || neighbourhood.has(parentRoute(c)));
+    if (!related) continue;
+    const subject = `${route.method} ${related}`;
+    if (reported.has(subject)) continue;
+    reported.add(subject);
+    findings.push({
+      kind: "route.extra",
+      subject,
+      message: `${route.method} ${route.path} is registered but not in the contract`,
+      location: describeRoute(route),
+    });
+  }
+
+  return findings;
+}
+
+function exportsOf(content: string) {
+  const exports = new Map<string, ExportedDeclaration[]>();
+  collectExports(parseSource("contract.ts", asModule(content)), "contract.ts", exports);
+  return exports;
+}
+
+// Contract exports nobody in the workspace exports, and same-named declarations whose
+// members differ from the contract's. Code that imports the generated artifacts from
+// `contracts/` implements the contract by construction, so only redeclarations are checked.
+export function typeScriptDrift(target: ContractWithVersion, scan: WorkspaceScan, artifactDir: string | null): DriftFinding[] {
+  const usesArtifacts = artifactDir !== null && scan.importedContractDirs.has(artifactDir);
+  const findings: DriftFinding[] = [];
+
+  for (const [name, [expected]] of exportsOf(target.version.content)) {
+    const candidates = scan.exports.get(name) ?? [];
+    if (candidates.length === 0) {
+      if (!usesArtifacts) {
+        findings.push({ kind: "type.missing", subject: name, message: `${expected.kind} ${name} is in the contract but nothing exports it`, location: null });
+      }
+      continue;
+    }
+    if (!expected.members) continue;
+    const expectedMembers = expected.members;
+
+    // With several declarations of the same name, compare against the closest one.
+    const compared = candidates
+      .filter((c) => c.members !== null)
+      .map((c) => ({
+        decl: c,
+        missing: expectedMembers.filter((m) => !(c.members as string[]).includes(m)),
+        extra: (c.members as string[]).filter((m) => !expectedMembers.includes(m)),
+      }))
+      .sort((a, b) => a.missing.length + a.extra.length - (b.missing.length + b.extra.length))[0];
+    if (!compared) continue;
+
+    const location = `${compared.decl.file}:${compared.decl.line}`;
+    if (compared.missing.length > 0) {
+      findings.push({
+        kind: "type.member_missing",
+        subject: `${name}.{${compared.missing.join(",")}}`,
+        message: `${name} lacks ${compared.missing.join(", ")}`,
+        location,
+      });
+    }
+    if (compared.extra.length > 0) {
+      findings.push({
+        kind: "type.member_extra",
+        subject: `${name}.{${compared.extra.join(",")}}`,
+        message: `${name} has ${compared.extra.join(", ")} which the contract doesn't`,
+        location,
+      });
+    }
+  }
+  return findings;
+}
+
+// Where the artifacts of a contract were written, read back from the manifests in the scan's file list.
+export async function artifactDirectories(workspacePath: string, files: string[]) {
+  const dirs = new Map<string, string>();
+  for (const file of files) {
+    const dir = contractArtifactDirectory(file);
+    if (!dir || file !== `${dir}/contract.json`) continue;
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(workspacePath, file), "utf8")) as { contractId?: string };
+      if (manifest.contractId) dirs.set(manifest.contractId, dir);
+    } catch {
+      // Not a DevRoom manifest
+    }
+  }
+  return dirs;
+}
+
+const lastScanFingerprint = new Map<string, string>();
+
+// Compares OpenAPI and TypeScript contracts against the code on the room's default branch.
+// A contract is checked once one of the tasks producing it is done (i.e. merged); until
+// then missing routes and types are just work in progress. Returns null when neither the
+// code nor the contracts changed since the previous check of the room.
+export async function detectContractDrift(roomId: string, workspacePath: string): Promise<ContractDriftReport[] | null> {
+  const contracts = await prisma.contract.findMany({
+    where: { roomId, type: { in: ["openapi", "typescript"] }, currentVersionId: { not: null }, deprecatedAt: null },
+    include: {
+      taskDeps: {
+        where: { dependencyType: { in: ["produces", "modifies"] } },
+        include: { task: { select: { id: true, status: true } } },
+      },
+    },
+  });
+  const checked = contracts.filter((c) => c.taskDeps.some((dep) => dep.task.status === "done"));
+  if (checked.length === 0) return [];
+
+  const { headSha, files } = await readRoomRepoTree(workspacePath);
+  const fingerprint = `${headSha}|${contracts.map((c) => `${c.id}:${c.currentVersionId}`).sort().join(",")}|${checked.map((c) => c.id).sort().join(",")}`;
+  if (lastScanFingerprint.get(roomId) === fingerprint) return null;
+
+  const versions = await prisma.contractVersion.findMany({
+    where: { id: { in: contracts.map((c) => c.currentVersionId as string) } },
+  });
+  const versionById = new Map(versions.map((v) => [v.id, v]));
+  const all: ContractWithVersion[] = contracts.flatMap((contract) => {
+    const version = versionById.get(contract.currentVersionId as string);
+    return version ? [{ contract, version }] : [];
+  });
+
+  const scan = await scanWorkspace(workspacePath, files);
+  const artifactDirs = await artifactDirectories(workspacePath, files);
+
+  const reports: ContractDriftReport[] = [];
+  for (const contract of checked) {
+    const target = all.find((c) => c.contract.id === contract.id);
+    if (!target) continue;
+    let findings: DriftFinding[];
+    try {
+      findings = contract.type === "openapi"
+        ? openApiDrift(target, all, scan)
+        : typeScriptDrift(target, scan, artifactDirs.get(contract.id) ?? null);
+    } catch {
+      // Unparseable contract; publishing already reported it
+      continue;
+    }
+    reports.push({
+      contractId: contract.id,
+      contractName: contract.name,
+      version: target.version.version,
+      producingTaskIds: contract.taskDeps.map((dep) => dep.task.id),
+      findings,
+    });
+  }
+
+  lastScanFingerprint.set(roomId, fingerprint);
+  return reports;
+}
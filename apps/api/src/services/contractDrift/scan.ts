@@ -0,0 +1,257 @@
+import { promises as fs } from "fs";
+import path from "path";
+import ts from "typescript";
+import { contractArtifactDirectory, isContractArtifactPath } from "../contractArtifacts";
+
+const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+const SKIPPED_DIRS = ["node_modules/", "dist/", "build/", ".next/", "coverage/", "vendor/"];
+const MAX_SCANNED_FILES = 3000;
+const MAX_FILE_BYTES = 512 * 1024;
+
+const ROUTE_METHODS = new Set(["get", "post", "put", "patch", "delete", "options", "head", "all"]);
+// `axios.get("/users", config)` looks just like a route registration.
+const HTTP_CLIENT_MODULES = new Set(["axios", "ky", "got", "superagent", "supertest", "node-fetch", "undici"]);
+
+export type CodeRoute = {
+  method: string; // upper case; ALL matches every method
+  path: string;
+  file: string;
+  line: number;
+  // The handler function, when it is inline or declared in the same file.
+  handler: ts.FunctionLikeDeclaration | null;
+};
+
+export type ExportedDeclaration = {
+  name: string;
+  kind: "interface" | "type" | "enum" | "class" | "function" | "variable" | "reexport";
+  // Property/member names for interfaces, object type literals and enums; null when not comparable.
+  members: string[] | null;
+  file: string;
+  line: number;
+};
+
+export type WorkspaceScan = {
+  routes: CodeRoute[];
+  // Path prefixes routers are mounted under (`app.use("/api", router)`, fastify `register(..., { prefix })`).
+  mountPrefixes: string[];
+  exports: Map<string, ExportedDeclaration[]>;
+  // `contracts/<name>` directories that some source file imports or re-exports from.
+  importedContractDirs: Set<string>;
+};
+
+export function lineOf(file: ts.SourceFile, node: ts.Node) {
+  return file.getLineAndCharacterOfPosition(node.getStart(file)).line + 1;
+}
+
+function stringValue(node: ts.Node | undefined) {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : null;
+}
+
+function propertyName(name: ts.PropertyName | ts.BindingName | undefined) {
+  if (!name) return null;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) return name.text;
+  return null;
+}
+
+function objectProperty(node: ts.ObjectLiteralExpression, key: string) {
+  for (const prop of node.properties) {
+    if (ts.isPropertyAssignment(prop) && propertyName(prop.name) === key) return prop.initializer;
+  }
+  return undefined;
+}
+
+function typeMembers(members: ts.NodeArray<ts.TypeElement>) {
+  return members.map((m) => propertyName(m.name)).filter((n): n is string => n !== null);
+}
+
+function hasExportModifier(node: ts.Node) {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+// `.route("/path")` at the root of an Express chain such as `router.route("/x").get(h).post(h)`.
+function chainedRoutePath(expr: ts.Expression): string | null {
+  let current: ts.Expression = expr;
+  while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+    if (current.expression.name.text === "route") return stringValue(current.arguments[0]);
+    current = current.expression.expression;
+  }
+  return null;
+}
+
+function rootIdentifier(expr: ts.Expression): string | null {
+  let current = expr;
+  while (ts.isPropertyAccessExpression(current) || ts.isCallExpression(current)) current = current.expression;
+  return ts.isIdentifier(current) ? current.text : null;
+}
+
+// Local names bound to an HTTP client: its imports, and instances created from them
+// (`const api = axios.create(...)`).
+function httpClientNames(file: ts.SourceFile) {
+  const names = new Set<string>();
+  for (const statement of file.statements) {
+    if (ts.isImportDeclaration(statement) && HTTP_CLIENT_MODULES.has(stringValue(statement.moduleSpecifier) ?? "")) {
+      const clause = statement.importClause;
+      if (clause?.name) names.add(clause.name.text);
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) names.add(clause.namedBindings.name.text);
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) names.add(element.name.text);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const decl of statement.declarationList.declarations) {
+        const init = decl.initializer;
+        if (!ts.isIdentifier(decl.name) || !init) continue;
+        const required = ts.isCallExpression(init) && ts.isIdentifier(init.expression) && init.expression.text === "require"
+          ? stringValue(init.arguments[0])
+          : null;
+        const root = rootIdentifier(init);
+        if ((required && HTTP_CLIENT_MODULES.has(required)) || (root && names.has(root))) names.add(decl.name.text);
+      }
+    }
+  }
+  return names;
+}
+
+// `(req, res) => ...` inline, or a function declared at the top level of the same file.
+function resolveHandler(file: ts.SourceFile, expr: ts.Expression | undefined): ts.FunctionLikeDeclaration | null {
+  if (!expr) return null;
+  if (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) return expr;
+  if (!ts.isIdentifier(expr)) return null;
+  for (const statement of file.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === expr.text) return statement;
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const decl of statement.declarationList.declarations) {
+      const init = decl.initializer;
+      if (ts.isIdentifier(decl.name) && decl.name.text === expr.text && init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+        return init;
+      }
+    }
+  }
+  return null;
+}
+
+function collectRoutes(file: ts.SourceFile, relPath: string, scan: WorkspaceScan) {
+  const clients = httpClientNames(file);
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      const target = node.expression.expression;
+      const [first, second] = node.arguments;
+      const root = rootIdentifier(target);
+
+      if (root && clients.has(root)) {
+        // Outgoing request, not a route
+      } else if (ROUTE_METHODS.has(method)) {
+        // `app.get("/x", handler)`; a single argument is a Map/Headers lookup, not a route.
+        const literal = stringValue(first);
+        const routePath = literal !== null && node.arguments.length >= 2 ? literal : chainedRoutePath(target);
+        if (routePath !== null && routePath.startsWith("/")) {
+          const handler = resolveHandler(file, node.arguments[node.arguments.length - 1]);
+          scan.routes.push({ method: method.toUpperCase(), path: routePath, file: relPath, line: lineOf(file, node), handler });
+        }
+      } else if (method === "route" && first && ts.isObjectLiteralExpression(first)) {
+        // Fastify: `fastify.route({ method: "GET" | ["GET", "HEAD"], url: "/x", handler })`
+        const url = stringValue(objectProperty(first, "url")) ?? stringValue(objectProperty(first, "path"));
+        const rawMethod = objectProperty(first, "method");
+        const methods = rawMethod && ts.isArrayLiteralExpression(rawMethod)
+          ? rawMethod.elements.map((e) => stringValue(e)).filter((m): m is string => m !== null)
+          : [stringValue(rawMethod)].filter((m): m is string => m !== null);
+        if (url?.startsWith("/")) {
+          const handler = resolveHandler(file, objectProperty(first, "handler"));
+          for (const m of methods) scan.routes.push({ method: m.toUpperCase(), path: url, file: relPath, line: lineOf(file, node), handler });
+        }
+      } else if (method === "use") {
+        const prefix = stringValue(first);
+        if (prefix?.startsWith("/") && node.arguments.length >= 2) scan.mountPrefixes.push(prefix);
+      } else if (method === "register" && second && ts.isObjectLiteralExpression(second)) {
+        const prefix = stringValue(objectProperty(second, "prefix"));
+        if (prefix?.startsWith("/")) scan.mountPrefixes.push(prefix);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(file);
+}
+
+function addExport(exports: Map<string, ExportedDeclaration[]>, decl: ExportedDeclaration) {
+  const existing = exports.get(decl.name) ?? [];
+  existing.push(decl);
+  exports.set(decl.name, existing);
+}
+
+// Top-level exported declarations of a module. Shared by the workspace scan and by the
+// contract side, so both are described the same way.
+export function collectExports(file: ts.SourceFile, relPath: string, exports: Map<string, ExportedDeclaration[]>) {
+  for (const statement of file.statements) {
+    const exported = hasExportModifier(statement);
+    const line = lineOf(file, statement);
+    if (ts.isInterfaceDeclaration(statement) && exported) {
+      addExport(exports, { name: statement.name.text, kind: "interface", members: typeMembers(statement.members), file: relPath, line });
+    } else if (ts.isTypeAliasDeclaration(statement) && exported) {
+      const members = ts.isTypeLiteralNode(statement.type) ? typeMembers(statement.type.members) : null;
+      addExport(exports, { name: statement.name.text, kind: "type", members, file: relPath, line });
+    } else if (ts.isEnumDeclaration(statement) && exported) {
+      const members = statement.members.map((m) => propertyName(m.name)).filter((n): n is string => n !== null);
+      addExport(exports, { name: statement.name.text, kind: "enum", members, file: relPath, line });
+    } else if (ts.isClassDeclaration(statement) && exported && statement.name) {
+      addExport(exports, { name: statement.name.text, kind: "class", members: null, file: relPath, line });
+    } else if (ts.isFunctionDeclaration(statement) && exported && statement.name) {
+      addExport(exports, { name: statement.name.text, kind: "function", members: null, file: relPath, line });
+    } else if (ts.isVariableStatement(statement) && exported) {
+      for (const decl of statement.declarationList.declarations) {
+        const name = propertyName(decl.name);
+        if (name) addExport(exports, { name, kind: "variable", members: null, file: relPath, line });
+      }
+    } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        addExport(exports, { name: element.name.text, kind: "reexport", members: null, file: relPath, line });
+      }
+    }
+  }
+}
+
+function collectContractImports(file: ts.SourceFile, relPath: string, scan: WorkspaceScan) {
+  for (const statement of file.statements) {
+    const specifier = (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement))
+      ? stringValue(statement.moduleSpecifier)
+      : null;
+    if (!specifier?.startsWith(".")) continue;
+    const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(relPath), specifier));
+    const dir = contractArtifactDirectory(resolved);
+    if (dir) scan.importedContractDirs.add(dir);
+  }
+}
+
+export function parseSource(relPath: string, content: string) {
+  const ext = path.extname(relPath).toLowerCase();
+  const kind = ext === ".tsx" ? ts.ScriptKind.TSX : ext === ".jsx" ? ts.ScriptKind.JSX
+    : [".js", ".mjs", ".cjs"].includes(ext) ? ts.ScriptKind.JS
+      : ts.ScriptKind.TS;
+  return ts.createSourceFile(relPath, content, ts.ScriptTarget.Latest, true, kind);
+}
+
+// Syntactic scan of the workspace's tracked JS/TS sources. Nothing is type-checked or
+// executed, so dynamic route paths and computed exports are invisible to it.
+export async function scanWorkspace(workspacePath: string, trackedFiles: string[]): Promise<WorkspaceScan> {
+  const scan: WorkspaceScan = { routes: [], mountPrefixes: [], exports: new Map(), importedContractDirs: new Set() };
+  const sources = trackedFiles
+    .filter((f) => SOURCE_EXTENSIONS.has(path.extname(f).toLowerCase()))
+    .filter((f) => !isContractArtifactPath(f) && !SKIPPED_DIRS.some((dir) => f.startsWith(dir) || f.includes(`/${dir}`)))
+    .slice(0, MAX_SCANNED_FILES);
+
+  for (const relPath of sources) {
+    const abs = path.join(workspacePath, relPath);
+    try {
+      const stat = await fs.stat(abs);
+      if (!stat.isFile() || stat.size > MAX_FILE_BYTES) continue;
+      const file = parseSource(relPath, await fs.readFile(abs, "utf8"));
+      // Components don't register server routes, but they do make a lot of `api.get("/x", ...)` calls
+      if (!/\.(tsx|jsx)$/.test(relPath)) collectRoutes(file, relPath, scan);
+      collectExports(file, relPath, scan.exports);
+      collectContractImports(file, relPath, scan);
+    } catch {
+      // Unreadable file; skip it
+    }
+  }
+  scan.mountPrefixes = [...new Set(scan.mountPrefixes)];
+  return scan;
+}
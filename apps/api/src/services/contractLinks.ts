@@ -0,0 +1,138 @@
+import type { DependencyType } from "@prisma/client";
+
+// Heuristics behind the master's contract auto-linking pass: pull the identifiers a
+// contract declares (paths, operation ids, type/message names) and look for them in a
+// task's text and in the diffs its agent runs produced.
+
+export type ContractLinkCandidate = {
+  taskId: string;
+  contractId: string;
+  dependencyType: DependencyType;
+  reason: string;
+  score: number;
+};
+
+const PRODUCE_VERBS = /\b(implement|expose|serve|provide|define|build|create|publish)\w*\b/i;
+const CONSUME_VERBS = /\b(consum|call|fetch|integrat|client|display|render)\w*\b/i;
+const MODIFY_VERBS = /\b(update|change|modify|extend|migrate|rename|deprecate)\w*\b/i;
+
+function normalize(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9/{}_.-]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function extractContractIdentifiers(type: string, content: string): string[] {
+  const identifiers = new Set<string>();
+  const collect = (pattern: RegExp, group = 1) => {
+    for (const match of content.matchAll(pattern)) {
+      const value = match[group]?.trim();
+      if (value && value.length >= 4) identifiers.add(value);
+    }
+  };
+
+  switch (type) {
+    case "openapi":
+      collect(/^\s*["']?(\/[^\s:"']*)["']?\s*:/gm);
+      collect(/operationId:\s*["']?([A-Za-z0-9_]+)/g);
+      collect(/\$ref:\s*["']?#\/components\/schemas\/([A-Za-z0-9_]+)/g);
+      break;
+    case "typescript":
+      collect(/\b(?:interface|type|enum|class|function|const)\s+([A-Za-z_][A-Za-z0-9_]*)/g);
+      break;
+    case "protobuf":
+      collect(/\b(?:message|service|enum|rpc)\s+([A-Za-z_][A-Za-z0-9_]*)/g);
+      break;
+    case "jsonschema":
+      collect(/"(?:title|\$id)"\s*:\s*"([^"]+)"/g);
+      break;
+  }
+
+  return [...identifiers];
+}
+
+function mentions(haystack: string, identifier: string) {
+  if (identifier.startsWith("/")) {
+    // Path templates differ between spec and code (`{id}` vs `:id`), so compare the static prefix.
+    const staticPrefix = identifier.split(/[{:]/)[0].replace(/\/$/, "");
+    return staticPrefix.length >= 4 && haystack.includes(staticPrefix.toLowerCase());
+  }
+  return new RegExp(`\\b${escapeRegExp(identifier.toLowerCase())}\\b`).test(haystack);
+}
+
+function definesIdentifier(addedLines: string, identifier: string) {
+  if (identifier.startsWith("/")) {
+    const staticPrefix = identifier.split(/[{:]/)[0].replace(/\/$/, "");
+    return new RegExp(`\\.(get|post|put|patch|delete|route)\\(\\s*["'\`]${escapeRegExp(staticPrefix)}`, "i").test(addedLines);
+  }
+  return new RegExp(`\\b(interface|type|enum|class|message|service|function)\\s+${escapeRegExp(identifier)}\\b`).test(addedLines);
+}
+
+function addedLinesOf(diff: string) {
+  return diff
+    .split("\n")
+    .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+    .map((line) => line.slice(1))
+    .join("\n");
+}
+
+export function findContractLinkCandidates(params: {
+  tasks: { id: string; title: string; description: string; acceptanceCriteria: string; diff?: string | null }[];
+  contracts: { id: string; name: string; type: string; content: string }[];
+  existingLinks: { taskId: string; contractId: string }[];
+}): ContractLinkCandidate[] {
+  const linked = new Set(params.existingLinks.map((l) => `${l.taskId}:${l.contractId}`));
+  const contracts = params.contracts.map((c) => ({
+    ...c,
+    normalizedName: normalize(c.name),
+    identifiers: extractContractIdentifiers(c.type, c.content),
+  }));
+
+  const candidates: ContractLinkCandidate[] = [];
+  for (const task of params.tasks) {
+    const taskText = `${task.title}\n${task.description}\n${task.acceptanceCriteria}`;
+    const normalizedText = normalize(taskText);
+    const addedLines = task.diff ? addedLinesOf(task.diff) : "";
+    const normalizedDiff = addedLines.toLowerCase();
+
+    for (const contract of contracts) {
+      if (linked.has(`${task.id}:${contract.id}`)) continue;
+
+      const reasons: string[] = [];
+      let score = 0;
+      const mentionsName = contract.normalizedName.length >= 3 && normalizedText.includes(contract.normalizedName);
+      if (mentionsName) {
+        score += 2;
+        reasons.push(`task mentions "${contract.name}"`);
+      }
+
+      const textHits = contract.identifiers.filter((id) => mentions(normalizedText, id));
+      const diffHits = contract.identifiers.filter((id) => normalizedDiff && mentions(normalizedDiff, id));
+      const definedHits = diffHits.filter((id) => definesIdentifier(addedLines, id));
+      score += textHits.length + diffHits.length;
+      if (textHits.length > 0) reasons.push(`task references ${textHits.slice(0, 3).join(", ")}`);
+      if (diffHits.length > 0) reasons.push(`agent diff touches ${diffHits.slice(0, 3).join(", ")}`);
+
+      if (score < 2) continue;
+
+      let dependencyType: DependencyType = "consumes";
+      if (mentionsName && MODIFY_VERBS.test(taskText)) {
+        dependencyType = "modifies";
+      } else if (definedHits.length > 0 || (PRODUCE_VERBS.test(taskText) && !CONSUME_VERBS.test(taskText))) {
+        dependencyType = "produces";
+      }
+
+      candidates.push({
+        taskId: task.id,
+        contractId: contract.id,
+        dependencyType,
+        reason: reasons.join("; "),
+        score,
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,316 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import type { ContractVersion } from "@prisma/client";
+import { prisma } from "../../db";
+import { parseOpenApiDocument } from "../contractDiff/openapi";
+import { isObject, makeLocalRefResolver, type SchemaNode } from "../contractDiff/schema";
+import { sampleFromMedia } from "./sample";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const MAX_CACHED_DOCUMENTS = 32;
+const USAGE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const USAGE_CALL_LIMIT = 5000;
+
+type Resolver = (node: unknown) => SchemaNode | null;
+
+type MockOperation = {
+  key: string; // "GET /users/{id}"
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  staticSegments: number;
+  item: SchemaNode;
+  op: SchemaNode;
+};
+
+type MockDocument = {
+  doc: SchemaNode;
+  resolve: Resolver;
+  ajv: Ajv;
+  validators: Map<string, ValidateFunction | null>;
+  operations: MockOperation[];
+  basePaths: string[];
+};
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+  hasBody: boolean;
+};
+
+export type MockResponse = {
+  status: number;
+  contentType: string | null;
+  body: unknown;
+  operation: string | null;
+  violations: string[];
+};
+
+// Parsed documents and compiled validators are kept per version; versions never change.
+const documents = new Map<string, MockDocument>();
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileOperations(doc: SchemaNode, resolve: Resolver) {
+  const operations: MockOperation[] = [];
+  for (const [template, rawItem] of Object.entries(isObject(doc.paths) ? doc.paths : {})) {
+    const item = resolve(rawItem);
+    if (!item) continue;
+    const segments = template.split("/").filter(Boolean);
+    const paramNames: string[] = [];
+    const pattern = segments
+      .map((segment) => segment.replace(/\{([^}]+)\}|[^{]+/g, (part, name: string | undefined) => {
+        if (name === undefined) return escapeRegExp(part);
+        paramNames.push(name);
+        return "([^/]+)";
+      }))
+      .join("/");
+    for (const method of HTTP_METHODS) {
+      const op = resolve(item[method]);
+      if (!op) continue;
+      operations.push({
+        key: `${method.toUpperCase()} ${template}`,
+        method: method.toUpperCase(),
+        pattern: new RegExp(`^/${pattern}/?$`),
+        paramNames,
+        staticSegments: segments.filter((s) => !s.includes("{")).length,
+        item,
+        op,
+      });
+    }
+  }
+  // `/users/me` wins over `/users/{id}`.
+  return operations.sort((a, b) => b.staticSegments - a.staticSegments);
+}
+
+function loadDocument(version: ContractVersion): MockDocument {
+  const cached = documents.get(version.id);
+  if (cached) return cached;
+
+  const doc = parseOpenApiDocument(version.content);
+  const resolve = makeLocalRefResolver(doc);
+  const ajv = new Ajv({ strict: false, allErrors: true });
+  addFormats(ajv);
+  const basePaths = (Array.isArray(doc.servers) ? doc.servers : [])
+    .map((server) => (isObject(server) && typeof server.url === "string"
+      ? server.url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "").replace(/\/$/, "")
+      : ""))
+    .filter((base) => base.startsWith("/") && !base.includes("{"));
+
+  const loaded: MockDocument = { doc, resolve, ajv, validators: new Map(), operations: compileOperations(doc, resolve), basePaths };
+  if (documents.size >= MAX_CACHED_DOCUMENTS) {
+    documents.delete(documents.keys().next().value as string);
+  }
+  documents.set(version.id, loaded);
+  return loaded;
+}
+
+// Schemas are compiled with the document's `components` alongside, so local
+// `#/components/...` references resolve. Schemas ajv can't compile aren't validated.
+function validatorFor(mock: MockDocument, key: string, schema: unknown) {
+  if (!mock.validators.has(key)) {
+    let validate: ValidateFunction | null = null;
+    try {
+      validate = mock.ajv.compile(isObject(schema) ? { ...schema, components: mock.doc.components } : {});
+    } catch {
+      validate = null;
+    }
+    mock.validators.set(key, validate);
+  }
+  return mock.validators.get(key) ?? null;
+}
+
+function formatErrors(where: string, errors: ErrorObject[] | null | undefined) {
+  return (errors ?? []).map((e) => `${where}${e.instancePath} ${e.message ?? "is invalid"}`);
+}
+
+// Path and query values arrive as strings; coerce them to what the schema expects first.
+function coerce(value: unknown, schema: SchemaNode | null): unknown {
+  if (!schema) return value;
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+  if (type === "array") {
+    const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [value];
+    return items.map((item) => coerce(item, isObject(schema.items) ? schema.items : null));
+  }
+  if (Array.isArray(value)) return coerce(value[value.length - 1], schema);
+  if (typeof value !== "string") return value;
+  if ((type === "integer" || type === "number") && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value);
+  if (type === "boolean" && (value === "true" || value === "false")) return value === "true";
+  return value;
+}
+
+function matchOperation(mock: MockDocument, method: string, requestPath: string) {
+  const candidates = [requestPath, ...mock.basePaths
+    .filter((base) => requestPath.startsWith(`${base}/`))
+    .map((base) => requestPath.slice(base.length))];
+  let pathMatched = false;
+  for (const candidate of candidates) {
+    for (const operation of mock.operations) {
+      const match = operation.pattern.exec(candidate);
+      if (!match) continue;
+      pathMatched = true;
+      if (operation.method !== method) continue;
+      const params = Object.fromEntries(operation.paramNames.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+      return { operation, params, pathMatched };
+    }
+  }
+  return { operation: null, params: {}, pathMatched };
+}
+
+function validateRequest(mock: MockDocument, operation: MockOperation, params: Record<string, string>, request: MockRequest) {
+  const violations: string[] = [];
+  const parameters = [
+    ...(Array.isArray(operation.item.parameters) ? operation.item.parameters : []),
+    ...(Array.isArray(operation.op.parameters) ? operation.op.parameters : []),
+  ]
+    .map((raw) => mock.resolve(raw))
+    .filter((p): p is SchemaNode => !!p && typeof p.name === "string" && typeof p.in === "string");
+
+  for (const param of parameters) {
+    const name = param.name as string;
+    const raw = param.in === "path" ? params[name]
+      : param.in === "query" ? request.query[name]
+        : param.in === "header" ? request.headers[name.toLowerCase()]
+          : undefined;
+    if (param.in === "cookie") continue;
+    if (raw === undefined) {
+      if (param.required === true) violations.push(`${param.in} parameter "${name}" is required`);
+      continue;
+    }
+    const schema = mock.resolve(param.schema);
+    const validate = validatorFor(mock, `${operation.key}:${param.in}:${name}`, schema);
+    if (validate && !validate(coerce(raw, schema))) {
+      violations.push(...formatErrors(`${param.in} parameter "${name}"`, validate.errors));
+    }
+  }
+
+  const requestBody = mock.resolve(operation.op.requestBody);
+  if (requestBody) {
+    const content = isObject(requestBody.content) ? requestBody.content : {};
+    const contentType = String(request.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+    if (!request.hasBody) {
+      if (requestBody.required === true) violations.push("request body is required");
+    } else if (Object.keys(content).length > 0 && !(contentType in content)) {
+      violations.push(`content type "${contentType || "none"}" is not accepted (expected ${Object.keys(content).join(", ")})`);
+    } else if (/[/+]json$/.test(contentType)) {
+      const media = mock.resolve(content[contentType]);
+      const validate = media && media.schema !== undefined ? validatorFor(mock, `${operation.key}:body:${contentType}`, media.schema) : null;
+      if (validate && !validate(request.body)) violations.push(...formatErrors("body", validate.errors));
+    }
+  }
+
+  return violations;
+}
+
+// `Prefer: code=404, example=notFound` picks a specific documented response, as in Prism.
+function parsePrefer(header: string | string[] | undefined) {
+  const raw = Array.isArray(header) ? header.join(",") : header ?? "";
+  const code = /\bcode=(\d{3})\b/.exec(raw)?.[1];
+  const example = /\bexample=([\w.-]+)/.exec(raw)?.[1];
+  return { code, example };
+}
+
+function pickResponse(mock: MockDocument, operation: MockOperation, prefer: { code?: string; example?: string }) {
+  const responses = isObject(operation.op.responses) ? operation.op.responses : {};
+  const codes = Object.keys(responses);
+  const chosen = (prefer.code && codes.includes(prefer.code) ? prefer.code : null)
+    ?? codes.filter((c) => /^2\d\d$/.test(c)).sort()[0]
+    ?? codes.find((c) => /^2XX$/i.test(c))
+    ?? (codes.includes("default") ? "default" : codes[0]);
+  const status = !chosen || !/^\d{3}$/.test(chosen) ? 200 : Number(chosen);
+  const response = chosen ? mock.resolve(responses[chosen]) : null;
+  const content = response && isObject(response.content) ? response.content : {};
+  const contentType = Object.keys(content).find((type) => /[/+]json$/.test(type)) ?? Object.keys(content)[0] ?? null;
+  const media = contentType ? mock.resolve(content[contentType]) : null;
+  return {
+    status,
+    contentType,
+    body: media ? sampleFromMedia(media, mock.resolve, prefer.example) : null,
+  };
+}
+
+// Serves one request against an OpenAPI contract version: the request is validated
+// against the matched operation, and the response is the documented example or one
+// generated from the response schema.
+export function mockContractRequest(version: ContractVersion, request: MockRequest): MockResponse {
+  const mock = loadDocument(version);
+  const method = request.method.toUpperCase();
+  const { operation, params, pathMatched } = matchOperation(mock, method, request.path);
+  if (!operation) {
+    const violation = pathMatched ? `${method} is not defined for ${request.path}` : `no operation matches ${request.path}`;
+    return {
+      status: pathMatched ? 405 : 404,
+      contentType: "application/json",
+      body: { error: "Not in the contract", violations: [violation] },
+      operation: null,
+      violations: [violation],
+    };
+  }
+
+  const violations = validateRequest(mock, operation, params, request);
+  if (violations.length > 0) {
+    return {
+      status: 400,
+      contentType: "application/json",
+      body: { error: "Request does not match the contract", operation: operation.key, violations },
+      operation: operation.key,
+      violations,
+    };
+  }
+
+  return { ...pickResponse(mock, operation, parsePrefer(request.headers.prefer)), operation: operation.key, violations };
+}
+
+export type MockUsage = {
+  operation: string | null;
+  calls: number;
+  invalidCalls: number;
+  lastCalledAt: Date;
+  consumers: Array<{ userId: string; userName: string | null; taskId: string | null; taskTitle: string | null; calls: number }>;
+};
+
+// Recent mock traffic per operation, with who (and which task) made the calls.
+export async function contractMockUsage(contractId: string, since = new Date(Date.now() - USAGE_WINDOW_MS)): Promise<MockUsage[]> {
+  const calls = await prisma.contractMockCall.findMany({
+    where: { contractId, createdAt: { gte: since } },
+    orderBy: { createdAt: "desc" },
+    take: USAGE_CALL_LIMIT,
+    select: { operation: true, userId: true, taskId: true, valid: true, createdAt: true },
+  });
+  const [users, tasks] = await Promise.all([
+    prisma.user.findMany({ where: { id: { in: [...new Set(calls.map((c) => c.userId))] } }, select: { id: true, name: true } }),
+    prisma.task.findMany({
+      where: { id: { in: [...new Set(calls.map((c) => c.taskId).filter((id): id is string => !!id))] } },
+      select: { id: true, title: true },
+    }),
+  ]);
+  const userNames = new Map(users.map((u) => [u.id, u.name]));
+  const taskTitles = new Map(tasks.map((t) => [t.id, t.title]));
+
+  const byOperation = new Map<string | null, MockUsage>();
+  for (const call of calls) {
+    const usage = byOperation.get(call.operation)
+      ?? { operation: call.operation, calls: 0, invalidCalls: 0, lastCalledAt: call.createdAt, consumers: [] };
+    usage.calls += 1;
+    if (!call.valid) usage.invalidCalls += 1;
+    const consumer = usage.consumers.find((c) => c.userId === call.userId && c.taskId === call.taskId);
+    if (consumer) {
+      consumer.calls += 1;
+    } else {
+      usage.consumers.push({
+        userId: call.userId,
+        userName: userNames.get(call.userId) ?? null,
+        taskId: call.taskId,
+        taskTitle: call.taskId ? taskTitles.get(call.taskId) ?? null : null,
+        calls: 1,
+      });
+    }
+    byOperation.set(call.operation, usage);
+  }
+  return [...byOperation.values()].sort((a, b) => b.calls - a.calls);
+}
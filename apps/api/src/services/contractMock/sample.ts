@@ -0,0 +1,113 @@
+import { isObject, type SchemaNode } from "../contractDiff/schema";
+
+const MAX_SAMPLE_DEPTH = 8;
+
+type Resolver = (node: unknown) => SchemaNode | null;
+
+function sampleString(schema: SchemaNode) {
+  switch (schema.format) {
+    case "date-time":
+      return "2024-01-01T00:00:00.000Z";
+    case "date":
+      return "2024-01-01";
+    case "time":
+      return "00:00:00";
+    case "email":
+      return "user@example.com";
+    case "uuid":
+      return "3fa85f64-5717-4562-b3fc-2c963f66afa6";
+    case "uri":
+    case "url":
+      return "https://example.com";
+    case "hostname":
+      return "example.com";
+    case "ipv4":
+      return "192.0.2.1";
+    case "ipv6":
+      return "2001:db8::1";
+    case "byte":
+      return "c3RyaW5n";
+    default: {
+      const minLength = typeof schema.minLength === "number" ? schema.minLength : 0;
+      return "string".padEnd(minLength, "x");
+    }
+  }
+}
+
+function sampleNumber(schema: SchemaNode, integer: boolean) {
+  const min = typeof schema.minimum === "number" ? schema.minimum
+    : typeof schema.exclusiveMinimum === "number" ? schema.exclusiveMinimum + (integer ? 1 : 0.5)
+      : null;
+  const max = typeof schema.maximum === "number" ? schema.maximum
+    : typeof schema.exclusiveMaximum === "number" ? schema.exclusiveMaximum - (integer ? 1 : 0.5)
+      : null;
+  const value = min ?? (max !== null ? Math.min(0, max) : 0);
+  return integer ? Math.ceil(value) : value;
+}
+
+// A value that satisfies `schema`, built from its examples/defaults where it has them.
+// Constraints that can't be met by construction (patterns, `not`, conflicting bounds) are
+// ignored, so the result is a plausible sample rather than a guaranteed-valid one.
+export function sampleFromSchema(schema: unknown, resolve: Resolver, depth = 0): unknown {
+  const node = resolve(schema);
+  if (!node || depth > MAX_SAMPLE_DEPTH) return null;
+
+  if ("example" in node) return node.example;
+  if (Array.isArray(node.examples) && node.examples.length > 0) return node.examples[0];
+  if ("default" in node) return node.default;
+  if ("const" in node) return node.const;
+  if (Array.isArray(node.enum) && node.enum.length > 0) return node.enum[0];
+
+  if (Array.isArray(node.allOf) && node.allOf.length > 0) {
+    const parts = node.allOf.map((part) => sampleFromSchema(part, resolve, depth + 1));
+    return parts.every(isObject) ? Object.assign({}, ...parts) : parts[0];
+  }
+  for (const key of ["oneOf", "anyOf"]) {
+    const variants = node[key];
+    if (Array.isArray(variants) && variants.length > 0) return sampleFromSchema(variants[0], resolve, depth + 1);
+  }
+
+  const rawType = Array.isArray(node.type) ? node.type.find((t) => t !== "null") : node.type;
+  const type = rawType ?? (isObject(node.properties) ? "object" : node.items !== undefined ? "array" : undefined);
+  switch (type) {
+    case "string":
+      return sampleString(node);
+    case "integer":
+      return sampleNumber(node, true);
+    case "number":
+      return sampleNumber(node, false);
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    case "array": {
+      const count = Math.max(1, typeof node.minItems === "number" ? node.minItems : 1);
+      if (Array.isArray(node.prefixItems)) return node.prefixItems.map((item) => sampleFromSchema(item, resolve, depth + 1));
+      return Array.from({ length: count }, () => sampleFromSchema(node.items ?? {}, resolve, depth + 1));
+    }
+    case "object": {
+      const result: Record<string, unknown> = {};
+      const properties = isObject(node.properties) ? node.properties : {};
+      for (const [key, value] of Object.entries(properties)) {
+        const property = resolve(value);
+        // Write-only fields never show up in responses.
+        if (property?.writeOnly === true) continue;
+        result[key] = sampleFromSchema(value, resolve, depth + 1);
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+// The media type's own example wins over anything derived from its schema.
+export function sampleFromMedia(media: SchemaNode, resolve: Resolver, exampleName?: string) {
+  if (isObject(media.examples)) {
+    const named = exampleName ? resolve(media.examples[exampleName]) : null;
+    const first = named ?? resolve(Object.values(media.examples)[0]);
+    if (first && "value" in first) return first.value;
+  }
+  if ("example" in media) return media.example;
+  return sampleFromSchema(media.schema ?? {}, resolve);
+}
@@ -0,0 +1,93 @@
+import type { Contract, ContractProposal } from "@prisma/client";
+import { prisma } from "../db";
+import { emitEvent } from "../websocket";
+import { diffContract } from "./contractDiff";
+import { unifiedLineDiff } from "./contractDiff/lines";
+
+export type ProposalAction = "proposed" | "commented" | "reviewed" | "approved" | "rejected" | "superseded";
+
+export async function emitProposalUpdated(
+  proposal: ContractProposal,
+  contractName: string,
+  action: ProposalAction,
+  actor: { id: string; name: string } | null,
+) {
+  await emitEvent({
+    roomId: proposal.roomId,
+    visibility: "global",
+    type: "contract.proposal.updated",
+    payload: {
+      proposalId: proposal.id,
+      contractId: proposal.contractId,
+      contractName,
+      status: proposal.status,
+      action,
+      actorUserId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+    },
+  });
+}
+
+// Assignees of tasks that consume the contract have to sign off on changes to it.
+export async function requiredReviewerIds(contractId: string, proposerUserId: string) {
+  const deps = await prisma.taskContractDependency.findMany({
+    where: { contractId, dependencyType: "consumes", task: { assignedUserId: { not: null } } },
+    select: { task: { select: { assignedUserId: true } } },
+  });
+  return [...new Set(deps.map((d) => d.task.assignedUserId as string))].filter((id) => id !== proposerUserId);
+}
+
+export function reviewState(
+  proposal: Pick<ContractProposal, "requiredReviewerIds">,
+  reviews: { reviewerUserId: string; decision: "approved" | "changes_requested" }[],
+) {
+  const approved = new Set(reviews.filter((r) => r.decision === "approved").map((r) => r.reviewerUserId));
+  return {
+    approvedReviewerIds: [...approved],
+    pendingReviewerIds: proposal.requiredReviewerIds.filter((id) => !approved.has(id)),
+    changesRequestedBy: reviews.filter((r) => r.decision === "changes_requested").map((r) => r.reviewerUserId),
+  };
+}
+
+// Structural and textual diff of a proposal against the contract's current version.
+export async function proposalDiff(contract: Contract, proposal: Pick<ContractProposal, "content" | "baseVersionId">) {
+  const current = contract.currentVersionId
+    ? await prisma.contractVersion.findUnique({ where: { id: contract.currentVersionId } })
+    : null;
+  const diff = current
+    ? diffContract(contract.type, current.content, proposal.content, contract.compatibilityMode)
+    : { changes: [], breaking: false };
+  return {
+    currentVersionId: current?.id ?? null,
+    currentVersion: current?.version ?? null,
+    // The proposal was written against an older version than the one now published.
+    stale: (current?.id ?? null) !== proposal.baseVersionId,
+    changes: diff.changes,
+    breaking: diff.breaking,
+    parseError: diff.parseError ?? null,
+    textDiff: unifiedLineDiff(current?.content ?? "", proposal.content, current ? `v${current.version}` : "empty", "proposal"),
+  };
+}
+
+// Marks open proposals on a contract as superseded (e.g. after another version is published).
+export async function supersedeOpenProposals(
+  contract: Contract,
+  where: { exceptProposalId?: string; proposedByUserId?: string } = {},
+) {
+  const open = await prisma.contractProposal.findMany({
+    where: {
+      contractId: contract.id,
+      status: "open",
+      ...(where.exceptProposalId ? { id: { not: where.exceptProposalId } } : {}),
+      ...(where.proposedByUserId ? { proposedByUserId: where.proposedByUserId } : {}),
+    },
+  });
+  for (const proposal of open) {
+    const updated = await prisma.contractProposal.update({
+      where: { id: proposal.id },
+      data: { status: "superseded", decidedAt: new Date() },
+    });
+    await emitProposalUpdated(updated, contract.name, "superseded", null);
+  }
+  return open.length;
+}
@@ -0,0 +1,36 @@
+import semver from "semver";
+import type { ContractChange } from "./contractDiff";
+
+export const INITIAL_SEMVER = "1.0.0";
+
+// Versions published before semver was tracked count as `<version>.0.0`.
+export function versionSemver(version: { version: number; semver: string | null }) {
+  return version.semver ?? `${version.version}.0.0`;
+}
+
+export function isValidVersionRange(range: string) {
+  return semver.validRange(range) !== null;
+}
+
+// Next semver after `previous`: major for a breaking publish, minor when the diff found
+// (non-breaking) changes, patch when nothing structural changed. After a rollback the
+// natural next number may already be taken by a rolled-back version, so it keeps
+// bumping past every semver the contract has used.
+export function nextSemver(
+  previous: string | null,
+  diff: { breaking: boolean; changes: ContractChange[] },
+  taken: string[] = [],
+): string {
+  if (!previous) return taken.includes(INITIAL_SEMVER) ? nextSemver(INITIAL_SEMVER, diff, taken) : INITIAL_SEMVER;
+  const release = diff.breaking ? "major" : diff.changes.length > 0 ? "minor" : "patch";
+  let next = semver.inc(previous, release) ?? INITIAL_SEMVER;
+  while (taken.includes(next)) next = semver.inc(next, release) as string;
+  return next;
+}
+
+// Whether a task linked with `range` is still covered once the contract moves from
+// `previous` to `current`. Unpinned tasks follow the latest version within a major.
+export function rangeCovers(range: string | null, current: string, previous: string | null) {
+  if (range) return semver.satisfies(current, range);
+  return !previous || semver.major(current) === semver.major(previous);
+}
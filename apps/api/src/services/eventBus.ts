@@ -0,0 +1,243 @@
+import type { Event, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+
+// Durable consumption of the Event table (used as an outbox). Each consumer keeps a
+// persisted offset on Event.seq, records handled events in ProcessedEvent so replays
+// are skipped, and retries failures with backoff until they are dead-lettered.
+// Handlers apply their side effects through EventEffects, keyed on the event id, so a
+// retry after a partial failure only redoes the effects that didn't happen.
+
+export type EventEffects = {
+  // Database writes, committed in one transaction with the effect's key: exactly once.
+  write: (kind: string, apply: (tx: Prisma.TransactionClient) => Promise<unknown>) => Promise<void>;
+  // Anything else (events, kickoffs, LLM calls): the key is claimed first and released if the
+  // effect throws, so it is retried; one interrupted by a crash is not repeated.
+  once: (kind: string, apply: () => Promise<unknown>) => Promise<void>;
+};
+
+export type EventConsumerOptions = {
+  name: string;
+  types: string[];
+  handler: (event: Event, effects: EventEffects) => Promise<void>;
+  onDeadLetter?: (event: Event, error: string) => Promise<void>;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+};
+
+type ResolvedConsumerOptions = EventConsumerOptions
+  & Required<Pick<EventConsumerOptions, "pollIntervalMs" | "batchSize" | "maxAttempts" | "retryBaseMs">>;
+
+export type EventConsumer = {
+  stop: () => void;
+};
+
+// A seq is taken at insert but only becomes visible at commit, so concurrent inserts can
+// commit out of order. The offset never moves past a missing seq until the gap has been
+// open this long by the database's clock; by then the insert that took it has rolled back
+// (sequences don't hand a value out twice) rather than still being about to commit.
+const SEQ_GAP_TIMEOUT_MS = Number(process.env.EVENT_SEQ_GAP_TIMEOUT_MS) || 60_000;
+
+const wakeListeners = new Set<() => void>();
+
+// Called by emitEvent after the row is committed so consumers don't wait for the next poll.
+export function notifyEventAppended() {
+  for (const wake of wakeListeners) wake();
+}
+
+async function databaseNow() {
+  const [row] = await prisma.$queryRaw<Array<{ now: Date }>>`SELECT now() AS now`;
+  return row.now.getTime();
+}
+
+async function loadOffset(consumer: string) {
+  const existing = await prisma.eventConsumerOffset.findUnique({ where: { consumer } });
+  if (existing) return existing.lastSeq;
+
+  // A brand-new consumer starts at the head instead of replaying the whole history.
+  const head = await prisma.event.aggregate({ _max: { seq: true } });
+  const lastSeq = head._max.seq ?? 0;
+  await prisma.eventConsumerOffset.upsert({
+    where: { consumer },
+    create: { consumer, lastSeq },
+    update: {},
+  });
+  return lastSeq;
+}
+
+function eventEffects(consumer: string, eventId: string): EventEffects {
+  return {
+    write: async (kind, apply) => {
+      await prisma.$transaction(async (tx) => {
+        const claimed = await tx.eventEffect.createMany({ data: [{ consumer, eventId, kind }], skipDuplicates: true });
+        if (claimed.count > 0) await apply(tx);
+      });
+    },
+    once: async (kind, apply) => {
+      const claimed = await prisma.eventEffect.createMany({ data: [{ consumer, eventId, kind }], skipDuplicates: true });
+      if (claimed.count === 0) return;
+      try {
+        await apply();
+      } catch (err) {
+        await prisma.eventEffect.deleteMany({ where: { consumer, eventId, kind } }).catch(console.error);
+        throw err;
+      }
+    },
+  };
+}
+
+async function deliver(options: ResolvedConsumerOptions, event: Event) {
+  const { name: consumer, handler, maxAttempts, retryBaseMs, onDeadLetter } = options;
+
+  const alreadyProcessed = await prisma.processedEvent.findUnique({
+    where: { consumer_eventId: { consumer, eventId: event.id } },
+  });
+  if (alreadyProcessed) return;
+
+  try {
+    await handler(event, eventEffects(consumer, event.id));
+  } catch (err) {
+    const error = String(err).slice(0, 2000);
+    const previous = await prisma.eventDelivery.findUnique({
+      where: { consumer_eventId: { consumer, eventId: event.id } },
+    });
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const dead = attempts >= maxAttempts;
+    const backoffMs = Math.min(retryBaseMs * 2 ** (attempts - 1), 15 * 60 * 1000);
+
+    await prisma.eventDelivery.upsert({
+      where: { consumer_eventId: { consumer, eventId: event.id } },
+      create: {
+        consumer,
+        eventId: event.id,
+        attempts,
+        lastError: error,
+        status: dead ? "dead" : "retrying",
+        nextAttemptAt: new Date(Date.now() + backoffMs),
+      },
+      update: {
+        attempts,
+        lastError: error,
+        status: dead ? "dead" : "retrying",
+        nextAttemptAt: new Date(Date.now() + backoffMs),
+      },
+    });
+
+    if (dead) {
+      console.error(`Event ${event.id} (${event.type}) dead-lettered for ${consumer}:`, error);
+      await onDeadLetter?.(event, error).catch(console.error);
+    }
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.processedEvent.createMany({
+      data: [{ consumer, eventId: event.id }],
+      skipDuplicates: true,
+    }),
+    prisma.eventDelivery.deleteMany({ where: { consumer, eventId: event.id } }),
+  ]);
+}
+
+export function startEventConsumer(input: EventConsumerOptions): EventConsumer {
+  const options: ResolvedConsumerOptions = {
+    pollIntervalMs: 5000,
+    batchSize: 100,
+    maxAttempts: 5,
+    retryBaseMs: 5000,
+    ...input,
+  };
+  const { name: consumer, types, batchSize, pollIntervalMs } = options;
+
+  let running = false;
+  let rerun = false;
+  let stopped = false;
+  // First time (database clock) each missing seq was seen, keyed by the seq.
+  const gapOpenedAt = new Map<number, number>();
+
+  const tick = async () => {
+    if (stopped) return;
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+
+    try {
+      do {
+        rerun = false;
+
+        // Retries first, so a failing event doesn't wait behind a large backlog.
+        const dueRetries = await prisma.eventDelivery.findMany({
+          where: { consumer, status: "retrying", nextAttemptAt: { lte: new Date() } },
+          include: { event: true },
+          orderBy: { nextAttemptAt: "asc" },
+          take: batchSize,
+        });
+        for (const retry of dueRetries) {
+          await deliver(options, retry.event);
+        }
+
+        // Every type is read so gaps in seq are visible; other types only move the offset.
+        let lastSeq = await loadOffset(consumer);
+        let savedSeq = lastSeq;
+        const events = await prisma.event.findMany({
+          where: { seq: { gt: lastSeq } },
+          orderBy: { seq: "asc" },
+          take: batchSize,
+        });
+
+        let blocked = false;
+        for (const event of events) {
+          if (event.seq !== lastSeq + 1) {
+            const gap = lastSeq + 1;
+            const now = await databaseNow();
+            const openedAt = gapOpenedAt.get(gap) ?? now;
+            gapOpenedAt.set(gap, openedAt);
+            if (now - openedAt < SEQ_GAP_TIMEOUT_MS) {
+              blocked = true;
+              break;
+            }
+            console.warn(`Event consumer ${consumer} skipped seq ${gap}-${event.seq - 1}: not committed after ${SEQ_GAP_TIMEOUT_MS}ms`);
+            gapOpenedAt.delete(gap);
+          }
+
+          lastSeq = event.seq;
+          if (!types.includes(event.type)) continue;
+          await deliver(options, event);
+          // Offset moves only after the outcome (processed or queued for retry) is stored.
+          await prisma.eventConsumerOffset.update({ where: { consumer }, data: { lastSeq } });
+          savedSeq = lastSeq;
+        }
+        if (lastSeq !== savedSeq) {
+          await prisma.eventConsumerOffset.update({ where: { consumer }, data: { lastSeq } });
+        }
+        for (const gap of gapOpenedAt.keys()) {
+          if (gap <= lastSeq) gapOpenedAt.delete(gap);
+        }
+
+        if (events.length === batchSize && !blocked) rerun = true;
+      } while (rerun && !stopped);
+    } catch (err) {
+      console.error(`Event consumer ${consumer} error:`, err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const wake = () => {
+    tick().catch(console.error);
+  };
+  wakeListeners.add(wake);
+  const interval = setInterval(wake, pollIntervalMs);
+  wake();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(interval);
+      wakeListeners.delete(wake);
+    },
+  };
+}
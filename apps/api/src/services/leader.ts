@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import { createRedisClient } from "./redis";
+
+const LEASE_TTL_MS = Number(process.env.LEADER_LEASE_TTL_MS) || 15000;
+const RENEW_INTERVAL_MS = Math.max(1000, Math.floor(LEASE_TTL_MS / 3));
+
+// Extends the lease only if this instance still holds it.
+const RENEW_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+export const instanceId = `${process.pid}-${randomUUID().slice(0, 8)}`;
+
+export type LeaderElection = {
+  isLeader: () => boolean;
+  stop: () => Promise<void>;
+};
+
+// Holds a Redis lease (`SET key id NX PX ttl`, renewed every ttl/3). If the leader dies
+// the lease expires and another instance takes over on its next attempt.
+// Without REDIS_URL this instance is the leader for its whole lifetime.
+export function startLeaderElection(params: {
+  name: string;
+  onElected: () => void;
+  onDemoted: () => void;
+}): LeaderElection {
+  const { name, onElected, onDemoted } = params;
+  const key = `devroom:leader:${name}`;
+  const redis = createRedisClient(`leader:${name}`);
+
+  let leader = false;
+
+  if (!redis) {
+    leader = true;
+    onElected();
+    return {
+      isLeader: () => leader,
+      stop: async () => {
+        leader = false;
+        onDemoted();
+      },
+    };
+  }
+
+  const setLeader = (next: boolean) => {
+    if (next === leader) return;
+    leader = next;
+    console.log(`👑 ${name}: instance ${instanceId} ${next ? "acquired" : "lost"} leadership`);
+    if (next) onElected();
+    else onDemoted();
+  };
+
+  const attempt = async () => {
+    try {
+      if (leader) {
+        const renewed = await redis.eval(RENEW_SCRIPT, 1, key, instanceId, String(LEASE_TTL_MS));
+        setLeader(Number(renewed) === 1);
+        return;
+      }
+      const acquired = await redis.set(key, instanceId, "PX", LEASE_TTL_MS, "NX");
+      setLeader(acquired === "OK");
+    } catch (err) {
+      // Can't prove we still hold the lease; step down rather than risk two leaders.
+      console.error(`Leader election (${name}) error:`, err);
+      setLeader(false);
+    }
+  };
+
+  attempt().catch(console.error);
+  const interval = setInterval(() => {
+    attempt().catch(console.error);
+  }, RENEW_INTERVAL_MS);
+
+  return {
+    isLeader: () => leader,
+    stop: async () => {
+      clearInterval(interval);
+      if (leader) {
+        await redis.eval(RELEASE_SCRIPT, 1, key, instanceId).catch(() => undefined);
+        setLeader(false);
+      }
+      redis.disconnect();
+    },
+  };
+}
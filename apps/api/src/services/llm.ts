@@ -0,0 +1,237 @@
+import OpenAI from "openai";
+import { readFileSync } from "fs";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmModelTier = "default" | "fast";
+
+export type LlmCompletionRequest = {
+  // Stable label for the call site (e.g. "master.plan"). Replay fixtures are keyed by it.
+  purpose: string;
+  tier?: LlmModelTier;
+  maxTokens: number;
+  json?: boolean;
+  messages: LlmMessage[];
+};
+
+export type LlmProvider = {
+  name: string;
+  complete: (request: LlmCompletionRequest) => Promise<string>;
+};
+
+type ReplayEntry = string | Record<string, unknown> | ((request: LlmCompletionRequest) => string);
+export type LlmReplayScript = Record<string, ReplayEntry[]>;
+
+let activeProvider: LlmProvider | null = null;
+let providerInjected = false;
+
+function createOpenAICompatibleProvider(params: {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  models: Record<LlmModelTier, string>;
+  jsonMode: boolean;
+}): LlmProvider {
+  const client = new OpenAI({ apiKey: params.apiKey, baseURL: params.baseURL });
+
+  return {
+    name: params.name,
+    async complete(request) {
+      const response = await client.chat.completions.create({
+        model: params.models[request.tier ?? "default"],
+        max_tokens: request.maxTokens,
+        ...(request.json && params.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+        messages: request.messages,
+      });
+      return response.choices[0]?.message.content ?? "";
+    },
+  };
+}
+
+function createOpenAIProvider(): LlmProvider {
+  const model = process.env.OPENAI_MODEL?.trim() || "gpt-4o";
+  return createOpenAICompatibleProvider({
+    name: "openai",
+    apiKey: process.env.OPENAI_API_KEY ?? "",
+    models: {
+      default: model,
+      fast: process.env.OPENAI_FAST_MODEL?.trim() || "gpt-4o-mini",
+    },
+    jsonMode: true,
+  });
+}
+
+function createLocalProvider(): LlmProvider {
+  const model = process.env.LLM_MODEL?.trim() || "llama3.1";
+  return createOpenAICompatibleProvider({
+    name: "openai-compatible",
+    // Most self-hosted servers ignore the key, but the SDK refuses an empty one.
+    apiKey: process.env.LLM_API_KEY?.trim() || "local",
+    baseURL: process.env.LLM_BASE_URL?.trim(),
+    models: {
+      default: model,
+      fast: process.env.LLM_FAST_MODEL?.trim() || model,
+    },
+    jsonMode: process.env.LLM_JSON_MODE !== "false",
+  });
+}
+
+function lastUserContent(request: LlmCompletionRequest) {
+  return [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+function lastToolCall(request: LlmCompletionRequest): { tool: string; args: Record<string, unknown> } | null {
+  const content = [...request.messages].reverse().find((m) => m.role === "assistant")?.content;
+  if (!content) return null;
+  try {
+    const call = JSON.parse(content) as { tool?: unknown; args?: unknown };
+    return { tool: String(call.tool), args: (call.args ?? {}) as Record<string, unknown> };
+  } catch {
+    return null;
+  }
+}
+
+// Deterministic responses used when LLM_PROVIDER=replay and no fixture file is configured.
+// They are just rich enough to drive planning, impact analysis and one agentic pass end-to-end.
+const DEFAULT_REPLAY_SCRIPT: LlmReplayScript = {
+  "master.plan": [
+    (request) => {
+      const goal = lastUserContent(request).match(/Goal: "([^"]*)"/)?.[1] ?? "the room goal";
+      return JSON.stringify({
+        tasks: [
+          {
+            title: "Document workspace setup",
+            description: `Describe how to run the project that delivers ${goal}.`,
+            acceptanceCriteria: ["README explains how to run the project"],
+          },
+          {
+            title: "Implement core API",
+            description: `Build the first API slice for ${goal}.`,
+            acceptanceCriteria: ["API exposes a health endpoint"],
+          },
+        ],
+        dependencies: [{ fromTitle: "Document workspace setup", toTitle: "Implement core API" }],
+        contracts: [
+          {
+            name: "Core API",
+            type: "openapi",
+            initialContent: "openapi: 3.0.0\ninfo:\n  title: Core API\n  version: 1.0.0\npaths:\n  /health:\n    get:\n      responses:\n        \"200\":\n          description: OK\n",
+            summary: "Initial health endpoint",
+          },
+        ],
+        contractLinks: [{ taskTitle: "Implement core API", contractName: "Core API", dependencyType: "produces" }],
+        notesForNotebook: `Offline replay plan for: ${goal}`,
+      });
+    },
+  ],
+  "master.contract_links": [
+    (request) => {
+      const candidates = lastUserContent(request).match(/^Candidates: (.*)$/m)?.[1] ?? "[]";
+      return JSON.stringify({ links: JSON.parse(candidates) });
+    },
+  ],
+  "master.impact": [{ impactSummary: "Replay impact analysis.", recommendedActions: ["Review updated contract"] }],
+  "master.chat": ["Master agent (replay): acknowledged."],
+  "worker.chat": ["Worker agent (replay): starting on your tasks."],
+  "worker.kickoff": ["Worker agent (replay): kickoff plan posted."],
+  // One tool call per turn: read the README (its tail, when one read doesn't reach the end),
+  // append a progress note by replacing the last lines with themselves plus the note, finish.
+  "agentic.tool_loop": [
+    (request) => {
+      const task = request.messages[1]?.content.match(/^Task: (.*)$/m)?.[1] ?? "task";
+      const note = `- ${task} (replay)`;
+      const finish = JSON.stringify({ tool: "finish", args: { summary: `Replay provider recorded progress for ${task}.`, verificationCommands: [] } });
+      const last = lastToolCall(request);
+      if (!last) {
+        return JSON.stringify({ plan: ["Append a progress note to README.md"], tool: "read_file", args: { path: "README.md" } });
+      }
+      if (last.tool !== "read_file") return finish;
+
+      const observation = lastUserContent(request).split("\n\n[step ")[0];
+      if (observation.startsWith("Error:")) {
+        return JSON.stringify({ tool: "edit_file", args: { path: "README.md", content: `${note}\n` } });
+      }
+      const [header, ...body] = observation.split("\n");
+      const range = header.match(/lines (\d+)-(\d+) of (\d+)/);
+      const truncated = body[body.length - 1]?.startsWith("… (truncated");
+      if (!range) return finish;
+      const [end, total] = [Number(range[2]), Number(range[3])];
+      if (end < total || truncated) {
+        // A tail that still doesn't fit in one read is left alone.
+        if (Number(last.args.startLine) > 1) return finish;
+        return JSON.stringify({ tool: "read_file", args: { path: "README.md", startLine: Math.max(1, total - 4) } });
+      }
+      const tail = body.slice(-5).map((line) => line.replace(/^\d+\| ?/, "")).join("\n");
+      return JSON.stringify({ tool: "edit_file", args: { path: "README.md", search: tail, replace: `${tail.trimEnd()}\n\n${note}\n` } });
+    },
+  ],
+};
+
+function loadReplayScript(): LlmReplayScript {
+  const file = process.env.LLM_REPLAY_FILE?.trim();
+  if (!file) return DEFAULT_REPLAY_SCRIPT;
+  const parsed = JSON.parse(readFileSync(file, "utf8")) as LlmReplayScript;
+  return { ...DEFAULT_REPLAY_SCRIPT, ...parsed };
+}
+
+export function createReplayProvider(script: LlmReplayScript = loadReplayScript()): LlmProvider {
+  const cursors = new Map<string, number>();
+
+  return {
+    name: "replay",
+    async complete(request) {
+      const entries = script[request.purpose] ?? script["*"] ?? [];
+      if (entries.length === 0) return request.json ? "{}" : "";
+
+      // Walk the recorded responses in order and keep repeating the last one.
+      const cursor = cursors.get(request.purpose) ?? 0;
+      cursors.set(request.purpose, cursor + 1);
+      const entry = entries[Math.min(cursor, entries.length - 1)];
+      if (typeof entry === "function") return entry(request);
+      return typeof entry === "string" ? entry : JSON.stringify(entry);
+    },
+  };
+}
+
+function resolveProvider(): LlmProvider {
+  switch (process.env.LLM_PROVIDER?.trim()) {
+    case "replay":
+      return createReplayProvider();
+    case "openai-compatible":
+      return createLocalProvider();
+    default:
+      return createOpenAIProvider();
+  }
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = resolveProvider();
+  }
+  return activeProvider;
+}
+
+// Lets scripts and offline runs inject a provider (e.g. a replay script) without env changes.
+export function setLlmProvider(provider: LlmProvider | null) {
+  activeProvider = provider;
+  providerInjected = !!provider;
+}
+
+export function isLlmConfigured(): boolean {
+  if (providerInjected) return true;
+  switch (process.env.LLM_PROVIDER?.trim()) {
+    case "replay":
+      return true;
+    case "openai-compatible":
+      return !!process.env.LLM_BASE_URL?.trim();
+    default:
+      return !!process.env.OPENAI_API_KEY;
+  }
+}
+
+export function completeChat(request: LlmCompletionRequest): Promise<string> {
+  return getLlmProvider().complete(request);
+}
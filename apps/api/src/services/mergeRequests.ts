@@ -0,0 +1,146 @@
+import type { MergeRequest } from "@prisma/client";
+import { prisma } from "../db";
+import { emitEvent } from "../websocket";
+import { mergeTaskBranch } from "./roomRepo";
+import { refreshRoomCodeIndex } from "./codeIndex";
+
+async function emitMergeRequestUpdated(mr: MergeRequest, taskTitle: string) {
+  await emitEvent({
+    roomId: mr.roomId,
+    visibility: "global",
+    type: "merge_request.updated",
+    payload: {
+      mergeRequestId: mr.id,
+      taskId: mr.taskId,
+      taskTitle,
+      sourceBranch: mr.sourceBranch,
+      targetBranch: mr.targetBranch,
+      status: mr.status,
+      conflictFiles: mr.conflictFiles,
+    },
+  });
+}
+
+// Opens (or refreshes) the merge request for a task branch after an agentic commit.
+export async function openTaskMergeRequest(params: {
+  roomId: string;
+  taskId: string;
+  taskTitle: string;
+  sourceBranch: string;
+  targetBranch: string;
+  headSha: string | null;
+}) {
+  const { roomId, taskId, taskTitle, sourceBranch, targetBranch, headSha } = params;
+
+  const existing = await prisma.mergeRequest.findFirst({
+    where: { taskId, sourceBranch, status: { in: ["open", "conflicted"] } },
+  });
+
+  const mr = existing
+    ? await prisma.mergeRequest.update({
+      where: { id: existing.id },
+      data: { headSha, targetBranch, status: "open", conflictFiles: [] },
+    })
+    : await prisma.mergeRequest.create({
+      data: { roomId, taskId, sourceBranch, targetBranch, headSha, conflictFiles: [] },
+    });
+
+  await emitMergeRequestUpdated(mr, taskTitle);
+  return mr;
+}
+
+export async function getPendingMergeRequest(taskId: string) {
+  return prisma.mergeRequest.findFirst({
+    where: { taskId, status: { in: ["open", "conflicted"] } },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Merges the task branch into the room's default branch and moves the task to done.
+// On conflict the merge is aborted and the conflicted files are kept on the request.
+export async function approveAndMergeRequest(mr: MergeRequest, approver: { id: string; name: string }) {
+  const task = await prisma.task.findUnique({ where: { id: mr.taskId } });
+  if (!task) throw new Error("Task not found");
+
+  const result = await mergeTaskBranch({
+    roomId: mr.roomId,
+    sourceBranch: mr.sourceBranch,
+    targetBranch: mr.targetBranch,
+    message: `Merge ${mr.sourceBranch}: ${task.title}`,
+  });
+
+  if (!result.merged) {
+    const conflicted = await prisma.mergeRequest.update({
+      where: { id: mr.id },
+      data: { status: "conflicted", conflictFiles: result.conflictFiles },
+    });
+    await emitMergeRequestUpdated(conflicted, task.title);
+
+    await emitEvent({
+      roomId: mr.roomId,
+      visibility: "global",
+      type: "master.integration.alert",
+      payload: {
+        severity: "high",
+        message: result.conflictFiles.length > 0
+          ? `Merging "${task.title}" into ${mr.targetBranch} conflicts in: ${result.conflictFiles.join(", ")}`
+          : `Merging "${task.title}" into ${mr.targetBranch} failed: ${result.mergeError ?? "unknown error"}`,
+        relatedTaskIds: [task.id],
+        relatedContractIds: [],
+      },
+    });
+
+    return { mergeRequest: conflicted, result };
+  }
+
+  const merged = await prisma.mergeRequest.update({
+    where: { id: mr.id },
+    data: {
+      status: "merged",
+      mergeSha: result.mergeSha,
+      conflictFiles: [],
+      mergedByUserId: approver.id,
+      mergedAt: new Date(),
+    },
+  });
+  await emitMergeRequestUpdated(merged, task.title);
+  refreshRoomCodeIndex(mr.roomId).catch((err) => console.error("Code index refresh failed:", err));
+
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { status: "done", blockedReason: null },
+  });
+
+  await emitEvent({
+    roomId: mr.roomId,
+    visibility: "global",
+    type: "task.status.updated",
+    payload: { taskId: task.id, taskTitle: task.title, status: "done" },
+  });
+
+  await prisma.notebookEntry.create({
+    data: {
+      roomId: mr.roomId,
+      category: "task_update",
+      title: `Merged: ${task.title}`,
+      content: `${approver.name} approved and merged \`${mr.sourceBranch}\` into \`${mr.targetBranch}\`${result.mergeSha ? ` (${result.mergeSha})` : ""}.${result.pushError ? `\n\nPush failed: ${result.pushError}` : ""}`,
+      references: { taskIds: [task.id] },
+    },
+  });
+
+  if (result.pushError) {
+    await emitEvent({
+      roomId: mr.roomId,
+      visibility: "global",
+      type: "master.integration.alert",
+      payload: {
+        severity: "medium",
+        message: `Merged "${task.title}" locally but pushing ${mr.targetBranch} failed. Manual push may be required.`,
+        relatedTaskIds: [task.id],
+        relatedContractIds: [],
+      },
+    });
+  }
+
+  return { mergeRequest: merged, result };
+}
@@ -0,0 +1,17 @@
+import { Redis } from "ioredis";
+
+// Redis is optional: without REDIS_URL the API runs as a single node.
+export function isRedisConfigured() {
+  return !!process.env.REDIS_URL?.trim();
+}
+
+export function createRedisClient(name: string): Redis | null {
+  const url = process.env.REDIS_URL?.trim();
+  if (!url) return null;
+
+  const client = new Redis(url, { maxRetriesPerRequest: null });
+  client.on("error", (err) => {
+    console.error(`Redis (${name}) error:`, err.message);
+  });
+  return client;
+}
@@ -33,6 +33,10 @@ export type RoomRepoStatus = {
 };
 
 const roomLocks = new Map<string, Promise<void>>();
+const activeWorktrees = new Set<string>();
+// Worker worktree -> the room workspace whose .git/worktrees/ holds its gitdir.
+const worktreeWorkspaces = new Map<string, string>();
+const WORKTREE_IDLE_TTL_MS = Number(process.env.WORKTREE_IDLE_TTL_MS) || 6 * 60 * 60 * 1000; // 6 hours
 
 function slugify(value: string): string {
   return value
@@ -42,7 +46,7 @@ function slugify(value: string): string {
     .slice(0, 40) || "room";
 }
 
-function resolveBaseWorkspaceDir() {
+export function resolveBaseWorkspaceDir() {
   const raw = process.env.ROOM_WORKSPACES_DIR?.trim();
   if (!raw) {
     return path.resolve(process.cwd(), "room-workspaces");
@@ -50,6 +54,10 @@ function resolveBaseWorkspaceDir() {
   return path.resolve(raw);
 }
 
+function resolveWorktreeRoot(roomId: string) {
+  return path.join(resolveBaseWorkspaceDir(), ".worktrees", roomId);
+}
+
 function resolveWorkspacePath(room: RoomRepoInput): string {
   if (room.workspacePath) return room.workspacePath;
   const slug = slugify(room.title);
@@ -353,6 +361,17 @@ export async function getRoomRepoStatus(roomId: string): Promise<RoomRepoStatus>
     changedFilesCount = parsed.changedFiles.length;
     mergeConflictFiles = parsed.mergeConflictFiles;
 
+    // Task branch merges are aborted on conflict, so the working tree is clean again;
+    // the conflicted files live on the merge request instead.
+    const conflictedRequests = await prisma.mergeRequest.findMany({
+      where: { roomId, status: "conflicted" },
+      select: { conflictFiles: true },
+    });
+    mergeConflictFiles = Array.from(new Set([
+      ...mergeConflictFiles,
+      ...conflictedRequests.flatMap((mr) => mr.conflictFiles),
+    ]));
+
     trackedEnvFiles = await runCmd(workspacePath, "git", ["ls-files"], 60000)
       .then((r) => r.stdout.split("\n").map((s) => s.trim()).filter(Boolean))
       .then((files) => files.filter((file) => file.startsWith(".env") && !file.endsWith(".example")))
@@ -410,6 +429,19 @@ export async function getRoomRepoStatus(roomId: string): Promise<RoomRepoStatus>
   };
 }
 
+// HEAD commit and tracked files of a workspace, for checks that read the merged code.
+// Tracked files at HEAD; with `includeUntracked`, also new files not yet committed (minus ignored ones).
+export async function readRoomRepoTree(workspacePath: string, options: { includeUntracked?: boolean } = {}) {
+  const headSha = await runCmd(workspacePath, "git", ["rev-parse", "HEAD"], 60000)
+    .then((r) => r.stdout.trim())
+    .catch(() => null);
+  const args = options.includeUntracked ? ["ls-files", "--cached", "--others", "--exclude-standard"] : ["ls-files"];
+  const files = await runCmd(workspacePath, "git", args, 60000)
+    .then((r) => r.stdout.split("\n").map((s) => s.trim()).filter(Boolean))
+    .catch(() => [] as string[]);
+  return { headSha, files };
+}
+
 export async function syncRoomRepo(roomId: string) {
   const room = await prisma.room.findUnique({
     where: { id: roomId },
@@ -454,18 +486,267 @@ export async function syncRoomRepo(roomId: string) {
   };
 }
 
+export function taskBranchName(taskId: string, taskTitle: string) {
+  return `task/${taskId}-${slugify(taskTitle)}`;
+}
+
+export async function checkoutTaskBranch(params: {
+  workspacePath: string;
+  branch: string;
+  baseBranch: string;
+}) {
+  const { workspacePath, branch, baseBranch } = params;
+  const exists = await runCmd(workspacePath, "git", ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`], 60000)
+    .then(() => true)
+    .catch(() => false);
+
+  if (exists) {
+    await runCmd(workspacePath, "git", ["checkout", branch], 60000);
+    return;
+  }
+
+  try {
+    await runCmd(workspacePath, "git", ["checkout", "-b", branch, baseBranch], 60000);
+  } catch {
+    // Shallow clones may not have the default branch locally; branch from HEAD instead.
+    await runCmd(workspacePath, "git", ["checkout", "-b", branch], 60000);
+  }
+}
+
+// Worktrees can't check out the branch the room workspace is on, so idle worktrees sit
+// detached at the default branch. Leftover edits from a failed pass are discarded so they
+// don't leak into the worker's next task branch.
+export async function releaseTaskBranch(worktreePath: string, baseBranch: string) {
+  // A tampered worktree isn't cleaned with git; it's removed and recreated on the next acquire.
+  const tampered = await assertWorktreeGitLink(worktreePath).then(() => false, () => true);
+  if (tampered) {
+    await fs.rm(worktreePath, { recursive: true, force: true }).catch(() => undefined);
+    return;
+  }
+  await runCmd(worktreePath, "git", ["reset", "--hard"], 60000).catch(() => undefined);
+  await runCmd(worktreePath, "git", ["clean", "-fd"], 60000).catch(() => undefined);
+  await runCmd(worktreePath, "git", ["checkout", "--detach", baseBranch], 60000).catch(() => undefined);
+}
+
+// ─── Worker worktrees ─────────────────────────────────────────────────────────
+
+// A worktree's `.git` is a file naming its gitdir under the room repo's .git/worktrees/.
+// Repo commands run inside the worktree, and a `.git` redirected to a gitdir they created
+// could carry config (core.fsmonitor, hooks) that host-side git would execute.
+async function worktreeGitLinkIntact(worktreePath: string, workspacePath: string) {
+  const link = path.join(worktreePath, ".git");
+  const stat = await fs.lstat(link).catch(() => null);
+  if (!stat?.isFile()) return false;
+  const match = (await fs.readFile(link, "utf8").catch(() => "")).match(/^gitdir: (.+?)\s*$/);
+  if (!match) return false;
+  const gitDir = await fs.realpath(path.resolve(worktreePath, match[1])).catch(() => null);
+  const worktreesDir = await fs.realpath(path.join(workspacePath, ".git", "worktrees")).catch(() => null);
+  if (!gitDir || !worktreesDir || path.dirname(gitDir) !== worktreesDir) return false;
+  // The gitdir records which worktree it belongs to; another worker's isn't accepted.
+  const backLink = await fs.readFile(path.join(gitDir, "gitdir"), "utf8").catch(() => "");
+  const [expected, actual] = await Promise.all([
+    fs.realpath(link).catch(() => link),
+    fs.realpath(backLink.trim()).catch(() => backLink.trim()),
+  ]);
+  return expected === actual;
+}
+
+// Throws when a worker worktree's `.git` no longer points at its gitdir. Call before running
+// git in a worktree that repo commands have touched.
+export async function assertWorktreeGitLink(worktreePath: string) {
+  const workspacePath = worktreeWorkspaces.get(path.resolve(worktreePath));
+  if (!workspacePath) return;
+  if (!(await worktreeGitLinkIntact(worktreePath, workspacePath))) {
+    throw new Error(`The worktree's .git link was modified; refusing to run git in ${worktreePath}`);
+  }
+}
+
+// Provisions (or reuses) an isolated git worktree for one worker in a room, so parallel
+// agentic passes never share an index or working tree.
+export async function acquireWorkerWorktree(params: {
+  roomId: string;
+  userId: string;
+  workspacePath: string;
+  baseBranch: string;
+}) {
+  const { roomId, userId, workspacePath, baseBranch } = params;
+  const worktreePath = path.join(resolveWorktreeRoot(roomId), userId);
+  if (activeWorktrees.has(worktreePath)) {
+    throw new Error("Worker worktree is already in use by another run");
+  }
+  activeWorktrees.add(worktreePath);
+
+  try {
+    await withRoomLock(roomId, async () => {
+      const reusable = await worktreeGitLinkIntact(worktreePath, workspacePath)
+        && await runCmd(worktreePath, "git", ["rev-parse", "--is-inside-work-tree"], 60000)
+          .then((r) => r.stdout.trim() === "true")
+          .catch(() => false);
+      if (reusable) return;
+
+      await fs.rm(worktreePath, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+      await runCmd(workspacePath, "git", ["worktree", "prune"], 60000).catch(() => undefined);
+      await runCmd(workspacePath, "git", ["worktree", "add", "--detach", worktreePath, baseBranch], 120000)
+        .catch(() => runCmd(workspacePath, "git", ["worktree", "add", "--detach", worktreePath, "HEAD"], 120000));
+    });
+
+    worktreeWorkspaces.set(path.resolve(worktreePath), workspacePath);
+    const now = new Date();
+    await fs.utimes(worktreePath, now, now).catch(() => undefined);
+  } catch (err) {
+    activeWorktrees.delete(worktreePath);
+    throw err;
+  }
+
+  return worktreePath;
+}
+
+export async function releaseWorkerWorktree(worktreePath: string) {
+  const now = new Date();
+  await fs.utimes(worktreePath, now, now).catch(() => undefined);
+  activeWorktrees.delete(worktreePath);
+}
+
+// Removes worker worktrees that have been idle longer than WORKTREE_IDLE_TTL_MS.
+export async function gcIdleWorkerWorktrees(roomId: string) {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { workspacePath: true },
+  });
+  const root = resolveWorktreeRoot(roomId);
+  if (!room?.workspacePath || !(await pathExists(root))) return 0;
+  const workspacePath = room.workspacePath;
+
+  const entries = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+  let removed = 0;
+
+  await withRoomLock(roomId, async () => {
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const worktreePath = path.join(root, entry.name);
+      if (activeWorktrees.has(worktreePath)) continue;
+
+      const stat = await fs.stat(worktreePath).catch(() => null);
+      if (!stat || Date.now() - stat.mtimeMs < WORKTREE_IDLE_TTL_MS) continue;
+
+      // `git worktree remove` inspects the worktree through its .git link.
+      if (await worktreeGitLinkIntact(worktreePath, workspacePath)) {
+        await runCmd(workspacePath, "git", ["worktree", "remove", "--force", worktreePath], 60000)
+          .catch(() => fs.rm(worktreePath, { recursive: true, force: true }));
+      } else {
+        await fs.rm(worktreePath, { recursive: true, force: true });
+      }
+      worktreeWorkspaces.delete(path.resolve(worktreePath));
+      removed += 1;
+    }
+
+    if (removed > 0) {
+      await runCmd(workspacePath, "git", ["worktree", "prune"], 60000).catch(() => undefined);
+    }
+  });
+
+  return removed;
+}
+
+export type TaskBranchMergeResult = {
+  merged: boolean;
+  mergeSha: string | null;
+  conflictFiles: string[];
+  mergeError: string | null;
+  pushed: boolean;
+  pushError: string | null;
+};
+
+export async function mergeTaskBranch(params: {
+  roomId: string;
+  sourceBranch: string;
+  targetBranch: string;
+  message: string;
+}): Promise<TaskBranchMergeResult> {
+  const { roomId, sourceBranch, targetBranch, message } = params;
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: {
+      id: true,
+      title: true,
+      workspacePath: true,
+      repoRemoteUrl: true,
+      repoDefaultBranch: true,
+    },
+  });
+  if (!room) {
+    throw new Error("Room not found");
+  }
+
+  const setup = await ensureRoomRepoWorkspace(room);
+  if (!setup.repoReady) {
+    throw new Error(setup.repoLastError ?? "Repository workspace is not ready");
+  }
+  const workspacePath = setup.workspacePath;
+
+  let merged = false;
+  let mergeSha: string | null = null;
+  let conflictFiles: string[] = [];
+  let mergeError: string | null = null;
+  let pushed = false;
+  let pushError: string | null = null;
+
+  await withRoomLock(roomId, async () => {
+    await runCmd(workspacePath, "git", ["checkout", targetBranch], 60000);
+
+    try {
+      await runCmd(workspacePath, "git", ["merge", "--no-ff", "-m", message, sourceBranch], 120000);
+      merged = true;
+    } catch (err) {
+      const statusOut = await runCmd(workspacePath, "git", ["status", "--porcelain"], 60000)
+        .then((r) => r.stdout)
+        .catch(() => "");
+      conflictFiles = parseGitStatusFiles(statusOut).mergeConflictFiles;
+      mergeError = String(err).slice(0, 500);
+      await runCmd(workspacePath, "git", ["merge", "--abort"], 60000).catch(() => undefined);
+      return;
+    }
+
+    mergeSha = await runCmd(workspacePath, "git", ["rev-parse", "--short", "HEAD"], 60000)
+      .then((r) => r.stdout.trim())
+      .catch(() => null);
+
+    if (setup.repoRemoteUrl) {
+      try {
+        await runCmd(workspacePath, "git", ["push", "origin", targetBranch], 180000);
+        pushed = true;
+      } catch (err) {
+        pushError = String(err).slice(0, 500);
+      }
+    }
+  });
+
+  await prisma.room.update({
+    where: { id: roomId },
+    data: {
+      repoLastSyncedAt: new Date(),
+      repoLastError: pushError,
+    },
+  }).catch(() => undefined);
+
+  return { merged, mergeSha, conflictFiles, mergeError, pushed, pushError };
+}
+
 export async function commitAndMaybePushRoomRepo(params: {
   roomId: string;
   workspacePath: string;
   taskTitle: string;
+  push?: boolean;
 }) {
-  const { roomId, workspacePath, taskTitle } = params;
+  const { roomId, workspacePath, taskTitle, push = true } = params;
+  await assertWorktreeGitLink(workspacePath);
 
   const status = await runCmd(workspacePath, "git", ["status", "--porcelain"], 60000)
     .then((r) => r.stdout.trim())
     .catch(() => "");
   if (!status) {
-    return { committed: false, pushed: false, commitSha: null as string | null, pushError: null as string | null };
+    return { committed: false, pushed: false, commitSha: null as string | null, branch: null as string | null, pushError: null as string | null };
   }
 
   await runCmd(workspacePath, "git", ["add", "-A"], 60000);
@@ -485,7 +766,7 @@ export async function commitAndMaybePushRoomRepo(params: {
     .then((r) => r.stdout.trim())
     .catch(() => "");
 
-  if (remote) {
+  if (remote && push) {
     try {
       await runCmd(workspacePath, "git", ["push", "origin", branch], 180000);
       pushed = true;
@@ -502,5 +783,159 @@ export async function commitAndMaybePushRoomRepo(params: {
     },
   }).catch(() => undefined);
 
-  return { committed: true, pushed, commitSha, pushError };
+  return { committed: true, pushed, commitSha, branch, pushError };
+}
+
+// ─── Parked task commits ──────────────────────────────────────────────────────
+
+// A pass that needs approval commits to its task branch without pushing and leaves the
+// worktree. The decision later publishes the branch or moves it back off that commit.
+async function roomWorkspaceForBranchUpdate(roomId: string) {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: {
+      id: true,
+      title: true,
+      workspacePath: true,
+      repoRemoteUrl: true,
+      repoDefaultBranch: true,
+    },
+  });
+  if (!room) {
+    throw new Error("Room not found");
+  }
+
+  const setup = await ensureRoomRepoWorkspace(room);
+  if (!setup.repoReady) {
+    throw new Error(setup.repoLastError ?? "Repository workspace is not ready");
+  }
+  return setup;
+}
+
+export async function publishTaskBranch(params: { roomId: string; branch: string }) {
+  const { roomId, branch } = params;
+  const setup = await roomWorkspaceForBranchUpdate(roomId);
+  if (!setup.repoRemoteUrl) return { pushed: false, pushError: null as string | null };
+
+  let pushed = false;
+  let pushError: string | null = null;
+  await withRoomLock(roomId, async () => {
+    try {
+      await runCmd(setup.workspacePath, "git", ["push", "origin", branch], 180000);
+      pushed = true;
+    } catch (err) {
+      pushError = String(err).slice(0, 500);
+    }
+  });
+
+  await prisma.room.update({
+    where: { id: roomId },
+    data: {
+      repoLastSyncedAt: new Date(),
+      repoLastError: pushError,
+    },
+  }).catch(() => undefined);
+
+  return { pushed, pushError };
+}
+
+// Only drops the commit while it is still the branch tip, so nothing built on top is lost.
+export async function dropTaskBranchCommit(params: { roomId: string; branch: string; commitSha: string }) {
+  const { roomId, branch, commitSha } = params;
+  const setup = await roomWorkspaceForBranchUpdate(roomId);
+  await withRoomLock(roomId, async () => {
+    await runCmd(setup.workspacePath, "git", ["update-ref", `refs/heads/${branch}`, `${commitSha}^`, commitSha], 60000);
+  });
+}
+
+// ─── Managed files ────────────────────────────────────────────────────────────
+
+// Replaces `paths` (files or directories) on the default branch with `files` and commits only those paths,
+// so DevRoom-owned content (e.g. contract artifacts) lands next to the code without
+// picking up anything else that happens to be modified in the room workspace.
+export async function commitRoomRepoFiles(params: {
+  roomId: string;
+  paths: string[];
+  files: Array<{ path: string; content: string }>;
+  message: string;
+}) {
+  const { roomId, paths, files, message } = params;
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: {
+      id: true,
+      title: true,
+      workspacePath: true,
+      repoRemoteUrl: true,
+      repoDefaultBranch: true,
+    },
+  });
+  if (!room) {
+    throw new Error("Room not found");
+  }
+
+  const setup = await ensureRoomRepoWorkspace(room);
+  if (!setup.repoReady) {
+    throw new Error(setup.repoLastError ?? "Repository workspace is not ready");
+  }
+  const workspacePath = setup.workspacePath;
+  const workspaceRoot = path.resolve(workspacePath);
+  const resolveInside = (relPath: string) => {
+    const abs = path.resolve(workspacePath, relPath);
+    if (!abs.startsWith(`${workspaceRoot}${path.sep}`)) {
+      throw new Error(`Refusing to write outside the room workspace: ${relPath}`);
+    }
+    return abs;
+  };
+
+  let committed = false;
+  let commitSha: string | null = null;
+  let pushed = false;
+  let pushError: string | null = null;
+
+  await withRoomLock(roomId, async () => {
+    await runCmd(workspacePath, "git", ["checkout", setup.repoDefaultBranch], 60000);
+
+    for (const relPath of paths) {
+      await fs.rm(resolveInside(relPath), { recursive: true, force: true });
+    }
+    for (const file of files) {
+      const abs = resolveInside(file.path);
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      await fs.writeFile(abs, file.content, "utf8");
+    }
+
+    await runCmd(workspacePath, "git", ["add", "-A", "--", ...paths], 60000);
+    const staged = await runCmd(workspacePath, "git", ["diff", "--cached", "--name-only", "--", ...paths], 60000)
+      .then((r) => r.stdout.trim())
+      .catch(() => "");
+    if (!staged) return;
+
+    await runCmd(workspacePath, "git", ["commit", "-m", message, "--", ...paths], 120000);
+    committed = true;
+    commitSha = await runCmd(workspacePath, "git", ["rev-parse", "--short", "HEAD"], 60000)
+      .then((r) => r.stdout.trim())
+      .catch(() => null);
+
+    if (setup.repoRemoteUrl) {
+      try {
+        await runCmd(workspacePath, "git", ["push", "origin", setup.repoDefaultBranch], 180000);
+        pushed = true;
+      } catch (err) {
+        pushError = String(err).slice(0, 500);
+      }
+    }
+  });
+
+  if (committed) {
+    await prisma.room.update({
+      where: { id: roomId },
+      data: {
+        repoLastSyncedAt: new Date(),
+        repoLastError: pushError,
+      },
+    }).catch(() => undefined);
+  }
+
+  return { committed, commitSha: commitSha as string | null, pushed, pushError: pushError as string | null };
 }
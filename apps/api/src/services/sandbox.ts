@@ -0,0 +1,192 @@
+import { execFile, type ExecFileException } from "child_process";
+import { existsSync, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { resolveBaseWorkspaceDir } from "./roomRepo";
+
+// Commands from the repo (package scripts, installs) run in a bubblewrap sandbox: a fresh
+// set of namespaces, only the system and toolchain directories mounted (read-only) besides
+// the worktree and a private /tmp, no network unless allowed, a clean environment, and
+// CPU/address-space rlimits.
+// SANDBOX_MODE="off" keeps the environment and limits but drops the isolation.
+const SANDBOX_MODE = process.env.SANDBOX_MODE?.trim() || "bwrap";
+const SANDBOX_NETWORK = process.env.SANDBOX_NETWORK?.trim() || "install";
+const SANDBOX_CPU_SECONDS = Number(process.env.SANDBOX_CPU_SECONDS) || 600;
+const SANDBOX_MEMORY_MB = Number(process.env.SANDBOX_MEMORY_MB) || 4096;
+// Extra read-only mounts, e.g. ~/.pyenv when only its shims are on PATH.
+const SANDBOX_TOOLCHAIN_DIRS = (process.env.SANDBOX_TOOLCHAIN_DIRS ?? "").split(":").filter(Boolean);
+const PASSED_ENV = ["PATH", "LANG", "LC_ALL", "TZ", "TERM"];
+// Mounted read-only. Home directories and the API's own checkout aren't mounted at all.
+const SYSTEM_DIRS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/libx32", "/etc", "/run/systemd/resolve"];
+// HOME inside the worktree, so npm/go/cargo/maven caches fetched by installs outlive one command.
+export const SANDBOX_HOME_DIR = ".devroom-home";
+// bash reports a child killed by SIGXCPU (the soft RLIMIT_CPU) as 128 + 24.
+const SIGXCPU_EXIT_CODE = 152;
+
+export type SandboxPurpose = "verification" | "install";
+
+export type SandboxViolation = {
+  kind: "time_limit" | "cpu_limit" | "memory_limit" | "network" | "filesystem" | "sandbox_unavailable";
+  detail: string;
+};
+
+export type SandboxResult = {
+  ok: boolean;
+  // stdout and stderr, with a `[sandbox]` line appended when a limit or restriction was hit.
+  output: string;
+  violation: SandboxViolation | null;
+};
+
+function allowsNetwork(purpose: SandboxPurpose) {
+  return SANDBOX_NETWORK === "all" || (SANDBOX_NETWORK === "install" && purpose === "install");
+}
+
+function rustupHome() {
+  const dir = process.env.RUSTUP_HOME || path.join(os.homedir(), ".rustup");
+  return existsSync(dir) ? dir : null;
+}
+
+function sandboxEnv(root: string): Record<string, string> {
+  const env: Record<string, string> = { HOME: path.join(root, SANDBOX_HOME_DIR), CI: "true" };
+  for (const key of PASSED_ENV) {
+    const value = process.env[key];
+    if (value) env[key] = value;
+  }
+  // rustup finds its toolchains through HOME unless told otherwise.
+  const rustup = rustupHome();
+  if (rustup) env.RUSTUP_HOME = rustup;
+  return env;
+}
+
+function isWithin(dir: string, roots: string[]) {
+  return roots.some((root) => dir === root || dir.startsWith(`${root}/`));
+}
+
+// Where the API's .env may have been read from: dotenv's DOTENV_CONFIG_PATH, or the working
+// directory and its ancestors (the npm scripts source the repo root's).
+function envFileDirs() {
+  const dirs: string[] = [];
+  if (process.env.DOTENV_CONFIG_PATH) dirs.push(path.dirname(path.resolve(process.env.DOTENV_CONFIG_PATH)));
+  for (let dir = process.cwd(); ; dir = path.dirname(dir)) {
+    if (existsSync(path.join(dir, ".env"))) dirs.push(dir);
+    if (path.dirname(dir) === dir) break;
+  }
+  return dirs;
+}
+
+// Toolchains outside the system directories: the running Node's install (nvm and the like),
+// the PATH entries, rustup's toolchains and SANDBOX_TOOLCHAIN_DIRS. Only those directories
+// are mounted, not their parents.
+function toolchainDirs(hidden: string[]) {
+  const dirs = [path.resolve(process.execPath, "..", ".."), ...(process.env.PATH ?? "").split(":"), ...SANDBOX_TOOLCHAIN_DIRS];
+  const rustup = rustupHome();
+  if (rustup) dirs.push(rustup);
+  return [...new Set(dirs.filter((dir) => path.isAbsolute(dir)).map((dir) => path.resolve(dir)))]
+    .filter((dir) => dir !== "/" && existsSync(dir) && !isWithin(dir, SYSTEM_DIRS) && !isWithin(dir, hidden));
+}
+
+function limitedShell(command: string) {
+  // RLIMIT_AS is the closest portable stand-in for a memory cap; cgroups need delegation.
+  // The soft CPU limit sits below the hard one so the process gets SIGXCPU rather than SIGKILL.
+  const limits = `ulimit -t ${SANDBOX_CPU_SECONDS + 10} -v ${SANDBOX_MEMORY_MB * 1024} && ulimit -S -t ${SANDBOX_CPU_SECONDS}`;
+  return ["bash", "-c", `${limits} && exec bash -lc "$0"`, command];
+}
+
+function gitCommonDir(cwd: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile("git", ["rev-parse", "--git-common-dir"], { cwd, timeout: 10000 }, (error, stdout) => {
+      resolve(error ? null : path.resolve(cwd, stdout.trim()));
+    });
+  });
+}
+
+async function bwrapArgs(cwd: string, command: string, purpose: SandboxPurpose, readOnlyPaths: string[]) {
+  const root = path.resolve(cwd);
+  // Ancestors first, so the worktree and git dir binds land on top of the tmpfs mounts.
+  const hidden = [...new Set([process.cwd(), ...envFileDirs(), resolveBaseWorkspaceDir()])]
+    .filter((dir) => dir !== "/")
+    .sort((a, b) => a.length - b.length);
+  // A worktree's .git points into the main repo's git dir, which the tmpfs below would hide.
+  const gitDir = await gitCommonDir(root);
+  const env = sandboxEnv(root);
+  return [
+    "--die-with-parent",
+    "--new-session",
+    "--unshare-all",
+    ...(allowsNetwork(purpose) ? ["--share-net"] : []),
+    ...SYSTEM_DIRS.flatMap((dir) => ["--ro-bind-try", dir, dir]),
+    ...toolchainDirs(hidden).flatMap((dir) => ["--ro-bind-try", dir, dir]),
+    "--dev", "/dev",
+    "--proc", "/proc",
+    "--tmpfs", "/tmp",
+    // In case a system directory holds them (e.g. an API deployed under /usr/src), the API
+    // server's own files, its .env and other rooms' workspaces are hidden, not just read-only.
+    ...hidden.flatMap((dir) => ["--tmpfs", dir]),
+    ...(gitDir && !gitDir.startsWith(`${root}/`) ? ["--ro-bind", gitDir, gitDir] : []),
+    "--bind", root, root,
+    // The worktree's .git link stays put: git on the host follows it after every command.
+    ...[".git", ...readOnlyPaths]
+      .map((relPath) => path.join(root, relPath))
+      .filter((abs) => abs.startsWith(`${root}/`) && existsSync(abs))
+      .flatMap((abs) => ["--ro-bind", abs, abs]),
+    "--chdir", root,
+    "--clearenv",
+    ...Object.entries(env).flatMap(([key, value]) => ["--setenv", key, value]),
+    "--",
+    ...limitedShell(command),
+  ];
+}
+
+function detectViolation(error: ExecFileException | null, output: string, purpose: SandboxPurpose, timeoutMs: number): SandboxViolation | null {
+  if (!error) return null;
+  if (error.code === "ENOENT") {
+    return { kind: "sandbox_unavailable", detail: "bwrap is not installed; install bubblewrap or set SANDBOX_MODE=off" };
+  }
+  const bwrapError = output.match(/^bwrap: (.+)$/m);
+  if (bwrapError) return { kind: "sandbox_unavailable", detail: `bwrap failed: ${bwrapError[1]}` };
+  if (error.killed && error.code !== "ERR_CHILD_PROCESS_STDIO_MAXBUFFER") return { kind: "time_limit", detail: `killed after ${Math.round(timeoutMs / 1000)}s` };
+  if (error.code === SIGXCPU_EXIT_CODE || error.signal === "SIGXCPU") {
+    return { kind: "cpu_limit", detail: `exceeded ${SANDBOX_CPU_SECONDS}s of CPU time` };
+  }
+  if (/JavaScript heap out of memory|Fatal process OOM|Cannot allocate memory|std::bad_alloc|\bMemoryError\b|out of memory/i.test(output)) {
+    return { kind: "memory_limit", detail: `ran out of its ${SANDBOX_MEMORY_MB} MB address space` };
+  }
+  // Without the sandbox nothing is actually restricted, so failures below aren't violations.
+  if (SANDBOX_MODE === "off") return null;
+  if (!allowsNetwork(purpose)
+    && /getaddrinfo (EAI_AGAIN|ENOTFOUND)|ENETUNREACH|Network is unreachable|Could not resolve host|Temporary failure in name resolution/i.test(output)) {
+    return { kind: "network", detail: `tried to reach the network, which is disabled for ${purpose} commands` };
+  }
+  if (/Read-only file system|\bEROFS\b/.test(output)) {
+    return { kind: "filesystem", detail: "tried to write outside the worktree" };
+  }
+  return null;
+}
+
+export async function runSandboxed(params: {
+  cwd: string;
+  command: string;
+  purpose: SandboxPurpose;
+  timeoutMs: number;
+  // Worktree paths the command may read but not change (e.g. generated contract artifacts).
+  readOnlyPaths?: string[];
+}): Promise<SandboxResult> {
+  const { cwd, command, purpose, timeoutMs, readOnlyPaths = [] } = params;
+  await fs.mkdir(path.join(cwd, SANDBOX_HOME_DIR), { recursive: true });
+  const [file, args] = SANDBOX_MODE === "off"
+    ? ["env", ["-i", ...Object.entries(sandboxEnv(path.resolve(cwd))).map(([key, value]) => `${key}=${value}`), ...limitedShell(command)]]
+    : ["bwrap", await bwrapArgs(cwd, command, purpose, readOnlyPaths)];
+
+  return new Promise((resolve) => {
+    execFile(file, args, { cwd, timeout: timeoutMs, maxBuffer: 1024 * 1024 * 10 }, (error, stdout, stderr) => {
+      // error.message would repeat the whole bwrap command line
+      const output = [stdout, stderr].filter(Boolean).join("\n") || (error ? `Exited with ${error.signal ?? error.code}.` : "");
+      const violation = detectViolation(error, output, purpose, timeoutMs);
+      resolve({
+        ok: !error,
+        output: violation ? `${output}\n[sandbox] ${violation.detail}` : output,
+        violation,
+      });
+    });
+  });
+}
@@ -0,0 +1,40 @@
+import { prisma } from "../db";
+
+// Returns the dependency path that adding `fromTaskId → toTaskId` would close into a
+// cycle (starting at toTaskId and ending at fromTaskId), or null if the edge is safe.
+export async function findDependencyCycle(roomId: string, fromTaskId: string, toTaskId: string) {
+  if (fromTaskId === toTaskId) return [toTaskId, fromTaskId];
+
+  const edges = await prisma.taskDependency.findMany({
+    where: { roomId },
+    select: { fromTaskId: true, toTaskId: true },
+  });
+
+  const downstream = new Map<string, string[]>();
+  for (const edge of edges) {
+    const next = downstream.get(edge.fromTaskId) ?? [];
+    next.push(edge.toTaskId);
+    downstream.set(edge.fromTaskId, next);
+  }
+
+  // BFS from the new edge's target; reaching its source means the edge closes a loop.
+  const previous = new Map<string, string | null>([[toTaskId, null]]);
+  const queue = [toTaskId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === fromTaskId) {
+      const cyclePath: string[] = [];
+      for (let node: string | null = current; node; node = previous.get(node) ?? null) {
+        cyclePath.unshift(node);
+      }
+      return cyclePath;
+    }
+    for (const next of downstream.get(current) ?? []) {
+      if (previous.has(next)) continue;
+      previous.set(next, current);
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
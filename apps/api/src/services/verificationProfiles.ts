@@ -0,0 +1,180 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+export const DEVROOM_CONFIG_FILE = "devroom.yml";
+const VERIFICATION_KINDS = ["typecheck", "lint", "test", "build"] as const;
+const PYTEST_MARKERS = ["pytest.ini", "conftest.py", "tests/conftest.py"];
+const ESLINT_CONFIGS = [
+  "eslint.config.js", "eslint.config.mjs", "eslint.config.cjs", "eslint.config.ts",
+  ".eslintrc", ".eslintrc.js", ".eslintrc.cjs", ".eslintrc.json", ".eslintrc.yml", ".eslintrc.yaml",
+];
+
+export type VerificationKind = (typeof VERIFICATION_KINDS)[number];
+
+export type VerificationCommand = {
+  kind: VerificationKind;
+  command: string;
+  // Where the command came from: the room's devroom.yml, a package.json script, or a detected toolchain.
+  source: "devroom.yml" | "package.json" | "go" | "rust" | "python" | "maven" | "typescript" | "eslint";
+};
+
+// What the agentic verifier may run in a workspace. With a devroom.yml, exactly what it
+// declares; otherwise package.json scripts plus commands for the toolchains detected.
+export type VerificationPlan = {
+  declared: boolean;
+  // Run before the first verification command of a pass.
+  install: string[];
+  commands: VerificationCommand[];
+  // package.json scripts, which may be run when nothing is declared.
+  scripts: string[];
+  // Set when devroom.yml exists but can't be used; nothing is allowed to run then.
+  configError: string | null;
+};
+
+const commandList = z.union([z.string().min(1), z.array(z.string().min(1))]).optional();
+const devroomConfigSchema = z.object({
+  verify: z.object({
+    install: commandList,
+    typecheck: commandList,
+    lint: commandList,
+    test: commandList,
+    build: commandList,
+  }).strict(),
+});
+
+function asList(value: string | string[] | undefined) {
+  return (Array.isArray(value) ? value : value ? [value] : []).map((cmd) => cmd.trim()).filter(Boolean);
+}
+
+async function exists(cwd: string, relPath: string) {
+  return fs.access(path.join(cwd, relPath)).then(() => true, () => false);
+}
+
+async function readText(cwd: string, relPath: string) {
+  return fs.readFile(path.join(cwd, relPath), "utf8").catch(() => null);
+}
+
+async function readDevroomConfig(cwd: string): Promise<Pick<VerificationPlan, "install" | "commands" | "configError"> | null> {
+  const raw = await readText(cwd, DEVROOM_CONFIG_FILE);
+  if (raw === null) return null;
+  try {
+    const parsed = devroomConfigSchema.safeParse(parseYaml(raw));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return { install: [], commands: [], configError: `${issue.path.join(".") || "(root)"}: ${issue.message}` };
+    }
+    const { verify } = parsed.data;
+    return {
+      install: asList(verify.install),
+      commands: VERIFICATION_KINDS.flatMap((kind) => asList(verify[kind]).map((command) => ({ kind, command, source: "devroom.yml" as const }))),
+      configError: null,
+    };
+  } catch (err) {
+    return { install: [], commands: [], configError: `not valid YAML: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function packageInfo(cwd: string) {
+  const raw = await readText(cwd, "package.json");
+  if (raw === null) return null;
+  try {
+    const pkg = JSON.parse(raw) as {
+      scripts?: Record<string, string>;
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    return { scripts: pkg.scripts ?? {}, dependencies: { ...pkg.dependencies, ...pkg.devDependencies } };
+  } catch {
+    return null;
+  }
+}
+
+// Worktrees are checked out without node_modules; install from whichever lockfile the repo has.
+async function nodeInstallCommand(cwd: string) {
+  if (await exists(cwd, "node_modules")) return null;
+  if (await exists(cwd, "pnpm-lock.yaml")) return "pnpm install --frozen-lockfile";
+  if (await exists(cwd, "yarn.lock")) return "yarn install --frozen-lockfile";
+  if (await exists(cwd, "package-lock.json")) return "npm ci";
+  return "npm install --no-package-lock";
+}
+
+async function usesPytest(cwd: string) {
+  for (const marker of PYTEST_MARKERS) {
+    if (await exists(cwd, marker)) return true;
+  }
+  const pyproject = await readText(cwd, "pyproject.toml");
+  if (pyproject?.includes("[tool.pytest")) return true;
+  const setupCfg = await readText(cwd, "setup.cfg");
+  return !!setupCfg?.includes("[tool:pytest]");
+}
+
+async function detectProfiles(cwd: string): Promise<Pick<VerificationPlan, "install" | "commands" | "scripts">> {
+  const install: string[] = [];
+  const commands: VerificationCommand[] = [];
+  const pkg = await packageInfo(cwd);
+
+  if (pkg) {
+    const nodeInstall = await nodeInstallCommand(cwd);
+    if (nodeInstall) install.push(nodeInstall);
+    const script = (name: string) => Object.prototype.hasOwnProperty.call(pkg.scripts, name);
+    for (const kind of VERIFICATION_KINDS) {
+      if (script(kind)) commands.push({ kind, command: `npm run ${kind}`, source: "package.json" });
+    }
+    if (script("check")) commands.push({ kind: "typecheck", command: "npm run check", source: "package.json" });
+    if (!script("typecheck") && !script("check") && pkg.dependencies.typescript && (await exists(cwd, "tsconfig.json"))) {
+      commands.push({ kind: "typecheck", command: "npx tsc --noEmit", source: "typescript" });
+    }
+    if (!script("lint") && pkg.dependencies.eslint) {
+      for (const config of ESLINT_CONFIGS) {
+        if (!(await exists(cwd, config))) continue;
+        commands.push({ kind: "lint", command: "npx eslint .", source: "eslint" });
+        break;
+      }
+    }
+  }
+  if (await exists(cwd, "go.mod")) {
+    install.push("go mod download");
+    commands.push({ kind: "test", command: "go test ./...", source: "go" });
+  }
+  if (await exists(cwd, "Cargo.toml")) {
+    install.push("cargo fetch");
+    commands.push({ kind: "test", command: "cargo test", source: "rust" });
+  }
+  if (await usesPytest(cwd)) {
+    commands.push({ kind: "test", command: "pytest", source: "python" });
+  }
+  if (await exists(cwd, "pom.xml")) {
+    install.push("mvn -q dependency:go-offline");
+    commands.push({ kind: "test", command: "mvn -q test", source: "maven" });
+  }
+
+  // Cheapest signal first: type checks, then lint, tests and builds.
+  const order = (c: VerificationCommand) => VERIFICATION_KINDS.indexOf(c.kind);
+  commands.sort((a, b) => order(a) - order(b));
+  return { install, commands, scripts: pkg ? Object.keys(pkg.scripts) : [] };
+}
+
+export async function resolveVerificationPlan(cwd: string): Promise<VerificationPlan> {
+  const detected = await detectProfiles(cwd);
+  const config = await readDevroomConfig(cwd);
+  if (!config) return { declared: false, ...detected, configError: null };
+  return {
+    declared: true,
+    // Teams that only declare checks still get the installs their toolchains need.
+    install: config.install.length > 0 ? config.install : detected.install,
+    commands: config.commands,
+    scripts: [],
+    configError: config.configError,
+  };
+}
+
+function normalizeCommand(cmd: string) {
+  return cmd.trim().replace(/\s+/g, " ");
+}
+
+export function isPlannedCommand(plan: VerificationPlan, cmd: string) {
+  const normalized = normalizeCommand(cmd);
+  return plan.commands.some((c) => normalizeCommand(c.command) === normalized);
+}
@@ -1,29 +1,69 @@
+import type { IncomingMessage } from "http";
 import { Server as SocketServer, Socket } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
 import type { Prisma } from "@prisma/client";
+import type { SessionData } from "express-session";
 import { prisma } from "./db";
+import { notifyEventAppended } from "./services/eventBus";
+import { createRedisClient } from "./services/redis";
+import { emitSecurityAlert } from "./security";
 
 let io: SocketServer;
 
 export function initWebSocket(socketServer: SocketServer) {
   io = socketServer;
 
+  // With Redis, room broadcasts fan out to sockets connected to any API replica.
+  const pubClient = createRedisClient("socket.io-pub");
+  if (pubClient) {
+    const subClient = pubClient.duplicate();
+    subClient.on("error", (err) => {
+      console.error("Redis (socket.io-sub) error:", err.message);
+    });
+    io.adapter(createAdapter(pubClient, subClient));
+  }
+
   io.on("connection", async (socket: Socket) => {
-    const { roomId, userId, auth } = socket.handshake.auth as {
+    const { roomId, userId: claimedUserId } = socket.handshake.auth as {
       roomId: string;
-      userId: string;
-      auth: string;
+      userId?: string;
     };
 
-    if (!roomId || !userId) {
+    // The user comes from the HTTP session; the client-supplied userId is only cross-checked.
+    const request = socket.request as IncomingMessage & { session?: Partial<SessionData> };
+    const userId = request.session?.userId;
+
+    if (typeof roomId !== "string" || !roomId || !userId) {
+      socket.emit("error", { message: "Unauthorized" });
       socket.disconnect();
       return;
     }
 
-    // Verify membership
+    // Membership comes first: a room-scoped alert is only raised for rooms the user belongs to,
+    // so a socket can't write alerts into someone else's room.
     const membership = await prisma.membership.findUnique({
       where: { roomId_userId: { roomId, userId } },
     });
 
+    if (claimedUserId && claimedUserId !== userId) {
+      if (membership) {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+        emitSecurityAlert({
+          roomId,
+          userId,
+          userName: user?.name,
+          action: "socket.impersonation",
+          detail: `claimed userId=${claimedUserId}`,
+          severity: "high",
+        }).catch(console.error);
+      } else {
+        console.warn(`[WS] socket.impersonation by non-member ${userId}: claimed userId=${claimedUserId}`);
+      }
+      socket.emit("error", { message: "Session does not match requested user" });
+      socket.disconnect();
+      return;
+    }
+
     if (!membership) {
       socket.emit("error", { message: "Not a member of this room" });
       socket.disconnect();
@@ -84,9 +124,15 @@ export async function emitEvent(params: {
       : `room:${roomId}:user:${visibleToUserId}`;
 
   io?.to(room).emit("event.new", event);
+  notifyEventAppended();
   return event;
 }
 
+// Ephemeral UI hint (not persisted): tells room clients which slice of state changed.
+export function emitStatePatch(roomId: string, patch: Record<string, unknown>) {
+  io?.to(`room:${roomId}:global`).emit("state.patch", patch);
+}
+
 export async function emitMessage(
   roomId: string,
   scope: "global" | "user",
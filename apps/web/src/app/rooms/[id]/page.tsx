@@ -96,14 +96,20 @@ export default function RoomPage() {
       }
 
       // Refresh room state on task/contract changes
-      if (["task.status.updated", "task.assigned", "contract.published", "notebook.entry.added", "member.joined"].includes(evt.type)) {
+      if (["task.status.updated", "task.assigned", "contract.published", "notebook.entry.added", "member.joined", "room.settings.updated", "task.contracts.updated", "contract.settings.updated", "contract.rolled_back", "contract.deprecation.updated"].includes(evt.type)) {
         fetchRoom();
         fetchRepoStatus();
       }
     });
 
+    // Ephemeral hints for edits that don't need a notification (task CRUD, dependency edits)
+    const unsubPatch = on("state.patch", () => {
+      fetchRoom();
+    });
+
     return () => {
       if (typeof unsubEvent === "function") unsubEvent();
+      if (typeof unsubPatch === "function") unsubPatch();
     };
   }, [on, fetchRoom, fetchRepoStatus]);
 
@@ -121,6 +127,15 @@ export default function RoomPage() {
     }
   };
 
+  const updateApprovalMode = async (agentApprovalMode: "off" | "verify_only" | "always") => {
+    try {
+      await roomsApi.updateSettings(roomId, { agentApprovalMode });
+      await fetchRoom();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
   const syncRepo = async () => {
     setSyncingRepo(true);
     try {
@@ -167,6 +182,19 @@ export default function RoomPage() {
             <span>{repoStatus?.repoReady ? "Repo Ready" : "Repo Warning"}</span>
           </div>
 
+          {isAdmin && (
+            <select
+              value={room.agentApprovalMode ?? "off"}
+              onChange={(e) => updateApprovalMode(e.target.value as "off" | "verify_only" | "always")}
+              className="hidden md:block bg-surface-900 border border-white/10 rounded-lg text-xs text-slate-300 px-2 py-1"
+              title="Require human approval before agent commits"
+            >
+              <option value="off">Approval: off</option>
+              <option value="verify_only">Approval: when unverified</option>
+              <option value="always">Approval: always</option>
+            </select>
+          )}
+
           {isAdmin && (
             <button onClick={syncRepo} className="btn-ghost flex items-center gap-1.5 text-xs" disabled={syncingRepo}>
               {syncingRepo ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
@@ -246,7 +274,7 @@ export default function RoomPage() {
           <WorkerTab roomId={roomId} userId={user.id} userName={user.name} tasks={room.tasks} members={room.memberships} />
         )}
         {activeTab === "tasks" && (
-          <TasksTab roomId={roomId} tasks={room.tasks} members={room.memberships} userId={user.id} isAdmin={isAdmin} onRefresh={fetchRoom} />
+          <TasksTab roomId={roomId} tasks={room.tasks} contracts={room.contracts} members={room.memberships} userId={user.id} isAdmin={isAdmin} onRefresh={fetchRoom} />
         )}
         {activeTab === "notebook" && (
           <NotebookTab roomId={roomId} />
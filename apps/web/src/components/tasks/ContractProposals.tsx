@@ -0,0 +1,291 @@
+"use client";
+import { useState, useCallback, useEffect } from "react";
+import { contractsApi } from "../../lib/api";
+import { useSocket } from "../../hooks/useSocket";
+import { CheckCircle2, MessageSquare, XCircle, ChevronLeft, CornerDownRight } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import clsx from "clsx";
+
+const PROPOSAL_STATUS_COLORS: Record<string, string> = {
+  open: "bg-yellow-600/20 text-yellow-300",
+  approved: "bg-green-600/20 text-green-300",
+  rejected: "bg-red-600/20 text-red-300",
+  superseded: "bg-slate-700 text-slate-300",
+};
+
+interface Props {
+  roomId: string;
+  userId: string;
+  isAdmin: boolean;
+  contract: any;
+  members: any[];
+  onPublished: () => void;
+}
+
+export default function ContractProposals({ roomId, userId, isAdmin, contract, members, onPublished }: Props) {
+  const [proposals, setProposals] = useState<any[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<any>(null);
+  const [showPropose, setShowPropose] = useState(false);
+  const [proposeData, setProposeData] = useState({ summary: "", breaking: false, proposedContent: "" });
+  const [comment, setComment] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { on } = useSocket(roomId, userId);
+  const contractId = contract.id as string;
+
+  const memberName = (id: string) => members.find((m: any) => m.userId === id)?.user?.name ?? id.slice(0, 8);
+
+  const fetchProposals = useCallback(async () => {
+    const res = await contractsApi.listProposals(contractId);
+    setProposals(res.data);
+  }, [contractId]);
+
+  const fetchDetail = useCallback(async () => {
+    if (!selectedId) { setDetail(null); return; }
+    const res = await contractsApi.getProposal(selectedId);
+    setDetail(res.data);
+  }, [selectedId]);
+
+  useEffect(() => {
+    fetchProposals().catch(console.error);
+  }, [fetchProposals]);
+
+  useEffect(() => {
+    setError(null);
+    fetchDetail().catch(console.error);
+  }, [fetchDetail]);
+
+  useEffect(() => {
+    const unsub = on("event.new", (evt: any) => {
+      if (evt.payload?.contractId !== contractId) return;
+      if (["contract.proposal.updated", "contract.proposed_change", "contract.published"].includes(evt.type)) {
+        fetchProposals().catch(console.error);
+        fetchDetail().catch(console.error);
+      }
+    });
+    return unsub;
+  }, [on, contractId, fetchProposals, fetchDetail]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await Promise.all([fetchProposals(), fetchDetail()]);
+    } catch (e: any) {
+      const data = e?.response?.data;
+      setError(data?.pendingReviewerIds
+        ? `${data.error}: ${data.pendingReviewerIds.map(memberName).join(", ")}`
+        : data?.error ?? "Request failed");
+    }
+  };
+
+  const propose = () => run(async () => {
+    const res = await contractsApi.propose(contractId, proposeData);
+    setShowPropose(false);
+    setProposeData({ summary: "", breaking: false, proposedContent: "" });
+    setSelectedId(res.data.id);
+  });
+
+  const postComment = () => run(async () => {
+    await contractsApi.commentOnProposal(detail.id, { content: comment, ...(replyTo ? { parentId: replyTo } : {}) });
+    setComment("");
+    setReplyTo(null);
+  });
+
+  const approve = () => run(async () => {
+    await contractsApi.approveProposal(detail.id);
+    onPublished();
+  });
+
+  const renderComments = (parentId: string | null, depth: number): JSX.Element[] =>
+    (detail?.comments ?? [])
+      .filter((c: any) => c.parentId === parentId)
+      .map((c: any) => (
+        <div key={c.id} className={clsx(depth > 0 && "ml-4 border-l border-white/5 pl-3")}>
+          <div className="py-1.5">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-white font-medium">{c.author?.name}</span>
+              <span className="text-slate-600">{formatDistanceToNow(new Date(c.createdAt), { addSuffix: true })}</span>
+              <button onClick={() => setReplyTo(c.id)} className="text-slate-500 hover:text-brand-400 ml-auto">Reply</button>
+            </div>
+            <p className="text-xs text-slate-300 whitespace-pre-wrap mt-0.5">{c.content}</p>
+          </div>
+          {renderComments(c.id, depth + 1)}
+        </div>
+      ));
+
+  if (detail) {
+    const isOpen = detail.status === "open";
+    const myReview = detail.reviews?.find((r: any) => r.reviewerUserId === userId);
+    return (
+      <div className="space-y-3">
+        <button onClick={() => setSelectedId(null)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+          <ChevronLeft className="w-3 h-3" /> All proposals
+        </button>
+        <div className="flex items-center gap-2">
+          <span className={clsx("badge", PROPOSAL_STATUS_COLORS[detail.status])}>{detail.status}</span>
+          {(detail.breaking || detail.diff?.breaking) && <span className="badge bg-red-600/20 text-red-300">Breaking</span>}
+          <span className="text-xs text-slate-500 ml-auto">
+            {detail.proposedBy?.name} · {formatDistanceToNow(new Date(detail.createdAt), { addSuffix: true })}
+          </span>
+        </div>
+        <p className="text-sm text-slate-300">{detail.summary}</p>
+        {detail.decisionNote && <p className="text-xs text-slate-500">Decision note: {detail.decisionNote}</p>}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {/* Review status */}
+        {detail.requiredReviewerIds.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {detail.requiredReviewerIds.map((id: string) => (
+              <span
+                key={id}
+                className={clsx(
+                  "badge",
+                  detail.approvedReviewerIds.includes(id)
+                    ? "bg-green-600/20 text-green-300"
+                    : detail.changesRequestedBy.includes(id)
+                      ? "bg-red-600/20 text-red-300"
+                      : "bg-slate-800 text-slate-400",
+                )}
+              >
+                {memberName(id)}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Diff against the current version */}
+        {detail.diff?.stale && isOpen && (
+          <p className="text-xs text-amber-300">Written against an older version; diff is shown against v{detail.diff.currentVersion}.</p>
+        )}
+        {detail.diff?.changes?.length > 0 && (
+          <ul className="space-y-0.5">
+            {detail.diff.changes.map((c: any, i: number) => (
+              <li key={i} className={clsx("text-xs", c.breaking ? "text-red-300" : "text-slate-500")}>
+                {c.breaking ? "⚠ " : "• "}
+                {c.location && <span className="font-mono">{c.location}: </span>}
+                {c.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {detail.diff?.textDiff && (
+          <pre className="bg-surface-900 p-3 rounded-lg text-xs overflow-x-auto max-h-64">
+            {detail.diff.textDiff.split("\n").map((line: string, i: number) => (
+              <div
+                key={i}
+                className={clsx(
+                  line.startsWith("+") ? "text-green-300" : line.startsWith("-") ? "text-red-300" : line.startsWith("@@") ? "text-brand-400" : "text-slate-400",
+                )}
+              >
+                {line || " "}
+              </div>
+            ))}
+          </pre>
+        )}
+
+        {/* Actions */}
+        {isOpen && (
+          <div className="flex flex-wrap gap-2">
+            {detail.proposedByUserId !== userId && (
+              <>
+                <button
+                  onClick={() => run(() => contractsApi.reviewProposal(detail.id, { decision: "approved" }))}
+                  className={clsx("btn-ghost text-xs flex items-center gap-1", myReview?.decision === "approved" && "text-green-300")}
+                >
+                  <CheckCircle2 className="w-3 h-3" /> Approve
+                </button>
+                <button
+                  onClick={() => run(() => contractsApi.reviewProposal(detail.id, { decision: "changes_requested" }))}
+                  className={clsx("btn-ghost text-xs flex items-center gap-1", myReview?.decision === "changes_requested" && "text-red-300")}
+                >
+                  <XCircle className="w-3 h-3" /> Request changes
+                </button>
+              </>
+            )}
+            {isAdmin && (
+              <>
+                <button onClick={approve} className="btn-primary text-xs ml-auto" disabled={detail.pendingReviewerIds.length > 0}>
+                  Approve &amp; Publish
+                </button>
+                <button onClick={() => run(() => contractsApi.rejectProposal(detail.id))} className="btn-ghost text-xs text-red-400">
+                  Reject
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Comments */}
+        <div>
+          <p className="text-xs text-slate-500 mb-1 flex items-center gap-1">
+            <MessageSquare className="w-3 h-3" /> Discussion
+          </p>
+          {renderComments(null, 0)}
+          {replyTo && (
+            <p className="text-xs text-slate-500 flex items-center gap-1 mt-2">
+              <CornerDownRight className="w-3 h-3" /> Replying to {detail.comments.find((c: any) => c.id === replyTo)?.author?.name}
+              <button onClick={() => setReplyTo(null)} className="text-slate-400 hover:text-white ml-1">cancel</button>
+            </p>
+          )}
+          <div className="flex gap-2 mt-2">
+            <input
+              className="input text-xs"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter" && comment.trim()) postComment(); }}
+              placeholder="Add a comment…"
+            />
+            <button onClick={postComment} className="btn-primary text-xs" disabled={!comment.trim()}>Post</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500">Proposals</p>
+        <button
+          onClick={() => { setShowPropose(!showPropose); setProposeData((p) => ({ ...p, proposedContent: p.proposedContent || (contract.versions?.find((v: any) => v.id === contract.currentVersionId)?.content ?? "") })); }}
+          className="text-xs text-brand-400 hover:text-brand-300"
+        >
+          {showPropose ? "Cancel" : "Propose change"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {showPropose && (
+        <div className="space-y-2">
+          <input className="input text-sm" value={proposeData.summary} onChange={(e) => setProposeData((p) => ({ ...p, summary: e.target.value }))} placeholder="What changes and why?" />
+          <textarea className="input font-mono text-xs resize-none" rows={8} value={proposeData.proposedContent} onChange={(e) => setProposeData((p) => ({ ...p, proposedContent: e.target.value }))} />
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={proposeData.breaking} onChange={(e) => setProposeData((p) => ({ ...p, breaking: e.target.checked }))} className="rounded" />
+              <span className="text-xs text-slate-300">Breaking change</span>
+            </label>
+            <button onClick={propose} className="btn-primary text-xs ml-auto" disabled={!proposeData.summary || !proposeData.proposedContent}>Submit proposal</button>
+          </div>
+        </div>
+      )}
+      {proposals.length === 0 && !showPropose && <p className="text-xs text-slate-600">No proposals yet.</p>}
+      {proposals.map((p) => (
+        <button
+          key={p.id}
+          onClick={() => setSelectedId(p.id)}
+          className="w-full text-left px-3 py-2 rounded-lg bg-surface-900 hover:bg-brand-600/10 transition-colors"
+        >
+          <div className="flex items-center gap-2">
+            <span className={clsx("badge", PROPOSAL_STATUS_COLORS[p.status])}>{p.status}</span>
+            <span className="text-xs text-slate-300 truncate">{p.summary}</span>
+            <span className="text-xs text-slate-600 ml-auto whitespace-nowrap">
+              {p.proposedBy?.name} · {p._count?.comments ?? 0} comments
+              {p.status === "open" && p.pendingReviewerIds.length > 0 && ` · ${p.pendingReviewerIds.length} reviews pending`}
+            </span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
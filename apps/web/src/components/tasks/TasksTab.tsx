@@ -1,11 +1,30 @@
 "use client";
-import { useState } from "react";
-import { tasksApi, contractsApi } from "../../lib/api";
+import { useState, useCallback } from "react";
+import { tasksApi, contractsApi, runsApi, mergeRequestsApi, roomsApi, API_BASE } from "../../lib/api";
 import { useSocket } from "../../hooks/useSocket";
 import { useEffect } from "react";
-import { CheckCircle2, Clock, AlertTriangle, Eye, ChevronDown, Plus, FileCode } from "lucide-react";
+import { CheckCircle2, Clock, AlertTriangle, Eye, ChevronDown, Plus, FileCode, GitMerge, Pencil, Trash2, X, Link2 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import clsx from "clsx";
+import ContractProposals from "./ContractProposals";
+import type { AcceptanceCriterionResult, ContractMockUsage } from "@devroom/shared";
+
+const RUN_STATUS_COLORS: Record<string, string> = {
+  running: "bg-blue-600/20 text-blue-300",
+  awaiting_approval: "bg-amber-600/20 text-amber-300",
+  rejected: "bg-slate-700 text-slate-300",
+  succeeded: "bg-green-600/20 text-green-300",
+  blocked: "bg-red-600/20 text-red-300",
+  failed: "bg-red-600/20 text-red-300",
+  skipped: "bg-slate-700 text-slate-300",
+};
+
+const MR_STATUS_COLORS: Record<string, string> = {
+  open: "bg-yellow-600/20 text-yellow-300",
+  conflicted: "bg-red-600/20 text-red-300",
+  merged: "bg-green-600/20 text-green-300",
+  closed: "bg-slate-700 text-slate-300",
+};
 
 const STATUS_META: Record<string, { label: string; color: string; icon: any }> = {
   todo: { label: "To Do", color: "bg-slate-700 text-slate-300", icon: Clock },
@@ -15,37 +34,102 @@ const STATUS_META: Record<string, { label: string; color: string; icon: any }> =
   done: { label: "Done", color: "bg-green-600/20 text-green-300", icon: CheckCircle2 },
 };
 
+const CRITERION_STATUS_COLORS: Record<AcceptanceCriterionResult["status"], string> = {
+  passed: "bg-green-400",
+  failed: "bg-red-400",
+  untested: "bg-slate-500",
+};
+
+function criteriaPassed(results: AcceptanceCriterionResult[]) {
+  return results.filter((r) => r.status === "passed").length;
+}
+
+const DEPENDENCY_TYPES = ["consumes", "produces", "modifies"];
+const COMPATIBILITY_MODES = ["none", "backward", "forward", "full"] as const;
+
 interface Props {
   roomId: string;
   tasks: any[];
+  contracts: any[];
   members: any[];
   userId: string;
   isAdmin: boolean;
   onRefresh: () => void;
 }
 
-export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRefresh }: Props) {
+export default function TasksTab({ roomId, tasks, contracts, members, userId, isAdmin, onRefresh }: Props) {
   const [selectedTask, setSelectedTask] = useState<any>(null);
   const [selectedContract, setSelectedContract] = useState<any>(null);
   const [contractDetail, setContractDetail] = useState<any>(null);
   const [assigning, setAssigning] = useState<string | null>(null);
   const [showPublish, setShowPublish] = useState<string | null>(null);
   const [publishData, setPublishData] = useState({ summary: "", breaking: false, content: "" });
+  const [runs, setRuns] = useState<any[]>([]);
+  const [mergeRequests, setMergeRequests] = useState<any[]>([]);
+  const [merging, setMerging] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [createData, setCreateData] = useState({ title: "", description: "", acceptanceCriteria: "" });
+  const [editing, setEditing] = useState(false);
+  const [editData, setEditData] = useState({ title: "", description: "", acceptanceCriteria: "" });
+  const [taskError, setTaskError] = useState<string | null>(null);
+  const [linkSuggestions, setLinkSuggestions] = useState<any[]>([]);
+  const [suggesting, setSuggesting] = useState(false);
+  const [newLink, setNewLink] = useState({ contractId: "", dependencyType: "consumes" });
+  const [versionDiff, setVersionDiff] = useState<any>(null);
+  const [showDeprecate, setShowDeprecate] = useState(false);
+  const [deprecateData, setDeprecateData] = useState({ sunsetAt: "", note: "" });
+  const [contractError, setContractError] = useState<string | null>(null);
+  const [mockUsage, setMockUsage] = useState<ContractMockUsage[]>([]);
   const { on } = useSocket(roomId, userId);
+  const selectedTaskId = selectedTask?.id as string | undefined;
+
+  const fetchRuns = useCallback(async () => {
+    if (!selectedTaskId) { setRuns([]); return; }
+    const res = await runsApi.list(roomId, selectedTaskId);
+    setRuns(res.data);
+  }, [roomId, selectedTaskId]);
+
+  const fetchMergeRequests = useCallback(async () => {
+    if (!selectedTaskId) { setMergeRequests([]); return; }
+    const res = await mergeRequestsApi.list(roomId, selectedTaskId);
+    setMergeRequests(res.data);
+  }, [roomId, selectedTaskId]);
+
+  // Keep the detail panel in sync with live room state (closes it if the task was deleted)
+  useEffect(() => {
+    setSelectedTask((prev: any) => (prev ? tasks.find((t) => t.id === prev.id) ?? null : null));
+  }, [tasks]);
+
+  useEffect(() => {
+    setEditing(false);
+    setTaskError(null);
+  }, [selectedTaskId]);
+
+  useEffect(() => {
+    fetchRuns().catch(console.error);
+    fetchMergeRequests().catch(console.error);
+  }, [fetchRuns, fetchMergeRequests]);
 
   useEffect(() => {
     const unsub = on("event.new", (evt: any) => {
       if (["task.status.updated", "task.assigned"].includes(evt.type)) {
         onRefresh();
       }
+      if (["agent.run.updated", "agent.run.step"].includes(evt.type) && evt.payload?.taskId === selectedTaskId) {
+        fetchRuns().catch(console.error);
+      }
+      if (evt.type === "merge_request.updated" && evt.payload?.taskId === selectedTaskId) {
+        fetchMergeRequests().catch(console.error);
+      }
+      if (evt.type === "master.contract_links.suggested" && isAdmin) {
+        setLinkSuggestions((prev) => [
+          ...prev,
+          ...(evt.payload?.suggestions ?? []).filter((s: any) => !prev.some((p) => p.taskId === s.taskId && p.contractId === s.contractId)),
+        ]);
+      }
     });
     return unsub;
-  }, [on, onRefresh]);
-
-  const contracts = tasks
-    .flatMap((t) => t.contractDeps ?? [])
-    .map((d) => d.contract)
-    .filter((c, i, arr) => c && arr.findIndex((x) => x?.id === c.id) === i);
+  }, [on, onRefresh, fetchRuns, fetchMergeRequests, selectedTaskId, isAdmin]);
 
   const assign = async (taskId: string, assignedUserId: string) => {
     await tasksApi.assign(taskId, assignedUserId);
@@ -57,6 +141,62 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
     const res = await contractsApi.get(contractId);
     setContractDetail(res.data);
     setSelectedContract(contractId);
+    setMockUsage([]);
+    if (res.data.type === "openapi" && res.data.currentVersionId) {
+      contractsApi.mockUsage(roomId, contractId).then((usage) => setMockUsage(usage.data)).catch(console.error);
+    }
+  };
+
+  const closeContract = () => {
+    setContractDetail(null);
+    setSelectedContract(null);
+    setVersionDiff(null);
+    setShowDeprecate(false);
+    setContractError(null);
+    setMockUsage([]);
+  };
+
+  const toggleVersionDiff = async (contractId: string, version: number) => {
+    if (versionDiff?.to.version === version) { setVersionDiff(null); return; }
+    const res = await contractsApi.diff(contractId, version - 1, version);
+    setVersionDiff(res.data);
+  };
+
+  const rollback = async (contractId: string, version: number) => {
+    const reason = window.prompt(`Roll back to v${version}? Optional reason:`);
+    if (reason === null) return;
+    setContractError(null);
+    try {
+      await contractsApi.rollback(contractId, { version, ...(reason ? { reason } : {}) });
+      await loadContract(contractId);
+      onRefresh();
+    } catch (e) {
+      setContractError(apiError(e));
+    }
+  };
+
+  const saveDeprecation = async (contractId: string) => {
+    setContractError(null);
+    try {
+      await contractsApi.deprecate(contractId, {
+        sunsetAt: deprecateData.sunsetAt ? new Date(deprecateData.sunsetAt).toISOString() : null,
+        ...(deprecateData.note ? { note: deprecateData.note } : {}),
+      });
+      setShowDeprecate(false);
+      await loadContract(contractId);
+    } catch (e) {
+      setContractError(apiError(e));
+    }
+  };
+
+  const clearDeprecation = async (contractId: string) => {
+    await contractsApi.undeprecate(contractId);
+    await loadContract(contractId);
+  };
+
+  const updateCompatibilityMode = async (contractId: string, compatibilityMode: typeof COMPATIBILITY_MODES[number]) => {
+    const res = await contractsApi.updateSettings(contractId, { compatibilityMode });
+    setContractDetail((d: any) => (d && d.id === contractId ? { ...d, compatibilityMode: res.data.compatibilityMode } : d));
   };
 
   const publish = async (contractId: string) => {
@@ -66,12 +206,187 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
     onRefresh();
   };
 
+  const mergeRequest = async (mergeRequestId: string) => {
+    setMerging(mergeRequestId);
+    try {
+      await mergeRequestsApi.merge(mergeRequestId);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setMerging(null);
+      fetchMergeRequests().catch(console.error);
+      onRefresh();
+    }
+  };
+
+  const closeMergeRequest = async (mergeRequestId: string) => {
+    await mergeRequestsApi.close(mergeRequestId);
+    fetchMergeRequests().catch(console.error);
+  };
+
+  const apiError = (e: any) => {
+    const data = e?.response?.data;
+    if (data?.cycle) {
+      const titles = data.cycle.map((id: string) => tasks.find((t) => t.id === id)?.title ?? id);
+      return `${data.error}: ${titles.join(" → ")}`;
+    }
+    return data?.error ?? "Request failed";
+  };
+
+  const createTask = async () => {
+    try {
+      await tasksApi.create(roomId, createData);
+      setShowCreate(false);
+      setCreateData({ title: "", description: "", acceptanceCriteria: "" });
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const startEdit = () => {
+    setEditData({
+      title: selectedTask.title,
+      description: selectedTask.description,
+      acceptanceCriteria: selectedTask.acceptanceCriteria,
+    });
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    try {
+      await tasksApi.update(selectedTask.id, editData);
+      setEditing(false);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const removeTask = async (taskId: string) => {
+    if (!confirm("Delete this task? Dependent tasks will lose it as a prerequisite.")) return;
+    try {
+      await tasksApi.remove(taskId);
+      setSelectedTask(null);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const addDependency = async (taskId: string, dependsOnTaskId: string) => {
+    setTaskError(null);
+    try {
+      await tasksApi.addDependency(taskId, dependsOnTaskId);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const removeDependency = async (taskId: string, dependsOnTaskId: string) => {
+    setTaskError(null);
+    try {
+      await tasksApi.removeDependency(taskId, dependsOnTaskId);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const suggestContractLinks = async () => {
+    setSuggesting(true);
+    try {
+      const res = await roomsApi.suggestContractLinks(roomId);
+      setLinkSuggestions(res.data.suggestions);
+    } catch (e) {
+      setTaskError(apiError(e));
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const dropSuggestion = (suggestion: any) => {
+    setLinkSuggestions((prev) => prev.filter((s) => s.taskId !== suggestion.taskId || s.contractId !== suggestion.contractId));
+  };
+
+  const acceptSuggestion = async (suggestion: any) => {
+    try {
+      await tasksApi.linkContract(suggestion.taskId, suggestion.contractId, suggestion.dependencyType);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+    dropSuggestion(suggestion);
+  };
+
+  const linkContract = async (taskId: string) => {
+    setTaskError(null);
+    try {
+      await tasksApi.linkContract(taskId, newLink.contractId, newLink.dependencyType);
+      setNewLink({ contractId: "", dependencyType: "consumes" });
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const updateContractLink = async (taskId: string, contractId: string, data: { dependencyType?: string; versionRange?: string | null }) => {
+    setTaskError(null);
+    try {
+      await tasksApi.updateContractLink(taskId, contractId, data);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const unlinkContract = async (taskId: string, contractId: string) => {
+    setTaskError(null);
+    try {
+      await tasksApi.unlinkContract(taskId, contractId);
+      onRefresh();
+    } catch (e) {
+      setTaskError(apiError(e));
+    }
+  };
+
+  const currentVersionNumber: number | null = contractDetail?.versions?.find((v: any) => v.id === contractDetail.currentVersionId)?.version ?? null;
+  const canEditSelected = !!selectedTask && (isAdmin || selectedTask.assignedUserId === userId);
+
   const byStatus = (status: string) => tasks.filter((t) => t.status === status);
 
   return (
     <div className="h-full flex overflow-hidden">
       {/* Board */}
       <div className="flex-1 overflow-x-auto overflow-y-auto p-4">
+        {isAdmin && (
+          <div className="mb-3 flex gap-2">
+            <button onClick={() => { setTaskError(null); setShowCreate(true); }} className="btn-primary text-xs flex items-center gap-1">
+              <Plus className="w-3.5 h-3.5" /> New task
+            </button>
+            <button onClick={suggestContractLinks} className="btn-ghost text-xs flex items-center gap-1" disabled={suggesting || contracts.length === 0}>
+              <Link2 className="w-3.5 h-3.5" /> {suggesting ? "Suggesting…" : "Suggest contract links"}
+            </button>
+          </div>
+        )}
+        {isAdmin && linkSuggestions.length > 0 && (
+          <div className="card p-3 mb-3 space-y-1.5 max-w-3xl">
+            <p className="text-xs text-slate-400">Master suggests these task ↔ contract links:</p>
+            {linkSuggestions.map((s) => (
+              <div key={`${s.taskId}:${s.contractId}`} className="flex items-center gap-2 text-xs">
+                <span className="text-white">{s.taskTitle}</span>
+                <span className="badge bg-slate-800 text-slate-400">{s.dependencyType}</span>
+                <span className="text-brand-300">{s.contractName}</span>
+                {s.reason && <span className="text-slate-600 truncate">— {s.reason}</span>}
+                <div className="ml-auto flex gap-2 flex-shrink-0">
+                  <button onClick={() => acceptSuggestion(s)} className="btn-primary text-xs">Link</button>
+                  <button onClick={() => dropSuggestion(s)} className="btn-ghost text-xs">Dismiss</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
         <div className="flex gap-3 min-w-max h-full">
           {Object.entries(STATUS_META).map(([status, meta]) => {
             const StatusIcon = meta.icon;
@@ -99,6 +414,18 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
                           👤 {task.assignedUser.name}
                         </p>
                       )}
+                      {task.acceptanceResults?.length > 0 && (
+                        <span className={clsx(
+                          "badge text-xs mt-1.5",
+                          task.acceptanceResults.some((r: AcceptanceCriterionResult) => r.status === "failed")
+                            ? "bg-red-600/20 text-red-300"
+                            : criteriaPassed(task.acceptanceResults) === task.acceptanceResults.length
+                              ? "bg-green-600/20 text-green-300"
+                              : "bg-slate-700 text-slate-300",
+                        )}>
+                          {criteriaPassed(task.acceptanceResults)}/{task.acceptanceResults.length} AC
+                        </span>
+                      )}
                       {task.blockedReason && (
                         <p className="text-xs text-red-400 mt-1 flex items-start gap-1">
                           <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
@@ -136,21 +463,117 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
           <div className="p-4 border-b border-white/5">
             <button onClick={() => setSelectedTask(null)} className="text-xs text-slate-500 hover:text-white mb-3">✕ Close</button>
             <h3 className="font-semibold text-white mb-1">{selectedTask.title}</h3>
-            <span className={`badge text-xs ${STATUS_META[selectedTask.status]?.color}`}>
-              {STATUS_META[selectedTask.status]?.label}
-            </span>
+            <div className="flex items-center gap-2">
+              <span className={`badge text-xs ${STATUS_META[selectedTask.status]?.color}`}>
+                {STATUS_META[selectedTask.status]?.label}
+              </span>
+              <div className="ml-auto flex items-center gap-3">
+                {canEditSelected && !editing && (
+                  <button onClick={startEdit} className="text-xs text-slate-500 hover:text-white flex items-center gap-1">
+                    <Pencil className="w-3 h-3" /> Edit
+                  </button>
+                )}
+                {isAdmin && (
+                  <button onClick={() => removeTask(selectedTask.id)} className="text-xs text-slate-500 hover:text-red-400 flex items-center gap-1">
+                    <Trash2 className="w-3 h-3" /> Delete
+                  </button>
+                )}
+              </div>
+            </div>
           </div>
 
           <div className="p-4 space-y-4 flex-1">
-            <div>
-              <p className="text-xs text-slate-500 mb-1">Description</p>
-              <p className="text-sm text-slate-300">{selectedTask.description}</p>
-            </div>
+            {taskError && <p className="text-xs text-red-400">{taskError}</p>}
 
-            <div>
-              <p className="text-xs text-slate-500 mb-1">Acceptance Criteria</p>
-              <pre className="text-xs text-slate-300 whitespace-pre-wrap font-sans">{selectedTask.acceptanceCriteria}</pre>
-            </div>
+            {editing ? (
+              <div className="space-y-2">
+                <input className="input text-sm" value={editData.title} onChange={(e) => setEditData((d) => ({ ...d, title: e.target.value }))} />
+                <textarea className="input text-xs resize-none" rows={4} value={editData.description} onChange={(e) => setEditData((d) => ({ ...d, description: e.target.value }))} placeholder="Description" />
+                <textarea className="input text-xs resize-none" rows={4} value={editData.acceptanceCriteria} onChange={(e) => setEditData((d) => ({ ...d, acceptanceCriteria: e.target.value }))} placeholder="Acceptance criteria (one per line)" />
+                <div className="flex gap-2">
+                  <button onClick={() => setEditing(false)} className="btn-ghost text-xs flex-1">Cancel</button>
+                  <button onClick={saveEdit} className="btn-primary text-xs flex-1" disabled={!editData.title}>Save</button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">Description</p>
+                  <p className="text-sm text-slate-300">{selectedTask.description}</p>
+                </div>
+
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">
+                    Acceptance Criteria
+                    {selectedTask.acceptanceResults?.length > 0 && (
+                      <span className="text-slate-600">
+                        {" "}· {criteriaPassed(selectedTask.acceptanceResults)}/{selectedTask.acceptanceResults.length} passed
+                        {selectedTask.acceptanceCheckedAt && `, ${formatDistanceToNow(new Date(selectedTask.acceptanceCheckedAt), { addSuffix: true })}`}
+                      </span>
+                    )}
+                  </p>
+                  {selectedTask.acceptanceResults?.length > 0 ? (
+                    <div className="space-y-1.5">
+                      {selectedTask.acceptanceResults.map((result: AcceptanceCriterionResult) => (
+                        <div key={result.id} className="rounded-lg bg-surface-900 px-3 py-2 space-y-1">
+                          <div className="flex items-start gap-2 text-xs">
+                            <span className={clsx("w-2 h-2 rounded-full mt-1 flex-shrink-0", CRITERION_STATUS_COLORS[result.status])} title={result.status} />
+                            <span className="text-slate-500 font-mono">{result.id}</span>
+                            <span className="text-slate-300">{result.criterion}</span>
+                          </div>
+                          {result.test && <p className="text-xs text-slate-500 font-mono break-all pl-4">{result.test}</p>}
+                          {result.command && <p className="text-xs text-slate-600 font-mono break-all pl-4">$ {result.command}</p>}
+                          {result.status !== "passed" && result.detail && (
+                            <pre className={clsx(
+                              "text-xs whitespace-pre-wrap break-all max-h-32 overflow-y-auto pl-4",
+                              result.status === "failed" ? "text-red-300" : "text-slate-500",
+                            )}>{result.detail}</pre>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <pre className="text-xs text-slate-300 whitespace-pre-wrap font-sans">{selectedTask.acceptanceCriteria}</pre>
+                  )}
+                </div>
+              </>
+            )}
+
+            {(isAdmin || selectedTask.toDependencies?.length > 0) && (
+              <div>
+                <p className="text-xs text-slate-500 mb-2">Depends on</p>
+                <div className="space-y-1">
+                  {selectedTask.toDependencies?.map((dep: any) => {
+                    const depTask = tasks.find((t) => t.id === dep.fromTaskId);
+                    return (
+                      <div key={dep.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-surface-900 text-xs text-slate-300">
+                        <span className={clsx("w-2 h-2 rounded-full", depTask?.status === "done" ? "bg-green-400" : "bg-slate-500")} />
+                        <span className="truncate">{depTask?.title ?? dep.fromTaskId}</span>
+                        {isAdmin && (
+                          <button onClick={() => removeDependency(selectedTask.id, dep.fromTaskId)} className="ml-auto text-slate-500 hover:text-red-400">
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {isAdmin && (
+                    <select
+                      className="input text-xs"
+                      value=""
+                      onChange={(e) => e.target.value && addDependency(selectedTask.id, e.target.value)}
+                    >
+                      <option value="">+ Add prerequisite…</option>
+                      {tasks
+                        .filter((t) => t.id !== selectedTask.id && !selectedTask.toDependencies?.some((d: any) => d.fromTaskId === t.id))
+                        .map((t) => (
+                          <option key={t.id} value={t.id}>{t.title}</option>
+                        ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            )}
 
             {isAdmin && !selectedTask.assignedUserId && (
               <div>
@@ -169,21 +592,128 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
               </div>
             )}
 
-            {selectedTask.contractDeps?.length > 0 && (
+            {mergeRequests.length > 0 && (
+              <div>
+                <p className="text-xs text-slate-500 mb-2">Merge Requests</p>
+                <div className="space-y-2">
+                  {mergeRequests.map((mr: any) => (
+                    <div key={mr.id} className="rounded-lg bg-surface-900 p-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <GitMerge className="w-3.5 h-3.5 text-brand-400" />
+                        <span className={clsx("badge text-xs", MR_STATUS_COLORS[mr.status])}>{mr.status}</span>
+                        {(mr.mergeSha || mr.headSha) && <span className="text-xs text-slate-500 font-mono">{mr.mergeSha ?? mr.headSha}</span>}
+                      </div>
+                      <p className="text-xs text-slate-400 font-mono break-all">{mr.sourceBranch} → {mr.targetBranch}</p>
+                      {mr.conflictFiles?.length > 0 && (
+                        <p className="text-xs text-red-400">Conflicts: {mr.conflictFiles.join(", ")}</p>
+                      )}
+                      {mr.mergedBy && <p className="text-xs text-slate-500">Merged by {mr.mergedBy.name}</p>}
+                      {isAdmin && (mr.status === "open" || mr.status === "conflicted") && (
+                        <div className="flex gap-2 pt-1">
+                          <button onClick={() => mergeRequest(mr.id)} className="btn-primary text-xs flex-1" disabled={merging === mr.id}>
+                            {merging === mr.id ? "Merging…" : "Approve & merge"}
+                          </button>
+                          <button onClick={() => closeMergeRequest(mr.id)} className="btn-ghost text-xs">Close</button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {runs.length > 0 && (
+              <div>
+                <p className="text-xs text-slate-500 mb-2">Agent Runs</p>
+                <div className="space-y-2">
+                  {runs.map((run: any) => (
+                    <div key={run.id} className="rounded-lg bg-surface-900 p-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className={clsx("badge text-xs", RUN_STATUS_COLORS[run.status])}>{run.status}</span>
+                        {run.commitSha && <span className="text-xs text-slate-500 font-mono">{run.commitSha}</span>}
+                        <span className="text-xs text-slate-600 ml-auto">{formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}</span>
+                      </div>
+                      {run.outcome && <p className="text-xs text-slate-400">{run.outcome}</p>}
+                      {run.steps?.map((step: any) => (
+                        <p key={step.id} className="text-xs text-slate-500">
+                          <span className={step.status === "failed" ? "text-red-400" : step.status === "skipped" ? "text-slate-500" : "text-green-400"}>●</span>{" "}
+                          {step.phase.replace("_", " ")} · {step.summary} <span className="text-slate-600">({Math.round(step.durationMs / 100) / 10}s)</span>
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {(selectedTask.contractDeps?.length > 0 || (canEditSelected && contracts.length > 0)) && (
               <div>
                 <p className="text-xs text-slate-500 mb-2">Contract Dependencies</p>
                 <div className="space-y-1">
-                  {selectedTask.contractDeps.map((dep: any) => dep.contract && (
-                    <button
-                      key={dep.id}
-                      onClick={() => loadContract(dep.contractId)}
-                      className="w-full text-left px-3 py-2 rounded-lg bg-surface-900 hover:bg-brand-600/10 text-xs flex items-center gap-2 text-slate-300"
-                    >
-                      <FileCode className="w-3.5 h-3.5 text-brand-400" />
-                      {dep.contract.name}
-                      <span className="text-slate-600 ml-auto">{dep.dependencyType}</span>
-                    </button>
+                  {selectedTask.contractDeps?.map((dep: any) => dep.contract && (
+                    <div key={dep.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-surface-900 text-xs text-slate-300">
+                      <button onClick={() => loadContract(dep.contractId)} className="flex items-center gap-2 hover:text-white truncate">
+                        <FileCode className="w-3.5 h-3.5 text-brand-400 flex-shrink-0" />
+                        {dep.contract.name}
+                        {dep.contract.deprecatedAt && (
+                          <span className="badge bg-amber-600/20 text-amber-300" title={dep.contract.sunsetAt ? `Sunset ${new Date(dep.contract.sunsetAt).toLocaleDateString()}` : undefined}>
+                            deprecated
+                          </span>
+                        )}
+                      </button>
+                      {canEditSelected ? (
+                        <>
+                          <select
+                            className="ml-auto bg-transparent text-slate-500 text-xs"
+                            value={dep.dependencyType}
+                            onChange={(e) => updateContractLink(selectedTask.id, dep.contractId, { dependencyType: e.target.value })}
+                          >
+                            {DEPENDENCY_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+                          </select>
+                          {dep.dependencyType === "consumes" && (
+                            <input
+                              key={`${dep.id}:${dep.versionRange ?? ""}`}
+                              className="w-20 bg-transparent border-b border-white/10 text-slate-400 text-xs focus:outline-none"
+                              defaultValue={dep.versionRange ?? ""}
+                              placeholder="latest"
+                              title="Pinned semver range, e.g. ^1.2.0; empty follows the latest version within a major"
+                              onBlur={(e) => {
+                                const versionRange = e.target.value.trim() || null;
+                                if (versionRange !== (dep.versionRange ?? null)) updateContractLink(selectedTask.id, dep.contractId, { versionRange });
+                              }}
+                            />
+                          )}
+                          <button onClick={() => unlinkContract(selectedTask.id, dep.contractId)} className="text-slate-500 hover:text-red-400">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-slate-600 ml-auto">{dep.dependencyType}{dep.versionRange ? ` · ${dep.versionRange}` : ""}</span>
+                      )}
+                    </div>
                   ))}
+                  {canEditSelected && (
+                    <div className="flex gap-1">
+                      <select
+                        className="input text-xs flex-1"
+                        value={newLink.contractId}
+                        onChange={(e) => setNewLink((l) => ({ ...l, contractId: e.target.value }))}
+                      >
+                        <option value="">+ Link contract…</option>
+                        {contracts
+                          .filter((c) => !selectedTask.contractDeps?.some((d: any) => d.contractId === c.id))
+                          .map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                      </select>
+                      <select
+                        className="input text-xs w-24"
+                        value={newLink.dependencyType}
+                        onChange={(e) => setNewLink((l) => ({ ...l, dependencyType: e.target.value }))}
+                      >
+                        {DEPENDENCY_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                      <button onClick={() => linkContract(selectedTask.id)} className="btn-primary text-xs" disabled={!newLink.contractId}>Add</button>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -199,28 +729,138 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
               <div>
                 <h3 className="font-semibold text-white">{contractDetail.name}</h3>
                 <p className="text-xs text-slate-500">{contractDetail.type} · {contractDetail.versions?.length ?? 0} versions</p>
+                {contractDetail.deprecatedAt && (
+                  <p className="text-xs text-amber-300 mt-1">
+                    Deprecated{contractDetail.sunsetAt ? ` · sunset ${new Date(contractDetail.sunsetAt).toLocaleDateString()}` : ""}
+                    {contractDetail.deprecationNote ? ` · ${contractDetail.deprecationNote}` : ""}
+                    {isAdmin && <button onClick={() => clearDeprecation(contractDetail.id)} className="ml-2 text-slate-400 hover:text-white">Undeprecate</button>}
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
+                {(contractDetail.type === "jsonschema" || contractDetail.type === "protobuf") && (
+                  isAdmin ? (
+                    <select
+                      className="bg-transparent text-slate-400 text-xs"
+                      value={contractDetail.compatibilityMode}
+                      onChange={(e) => updateCompatibilityMode(contractDetail.id, e.target.value as typeof COMPATIBILITY_MODES[number])}
+                      title="Compatibility mode checked on publish"
+                    >
+                      {COMPATIBILITY_MODES.map((m) => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                  ) : (
+                    <span className="badge bg-slate-800 text-slate-400">compat: {contractDetail.compatibilityMode}</span>
+                  )
+                )}
                 {isAdmin && (
                   <button
-                    onClick={() => { setShowPublish(contractDetail.id); setPublishData({ summary: "", breaking: false, content: contractDetail.versions?.[0]?.content ?? "" }); }}
+                    onClick={() => {
+                      setShowDeprecate(!showDeprecate);
+                      setDeprecateData({ sunsetAt: contractDetail.sunsetAt?.slice(0, 10) ?? "", note: contractDetail.deprecationNote ?? "" });
+                    }}
+                    className="btn-ghost text-xs"
+                  >
+                    {contractDetail.deprecatedAt ? "Edit Sunset" : "Deprecate"}
+                  </button>
+                )}
+                {isAdmin && (
+                  <button
+                    onClick={() => {
+                      const current = contractDetail.versions?.find((v: any) => v.id === contractDetail.currentVersionId);
+                      setShowPublish(contractDetail.id);
+                      setPublishData({ summary: "", breaking: false, content: current?.content ?? "" });
+                    }}
                     className="btn-primary text-xs"
                   >
                     Publish New Version
                   </button>
                 )}
-                <button onClick={() => { setContractDetail(null); setSelectedContract(null); }} className="btn-ghost text-xs">Close</button>
+                <button onClick={closeContract} className="btn-ghost text-xs">Close</button>
               </div>
             </div>
             <div className="flex-1 overflow-y-auto p-4">
+              {contractError && <p className="text-xs text-red-400 mb-3">{contractError}</p>}
+              {showDeprecate && (
+                <div className="mb-4 pb-4 border-b border-white/5 flex items-end gap-2">
+                  <div>
+                    <label className="text-xs text-slate-400 block mb-1">Sunset date</label>
+                    <input type="date" className="input text-xs" value={deprecateData.sunsetAt} onChange={(e) => setDeprecateData((d) => ({ ...d, sunsetAt: e.target.value }))} />
+                  </div>
+                  <div className="flex-1">
+                    <label className="text-xs text-slate-400 block mb-1">Note</label>
+                    <input className="input text-xs" value={deprecateData.note} onChange={(e) => setDeprecateData((d) => ({ ...d, note: e.target.value }))} placeholder="Migrate to …" />
+                  </div>
+                  <button onClick={() => saveDeprecation(contractDetail.id)} className="btn-primary text-xs">Save</button>
+                </div>
+              )}
+              {contractDetail.type === "openapi" && contractDetail.currentVersionId && (
+                <div className="mb-4 pb-4 border-b border-white/5">
+                  <p className="text-xs text-slate-400 mb-1">Mock server</p>
+                  <code className="text-xs text-slate-300 break-all">{`${API_BASE}/rooms/${roomId}/contracts/${contractDetail.id}/mock/…`}</code>
+                  {mockUsage.length === 0 ? (
+                    <p className="text-xs text-slate-500 mt-2">No mock calls in the last 7 days.</p>
+                  ) : (
+                    <div className="mt-2 space-y-1">
+                      {mockUsage.map((usage) => (
+                        <div key={usage.operation ?? "unmatched"} className="text-xs">
+                          <span className="font-mono text-slate-300">{usage.operation ?? "unmatched"}</span>
+                          <span className="text-slate-500"> · {usage.calls} call{usage.calls === 1 ? "" : "s"}</span>
+                          {usage.invalidCalls > 0 && <span className="text-amber-300"> · {usage.invalidCalls} invalid</span>}
+                          <span className="text-slate-500"> · {usage.consumers.map((c) => `${c.userName ?? "unknown"}${c.taskTitle ? ` (${c.taskTitle})` : ""}`).join(", ")}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="mb-4 pb-4 border-b border-white/5">
+                <ContractProposals
+                  roomId={roomId}
+                  userId={userId}
+                  isAdmin={isAdmin}
+                  contract={contractDetail}
+                  members={members}
+                  onPublished={() => { loadContract(contractDetail.id).catch(console.error); onRefresh(); }}
+                />
+              </div>
               {contractDetail.versions?.map((v: any) => (
                 <div key={v.id} className="mb-4">
                   <div className="flex items-center gap-2 mb-2">
                     <span className="text-xs font-medium text-white">v{v.version}</span>
+                    <span className="text-xs text-slate-500">{v.semver ?? `${v.version}.0.0`}</span>
+                    {v.id === contractDetail.currentVersionId && <span className="badge bg-brand-600/20 text-brand-400">current</span>}
                     {v.breaking && <span className="badge bg-red-600/20 text-red-300">Breaking</span>}
+                    {v.version > 1 && (
+                      <button onClick={() => toggleVersionDiff(contractDetail.id, v.version)} className="text-xs text-slate-500 hover:text-white">
+                        {versionDiff?.to.version === v.version ? "Hide diff" : `Diff vs v${v.version - 1}`}
+                      </button>
+                    )}
+                    {isAdmin && currentVersionNumber !== null && v.version < currentVersionNumber && (
+                      <button onClick={() => rollback(contractDetail.id, v.version)} className="text-xs text-slate-500 hover:text-amber-300">Roll back to this</button>
+                    )}
                     <span className="text-xs text-slate-500 ml-auto">{formatDistanceToNow(new Date(v.createdAt), { addSuffix: true })}</span>
                   </div>
+                  {versionDiff?.to.version === v.version && versionDiff.textDiff && (
+                    <pre className="bg-surface-900 p-3 rounded-lg text-xs overflow-x-auto mb-2">
+                      {versionDiff.textDiff.split("\n").map((line: string, i: number) => (
+                        <div key={i} className={clsx(line.startsWith("+") ? "text-green-300" : line.startsWith("-") ? "text-red-300" : line.startsWith("@@") ? "text-brand-400" : "text-slate-400")}>
+                          {line || " "}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
                   <p className="text-xs text-slate-400 mb-2">{v.summary}</p>
+                  {v.changes?.length > 0 && (
+                    <ul className="mb-2 space-y-0.5">
+                      {v.changes.map((c: any, i: number) => (
+                        <li key={i} className={clsx("text-xs", c.breaking ? "text-red-300" : "text-slate-500")}>
+                          {c.breaking ? "⚠ " : "• "}
+                          {c.location && <span className="font-mono">{c.location}: </span>}
+                          {c.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <pre className="bg-surface-900 p-3 rounded-lg text-xs text-slate-300 overflow-x-auto">{v.content}</pre>
                 </div>
               ))}
@@ -229,6 +869,34 @@ export default function TasksTab({ roomId, tasks, members, userId, isAdmin, onRe
         </div>
       )}
 
+      {/* Create Task Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 w-full max-w-lg">
+            <h3 className="font-semibold text-white mb-4">New Task</h3>
+            <div className="space-y-3">
+              {taskError && <p className="text-xs text-red-400">{taskError}</p>}
+              <div>
+                <label className="text-xs text-slate-400 block mb-1">Title</label>
+                <input className="input" value={createData.title} onChange={(e) => setCreateData((d) => ({ ...d, title: e.target.value }))} />
+              </div>
+              <div>
+                <label className="text-xs text-slate-400 block mb-1">Description</label>
+                <textarea className="input text-sm resize-none" rows={4} value={createData.description} onChange={(e) => setCreateData((d) => ({ ...d, description: e.target.value }))} />
+              </div>
+              <div>
+                <label className="text-xs text-slate-400 block mb-1">Acceptance Criteria</label>
+                <textarea className="input text-sm resize-none" rows={4} value={createData.acceptanceCriteria} onChange={(e) => setCreateData((d) => ({ ...d, acceptanceCriteria: e.target.value }))} placeholder="One per line" />
+              </div>
+              <div className="flex gap-2 pt-1">
+                <button onClick={() => setShowCreate(false)} className="btn-ghost flex-1">Cancel</button>
+                <button onClick={createTask} className="btn-primary flex-1" disabled={!createData.title}>Create</button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Publish Modal */}
       {showPublish && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
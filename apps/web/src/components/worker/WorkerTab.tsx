@@ -1,8 +1,8 @@
 "use client";
 import { useState, useEffect, useRef, useCallback } from "react";
-import { messagesApi, tasksApi, contractsApi } from "../../lib/api";
+import { messagesApi, tasksApi, contractsApi, runsApi } from "../../lib/api";
 import { useSocket } from "../../hooks/useSocket";
-import { Send, Loader2, Lock, AlertOctagon, Share2, FileEdit, CheckCircle, Clock } from "lucide-react";
+import { Send, Loader2, Lock, AlertOctagon, Share2, FileEdit, CheckCircle, Clock, ShieldCheck } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import clsx from "clsx";
 
@@ -43,6 +43,9 @@ export default function WorkerTab({ roomId, userId, userName, tasks }: Props) {
   const [shareMode, setShareMode] = useState<string | null>(null);
   const [showMarkBlocked, setShowMarkBlocked] = useState<string | null>(null);
   const [blockedReason, setBlockedReason] = useState("");
+  const [pendingApprovals, setPendingApprovals] = useState<any[]>([]);
+  const [expandedDiff, setExpandedDiff] = useState<string | null>(null);
+  const [deciding, setDeciding] = useState<string | null>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const { on } = useSocket(roomId, userId);
 
@@ -75,10 +78,37 @@ export default function WorkerTab({ roomId, userId, userName, tasks }: Props) {
     return unsub;
   }, [on, userId]);
 
+  const fetchPendingApprovals = useCallback(async () => {
+    const r = await runsApi.list(roomId);
+    setPendingApprovals(r.data.filter((run: any) => run.status === "awaiting_approval" && run.userId === userId));
+  }, [roomId, userId]);
+
+  useEffect(() => {
+    fetchPendingApprovals().catch(console.error);
+    const unsub = on("event.new", (evt: any) => {
+      if (evt.type === "agent.run.updated" && evt.payload?.userId === userId) {
+        fetchPendingApprovals().catch(console.error);
+      }
+    });
+    return unsub;
+  }, [on, fetchPendingApprovals, userId]);
+
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  const decideRun = async (runId: string, decision: "approve" | "reject") => {
+    setDeciding(runId);
+    try {
+      await runsApi.decide(runId, decision);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setDeciding(null);
+      fetchPendingApprovals().catch(console.error);
+    }
+  };
+
   const send = async () => {
     if (!input.trim() || sending) return;
     const content = input.trim();
@@ -242,6 +272,32 @@ export default function WorkerTab({ roomId, userId, userName, tasks }: Props) {
           <div ref={bottomRef} />
         </div>
 
+        {pendingApprovals.length > 0 && (
+          <div className="px-4 py-2 border-t border-amber-500/20 bg-amber-500/5 space-y-2 flex-shrink-0">
+            {pendingApprovals.map((run) => (
+              <div key={run.id} className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="w-3.5 h-3.5 text-amber-300" />
+                  <span className="text-xs text-amber-200 truncate">
+                    Approval needed: {run.task?.title ?? "agent run"} ({run.targetFiles?.length ?? 0} file{run.targetFiles?.length === 1 ? "" : "s"})
+                  </span>
+                  <button
+                    onClick={() => setExpandedDiff(expandedDiff === run.id ? null : run.id)}
+                    className="text-xs text-slate-400 hover:text-white ml-auto"
+                  >
+                    {expandedDiff === run.id ? "Hide diff" : "View diff"}
+                  </button>
+                  <button onClick={() => decideRun(run.id, "reject")} className="btn-ghost text-xs py-1" disabled={deciding === run.id}>Reject</button>
+                  <button onClick={() => decideRun(run.id, "approve")} className="btn-primary text-xs py-1" disabled={deciding === run.id}>Approve</button>
+                </div>
+                {expandedDiff === run.id && (
+                  <pre className="bg-surface-900 p-3 rounded-lg text-xs text-slate-300 overflow-x-auto max-h-64">{run.diff || "(empty diff)"}</pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="px-4 py-3 border-t border-white/5 flex-shrink-0">
           <div className="flex gap-2">
             <input
@@ -52,11 +52,29 @@ export const roomsApi = {
   createInvite: (id: string) => api.post(`/rooms/${id}/invites`),
   getRepo: (id: string) => api.get(`/rooms/${id}/repo`),
   syncRepo: (id: string) => api.post(`/rooms/${id}/repo/sync`),
+  updateSettings: (id: string, settings: { agentApprovalMode?: "off" | "verify_only" | "always" }) =>
+    api.patch(`/rooms/${id}/settings`, settings),
+  suggestContractLinks: (id: string) => api.post(`/rooms/${id}/contract-links/suggest`),
 };
 
 // ─── Tasks ────────────────────────────────────────────────────────────────────
 export const tasksApi = {
   get: (id: string) => api.get(`/tasks/${id}`),
+  create: (roomId: string, data: { title: string; description?: string; acceptanceCriteria?: string; assignedUserId?: string; dependsOnTaskIds?: string[] }) =>
+    api.post(`/rooms/${roomId}/tasks`, data),
+  update: (id: string, data: { title?: string; description?: string; acceptanceCriteria?: string }) =>
+    api.patch(`/tasks/${id}`, data),
+  remove: (id: string) => api.delete(`/tasks/${id}`),
+  addDependency: (id: string, dependsOnTaskId: string) =>
+    api.post(`/tasks/${id}/dependencies`, { dependsOnTaskId }),
+  removeDependency: (id: string, dependsOnTaskId: string) =>
+    api.delete(`/tasks/${id}/dependencies/${dependsOnTaskId}`),
+  linkContract: (id: string, contractId: string, dependencyType: string, versionRange?: string | null) =>
+    api.post(`/tasks/${id}/contracts`, { contractId, dependencyType, versionRange }),
+  updateContractLink: (id: string, contractId: string, data: { dependencyType?: string; versionRange?: string | null }) =>
+    api.patch(`/tasks/${id}/contracts/${contractId}`, data),
+  unlinkContract: (id: string, contractId: string) =>
+    api.delete(`/tasks/${id}/contracts/${contractId}`),
   assign: (id: string, assignedUserId: string) =>
     api.post(`/tasks/${id}/assign`, { assignedUserId }),
   updateStatus: (id: string, status: string, blockedReason?: string) =>
@@ -70,6 +88,44 @@ export const contractsApi = {
     api.post(`/contracts/${id}/propose`, data),
   publish: (id: string, data: { summary: string; breaking: boolean; content: string }) =>
     api.post(`/contracts/${id}/publish`, data),
+  updateSettings: (id: string, settings: { compatibilityMode?: "none" | "backward" | "forward" | "full" }) =>
+    api.patch(`/contracts/${id}/settings`, settings),
+  diff: (id: string, from?: number, to?: number) =>
+    api.get(`/contracts/${id}/diff`, { params: { from, to } }),
+  rollback: (id: string, data: { version: number; reason?: string }) =>
+    api.post(`/contracts/${id}/rollback`, data),
+  deprecate: (id: string, data: { sunsetAt?: string | null; note?: string }) =>
+    api.put(`/contracts/${id}/deprecation`, data),
+  undeprecate: (id: string) => api.delete(`/contracts/${id}/deprecation`),
+  mockUsage: (roomId: string, id: string) => api.get(`/rooms/${roomId}/contracts/${id}/mock-usage`),
+  listProposals: (id: string, status?: string) =>
+    api.get(`/contracts/${id}/proposals`, { params: status ? { status } : {} }),
+  getProposal: (proposalId: string) => api.get(`/contracts/proposals/${proposalId}`),
+  commentOnProposal: (proposalId: string, data: { content: string; parentId?: string }) =>
+    api.post(`/contracts/proposals/${proposalId}/comments`, data),
+  reviewProposal: (proposalId: string, data: { decision: "approved" | "changes_requested"; comment?: string }) =>
+    api.post(`/contracts/proposals/${proposalId}/reviews`, data),
+  approveProposal: (proposalId: string, note?: string) =>
+    api.post(`/contracts/proposals/${proposalId}/approve`, { note }),
+  rejectProposal: (proposalId: string, reason?: string) =>
+    api.post(`/contracts/proposals/${proposalId}/reject`, { reason }),
+};
+
+// ─── Agent Runs ───────────────────────────────────────────────────────────────
+export const runsApi = {
+  list: (roomId: string, taskId?: string) =>
+    api.get(`/rooms/${roomId}/runs`, { params: { taskId } }),
+  get: (runId: string) => api.get(`/runs/${runId}`),
+  decide: (runId: string, decision: "approve" | "reject", note?: string) =>
+    api.post(`/runs/${runId}/approval`, { decision, note }),
+};
+
+// ─── Merge Requests ───────────────────────────────────────────────────────────
+export const mergeRequestsApi = {
+  list: (roomId: string, taskId?: string) =>
+    api.get(`/rooms/${roomId}/merge-requests`, { params: { taskId } }),
+  merge: (mergeRequestId: string) => api.post(`/merge-requests/${mergeRequestId}/merge`),
+  close: (mergeRequestId: string) => api.post(`/merge-requests/${mergeRequestId}/close`),
 };
 
 // ─── Messages ─────────────────────────────────────────────────────────────────
@@ -13,6 +13,24 @@ export interface TaskStatusUpdatedPayload {
   blockedReason?: string;
 }
 
+export interface TaskDeletedPayload {
+  taskId: string;
+  taskTitle: string;
+}
+
+export interface TaskContractsUpdatedPayload {
+  taskId: string;
+  taskTitle: string;
+  contractId: string;
+  contractName: string;
+  dependencyType: string | null;
+  versionRange: string | null;
+}
+
+export interface MasterContractLinksSuggestedPayload {
+  suggestions: import("./types").ContractLinkSuggestion[];
+}
+
 export interface WorkerProgressUpdatedPayload {
   taskId: string;
   summary: string;
@@ -28,25 +46,93 @@ export interface WorkerBlockedPayload {
 export interface ContractProposedChangePayload {
   contractId: string;
   contractName: string;
+  proposalId: string;
   proposedByUserId: string;
   proposedByName: string;
   breaking: boolean;
   summary: string;
   proposedContent: string;
+  requiredReviewerIds: string[];
+}
+
+export interface ContractProposalReviewRequestedPayload {
+  proposalId: string;
+  contractId: string;
+  contractName: string;
+  proposedByName: string;
+  summary: string;
+  breaking: boolean;
+}
+
+export interface ContractProposalUpdatedPayload {
+  proposalId: string;
+  contractId: string;
+  contractName: string;
+  status: import("./types").ContractProposalStatus;
+  action: "proposed" | "commented" | "reviewed" | "approved" | "rejected" | "superseded";
+  actorUserId: string | null;
+  actorName: string | null;
 }
 
 export interface ContractPublishedPayload {
   contractId: string;
   contractName: string;
   contractVersionId: string;
+  semver: string;
   breaking: boolean;
   summary: string;
 }
 
+export interface ContractRolledBackPayload {
+  contractId: string;
+  contractName: string;
+  fromVersionId: string;
+  fromVersion: number;
+  fromSemver: string;
+  toVersionId: string;
+  toVersion: number;
+  toSemver: string;
+  breaking: boolean;
+  reason: string | null;
+}
+
+export interface ContractDeprecationUpdatedPayload {
+  contractId: string;
+  contractName: string;
+  deprecated: boolean;
+  sunsetAt: string | null;
+  note: string | null;
+}
+
+export interface ContractSettingsUpdatedPayload {
+  contractId: string;
+  contractName: string;
+  compatibilityMode: import("./types").CompatibilityMode;
+}
+
+export interface ContractArtifactsSyncedPayload {
+  committed: boolean;
+  commitSha: string | null;
+  pushed: boolean;
+  pushError: string | null;
+  error: string | null;
+  contracts: {
+    contractId: string;
+    contractName: string;
+    version: number;
+    semver: string;
+    directory: string;
+    generationError: string | null;
+  }[];
+}
+
 export interface MasterImpactAlertPayload {
   contractId: string;
   contractName: string;
+  semver: string;
   impactedTaskIds: string[];
+  // Impacted tasks whose pinned range no longer covers the new version; the rest are only informed.
+  blockedTaskIds: string[];
   summary: string;
   recommendedActions: string[];
 }
@@ -73,6 +159,35 @@ export interface MasterDigestPayload {
   }[];
 }
 
+export interface AgentRunUpdatedPayload {
+  runId: string;
+  taskId: string;
+  taskTitle: string;
+  userId: string;
+  status: string;
+  outcome?: string;
+}
+
+export interface AgentRunStepPayload {
+  runId: string;
+  stepId: string;
+  taskId: string;
+  phase: string;
+  status: string;
+  summary: string;
+  durationMs: number;
+}
+
+export interface MergeRequestUpdatedPayload {
+  mergeRequestId: string;
+  taskId: string;
+  taskTitle: string;
+  sourceBranch: string;
+  targetBranch: string;
+  status: string;
+  conflictFiles: string[];
+}
+
 export interface NotebookEntryAddedPayload {
   entryId: string;
   category: string;
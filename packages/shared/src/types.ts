@@ -4,9 +4,18 @@ export type MembershipRole = "owner" | "admin" | "collaborator";
 export type AgentType = "master" | "worker";
 export type TaskStatus = "todo" | "in_progress" | "blocked" | "review" | "done";
 export type ContractType = "openapi" | "typescript" | "protobuf" | "jsonschema" | "other";
+export type CompatibilityMode = "none" | "backward" | "forward" | "full";
+export type ContractProposalStatus = "open" | "approved" | "rejected" | "superseded";
+export type ContractReviewDecision = "approved" | "changes_requested";
 export type DependencyType = "consumes" | "produces" | "modifies";
 export type MessageChannel = "master" | "worker";
 export type EventVisibility = "global" | "user";
+export type AgentApprovalMode = "off" | "verify_only" | "always";
+export type AgentRunStatus = "running" | "awaiting_approval" | "succeeded" | "blocked" | "failed" | "skipped" | "rejected";
+export type AgentRunPhase = "plan" | "target_selection" | "tool_call" | "patch_apply" | "verification" | "conformance" | "approval" | "commit" | "push";
+export type AgentRunStepStatus = "succeeded" | "failed" | "skipped";
+export type MergeRequestStatus = "open" | "conflicted" | "merged" | "closed";
+export type AcceptanceCriterionStatus = "passed" | "failed" | "untested";
 export type EntryCategory =
   | "decision"
   | "contract_change"
@@ -28,6 +37,7 @@ export interface Room {
   id: string;
   title: string;
   goal: string;
+  agentApprovalMode: AgentApprovalMode;
   createdAt: string;
 }
 
@@ -49,6 +59,9 @@ export interface Task {
   status: TaskStatus;
   assignedUserId: string | null;
   blockedReason: string | null;
+  // From the last agentic pass that ran the task's criterion tests; cleared when the criteria change.
+  acceptanceResults: AcceptanceCriterionResult[] | null;
+  acceptanceCheckedAt: string | null;
   createdAt: string;
   updatedAt: string;
   assignedUser?: User;
@@ -57,6 +70,15 @@ export interface Task {
   contractDeps?: TaskContractDependency[];
 }
 
+export interface AcceptanceCriterionResult {
+  id: string; // AC1, AC2, … in the order of the acceptance criteria lines
+  criterion: string;
+  status: AcceptanceCriterionStatus;
+  test: string | null;
+  command: string | null;
+  detail: string | null; // output tail when failed, or why it is untested
+}
+
 export interface TaskDependency {
   id: string;
   roomId: string;
@@ -69,7 +91,11 @@ export interface Contract {
   roomId: string;
   name: string;
   type: ContractType;
+  compatibilityMode: CompatibilityMode;
   currentVersionId: string | null;
+  deprecatedAt: string | null;
+  sunsetAt: string | null;
+  deprecationNote: string | null;
   createdAt: string;
   versions?: ContractVersion[];
 }
@@ -78,10 +104,91 @@ export interface ContractVersion {
   id: string;
   contractId: string;
   version: number;
+  semver: string | null; // null on versions published before semver; read as `<version>.0.0`
   content: string;
   summary: string;
   breaking: boolean;
+  changes: ContractChange[];
+  createdAt: string;
+}
+
+export interface ContractChange {
+  kind: string;
+  location: string;
+  message: string;
+  breaking: boolean;
+}
+
+export interface ContractProposal {
+  id: string;
+  roomId: string;
+  contractId: string;
+  proposedByUserId: string;
+  baseVersionId: string | null;
+  summary: string;
+  content: string;
+  breaking: boolean;
+  status: ContractProposalStatus;
+  requiredReviewerIds: string[];
+  approvedReviewerIds: string[];
+  pendingReviewerIds: string[];
+  changesRequestedBy: string[];
+  decidedByUserId: string | null;
+  decisionNote: string | null;
+  publishedVersionId: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+  comments?: ContractProposalComment[];
+  reviews?: ContractProposalReview[];
+  diff?: ContractProposalDiff;
+}
+
+export interface ContractProposalComment {
+  id: string;
+  proposalId: string;
+  authorUserId: string;
+  parentId: string | null;
+  content: string;
   createdAt: string;
+  author?: Pick<User, "id" | "name">;
+}
+
+export interface ContractProposalReview {
+  id: string;
+  proposalId: string;
+  reviewerUserId: string;
+  decision: ContractReviewDecision;
+  updatedAt: string;
+  reviewer?: Pick<User, "id" | "name">;
+}
+
+export interface ContractVersionDiff {
+  from: { id: string; version: number } | null; // null when `to` has no earlier version
+  to: { id: string; version: number };
+  changes: ContractChange[];
+  breaking: boolean;
+  parseError: string | null;
+  textDiff: string;
+}
+
+// Diff of a proposal against the contract's current version, computed on read.
+export interface ContractProposalDiff {
+  currentVersionId: string | null;
+  currentVersion: number | null;
+  stale: boolean;
+  changes: ContractChange[];
+  breaking: boolean;
+  parseError: string | null;
+  textDiff: string;
+}
+
+// Calls made against the mock of an OpenAPI contract over the last week, per operation.
+export interface ContractMockUsage {
+  operation: string | null; // null for requests that matched no operation
+  calls: number;
+  invalidCalls: number;
+  lastCalledAt: string;
+  consumers: Array<{ userId: string; userName: string | null; taskId: string | null; taskTitle: string | null; calls: number }>;
 }
 
 export interface TaskContractDependency {
@@ -89,6 +196,7 @@ export interface TaskContractDependency {
   taskId: string;
   contractId: string;
   dependencyType: DependencyType;
+  versionRange: string | null;
 }
 
 export interface Message {
@@ -129,6 +237,51 @@ export interface NotebookEntry {
   createdAt: string;
 }
 
+export interface AgentRunStep {
+  id: string;
+  runId: string;
+  phase: AgentRunPhase;
+  status: AgentRunStepStatus;
+  summary: string;
+  detail: Record<string, unknown>;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
+
+export interface AgentRun {
+  id: string;
+  roomId: string;
+  taskId: string | null;
+  userId: string;
+  status: AgentRunStatus;
+  plan: string[];
+  targetFiles: string[];
+  applyMode: string | null;
+  commitSha: string | null;
+  diff: string | null;
+  outcome: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  steps?: AgentRunStep[];
+}
+
+export interface MergeRequest {
+  id: string;
+  roomId: string;
+  taskId: string;
+  sourceBranch: string;
+  targetBranch: string;
+  status: MergeRequestStatus;
+  headSha: string | null;
+  mergeSha: string | null;
+  conflictFiles: string[];
+  mergedByUserId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+}
+
 // ─── API DTOs ─────────────────────────────────────────────────────────────────
 
 export interface RoomDetail extends Room {
@@ -143,10 +296,34 @@ export interface CreateRoomDto {
   goal: string;
 }
 
+export interface CreateTaskDto {
+  title: string;
+  description?: string;
+  acceptanceCriteria?: string | string[];
+  assignedUserId?: string;
+  dependsOnTaskIds?: string[];
+}
+
+export interface UpdateTaskDto {
+  title?: string;
+  description?: string;
+  acceptanceCriteria?: string | string[];
+}
+
+export interface AddTaskDependencyDto {
+  dependsOnTaskId: string;
+}
+
 export interface AssignTaskDto {
   assignedUserId: string;
 }
 
+export interface TaskContractLinkDto {
+  contractId: string;
+  dependencyType: DependencyType;
+  versionRange?: string | null;
+}
+
 export interface UpdateTaskStatusDto {
   status: TaskStatus;
   blockedReason?: string;
@@ -164,6 +341,30 @@ export interface PublishContractDto {
   content: string;
 }
 
+export interface ContractProposalCommentDto {
+  content: string;
+  parentId?: string;
+}
+
+export interface ContractProposalReviewDto {
+  decision: ContractReviewDecision;
+  comment?: string;
+}
+
+export interface RollbackContractDto {
+  version: number;
+  reason?: string;
+}
+
+export interface DeprecateContractDto {
+  sunsetAt?: string | null;
+  note?: string;
+}
+
+export interface UpdateContractSettingsDto {
+  compatibilityMode?: CompatibilityMode;
+}
+
 export interface SendMessageDto {
   content: string;
   sharedFromMessageId?: string;
@@ -195,5 +396,19 @@ export interface MasterPlanOutput {
     initialContent: string;
     summary: string;
   }[];
+  contractLinks?: {
+    taskTitle: string;
+    contractName: string;
+    dependencyType: DependencyType;
+  }[];
   notesForNotebook: string;
 }
+
+export interface ContractLinkSuggestion {
+  taskId: string;
+  taskTitle: string;
+  contractId: string;
+  contractName: string;
+  dependencyType: DependencyType;
+  reason: string;
+}